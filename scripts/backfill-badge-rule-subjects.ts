@@ -0,0 +1,42 @@
+#!/usr/bin/env tsx
+/**
+ * Record every student known to the auth service as a badge rule subject
+ * Scheduled rule runs and dry runs only evaluate recorded subjects, which are otherwise added
+ * as students edit their profiles; run this once when enabling rule badges, then as needed
+ * Needs BACKFILL_AUTH_TOKEN, a service token allowed to list users
+ * --college <id> limits the backfill to one college
+ */
+
+import { config } from 'dotenv';
+import { prisma } from '../src/db.js';
+import { BadgeRuleService } from '../src/services/BadgeRuleService.js';
+
+config();
+
+async function backfillBadgeRuleSubjects() {
+  const args = process.argv.slice(2);
+  const collegeIndex = args.indexOf('--college');
+  const collegeId = collegeIndex >= 0 ? args[collegeIndex + 1] : undefined;
+  const token = process.env.BACKFILL_AUTH_TOKEN;
+
+  if (!token) {
+    console.error('❌ BACKFILL_AUTH_TOKEN is not set');
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(`🔍 Recording badge rule subjects${collegeId ? ` for college ${collegeId}` : ''}...`);
+  const startTime = Date.now();
+
+  try {
+    const added = await BadgeRuleService.backfillSubjects(`Bearer ${token}`, collegeId);
+    console.log(`✅ Added ${added} students in ${Date.now() - startTime}ms`);
+  } catch (error) {
+    console.error('❌ Backfill failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+backfillBadgeRuleSubjects();
@@ -0,0 +1,89 @@
+#!/usr/bin/env tsx
+/**
+ * Rewrite existing profile skills to canonical catalogue names
+ * --seed    add a starter catalogue of common skills and aliases first (existing entries are left alone)
+ * --dry-run report how many profiles would change without writing
+ */
+
+import { config } from 'dotenv';
+import { prisma } from '../src/db.js';
+import { SkillTaxonomyService, SkillInput } from '../src/services/SkillTaxonomyService.js';
+
+config();
+
+const STARTER_CATALOGUE: SkillInput[] = [
+  { name: 'JavaScript', category: 'LANGUAGE', aliases: ['JS', 'ECMAScript', 'ES6'] },
+  { name: 'TypeScript', category: 'LANGUAGE', aliases: ['TS'] },
+  { name: 'Python', category: 'LANGUAGE', aliases: ['Py', 'Python3'] },
+  { name: 'Java', category: 'LANGUAGE' },
+  { name: 'C++', category: 'LANGUAGE', aliases: ['CPP'] },
+  { name: 'C#', category: 'LANGUAGE', aliases: ['CSharp'] },
+  { name: 'Go', category: 'LANGUAGE', aliases: ['Golang'] },
+  { name: 'SQL', category: 'LANGUAGE' },
+  { name: 'React', category: 'FRAMEWORK', aliases: ['ReactJS', 'React.js'] },
+  { name: 'Angular', category: 'FRAMEWORK', aliases: ['AngularJS'] },
+  { name: 'Vue.js', category: 'FRAMEWORK', aliases: ['Vue', 'VueJS'] },
+  { name: 'Node.js', category: 'FRAMEWORK', aliases: ['Node'] },
+  { name: 'Express', category: 'FRAMEWORK', aliases: ['Express.js', 'ExpressJS'] },
+  { name: 'Django', category: 'FRAMEWORK' },
+  { name: 'Spring Boot', category: 'FRAMEWORK', aliases: ['Spring'] },
+  { name: 'TensorFlow', category: 'LIBRARY', aliases: ['TF'] },
+  { name: 'PyTorch', category: 'LIBRARY', aliases: ['Torch'] },
+  { name: 'PostgreSQL', category: 'DATABASE', aliases: ['Postgres', 'psql'] },
+  { name: 'MongoDB', category: 'DATABASE', aliases: ['Mongo'] },
+  { name: 'MySQL', category: 'DATABASE' },
+  { name: 'Amazon Web Services', category: 'CLOUD', aliases: ['AWS'] },
+  { name: 'Google Cloud Platform', category: 'CLOUD', aliases: ['GCP', 'Google Cloud'] },
+  { name: 'Microsoft Azure', category: 'CLOUD', aliases: ['Azure'] },
+  { name: 'Docker', category: 'DEVOPS' },
+  { name: 'Kubernetes', category: 'DEVOPS', aliases: ['K8s'] },
+  { name: 'Git', category: 'TOOL', aliases: ['Version Control'] },
+  { name: 'Machine Learning', category: 'DOMAIN', aliases: ['ML'] },
+  { name: 'Artificial Intelligence', category: 'DOMAIN', aliases: ['AI'] },
+  { name: 'Deep Learning', category: 'DOMAIN', aliases: ['DL'] },
+  { name: 'Natural Language Processing', category: 'DOMAIN', aliases: ['NLP'] },
+  { name: 'Data Structures and Algorithms', category: 'DOMAIN', aliases: ['DSA', 'Data Structures', 'Algorithms'] },
+  { name: 'Communication', category: 'SOFT_SKILL', aliases: ['Communication Skills'] },
+  { name: 'Leadership', category: 'SOFT_SKILL' },
+  { name: 'Teamwork', category: 'SOFT_SKILL', aliases: ['Team Work', 'Collaboration'] }
+];
+
+async function seedCatalogue() {
+  let created = 0;
+
+  for (const skill of STARTER_CATALOGUE) {
+    try {
+      await SkillTaxonomyService.createSkill(skill, 'system');
+      created++;
+    } catch (error) {
+      console.log(`   ℹ️  Skipping ${skill.name}: ${(error as Error).message}`);
+    }
+  }
+
+  console.log(`✅ Seeded ${created} catalogue skills`);
+}
+
+async function backfillSkillTaxonomy() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+
+  try {
+    if (args.includes('--seed')) {
+      console.log('🌱 Seeding starter skill catalogue...');
+      await seedCatalogue();
+    }
+
+    console.log(`🔍 Rewriting profile skills to canonical names${dryRun ? ' (dry run)' : ''}...`);
+    const startTime = Date.now();
+    const result = await SkillTaxonomyService.rewriteProfiles(undefined, { dryRun });
+
+    console.log(`✅ Scanned ${result.scanned} profiles, ${dryRun ? 'would update' : 'updated'} ${result.updated} in ${Date.now() - startTime}ms`);
+  } catch (error) {
+    console.error('❌ Skill backfill failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+backfillSkillTaxonomy();
@@ -0,0 +1,49 @@
+#!/usr/bin/env tsx
+/**
+ * Rebuild the full-text profile search index
+ * Run as a deploy step whenever the search document format changes; the service only builds an
+ * empty index on its own (without membership), it never rebuilds stale documents
+ * Set REINDEX_AUTH_TOKEN to a service token to also fill college, department and year from the
+ * auth service; without it, membership is filled as users edit their profiles or appear in results
+ */
+
+import { config } from 'dotenv';
+import { prisma } from '../src/db.js';
+import { AuthServiceClient } from '../src/utils/AuthServiceClient.js';
+import { ProfileSearchService, SearchMembership } from '../src/services/ProfileSearchService.js';
+
+config();
+
+async function resolveMemberships(userIds: string[]): Promise<Map<string, SearchMembership>> {
+  const memberships = new Map<string, SearchMembership>();
+  const token = process.env.REINDEX_AUTH_TOKEN;
+  if (!token) return memberships;
+
+  const users = await AuthServiceClient.getUsersBatch(userIds, `Bearer ${token}`);
+  for (const [userId, user] of users) {
+    memberships.set(userId, {
+      collegeId: user.collegeId ?? null,
+      department: user.department ?? null,
+      year: user.year ?? null
+    });
+  }
+
+  return memberships;
+}
+
+async function reindexProfileSearch() {
+  console.log('🔍 Rebuilding profile search index...');
+  const startTime = Date.now();
+
+  try {
+    const indexed = await ProfileSearchService.reindexAll(resolveMemberships);
+    console.log(`✅ Indexed ${indexed} profiles in ${Date.now() - startTime}ms`);
+  } catch (error) {
+    console.error('❌ Reindex failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+reindexProfileSearch();
@@ -167,7 +167,8 @@ export class DeptAdminController {
       const result = await AdminProfileService.bulkOperation(
         departmentScopedOperation,
         adminRequest.admin.collegeId,
-        adminRequest.admin.id
+        adminRequest.admin.id,
+        adminRequest.admin.department
       );
 
       await logAdminAction(
@@ -311,6 +312,55 @@ export class DeptAdminController {
     }
   }
 
+  /**
+   * Revoke a badge award from a student in department
+   */
+  static async revokeBadge(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const adminRequest = request as AdminRequest;
+      const { awardId } = request.params as { awardId: string };
+      const { reason } = request.body as { reason: string };
+
+      const result = await AdminBadgeService.revokeBadge(
+        awardId,
+        reason,
+        adminRequest.admin.id,
+        adminRequest.admin.collegeId,
+        {
+          revokedByName: adminRequest.admin.displayName,
+          department: adminRequest.admin.department,
+          authHeader: request.headers.authorization
+        }
+      );
+
+      await logBadgeAction(
+        request,
+        'REVOKE_BADGE',
+        result.revocation.badgeId,
+        {
+          awardId,
+          studentId: result.revocation.studentId,
+          reason,
+          scope: 'DEPARTMENT'
+        }
+      );
+
+      const response: AdminResponse = {
+        success: true,
+        data: result.revocation,
+        message: 'Badge revoked successfully'
+      };
+
+      return reply.send(response);
+    } catch (error) {
+      const response: AdminResponse = {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to revoke badge'
+      };
+      return reply.status(400).send(response);
+    }
+  }
+
   /**
    * Get department analytics
    */
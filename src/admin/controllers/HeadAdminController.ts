@@ -293,6 +293,79 @@ export class HeadAdminController {
     }
   }
 
+  /**
+   * Revoke a badge award from a student
+   */
+  static async revokeBadge(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const adminRequest = request as AdminRequest;
+      const { awardId } = request.params as { awardId: string };
+      const { reason } = request.body as { reason: string };
+
+      const result = await AdminBadgeService.revokeBadge(
+        awardId,
+        reason,
+        adminRequest.admin.id,
+        adminRequest.admin.collegeId,
+        {
+          revokedByName: adminRequest.admin.displayName,
+          authHeader: request.headers.authorization
+        }
+      );
+
+      await logBadgeAction(
+        request,
+        'REVOKE_BADGE',
+        result.revocation.badgeId,
+        {
+          awardId,
+          studentId: result.revocation.studentId,
+          reason
+        }
+      );
+
+      const response: AdminResponse = {
+        success: true,
+        data: result.revocation,
+        message: 'Badge revoked successfully'
+      };
+
+      return reply.send(response);
+    } catch (error) {
+      const response: AdminResponse = {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to revoke badge'
+      };
+      return reply.status(400).send(response);
+    }
+  }
+
+  /**
+   * Preview which students a badge rule would award automatically
+   */
+  static async dryRunBadgeRule(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const adminRequest = request as AdminRequest;
+      const options = request.body as { badgeId?: string; criteria?: string; limit?: number };
+
+      const result = await AdminBadgeService.dryRunBadgeRule(options, adminRequest.admin.collegeId);
+
+      const response: AdminResponse = {
+        success: true,
+        data: result,
+        message: `${result.wouldAward} students would be awarded`
+      };
+
+      return reply.send(response);
+    } catch (error) {
+      const response: AdminResponse = {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to evaluate badge rule'
+      };
+      return reply.status(400).send(response);
+    }
+  }
+
   /**
    * Get badge leaderboard
    */
@@ -0,0 +1,168 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { AdminRequest } from '../middleware/adminAuth';
+import { logAdminAction, logModerationAction } from '../middleware/auditLogger';
+import { AdminResponse } from '../types/adminTypes';
+import {
+  ProfileModerationService,
+  ModerationScope,
+  ModerationStatus,
+  ModerationContentType
+} from '../../services/ProfileModerationService.js';
+
+export class ModerationAdminController {
+  /**
+   * Get moderation queue for admin's college (department-scoped for DEPT_ADMIN)
+   */
+  static async getQueue(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const adminRequest = request as AdminRequest;
+      const query = request.query as {
+        status?: ModerationStatus;
+        contentType?: ModerationContentType;
+        department?: string;
+        mine?: boolean;
+        page: number;
+        limit: number;
+      };
+
+      const result = await ProfileModerationService.getQueue(
+        ModerationAdminController.getScope(adminRequest),
+        {
+          status: query.status,
+          contentType: query.contentType,
+          department: query.department,
+          moderatorId: query.mine ? adminRequest.admin.id : undefined
+        },
+        { page: query.page || 1, limit: query.limit || 50 }
+      );
+
+      const response: AdminResponse = {
+        success: true,
+        data: result.items,
+        pagination: result.pagination
+      };
+
+      return reply.send(response);
+    } catch (error) {
+      const response: AdminResponse = {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to fetch moderation queue'
+      };
+      return reply.status(500).send(response);
+    }
+  }
+
+  /**
+   * Claim a pending content item for review
+   */
+  static async claimContent(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const adminRequest = request as AdminRequest;
+      const { contentId } = request.params as { contentId: string };
+
+      const entry = await ProfileModerationService.claim(
+        contentId,
+        ModerationAdminController.getScope(adminRequest)
+      );
+
+      await logAdminAction(request, 'CLAIM_CONTENT', entry.contentType, contentId, {
+        moderationId: entry.id,
+        ownerId: entry.userId
+      });
+
+      const response: AdminResponse = {
+        success: true,
+        data: entry,
+        message: 'Content claimed for review'
+      };
+
+      return reply.send(response);
+    } catch (error) {
+      const response: AdminResponse = {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to claim content'
+      };
+      return reply.status(400).send(response);
+    }
+  }
+
+  /**
+   * Approve a single content item
+   */
+  static async approveContent(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const adminRequest = request as AdminRequest;
+      const { contentId } = request.params as { contentId: string };
+      const { reason } = (request.body || {}) as { reason?: string };
+
+      const entry = await ProfileModerationService.decide(
+        contentId,
+        'APPROVED',
+        ModerationAdminController.getScope(adminRequest),
+        reason
+      );
+
+      await logModerationAction(request, 'APPROVE_CONTENT', entry.contentType, contentId, reason);
+
+      const response: AdminResponse = {
+        success: true,
+        data: entry,
+        message: 'Content approved'
+      };
+
+      return reply.send(response);
+    } catch (error) {
+      const response: AdminResponse = {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to approve content'
+      };
+      return reply.status(400).send(response);
+    }
+  }
+
+  /**
+   * Reject a single content item
+   */
+  static async rejectContent(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const adminRequest = request as AdminRequest;
+      const { contentId } = request.params as { contentId: string };
+      const { reason } = request.body as { reason: string };
+
+      const entry = await ProfileModerationService.decide(
+        contentId,
+        'REJECTED',
+        ModerationAdminController.getScope(adminRequest),
+        reason
+      );
+
+      await logModerationAction(request, 'REJECT_CONTENT', entry.contentType, contentId, reason);
+
+      const response: AdminResponse = {
+        success: true,
+        data: entry,
+        message: 'Content rejected'
+      };
+
+      return reply.send(response);
+    } catch (error) {
+      const response: AdminResponse = {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to reject content'
+      };
+      return reply.status(400).send(response);
+    }
+  }
+
+  // Private helper methods
+  private static getScope(adminRequest: AdminRequest): ModerationScope {
+    const { admin } = adminRequest;
+    const isCollegeWide = admin.roles.some(role => ['HEAD_ADMIN', 'SUPER_ADMIN'].includes(role));
+
+    return {
+      moderatorId: admin.id,
+      collegeId: admin.collegeId,
+      department: isCollegeWide ? undefined : admin.department
+    };
+  }
+}
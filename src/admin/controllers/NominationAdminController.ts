@@ -0,0 +1,135 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { AdminRequest } from '../middleware/adminAuth';
+import { logAdminAction } from '../middleware/auditLogger';
+import { AdminResponse } from '../types/adminTypes';
+import {
+  BadgeNominationService,
+  NominationReviewScope,
+  NominationStatus
+} from '../../services/BadgeNominationService.js';
+
+export class NominationAdminController {
+  /**
+   * Get badge nominations for admin's college (department-scoped for DEPT_ADMIN)
+   */
+  static async getQueue(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const adminRequest = request as AdminRequest;
+      const query = request.query as {
+        status?: NominationStatus;
+        badgeId?: string;
+        page: number;
+        limit: number;
+      };
+
+      const result = await BadgeNominationService.getQueue(
+        NominationAdminController.getScope(adminRequest),
+        { status: query.status, badgeId: query.badgeId },
+        { page: query.page || 1, limit: query.limit || 50 }
+      );
+
+      const response: AdminResponse = {
+        success: true,
+        data: result.items,
+        pagination: result.pagination
+      };
+
+      return reply.send(response);
+    } catch (error) {
+      const response: AdminResponse = {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to fetch nominations'
+      };
+      return reply.status(500).send(response);
+    }
+  }
+
+  /**
+   * Approve a nomination, awarding the badge to the nominee
+   */
+  static async approveNomination(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const adminRequest = request as AdminRequest;
+      const { nominationId } = request.params as { nominationId: string };
+      const { note, level } = (request.body || {}) as { note?: string; level?: number };
+
+      const nomination = await BadgeNominationService.approve(
+        nominationId,
+        NominationAdminController.getScope(adminRequest),
+        { note, level },
+        request.headers.authorization
+      );
+
+      await logAdminAction(request, 'APPROVE_NOMINATION', 'BADGE_NOMINATION', nominationId, {
+        badgeId: nomination.badgeId,
+        nomineeId: nomination.nomineeId,
+        awardId: nomination.awardId,
+        note
+      });
+
+      const response: AdminResponse = {
+        success: true,
+        data: nomination,
+        message: 'Nomination approved and badge awarded'
+      };
+
+      return reply.send(response);
+    } catch (error) {
+      const response: AdminResponse = {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to approve nomination'
+      };
+      return reply.status(400).send(response);
+    }
+  }
+
+  /**
+   * Reject a nomination with a reason shown to the nominator
+   */
+  static async rejectNomination(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const adminRequest = request as AdminRequest;
+      const { nominationId } = request.params as { nominationId: string };
+      const { reason } = request.body as { reason: string };
+
+      const nomination = await BadgeNominationService.reject(
+        nominationId,
+        NominationAdminController.getScope(adminRequest),
+        reason
+      );
+
+      await logAdminAction(request, 'REJECT_NOMINATION', 'BADGE_NOMINATION', nominationId, {
+        badgeId: nomination.badgeId,
+        nomineeId: nomination.nomineeId,
+        reason
+      });
+
+      const response: AdminResponse = {
+        success: true,
+        data: nomination,
+        message: 'Nomination rejected'
+      };
+
+      return reply.send(response);
+    } catch (error) {
+      const response: AdminResponse = {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to reject nomination'
+      };
+      return reply.status(400).send(response);
+    }
+  }
+
+  // Private helper methods
+  private static getScope(adminRequest: AdminRequest): NominationReviewScope {
+    const { admin } = adminRequest;
+    const isCollegeWide = admin.roles.some(role => ['HEAD_ADMIN', 'SUPER_ADMIN'].includes(role));
+
+    return {
+      reviewerId: admin.id,
+      reviewerName: admin.displayName,
+      collegeId: admin.collegeId,
+      department: isCollegeWide ? undefined : admin.department
+    };
+  }
+}
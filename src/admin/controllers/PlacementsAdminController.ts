@@ -4,6 +4,8 @@ import { AdminProfileService } from '../services/AdminProfileService';
 import { AdminBadgeService } from '../services/AdminBadgeService';
 import { AdminAnalyticsService } from '../services/AdminAnalyticsService';
 import { logAdminAction, logBadgeAction } from '../middleware/auditLogger';
+import { getPlacementScopedWhere } from '../middleware/collegeScope';
+import { SkillEndorsementService, SkillSignals } from '../../services/SkillEndorsementService.js';
 import { 
   ProfileUpdateRequest, 
   BadgeAwardRequest,
@@ -63,7 +65,7 @@ export class PlacementsAdminController {
       const adminRequest = request as AdminRequest;
       const query = request.query as any;
 
-      const filters: ProfileFilters = {
+      const filters: ProfileFilters = getPlacementScopedWhere(request, {
         departments: query.departments,
         years: query.years,
         skills: query.skills,
@@ -74,7 +76,7 @@ export class PlacementsAdminController {
         search: query.search,
         createdAfter: query.createdAfter,
         createdBefore: query.createdBefore
-      };
+      });
 
       const pagination: PaginationParams = {
         page: query.page || 1,
@@ -92,10 +94,13 @@ export class PlacementsAdminController {
       );
 
       // Enhance with placement readiness scores
+      const skillSignals = await SkillEndorsementService.getSkillSignals(
+        result.profiles.map(profile => profile.userId)
+      );
       const enhancedProfiles = result.profiles.map(profile => ({
         ...profile,
-        placementScore: this.calculatePlacementScore(profile),
-        placementRecommendations: this.getPlacementRecommendations(profile)
+        placementScore: PlacementsAdminController.calculatePlacementScore(profile, skillSignals.get(profile.userId)),
+        placementRecommendations: PlacementsAdminController.getPlacementRecommendations(profile)
       }));
 
       const response: AdminResponse = {
@@ -335,7 +340,9 @@ export class PlacementsAdminController {
         summary: {
           totalStudents: filteredStudents.length,
           readyStudents: filteredStudents.filter(s => s.placementScore >= 70).length,
-          averageScore: filteredStudents.reduce((sum, s) => sum + s.placementScore, 0) / filteredStudents.length,
+          averageScore: filteredStudents.length > 0
+            ? filteredStudents.reduce((sum, s) => sum + s.placementScore, 0) / filteredStudents.length
+            : 0,
           topPerformers: filteredStudents
             .sort((a, b) => b.placementScore - a.placementScore)
             .slice(0, 10)
@@ -434,16 +441,17 @@ export class PlacementsAdminController {
   }
 
   // Private helper methods
-  private static calculatePlacementScore(profile: any): number {
+  private static calculatePlacementScore(profile: any, skillSignals?: SkillSignals): number {
     let score = 0;
     
     // Profile completion (30%)
     const completionScore = profile.completionStatus?.percentage || 0;
     score += completionScore * 0.3;
     
-    // Skills (25%)
+    // Skills (25%): 15 for breadth, 10 for skills others have endorsed
     const skillCount = profile.skills?.length || 0;
-    score += Math.min(skillCount * 5, 25);
+    score += Math.min(skillCount * 3, 15);
+    score += SkillEndorsementService.skillCredibility(skillSignals);
     
     // Projects (25%)
     const projectCount = profile.personalProjects?.length || 0;
@@ -0,0 +1,140 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { AdminRequest } from '../middleware/adminAuth';
+import { logAdminAction } from '../middleware/auditLogger';
+import { AdminResponse } from '../types/adminTypes';
+import {
+  SkillTaxonomyService,
+  SkillInput,
+  SkillUpdateInput,
+  SkillMergeRequest
+} from '../../services/SkillTaxonomyService.js';
+
+export class SkillAdminController {
+  /**
+   * List the skill catalogue with aliases
+   */
+  static async listSkills(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const query = request.query as {
+        search?: string;
+        category?: string;
+        includeInactive?: boolean;
+        page: number;
+        limit: number;
+      };
+
+      const result = await SkillTaxonomyService.listSkills(
+        { search: query.search, category: query.category, includeInactive: query.includeInactive },
+        { page: query.page || 1, limit: query.limit || 50 }
+      );
+
+      const response: AdminResponse = {
+        success: true,
+        data: result.items,
+        pagination: result.pagination
+      };
+
+      return reply.send(response);
+    } catch (error) {
+      const response: AdminResponse = {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to fetch skills'
+      };
+      return reply.status(500).send(response);
+    }
+  }
+
+  /**
+   * Add a canonical skill with optional aliases
+   */
+  static async createSkill(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const adminRequest = request as AdminRequest;
+      const input = request.body as SkillInput;
+
+      const skill = await SkillTaxonomyService.createSkill(input, adminRequest.admin.id);
+
+      await logAdminAction(request, 'CREATE_SKILL', 'SKILL', skill.id, {
+        name: skill.name,
+        category: skill.category,
+        aliases: skill.aliases.map(alias => alias.alias)
+      });
+
+      const response: AdminResponse = {
+        success: true,
+        data: skill,
+        message: 'Skill created successfully'
+      };
+
+      return reply.status(201).send(response);
+    } catch (error) {
+      const response: AdminResponse = {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to create skill'
+      };
+      return reply.status(400).send(response);
+    }
+  }
+
+  /**
+   * Update a skill's name, category, aliases or active flag
+   */
+  static async updateSkill(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { skillId } = request.params as { skillId: string };
+      const input = request.body as SkillUpdateInput;
+
+      const skill = await SkillTaxonomyService.updateSkill(skillId, input);
+
+      await logAdminAction(request, 'UPDATE_SKILL', 'SKILL', skillId, {
+        changes: input
+      });
+
+      const response: AdminResponse = {
+        success: true,
+        data: skill,
+        message: 'Skill updated successfully'
+      };
+
+      return reply.send(response);
+    } catch (error) {
+      const response: AdminResponse = {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to update skill'
+      };
+      return reply.status(400).send(response);
+    }
+  }
+
+  /**
+   * Merge duplicate skills into one canonical skill and rewrite affected profiles
+   */
+  static async mergeSkills(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const mergeRequest = request.body as SkillMergeRequest;
+
+      const result = await SkillTaxonomyService.mergeSkills(mergeRequest);
+
+      await logAdminAction(request, 'MERGE_SKILLS', 'SKILL', result.skill.id, {
+        sourceSkillIds: mergeRequest.sourceSkillIds,
+        sourceNames: mergeRequest.sourceNames,
+        aliasesAdded: result.aliasesAdded,
+        profilesUpdated: result.profilesUpdated
+      });
+
+      const response: AdminResponse = {
+        success: true,
+        data: result,
+        message: `Merged into ${result.skill.name}; ${result.profilesUpdated} profiles updated`
+      };
+
+      return reply.send(response);
+    } catch (error) {
+      const response: AdminResponse = {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to merge skills'
+      };
+      return reply.status(400).send(response);
+    }
+  }
+}
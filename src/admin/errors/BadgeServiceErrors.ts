@@ -18,13 +18,17 @@ export enum BadgeErrorCode {
   // Resource Not Found Errors (404)
   BADGE_NOT_FOUND = 'BADGE_NOT_FOUND',
   BADGE_AWARD_NOT_FOUND = 'BADGE_AWARD_NOT_FOUND',
+  BADGE_NOMINATION_NOT_FOUND = 'BADGE_NOMINATION_NOT_FOUND',
   STUDENT_NOT_FOUND = 'STUDENT_NOT_FOUND',
   COLLEGE_NOT_FOUND = 'COLLEGE_NOT_FOUND',
   
   // Conflict Errors (409)
   DUPLICATE_BADGE_NAME = 'DUPLICATE_BADGE_NAME',
   DUPLICATE_BADGE_AWARD = 'DUPLICATE_BADGE_AWARD',
+  BADGE_AWARD_LIMIT_REACHED = 'BADGE_AWARD_LIMIT_REACHED',
   BADGE_ALREADY_REVOKED = 'BADGE_ALREADY_REVOKED',
+  DUPLICATE_BADGE_NOMINATION = 'DUPLICATE_BADGE_NOMINATION',
+  NOMINATION_ALREADY_REVIEWED = 'NOMINATION_ALREADY_REVIEWED',
   
   // Business Logic Errors (422)
   BADGE_INACTIVE = 'BADGE_INACTIVE',
@@ -142,6 +146,16 @@ export class BadgeAwardNotFoundError extends BadgeServiceError {
   }
 }
 
+export class BadgeNominationNotFoundError extends BadgeServiceError {
+  constructor(nominationId: string, details?: Record<string, any>) {
+    super(`Badge nomination with ID ${nominationId} not found`, BadgeErrorCode.BADGE_NOMINATION_NOT_FOUND, 404, 'nominationId', {
+      nominationId,
+      ...details
+    });
+    this.name = 'BadgeNominationNotFoundError';
+  }
+}
+
 export class StudentNotFoundError extends BadgeServiceError {
   constructor(userId: string, details?: Record<string, any>) {
     super(`Student with ID ${userId} not found or access denied`, BadgeErrorCode.STUDENT_NOT_FOUND, 404, 'userId', {
@@ -175,6 +189,40 @@ export class DuplicateBadgeAwardError extends BadgeServiceError {
   }
 }
 
+export class BadgeAwardLimitReachedError extends BadgeServiceError {
+  constructor(userId: string, badgeId: string, maxAwards: number, details?: Record<string, any>) {
+    super(`Student has already earned this badge the maximum of ${maxAwards} times`, BadgeErrorCode.BADGE_AWARD_LIMIT_REACHED, 409, 'badgeId', {
+      userId,
+      badgeId,
+      maxAwards,
+      ...details
+    });
+    this.name = 'BadgeAwardLimitReachedError';
+  }
+}
+
+export class DuplicateBadgeNominationError extends BadgeServiceError {
+  constructor(nomineeId: string, badgeId: string, details?: Record<string, any>) {
+    super('You already have a pending nomination for this student and badge', BadgeErrorCode.DUPLICATE_BADGE_NOMINATION, 409, 'nomineeId', {
+      nomineeId,
+      badgeId,
+      ...details
+    });
+    this.name = 'DuplicateBadgeNominationError';
+  }
+}
+
+export class NominationAlreadyReviewedError extends BadgeServiceError {
+  constructor(nominationId: string, status: string, details?: Record<string, any>) {
+    super(`Nomination has already been ${status.toLowerCase()}`, BadgeErrorCode.NOMINATION_ALREADY_REVIEWED, 409, 'nominationId', {
+      nominationId,
+      status,
+      ...details
+    });
+    this.name = 'NominationAlreadyReviewedError';
+  }
+}
+
 // Business Logic Error Classes
 export class BadgeInactiveError extends BadgeServiceError {
   constructor(badgeId: string, details?: Record<string, any>) {
@@ -216,6 +264,17 @@ export class CannotRevokeBadgeError extends BadgeServiceError {
   }
 }
 
+export class BadgeApprovalRequiredError extends BadgeServiceError {
+  constructor(badgeId: string, rarity: string, details?: Record<string, any>) {
+    super(`${rarity} badges require approval; nominate the student instead`, BadgeErrorCode.HIGH_RARITY_APPROVAL_REQUIRED, 422, 'badgeDefinitionId', {
+      badgeId,
+      rarity,
+      ...details
+    });
+    this.name = 'BadgeApprovalRequiredError';
+  }
+}
+
 export class CrossCollegeAccessDeniedError extends BadgeServiceError {
   constructor(resourceType: string, resourceId: string, details?: Record<string, any>) {
     super(`Cannot access ${resourceType} from different college`, BadgeErrorCode.CROSS_COLLEGE_ACCESS_DENIED, 403, undefined, {
@@ -289,83 +289,12 @@ export async function checkProfileCompletionRequirements(
   collegeId: string,
   context: 'NETWORK' | 'EVENTS' | 'PROJECTS'
 ): Promise<{ meets: boolean; missing: string[] }> {
-  const { prisma } = await import('../../db.js');
-  
   try {
-    // Get profile requirements for the college
-    const requirements = await prisma.profileRequirements.findUnique({
-      where: { collegeId }
-    });
-    
-    if (!requirements || !requirements.isActive) {
-      return { meets: true, missing: [] };
-    }
-    
-    // Check if requirements apply to this context
-    const enforceForContext = 
-      (context === 'NETWORK' && requirements.enforceForNetwork) ||
-      (context === 'EVENTS' && requirements.enforceForEvents) ||
-      (context === 'PROJECTS' && requirements.enforceForProjects);
-    
-    if (!enforceForContext) {
-      return { meets: true, missing: [] };
-    }
-    
-    // Get profile data
-    const profile = await prisma.profile.findUnique({
-      where: { userId },
-      include: {
-        personalProjects: true,
-        experiences: true
-      }
-    });
-    
-    if (!profile) {
-      return { meets: false, missing: ['Profile not found'] };
-    }
-    
-    const missing: string[] = [];
-    
-    // Check bio requirement
-    if (requirements.requireBio && !profile.bio) {
-      missing.push('Bio');
-    }
-    
-    // Check skills requirement
-    if (requirements.requireSkills) {
-      const skillCount = profile.skills?.length || 0;
-      if (skillCount < requirements.minSkillCount) {
-        missing.push(`Skills (minimum ${requirements.minSkillCount}, current: ${skillCount})`);
-      }
-    }
-    
-    // Check projects requirement
-    if (requirements.requireProjects) {
-      const projectCount = profile.personalProjects?.length || 0;
-      if (projectCount < requirements.minProjectCount) {
-        missing.push(`Projects (minimum ${requirements.minProjectCount}, current: ${projectCount})`);
-      }
-    }
-    
-    // Check experience requirement
-    if (requirements.requireExperience && (!profile.experiences || profile.experiences.length === 0)) {
-      missing.push('Experience');
-    }
-    
-    // Check resume requirement
-    if (requirements.requireResume && !profile.resumeUrl) {
-      missing.push('Resume');
-    }
-    
-    // Check social links requirement
-    if (requirements.requireSocialLinks && !profile.linkedIn && !profile.github) {
-      missing.push('Social Links (LinkedIn or GitHub)');
-    }
-    
-    return {
-      meets: missing.length === 0,
-      missing
-    };
+    // Shares the cached evaluation served to other services by the eligibility endpoint
+    const { ProfileEligibilityService } = await import('../../services/ProfileEligibilityService.js');
+    const result = await ProfileEligibilityService.check(userId, collegeId, context);
+
+    return { meets: result.eligible, missing: result.missing };
   } catch (error) {
     console.error('Error checking profile completion requirements:', error);
     return { meets: false, missing: ['Error checking requirements'] };
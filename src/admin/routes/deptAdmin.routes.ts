@@ -18,7 +18,10 @@ import {
   badgeFiltersSchema,
   badgeParamsSchema,
   badgeLeaderboardResponseSchema,
-  badgeStatisticsResponseSchema
+  badgeStatisticsResponseSchema,
+  revokeBadgeSchema,
+  badgeAwardParamsSchema,
+  revokeBadgeResponseSchema
 } from '../validators/adminBadgeSchemas';
 
 /**
@@ -118,6 +121,34 @@ export async function deptAdminRoutes(app: FastifyInstance) {
     }
   }, DeptAdminController.awardBadge);
 
+  f.post('/v1/admin/dept/badges/awards/:awardId/revoke', {
+    schema: {
+      tags: ['dept-admin'],
+      summary: 'Revoke badge award',
+      description: 'Revoke a badge award from a student in the admin department. The award is kept in revocation history and its network post is retracted',
+      params: badgeAwardParamsSchema,
+      body: revokeBadgeSchema,
+      response: {
+        200: revokeBadgeResponseSchema,
+        400: errorResponseSchema
+      }
+    }
+  }, DeptAdminController.revokeBadge);
+
+  f.delete('/v1/admin/dept/badges/awards/:awardId', {
+    schema: {
+      tags: ['dept-admin'],
+      summary: 'Revoke badge award',
+      description: 'Alias of POST /v1/admin/dept/badges/awards/:awardId/revoke',
+      params: badgeAwardParamsSchema,
+      body: revokeBadgeSchema,
+      response: {
+        200: revokeBadgeResponseSchema,
+        400: errorResponseSchema
+      }
+    }
+  }, DeptAdminController.revokeBadge);
+
   f.get('/v1/admin/dept/badges/leaderboard', {
     schema: {
       tags: ['dept-admin'],
@@ -25,7 +25,12 @@ import {
   badgeDefinitionResponseSchema,
   badgesListResponseSchema,
   badgeLeaderboardResponseSchema,
-  badgeStatisticsResponseSchema
+  badgeStatisticsResponseSchema,
+  revokeBadgeSchema,
+  badgeAwardParamsSchema,
+  revokeBadgeResponseSchema,
+  badgeRuleDryRunSchema,
+  badgeRuleDryRunResponseSchema
 } from '../validators/adminBadgeSchemas';
 
 export async function headAdminRoutes(app: FastifyInstance) {
@@ -130,6 +135,47 @@ export async function headAdminRoutes(app: FastifyInstance) {
     }
   }, HeadAdminController.awardBadge);
 
+  f.post('/v1/admin/head/badges/awards/:awardId/revoke', {
+    schema: {
+      tags: ['head-admin'],
+      summary: 'Revoke badge award',
+      description: 'Revoke a badge award from a student. The award is kept in revocation history and its network post is retracted',
+      params: badgeAwardParamsSchema,
+      body: revokeBadgeSchema,
+      response: {
+        200: revokeBadgeResponseSchema,
+        400: errorResponseSchema
+      }
+    }
+  }, HeadAdminController.revokeBadge);
+
+  f.delete('/v1/admin/head/badges/awards/:awardId', {
+    schema: {
+      tags: ['head-admin'],
+      summary: 'Revoke badge award',
+      description: 'Alias of POST /v1/admin/head/badges/awards/:awardId/revoke',
+      params: badgeAwardParamsSchema,
+      body: revokeBadgeSchema,
+      response: {
+        200: revokeBadgeResponseSchema,
+        400: errorResponseSchema
+      }
+    }
+  }, HeadAdminController.revokeBadge);
+
+  f.post('/v1/admin/head/badges/rules/dry-run', {
+    schema: {
+      tags: ['head-admin'],
+      summary: 'Dry-run automatic badge rule',
+      description: 'Show which students in the college a badge criteria rule would award automatically, without awarding anything',
+      body: badgeRuleDryRunSchema,
+      response: {
+        200: badgeRuleDryRunResponseSchema,
+        400: errorResponseSchema
+      }
+    }
+  }, HeadAdminController.dryRunBadgeRule);
+
   f.get('/v1/admin/head/badges/leaderboard', {
     schema: {
       tags: ['head-admin'],
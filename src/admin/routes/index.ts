@@ -1,6 +1,10 @@
 import { FastifyInstance } from 'fastify';
 import headAdminRoutes from './headAdmin.routes';
 import deptAdminRoutes from './deptAdmin.routes';
+import placementsAdminRoutes from './placementsAdmin.routes';
+import moderationRoutes from './moderation.routes';
+import nominationRoutes from './nomination.routes';
+import skillRoutes from './skill.routes';
 
 /**
  * Register all admin routes for profile service
@@ -11,6 +15,18 @@ export async function adminRoutes(app: FastifyInstance) {
   
   // Register DEPT_ADMIN routes
   await app.register(deptAdminRoutes);
+
+  // Register PLACEMENTS_ADMIN routes
+  await app.register(placementsAdminRoutes);
+
+  // Register content moderation routes
+  await app.register(moderationRoutes);
+
+  // Register badge nomination review routes
+  await app.register(nominationRoutes);
+
+  // Register skill catalogue routes
+  await app.register(skillRoutes);
   
   // Health check for admin routes
   app.get('/v1/admin/health', async (request, reply) => {
@@ -21,7 +37,10 @@ export async function adminRoutes(app: FastifyInstance) {
       routes: {
         headAdmin: 'available',
         deptAdmin: 'available',
-        placementsAdmin: 'coming-soon'
+        placementsAdmin: 'available',
+        moderation: 'available',
+        nominations: 'available',
+        skills: 'available'
       }
     };
   });
@@ -0,0 +1,81 @@
+import { FastifyInstance } from 'fastify';
+import { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { requireAdmin, requireDeptAdmin } from '../middleware/adminAuth';
+import { ModerationAdminController } from '../controllers/ModerationAdminController';
+import { errorResponseSchema } from '../validators/adminProfileSchemas';
+import {
+  moderationQueueQuerySchema,
+  moderationParamsSchema,
+  approveContentSchema,
+  rejectContentSchema,
+  moderationQueueResponseSchema,
+  moderationDecisionResponseSchema
+} from '../validators/adminModerationSchemas';
+
+/**
+ * Content moderation routes for profile service
+ * Available to HEAD_ADMIN (college-wide) and DEPT_ADMIN (department-scoped)
+ */
+export async function moderationRoutes(app: FastifyInstance) {
+  const f = app.withTypeProvider<ZodTypeProvider>();
+
+  // Apply admin authentication to all routes - SAME PATTERN AS HEAD_ADMIN
+  f.addHook('preHandler', requireAdmin);
+  f.addHook('preHandler', requireDeptAdmin);
+
+  f.get('/v1/admin/moderation', {
+    schema: {
+      tags: ['moderation'],
+      summary: 'Get moderation queue',
+      description: 'List open moderation items (oldest first) for the admin\'s college or department',
+      querystring: moderationQueueQuerySchema,
+      response: {
+        200: moderationQueueResponseSchema,
+        500: errorResponseSchema
+      }
+    }
+  }, ModerationAdminController.getQueue);
+
+  f.post('/v1/admin/moderation/:contentId/claim', {
+    schema: {
+      tags: ['moderation'],
+      summary: 'Claim content for review',
+      description: 'Mark a pending content item as in review by the current admin',
+      params: moderationParamsSchema,
+      response: {
+        200: moderationDecisionResponseSchema,
+        400: errorResponseSchema
+      }
+    }
+  }, ModerationAdminController.claimContent);
+
+  f.post('/v1/admin/moderation/:contentId/approve', {
+    schema: {
+      tags: ['moderation'],
+      summary: 'Approve content',
+      description: 'Approve a single pending content item',
+      params: moderationParamsSchema,
+      body: approveContentSchema,
+      response: {
+        200: moderationDecisionResponseSchema,
+        400: errorResponseSchema
+      }
+    }
+  }, ModerationAdminController.approveContent);
+
+  f.post('/v1/admin/moderation/:contentId/reject', {
+    schema: {
+      tags: ['moderation'],
+      summary: 'Reject content',
+      description: 'Reject a single pending content item with a reason shown to the owner',
+      params: moderationParamsSchema,
+      body: rejectContentSchema,
+      response: {
+        200: moderationDecisionResponseSchema,
+        400: errorResponseSchema
+      }
+    }
+  }, ModerationAdminController.rejectContent);
+}
+
+export default moderationRoutes;
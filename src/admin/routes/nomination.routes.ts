@@ -0,0 +1,67 @@
+import { FastifyInstance } from 'fastify';
+import { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { requireAdmin, requireDeptAdmin } from '../middleware/adminAuth';
+import { NominationAdminController } from '../controllers/NominationAdminController';
+import { errorResponseSchema } from '../validators/adminProfileSchemas';
+import {
+  nominationQueueQuerySchema,
+  nominationParamsSchema,
+  approveNominationSchema,
+  rejectNominationSchema,
+  nominationQueueResponseSchema,
+  nominationDecisionResponseSchema
+} from '../validators/adminBadgeSchemas';
+
+/**
+ * Badge nomination review routes for profile service
+ * Available to HEAD_ADMIN (college-wide) and DEPT_ADMIN (department-scoped)
+ */
+export async function nominationRoutes(app: FastifyInstance) {
+  const f = app.withTypeProvider<ZodTypeProvider>();
+
+  f.addHook('preHandler', requireAdmin);
+  f.addHook('preHandler', requireDeptAdmin);
+
+  f.get('/v1/admin/badges/nominations', {
+    schema: {
+      tags: ['nominations'],
+      summary: 'Get badge nominations',
+      description: 'List badge nominations (oldest first, pending by default) for the admin college or department',
+      querystring: nominationQueueQuerySchema,
+      response: {
+        200: nominationQueueResponseSchema,
+        500: errorResponseSchema
+      }
+    }
+  }, NominationAdminController.getQueue);
+
+  f.post('/v1/admin/badges/nominations/:nominationId/approve', {
+    schema: {
+      tags: ['nominations'],
+      summary: 'Approve badge nomination',
+      description: 'Approve a pending nomination and award the badge to the nominee',
+      params: nominationParamsSchema,
+      body: approveNominationSchema,
+      response: {
+        200: nominationDecisionResponseSchema,
+        400: errorResponseSchema
+      }
+    }
+  }, NominationAdminController.approveNomination);
+
+  f.post('/v1/admin/badges/nominations/:nominationId/reject', {
+    schema: {
+      tags: ['nominations'],
+      summary: 'Reject badge nomination',
+      description: 'Reject a pending nomination with a reason shown to the nominator',
+      params: nominationParamsSchema,
+      body: rejectNominationSchema,
+      response: {
+        200: nominationDecisionResponseSchema,
+        400: errorResponseSchema
+      }
+    }
+  }, NominationAdminController.rejectNomination);
+}
+
+export default nominationRoutes;
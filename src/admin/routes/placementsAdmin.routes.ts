@@ -0,0 +1,143 @@
+import { FastifyInstance } from 'fastify';
+import { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { requireAdmin, requirePlacementsAdmin } from '../middleware/adminAuth';
+import { PlacementsAdminController } from '../controllers/PlacementsAdminController';
+import {
+  profileFiltersSchema,
+  paginationSchema,
+  profileParamsSchema,
+  profileResponseSchema,
+  errorResponseSchema
+} from '../validators/adminProfileSchemas';
+import { awardBadgeSchema } from '../validators/adminBadgeSchemas';
+import {
+  readinessQuerySchema,
+  placementAnalyticsQuerySchema,
+  placementReportQuerySchema,
+  placementProfileUpdateSchema,
+  placementStudentsListResponseSchema,
+  readinessStudentsResponseSchema,
+  placementDataResponseSchema
+} from '../validators/adminPlacementSchemas';
+
+/**
+ * PLACEMENTS_ADMIN routes for profile service
+ * IMPORTANT: These routes are placement-scoped and only expose placement-relevant data
+ */
+export async function placementsAdminRoutes(app: FastifyInstance) {
+  const f = app.withTypeProvider<ZodTypeProvider>();
+
+  // Apply admin authentication to all routes - SAME PATTERN AS HEAD_ADMIN
+  f.addHook('preHandler', requireAdmin);
+  f.addHook('preHandler', requirePlacementsAdmin);
+
+  // Dashboard - Placement focused
+  f.get('/v1/admin/placements/dashboard', {
+    schema: {
+      tags: ['placements-admin'],
+      summary: 'Get PLACEMENTS_ADMIN dashboard data',
+      description: 'Retrieve placement readiness, skill trends and badge statistics for the admin\'s college',
+      response: {
+        200: placementDataResponseSchema,
+        500: errorResponseSchema
+      }
+    }
+  }, PlacementsAdminController.getDashboard);
+
+  // Student Management - Placement scoped
+  f.get('/v1/admin/placements/students', {
+    schema: {
+      tags: ['placements-admin'],
+      summary: 'Get students with placement scores',
+      description: 'Retrieve student profiles with placement scores and recommendations',
+      querystring: profileFiltersSchema.merge(paginationSchema),
+      response: {
+        200: placementStudentsListResponseSchema,
+        500: errorResponseSchema
+      }
+    }
+  }, PlacementsAdminController.getStudents);
+
+  f.get('/v1/admin/placements/students/readiness', {
+    schema: {
+      tags: ['placements-admin'],
+      summary: 'Get students by placement readiness',
+      description: 'Retrieve students filtered by readiness level and department',
+      querystring: readinessQuerySchema,
+      response: {
+        200: readinessStudentsResponseSchema,
+        500: errorResponseSchema
+      }
+    }
+  }, PlacementsAdminController.getStudentsByReadiness);
+
+  f.put('/v1/admin/placements/students/:userId', {
+    schema: {
+      tags: ['placements-admin'],
+      summary: 'Update student profile',
+      description: 'Update placement-relevant fields (skills, resume, social links, contact info) of a student profile',
+      params: profileParamsSchema,
+      body: placementProfileUpdateSchema,
+      response: {
+        200: z.object({ success: z.boolean(), data: profileResponseSchema, message: z.string().optional() }),
+        400: errorResponseSchema
+      }
+    }
+  }, PlacementsAdminController.updateStudentProfile);
+
+  // Badge Management - Placement related badges
+  f.post('/v1/admin/placements/badges/award', {
+    schema: {
+      tags: ['placements-admin'],
+      summary: 'Award placement badge',
+      description: 'Award a placement-related badge to a student in the admin\'s college',
+      body: awardBadgeSchema,
+      response: {
+        200: placementDataResponseSchema,
+        400: errorResponseSchema
+      }
+    }
+  }, PlacementsAdminController.awardPlacementBadge);
+
+  // Analytics - Placement focused
+  f.get('/v1/admin/placements/analytics', {
+    schema: {
+      tags: ['placements-admin'],
+      summary: 'Get placement analytics',
+      description: 'Retrieve skill trends, readiness or department-wise placement analytics',
+      querystring: placementAnalyticsQuerySchema,
+      response: {
+        200: placementDataResponseSchema,
+        500: errorResponseSchema
+      }
+    }
+  }, PlacementsAdminController.getPlacementAnalytics);
+
+  f.get('/v1/admin/placements/report', {
+    schema: {
+      tags: ['placements-admin'],
+      summary: 'Generate placement report',
+      description: 'Generate a placement readiness report as JSON or CSV, optionally filtered by department and year',
+      querystring: placementReportQuerySchema,
+      response: {
+        200: placementDataResponseSchema.or(z.string()),
+        500: errorResponseSchema
+      }
+    }
+  }, PlacementsAdminController.generatePlacementReport);
+
+  f.get('/v1/admin/placements/skills/demand', {
+    schema: {
+      tags: ['placements-admin'],
+      summary: 'Get skill demand analysis',
+      description: 'Retrieve trending skills, skill gaps and industry alignment for placement planning',
+      response: {
+        200: placementDataResponseSchema,
+        500: errorResponseSchema
+      }
+    }
+  }, PlacementsAdminController.getSkillDemandAnalysis);
+}
+
+export default placementsAdminRoutes;
@@ -0,0 +1,81 @@
+import { FastifyInstance } from 'fastify';
+import { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { requireAdmin, requireHeadAdmin } from '../middleware/adminAuth';
+import { SkillAdminController } from '../controllers/SkillAdminController';
+import { errorResponseSchema } from '../validators/adminProfileSchemas';
+import {
+  createSkillSchema,
+  updateSkillSchema,
+  mergeSkillsSchema,
+  skillListQuerySchema,
+  skillParamsSchema,
+  skillListResponseSchema,
+  skillMutationResponseSchema,
+  skillMergeResponseSchema
+} from '../validators/adminSkillSchemas';
+
+/**
+ * Skill catalogue management routes for profile service
+ * HEAD_ADMIN only: the catalogue is shared by every college
+ */
+export async function skillRoutes(app: FastifyInstance) {
+  const f = app.withTypeProvider<ZodTypeProvider>();
+
+  f.addHook('preHandler', requireAdmin);
+  f.addHook('preHandler', requireHeadAdmin);
+
+  f.get('/v1/admin/skills', {
+    schema: {
+      tags: ['skills'],
+      summary: 'Get skill catalogue',
+      description: 'List canonical skills with their aliases',
+      querystring: skillListQuerySchema,
+      response: {
+        200: skillListResponseSchema,
+        500: errorResponseSchema
+      }
+    }
+  }, SkillAdminController.listSkills);
+
+  f.post('/v1/admin/skills', {
+    schema: {
+      tags: ['skills'],
+      summary: 'Create skill',
+      description: 'Add a canonical skill with a category and aliases',
+      body: createSkillSchema,
+      response: {
+        201: skillMutationResponseSchema,
+        400: errorResponseSchema
+      }
+    }
+  }, SkillAdminController.createSkill);
+
+  f.put('/v1/admin/skills/:skillId', {
+    schema: {
+      tags: ['skills'],
+      summary: 'Update skill',
+      description: 'Rename, recategorise, replace aliases or deactivate a skill; renames rewrite profiles',
+      params: skillParamsSchema,
+      body: updateSkillSchema,
+      response: {
+        200: skillMutationResponseSchema,
+        400: errorResponseSchema
+      }
+    }
+  }, SkillAdminController.updateSkill);
+
+  f.post('/v1/admin/skills/merge', {
+    schema: {
+      tags: ['skills'],
+      summary: 'Merge skills',
+      description: 'Fold duplicate skills and free-text variants into one canonical skill and rewrite affected profiles',
+      body: mergeSkillsSchema,
+      response: {
+        200: skillMergeResponseSchema,
+        400: errorResponseSchema
+      }
+    }
+  }, SkillAdminController.mergeSkills);
+}
+
+export default skillRoutes;
@@ -1,4 +1,7 @@
 import { prisma } from '../../db.js';
+import { ProfileCompletenessService, CompletenessConfig } from '../../services/ProfileCompletenessService.js';
+import { SkillTaxonomyService } from '../../services/SkillTaxonomyService.js';
+import { SkillEndorsementService, SkillSignals } from '../../services/SkillEndorsementService.js';
 import { ProfileAnalytics, SkillTrendAnalysis, PlacementReadinessReport } from '../types/adminTypes';
 
 export class AdminAnalyticsService {
@@ -22,7 +25,7 @@ export class AdminAnalyticsService {
       publicationStats
     ] = await Promise.all([
       prisma.profile.count({ where: { userId: { in: userIds } } }),
-      this.getProfileCompletionData(userIds),
+      this.getProfileCompletionData(userIds, collegeId),
       this.getSkillDistribution(userIds),
       this.getBadgeStatistics(userIds),
       this.getProjectStatistics(userIds),
@@ -50,12 +53,7 @@ export class AdminAnalyticsService {
     });
 
     // Analyze skill trends (simplified)
-    const skillCounts = new Map<string, number>();
-    profiles.forEach(profile => {
-      profile.skills?.forEach(skill => {
-        skillCounts.set(skill, (skillCounts.get(skill) || 0) + 1);
-      });
-    });
+    const skillCounts = await this.countCanonicalSkills(profiles);
 
     const trendingSkills = Array.from(skillCounts.entries())
       .sort((a, b) => b[1] - a[1])
@@ -86,17 +84,22 @@ export class AdminAnalyticsService {
     const userData = await this.getUserDataFromAuthService(collegeId, ['STUDENT']);
     const userIds = userData.map(u => u.id);
 
-    const profiles = await prisma.profile.findMany({
-      where: { userId: { in: userIds } },
-      include: {
-        personalProjects: true,
-        studentBadges: true
-      }
-    });
+    const [profiles, completenessConfig, skillSignals] = await Promise.all([
+      prisma.profile.findMany({
+        where: { userId: { in: userIds } },
+        include: {
+          personalProjects: { where: { deletedAt: null } },
+          experiences: { where: { deletedAt: null }, select: { id: true } },
+          studentBadges: true
+        }
+      }),
+      ProfileCompletenessService.getConfig(collegeId),
+      SkillEndorsementService.getSkillSignals(userIds)
+    ]);
 
     const students = userData.map(user => {
       const profile = profiles.find(p => p.userId === user.id);
-      const completeness = this.calculateProfileCompleteness(profile);
+      const completeness = this.calculateProfileCompleteness(profile, completenessConfig);
       
       return {
         userId: user.id,
@@ -105,9 +108,10 @@ export class AdminAnalyticsService {
         year: user.year,
         profileCompleteness: completeness,
         skillCount: profile?.skills?.length || 0,
+        endorsedSkillCount: skillSignals.get(user.id)?.endorsedSkillCount || 0,
         projectCount: profile?.personalProjects?.length || 0,
         badgeCount: profile?.studentBadges?.length || 0,
-        placementScore: this.calculatePlacementScore(profile, completeness),
+        placementScore: this.calculatePlacementScore(profile, completeness, skillSignals.get(user.id)),
         recommendations: this.getPlacementRecommendations(profile, user)
       };
     });
@@ -160,11 +164,26 @@ export class AdminAnalyticsService {
     };
   }
 
-  private static async getProfileCompletionData(userIds: string[]) {
-    // Implementation for profile completion analysis
+  private static async getProfileCompletionData(userIds: string[], collegeId: string) {
+    const [profiles, completenessConfig] = await Promise.all([
+      prisma.profile.findMany({
+        where: { userId: { in: userIds } },
+        include: {
+          personalProjects: { where: { deletedAt: null }, select: { id: true } },
+          experiences: { where: { deletedAt: null }, select: { id: true } }
+        }
+      }),
+      ProfileCompletenessService.getConfig(collegeId)
+    ]);
+
+    const totalScore = profiles.reduce(
+      (sum, profile) => sum + this.calculateProfileCompleteness(profile, completenessConfig),
+      0
+    );
+
     return {
       completionRates: {
-        overall: 75,
+        overall: profiles.length > 0 ? Math.round(totalScore / profiles.length) : 0,
         byDepartment: {},
         byYear: {}
       }
@@ -177,12 +196,7 @@ export class AdminAnalyticsService {
       select: { skills: true }
     });
 
-    const skillCounts = new Map<string, number>();
-    profiles.forEach(profile => {
-      profile.skills?.forEach(skill => {
-        skillCounts.set(skill, (skillCounts.get(skill) || 0) + 1);
-      });
-    });
+    const skillCounts = await this.countCanonicalSkills(profiles);
 
     return Array.from(skillCounts.entries()).map(([skill, count]) => ({
       skill,
@@ -191,6 +205,20 @@ export class AdminAnalyticsService {
     }));
   }
 
+  // Profiles not yet rewritten by the backfill may still hold aliases, so count canonical names
+  private static async countCanonicalSkills(profiles: Array<{ skills: string[] }>): Promise<Map<string, number>> {
+    const skillCounts = new Map<string, number>();
+
+    for (const profile of profiles) {
+      const skills = await SkillTaxonomyService.canonicalize(profile.skills || []);
+      skills.forEach(skill => {
+        skillCounts.set(skill, (skillCounts.get(skill) || 0) + 1);
+      });
+    }
+
+    return skillCounts;
+  }
+
   private static async getBadgeStatistics(userIds: string[]) {
     const badges = await prisma.studentBadge.findMany({
       where: { studentId: { in: userIds } },
@@ -206,7 +234,7 @@ export class AdminAnalyticsService {
 
   private static async getProjectStatistics(userIds: string[]) {
     const projects = await prisma.personalProject.findMany({
-      where: { userId: { in: userIds } }
+      where: { userId: { in: userIds }, deletedAt: null }
     });
 
     return {
@@ -218,7 +246,7 @@ export class AdminAnalyticsService {
 
   private static async getPublicationStatistics(userIds: string[]) {
     const publications = await prisma.publication.findMany({
-      where: { userId: { in: userIds } }
+      where: { userId: { in: userIds }, deletedAt: null }
     });
 
     return {
@@ -228,26 +256,18 @@ export class AdminAnalyticsService {
     };
   }
 
-  private static calculateProfileCompleteness(profile: any): number {
+  private static calculateProfileCompleteness(profile: any, config: CompletenessConfig): number {
     if (!profile) return 0;
-    
-    let score = 0;
-    if (profile.bio) score += 15;
-    if (profile.skills?.length > 0) score += 20;
-    if (profile.resumeUrl) score += 15;
-    if (profile.linkedIn || profile.github) score += 10;
-    if (profile.personalProjects?.length > 0) score += 25;
-    if (profile.contactInfo) score += 10;
-    if (profile.phoneNumber) score += 5;
-    
-    return Math.min(score, 100);
+
+    return ProfileCompletenessService.evaluate(profile, config).score;
   }
 
-  private static calculatePlacementScore(profile: any, completeness: number): number {
+  private static calculatePlacementScore(profile: any, completeness: number, skillSignals?: SkillSignals): number {
     let score = completeness * 0.4; // 40% weightage for profile completion
     
     if (profile) {
       score += (profile.skills?.length || 0) * 2; // Skills
+      score += SkillEndorsementService.skillCredibility(skillSignals); // Endorsed skills
       score += (profile.personalProjects?.length || 0) * 5; // Projects
       score += (profile.studentBadges?.length || 0) * 3; // Badges
     }
@@ -1,7 +1,13 @@
+import { Prisma } from '@prisma/client';
 import { prisma } from '../../db.js';
 import { AdminAuditService } from './AdminAuditService.js';
 import { ProfileAuditAction } from '../types/adminTypes.js';
 import { BadgePostService } from '../../utils/BadgePostService.js';
+import { BadgeEligibilityService } from '../../services/BadgeEligibilityService.js';
+import { BadgeExpiryService } from '../../services/BadgeExpiryService.js';
+import { BadgeTierService, TierBadge } from '../../services/BadgeTierService.js';
+import { BadgeRuleService } from '../../services/BadgeRuleService.js';
+import { BadgeNominationService } from '../../services/BadgeNominationService.js';
 import { AuthServiceClient, AuthUser } from '../../utils/AuthServiceClient.js';
 import { 
   validateBadgeDefinition,
@@ -24,7 +30,12 @@ import {
   DailyLimitExceededError,
   BulkLimitExceededError,
   StudentNotFoundError,
-  CrossCollegeAccessDeniedError
+  CrossCollegeAccessDeniedError,
+  BadgeAwardNotFoundError,
+  CannotRevokeBadgeError,
+  BadgeDefinitionValidationError,
+  BadgeApprovalRequiredError,
+  BadgeInsufficientPermissionsError
 } from '../errors/BadgeServiceErrors.js';
 import { 
   BadgeDefinitionRequest, 
@@ -34,7 +45,9 @@ import {
   BadgeFilters,
   PaginationParams,
   ADMIN_LIMITS,
-  BadgePolicyConfig
+  BadgePolicyConfig,
+  BadgeAwardManagementOptions,
+  BadgeRenewalRequest
 } from '../types/adminTypes';
 
 export class AdminBadgeService {
@@ -49,6 +62,7 @@ export class AdminBadgeService {
     try {
       // Validate input data
       const validatedData = validateBadgeDefinition(badgeData);
+      BadgeRuleService.validateCriteria(validatedData.criteria);
 
       // Check if badge name already exists in this college
       const existingBadge = await prisma.badgeDefinition.findFirst({
@@ -74,6 +88,12 @@ export class AdminBadgeService {
             criteria: validatedData.criteria,
             rarity: validatedData.rarity,
             points: validatedData.points,
+            validityDays: validatedData.validityDays,
+            ...BadgeTierService.buildSettings({
+              awardMode: validatedData.awardMode,
+              maxAwards: validatedData.maxAwards,
+              levels: validatedData.levels
+            }),
             isActive: validatedData.isActive,
             collegeId: collegeId, // Always college-specific for HEAD_ADMIN
             createdBy
@@ -159,9 +179,16 @@ export class AdminBadgeService {
       }
     }
 
+    BadgeRuleService.validateCriteria(updates.criteria);
+
+    const { awardMode, maxAwards, levels, ...fields } = updates;
+
     return await prisma.badgeDefinition.update({
       where: { id: badgeId },
-      data: updates
+      data: {
+        ...fields,
+        ...BadgeTierService.buildSettings({ awardMode, maxAwards, levels }, badge)
+      }
     });
   }
 
@@ -251,7 +278,8 @@ export class AdminBadgeService {
     awardData: unknown,
     awardedBy: string,
     adminCollegeId: string,
-    authHeader: string = ''
+    authHeader: string = '',
+    options: { approved?: boolean } = {} // approved: only set when a DEPT_ADMIN/HEAD_ADMIN approves a nomination
   ) {
     try {
       // Validate input data
@@ -292,34 +320,16 @@ export class AdminBadgeService {
           throw new BadgeInactiveError(validatedData.badgeDefinitionId);
         }
 
-        // Check for existing award with SELECT FOR UPDATE to prevent race conditions
-        const existingAward = await tx.studentBadge.findUnique({
-          where: {
-            badgeId_studentId: {
-              badgeId: validatedData.badgeDefinitionId,
-              studentId: validatedData.userId
-            }
-          }
-        });
-
-        if (existingAward) {
-          throw new DuplicateBadgeAwardError(validatedData.userId, validatedData.badgeDefinitionId);
-        }
+        await this.assertAwardAllowed(badge, adminCollegeId, options);
 
-        // Create the badge award
-        const studentBadge = await tx.studentBadge.create({
-          data: {
-            studentId: validatedData.userId,
-            badgeId: validatedData.badgeDefinitionId,
-            awardedBy,
-            awardedByName: validatedData.awardedByName,
-            reason: validatedData.reason,
-            projectId: validatedData.projectId,
-            eventId: validatedData.eventId
-          },
-          include: {
-            badge: true
-          }
+        const studentBadge = await this.createAward(tx, badge, {
+          studentId: validatedData.userId,
+          awardedBy,
+          awardedByName: validatedData.awardedByName,
+          reason: validatedData.reason,
+          projectId: validatedData.projectId,
+          eventId: validatedData.eventId,
+          level: validatedData.level
         });
 
         // Log the audit action within the transaction
@@ -336,7 +346,8 @@ export class AdminBadgeService {
             badgeName: badge.name,
             reason: validatedData.reason,
             projectId: validatedData.projectId,
-            eventId: validatedData.eventId
+            eventId: validatedData.eventId,
+            level: studentBadge.level
           }
         });
 
@@ -382,18 +393,103 @@ export class AdminBadgeService {
     }
   }
 
+  /**
+   * The one approval rule for every award path: badges of a rarity the college gates are
+   * only awarded by approving a nomination, whatever the awarder's role
+   */
+  static async assertAwardAllowed(
+    badge: { id: string; rarity: string },
+    collegeId?: string | null,
+    options: { approved?: boolean } = {}
+  ): Promise<void> {
+    if (!options.approved && await BadgeNominationService.requiresApproval(badge, collegeId)) {
+      throw new BadgeApprovalRequiredError(badge.id, badge.rarity);
+    }
+  }
+
+  /**
+   * Create one award inside the caller's transaction
+   * Every award path goes through here: the advisory lock serialises awards of a badge to a
+   * student, and BadgeTierService enforces SINGLE, the REPEATABLE cap and TIERED level order
+   */
+  static async createAward(
+    tx: Prisma.TransactionClient,
+    badge: TierBadge & { validityDays: number | null },
+    award: {
+      studentId: string;
+      awardedBy: string;
+      reason: string;
+      awardedByName?: string;
+      projectId?: string;
+      eventId?: string;
+      level?: number;
+      awardedAt?: Date;
+    }
+  ) {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`${badge.id}:${award.studentId}`}))`;
+
+    const existingAwards = await tx.studentBadge.findMany({
+      where: {
+        badgeId: badge.id,
+        studentId: award.studentId
+      },
+      select: { level: true }
+    });
+
+    const { level } = BadgeTierService.resolveAward(badge, award.studentId, existingAwards, award.level);
+    const awardedAt = award.awardedAt ?? new Date();
+
+    return tx.studentBadge.create({
+      data: {
+        studentId: award.studentId,
+        badgeId: badge.id,
+        awardedBy: award.awardedBy,
+        awardedByName: award.awardedByName,
+        reason: award.reason,
+        projectId: award.projectId,
+        eventId: award.eventId,
+        level,
+        awardedAt,
+        expiresAt: BadgeExpiryService.calculateExpiry(badge.validityDays, awardedAt)
+      },
+      include: {
+        badge: true
+      }
+    });
+  }
+
   /**
    * Revoke badge from student
+   * The award is moved to BadgeRevocation history, eligibility is recomputed
+   * and the celebration post is retracted from the network service
    */
   static async revokeBadge(
     badgeAwardId: string,
     reason: string,
     adminId: string,
-    adminCollegeId: string
+    adminCollegeId: string,
+    options: BadgeAwardManagementOptions = {}
   ) {
+    // Pre-transaction validations (external service calls)
+    const existingAward = await prisma.studentBadge.findUnique({
+      where: { id: badgeAwardId },
+      include: {
+        badge: true
+      }
+    });
+
+    if (!existingAward) {
+      throw new BadgeAwardNotFoundError(badgeAwardId);
+    }
+
+    const denial = await this.canManageBadgeAward(existingAward, adminId, adminCollegeId, options, 'revoke');
+    if (denial) {
+      throw new CannotRevokeBadgeError(denial, { badgeAwardId, adminId });
+    }
+
     // Execute badge revocation in a transaction to ensure atomicity
-    const result = await prisma.$transaction(async (tx) => {
-      // Get badge award details with row lock
+    const revocation = await prisma.$transaction(async (tx) => {
+      // Re-read inside the transaction so a concurrent revocation fails cleanly
       const badgeAward = await tx.studentBadge.findUnique({
         where: { id: badgeAwardId },
         include: {
@@ -402,14 +498,29 @@ export class AdminBadgeService {
       });
 
       if (!badgeAward) {
-        throw new Error('Badge award not found');
+        throw new BadgeAwardNotFoundError(badgeAwardId);
       }
 
-      // Check if admin can revoke this badge
-      const canRevoke = await this.canRevokeBadgeAward(badgeAward, adminId, adminCollegeId);
-      if (!canRevoke) {
-        throw new Error('Cannot revoke this badge award');
-      }
+      const history = await tx.badgeRevocation.create({
+        data: {
+          awardId: badgeAward.id,
+          studentId: badgeAward.studentId,
+          badgeId: badgeAward.badgeId,
+          collegeId: adminCollegeId,
+          awardedBy: badgeAward.awardedBy,
+          awardedByName: badgeAward.awardedByName,
+          awardReason: badgeAward.reason,
+          awardedAt: badgeAward.awardedAt,
+          projectId: badgeAward.projectId,
+          eventId: badgeAward.eventId,
+          revokedBy: adminId,
+          revokedByName: options.revokedByName,
+          reason
+        },
+        include: {
+          badge: true
+        }
+      });
 
       // Delete the badge award
       await tx.studentBadge.delete({
@@ -429,26 +540,187 @@ export class AdminBadgeService {
           badgeId: badgeAward.badgeId,
           badgeName: badgeAward.badge.name,
           reason,
+          revocationId: history.id,
           originalAwardedBy: badgeAward.awardedBy,
           originalReason: badgeAward.reason
         }
       });
 
-      return { 
-        success: true, 
-        reason,
-        revokedBadge: {
-          id: badgeAward.id,
-          studentId: badgeAward.studentId,
-          badgeName: badgeAward.badge.name
-        }
-      };
+      return history;
     }, {
       isolationLevel: 'ReadCommitted',
       timeout: 10000
     });
 
-    return result;
+    // Post-transaction operations (non-critical)
+    try {
+      await BadgeEligibilityService.recompute(revocation.studentId, adminCollegeId);
+    } catch (error) {
+      console.error('Failed to recompute badge eligibility after revocation:', error);
+    }
+
+    await BadgePostService.retractBadgeAwardPost({
+      awardId: revocation.awardId,
+      studentId: revocation.studentId,
+      badgeId: revocation.badgeId,
+      badgeName: revocation.badge.name,
+      reason,
+      revokedBy: adminId,
+      revokedAt: revocation.revokedAt
+    }, (options.authHeader || '').replace(/^Bearer /, ''));
+
+    return { 
+      success: true, 
+      reason,
+      revocation,
+      revokedBadge: {
+        id: revocation.awardId,
+        studentId: revocation.studentId,
+        badgeName: revocation.badge.name
+      }
+    };
+  }
+
+  /**
+   * Renew a term-limited badge award
+   * Extends from the current expiry (or now, if already expired) by the badge validity period,
+   * unless an explicit validityDays or expiresAt is given. Scoped like revocation
+   */
+  static async renewBadge(
+    badgeAwardId: string,
+    renewedBy: string,
+    adminCollegeId: string,
+    renewal: BadgeRenewalRequest = {},
+    options: BadgeAwardManagementOptions = {}
+  ) {
+    const badgeAward = await prisma.studentBadge.findUnique({
+      where: { id: badgeAwardId },
+      include: {
+        badge: true
+      }
+    });
+
+    if (!badgeAward) {
+      throw new BadgeAwardNotFoundError(badgeAwardId);
+    }
+
+    const denial = await this.canManageBadgeAward(badgeAward, renewedBy, adminCollegeId, options, 'renew');
+    if (denial) {
+      throw new BadgeInsufficientPermissionsError(`Cannot renew badge: ${denial}`, { badgeAwardId, adminId: renewedBy });
+    }
+
+    const now = new Date();
+    let expiresAt: Date | null;
+
+    if (renewal.expiresAt) {
+      if (renewal.expiresAt <= now) {
+        throw BadgeErrorFactory.validationError('Renewal expiry must be in the future', 'expiresAt');
+      }
+      expiresAt = renewal.expiresAt;
+    } else {
+      const validityDays = renewal.validityDays ?? badgeAward.badge.validityDays;
+      if (!validityDays) {
+        throw BadgeErrorFactory.validationError(
+          'Badge has no validity period; provide validityDays or expiresAt',
+          'validityDays'
+        );
+      }
+
+      const base = badgeAward.expiresAt && badgeAward.expiresAt > now ? badgeAward.expiresAt : now;
+      expiresAt = BadgeExpiryService.calculateExpiry(validityDays, base);
+    }
+
+    const renewed = await prisma.studentBadge.update({
+      where: { id: badgeAwardId },
+      data: {
+        expiresAt,
+        expiredAt: null,
+        renewedAt: now,
+        renewedBy
+      },
+      include: {
+        badge: true
+      }
+    });
+
+    await AdminAuditService.logAction({
+      adminId: renewedBy,
+      action: 'RENEW_BADGE',
+      targetType: 'STUDENT_BADGE',
+      targetId: badgeAwardId,
+      collegeId: adminCollegeId,
+      success: true,
+      details: {
+        studentId: badgeAward.studentId,
+        badgeId: badgeAward.badgeId,
+        badgeName: badgeAward.badge.name,
+        previousExpiresAt: badgeAward.expiresAt,
+        expiresAt
+      }
+    });
+
+    // Post-update operations (non-critical)
+    try {
+      await BadgeEligibilityService.recompute(badgeAward.studentId, adminCollegeId);
+    } catch (error) {
+      console.error('Failed to recompute badge eligibility after renewal:', error);
+    }
+
+    return renewed;
+  }
+
+  /**
+   * Get revoked badge history for a student, optionally limited to one college
+   */
+  static async getRevocationHistory(studentId: string, collegeId?: string) {
+    return await prisma.badgeRevocation.findMany({
+      where: { studentId, ...(collegeId && { collegeId }) },
+      include: {
+        badge: {
+          select: { id: true, name: true, icon: true, category: true, rarity: true }
+        }
+      },
+      orderBy: { revokedAt: 'desc' }
+    });
+  }
+
+  /**
+   * Preview which students of the admin's college a badge rule would award automatically
+   * Uses the stored criteria of badgeId, or the supplied criteria to test a rule before saving it
+   */
+  static async dryRunBadgeRule(
+    options: { badgeId?: string; criteria?: string; limit?: number },
+    adminCollegeId: string
+  ) {
+    let criteria = options.criteria;
+
+    if (options.badgeId) {
+      const badge = await prisma.badgeDefinition.findUnique({
+        where: { id: options.badgeId },
+        select: { id: true, collegeId: true, criteria: true }
+      });
+
+      if (!badge) {
+        throw new BadgeNotFoundError(options.badgeId);
+      }
+
+      if (badge.collegeId && badge.collegeId !== adminCollegeId) {
+        throw new CrossCollegeAccessDeniedError('badge', options.badgeId, {
+          badgeCollegeId: badge.collegeId,
+          adminCollegeId
+        });
+      }
+
+      criteria = criteria ?? badge.criteria ?? undefined;
+    }
+
+    BadgeRuleService.validateCriteria(criteria);
+    const rule = BadgeRuleService.parseRule(criteria);
+    if (!rule) {
+      throw new BadgeDefinitionValidationError('Badge criteria is not a machine-readable rule', 'criteria');
+    }
+
+    return await BadgeRuleService.dryRun(rule, adminCollegeId, options.badgeId, options.limit);
   }
 
   /**
@@ -513,17 +785,16 @@ export class AdminBadgeService {
               }, adminId, adminCollegeId, authHeader);
               break;
             case 'REVOKE':
-              // Find the badge award to revoke
-              const badgeAward = await prisma.studentBadge.findUnique({
+              // Find the badge award to revoke (the most recent one for repeatable badges)
+              const badgeAward = await prisma.studentBadge.findFirst({
                 where: {
-                  badgeId_studentId: {
-                    badgeId: awardOp.badgeDefinitionId,
-                    studentId: awardOp.userId
-                  }
-                }
+                  badgeId: awardOp.badgeDefinitionId,
+                  studentId: awardOp.userId
+                },
+                orderBy: { awardedAt: 'desc' }
               });
               if (badgeAward) {
-                await this.revokeBadge(badgeAward.id, awardOp.reason, adminId, adminCollegeId);
+                await this.revokeBadge(badgeAward.id, awardOp.reason, adminId, adminCollegeId, { authHeader });
               }
               break;
           }
@@ -683,6 +954,9 @@ export class AdminBadgeService {
       // Validate input
       const validatedLimit = Math.min(Math.max(limit, 1), 100); // Ensure limit is between 1-100
 
+      // Expired awards are excluded from rankings
+      const activeAwardWhere = BadgeExpiryService.activeAwardWhere();
+
       // Step 1: Get top students with badge counts using optimized query
       const leaderboardData = await prisma.studentBadge.groupBy({
         by: ['studentId'],
@@ -692,7 +966,8 @@ export class AdminBadgeService {
               { collegeId: adminCollegeId },
               { collegeId: null }
             ]
-          }
+          },
+          ...activeAwardWhere
         },
         _count: { studentId: true },
         orderBy: { _count: { studentId: 'desc' } },
@@ -714,7 +989,8 @@ export class AdminBadgeService {
               { collegeId: adminCollegeId },
               { collegeId: null }
             ]
-          }
+          },
+          ...activeAwardWhere
         },
         include: {
           badge: {
@@ -723,7 +999,10 @@ export class AdminBadgeService {
               name: true,
               category: true,
               points: true,
-              rarity: true
+              rarity: true,
+              awardMode: true,
+              maxAwards: true,
+              levels: true
             }
           }
         },
@@ -751,14 +1030,19 @@ export class AdminBadgeService {
         const badges = badgesByStudent.get(student.studentId) || [];
         
         // Calculate categories and points from the fetched badges
+        // Tiered badges count the highest level reached; repeatable badges count every award
         const categories = [...new Set(badges.map(b => b.badge.category).filter(Boolean))];
-        const totalPoints = badges.reduce((sum, b) => sum + (b.badge.points || 0), 0);
+        const summary = BadgeTierService.summarize(badges);
+        const totalPoints = summary.reduce((sum, entry) => sum + entry.points, 0);
         
         // Get recent badges (last 3)
         const recentBadges = badges.slice(0, 3).map(b => ({
           id: b.badge.id,
           name: b.badge.name,
           rarity: b.badge.rarity,
+          level: b.level,
+          levelName: BadgeTierService.levelName(b.badge, b.level),
+          count: summary.find(entry => entry.badgeId === b.badgeId)?.count || 1,
           awardedAt: b.awardedAt
         }));
 
@@ -769,6 +1053,7 @@ export class AdminBadgeService {
           department: user?.department || 'Unknown',
           year: user?.year,
           badgeCount: student._count.studentId,
+          distinctBadgeCount: summary.length,
           totalPoints,
           categories: categories.sort(),
           recentBadges,
@@ -807,6 +1092,7 @@ export class AdminBadgeService {
         departmentId: policy.departmentId,
         eventCreationRequired: policy.eventCreationRequired,
         categoryDiversityMin: policy.categoryDiversityMin,
+        approvalRarities: policy.approvalRarities,
         isActive: policy.isActive
       },
       create: {
@@ -814,6 +1100,7 @@ export class AdminBadgeService {
         departmentId: policy.departmentId,
         eventCreationRequired: policy.eventCreationRequired,
         categoryDiversityMin: policy.categoryDiversityMin,
+        approvalRarities: policy.approvalRarities,
         isActive: policy.isActive
       }
     });
@@ -886,22 +1173,39 @@ export class AdminBadgeService {
     };
   }
 
-  private static async canRevokeBadgeAward(
+  /**
+   * Why an admin or faculty member may not revoke or renew an award, or null when they may
+   */
+  private static async canManageBadgeAward(
     badgeAward: any,
     adminId: string,
-    adminCollegeId: string
-  ): Promise<boolean> {
+    adminCollegeId: string,
+    options: BadgeAwardManagementOptions,
+    action: 'revoke' | 'renew'
+  ): Promise<string | null> {
     // Check if badge belongs to admin's college
     if (badgeAward.badge.collegeId && badgeAward.badge.collegeId !== adminCollegeId) {
-      return false;
+      return 'Badge belongs to a different college';
     }
 
-    // HEAD_ADMIN can revoke badges, but not those awarded by SUPER_ADMIN
-    // This would require checking the awardedBy user's role
-    // For now, simplified check
-    return true;
-  }
+    // Faculty may only revoke or renew awards they made themselves
+    if (options.ownAwardsOnly && badgeAward.awardedBy !== adminId) {
+      return `Only the awarding faculty member or an admin can ${action} this badge`;
+    }
+
+    // Global badges have no college of their own, so the student's college always decides
+    const student = await AuthServiceClient.getUser(badgeAward.studentId, options.authHeader || '');
+    if (!student || student.collegeId !== adminCollegeId) {
+      return 'Student belongs to a different college';
+    }
+
+    // DEPT_ADMIN is limited to students in their department
+    if (options.department && student.department !== options.department) {
+      return 'Student belongs to a different department';
+    }
 
+    return null;
+  }
 
   private static async validateBulkBadgeOperation(
     action: string,
@@ -929,6 +1233,10 @@ export class AdminBadgeService {
       throw new Error(`Cannot access badge from different college`);
     }
 
+    if (action === 'AWARD') {
+      await this.assertAwardAllowed(badge, adminCollegeId);
+    }
+
     // Check student access
     const hasAccess = await this.checkStudentAccess(awardOp.userId, adminCollegeId);
     if (!hasAccess) {
@@ -1,4 +1,9 @@
 import { prisma } from '../../db.js';
+import { ProfileCompletenessService, CompletenessConfig } from '../../services/ProfileCompletenessService.js';
+import { ProfileEligibilityService } from '../../services/ProfileEligibilityService.js';
+import { ProfileHistoryService } from '../../services/ProfileHistoryService.js';
+import { ProfileSearchService } from '../../services/ProfileSearchService.js';
+import { ProfileModerationService, ModerationScope } from '../../services/ProfileModerationService.js';
 import { 
   ProfileUpdateRequest, 
   BulkProfileOperation, 
@@ -47,9 +52,9 @@ export class AdminProfileService {
 
     if (filters.hasProjects !== undefined) {
       if (filters.hasProjects) {
-        where.personalProjects = { some: {} };
+        where.personalProjects = { some: { deletedAt: null } };
       } else {
-        where.personalProjects = { none: {} };
+        where.personalProjects = { none: { deletedAt: null } };
       }
     }
 
@@ -82,9 +87,9 @@ export class AdminProfileService {
         take,
         orderBy: { [sortBy]: sortOrder },
         include: {
-          personalProjects: true,
-          publications: true,
-          experiences: true,
+          personalProjects: { where: { deletedAt: null } },
+          publications: { where: { deletedAt: null } },
+          experiences: { where: { deletedAt: null } },
           studentBadges: {
             include: {
               badge: true
@@ -122,9 +127,9 @@ export class AdminProfileService {
     const profile = await prisma.profile.findUnique({
       where: { userId },
       include: {
-        personalProjects: true,
-        publications: true,
-        experiences: true,
+        personalProjects: { where: { deletedAt: null } },
+        publications: { where: { deletedAt: null } },
+        experiences: { where: { deletedAt: null } },
         studentBadges: {
           include: {
             badge: true
@@ -142,7 +147,8 @@ export class AdminProfileService {
     const enrichedProfile = await this.enrichProfileWithUserData(profile);
     
     // Add completion status
-    const completionStatus = await this.calculateProfileCompletion(profile);
+    const completenessConfig = await ProfileCompletenessService.getConfig(adminCollegeId);
+    const completionStatus = this.calculateProfileCompletion(profile, completenessConfig);
     
     return {
       ...enrichedProfile,
@@ -191,25 +197,38 @@ export class AdminProfileService {
     // Update profile in database
     let updatedProfile;
     if (Object.keys(profileUpdates).length > 0) {
+      const previousProfile = await prisma.profile.findUnique({ where: { userId } });
+
       updatedProfile = await prisma.profile.update({
         where: { userId },
         data: profileUpdates,
         include: {
-          personalProjects: true,
-          publications: true,
-          experiences: true,
+          personalProjects: { where: { deletedAt: null } },
+          publications: { where: { deletedAt: null } },
+          experiences: { where: { deletedAt: null } },
           studentBadges: {
             include: { badge: true }
           }
         }
       });
+
+      await ProfileEligibilityService.invalidate(userId);
+
+      await ProfileHistoryService.record({
+        userId,
+        entityType: 'PROFILE',
+        entityId: updatedProfile.id,
+        before: previousProfile,
+        after: updatedProfile,
+        actor: { id: adminId, source: 'ADMIN' }
+      }).catch(error => console.warn('Failed to record profile history:', error));
     } else {
       updatedProfile = await prisma.profile.findUnique({
         where: { userId },
         include: {
-          personalProjects: true,
-          publications: true,
-          experiences: true,
+          personalProjects: { where: { deletedAt: null } },
+          publications: { where: { deletedAt: null } },
+          experiences: { where: { deletedAt: null } },
           studentBadges: {
             include: { badge: true }
           }
@@ -222,16 +241,21 @@ export class AdminProfileService {
       await this.updateUserViaAuthService(userId, userUpdates, adminId);
     }
 
+    await ProfileSearchService.index(userId, { department: updates.department, year: updates.year })
+      .catch(error => console.warn('Failed to update profile search index:', error));
+
     return this.enrichProfileWithUserData(updatedProfile!);
   }
 
   /**
    * Bulk profile operations
+   * APPROVE and REJECT decide one moderation item per entry, with the same checks as the moderation queue
    */
   static async bulkOperation(
     operation: BulkProfileOperation,
     adminCollegeId: string,
-    adminId: string
+    adminId: string,
+    adminDepartment?: string // Set for DEPT_ADMIN, limits moderation decisions to one department
   ): Promise<BulkOperationResult> {
     if (operation.profiles.length > ADMIN_LIMITS.MAX_BULK_OPERATION_SIZE) {
       throw new Error(`Maximum ${ADMIN_LIMITS.MAX_BULK_OPERATION_SIZE} profiles allowed per bulk operation`);
@@ -275,10 +299,14 @@ export class AdminProfileService {
             }
             break;
           case 'APPROVE':
-            await this.approveProfileContent(profileOp.userId, adminId, profileOp.reason);
-            break;
           case 'REJECT':
-            await this.rejectProfileContent(profileOp.userId, adminId, profileOp.reason || 'Bulk rejection');
+            await this.decideProfileContent(
+              profileOp.userId,
+              profileOp.contentId!,
+              operation.action === 'APPROVE' ? 'APPROVED' : 'REJECTED',
+              { moderatorId: adminId, collegeId: adminCollegeId, department: adminDepartment },
+              operation.action === 'REJECT' ? profileOp.reason || 'Bulk rejection' : profileOp.reason
+            );
             break;
           case 'REQUIRE_COMPLETION':
             await this.requireProfileCompletion(profileOp.userId, adminCollegeId);
@@ -316,18 +344,17 @@ export class AdminProfileService {
     const profiles = await prisma.profile.findMany({
       where: { userId: { in: userIds } },
       include: {
-        personalProjects: true,
-        publications: true,
-        experiences: true
+        personalProjects: { where: { deletedAt: null } },
+        publications: { where: { deletedAt: null } },
+        experiences: { where: { deletedAt: null } }
       }
     });
 
-    const completionData = await Promise.all(
-      profiles.map(async (profile) => ({
-        userId: profile.userId,
-        completion: await this.calculateProfileCompletion(profile)
-      }))
-    );
+    const completenessConfig = await ProfileCompletenessService.getConfig(adminCollegeId);
+    const completionData = profiles.map(profile => ({
+      userId: profile.userId,
+      completion: this.calculateProfileCompletion(profile, completenessConfig)
+    }));
 
     // Get user data for department/year breakdown
     const userData = await this.getUserDataFromAuthService(userIds);
@@ -420,6 +447,8 @@ export class AdminProfileService {
         enforceForNetwork: requirements.enforceForNetwork,
         enforceForEvents: requirements.enforceForEvents,
         enforceForProjects: requirements.enforceForProjects,
+        requireModeration: requirements.requireModeration,
+        completenessWeights: requirements.completenessWeights,
         isActive: requirements.isActive
       },
       create: {
@@ -435,6 +464,8 @@ export class AdminProfileService {
         enforceForNetwork: requirements.enforceForNetwork,
         enforceForEvents: requirements.enforceForEvents,
         enforceForProjects: requirements.enforceForProjects,
+        requireModeration: requirements.requireModeration,
+        completenessWeights: requirements.completenessWeights,
         isActive: requirements.isActive
       }
     });
@@ -566,26 +597,15 @@ export class AdminProfileService {
     }
   }
 
-  private static async calculateProfileCompletion(profile: any): Promise<{ percentage: number; missing: string[] }> {
-    const missing: string[] = [];
-    let totalFields = 10;
-    let completedFields = 0;
-
-    // Check required fields
-    if (profile.name) completedFields++; else missing.push('Name');
-    if (profile.bio) completedFields++; else missing.push('Bio');
-    if (profile.skills && profile.skills.length > 0) completedFields++; else missing.push('Skills');
-    if (profile.linkedIn || profile.github) completedFields++; else missing.push('Social Links');
-    if (profile.contactInfo) completedFields++; else missing.push('Contact Info');
-    if (profile.resumeUrl) completedFields++; else missing.push('Resume');
-    if (profile.personalProjects && profile.personalProjects.length > 0) completedFields++; else missing.push('Projects');
-    if (profile.experiences && profile.experiences.length > 0) completedFields++; else missing.push('Experience');
-    if (profile.phoneNumber) completedFields++; else missing.push('Phone Number');
-    if (profile.alternateEmail) completedFields++; else missing.push('Alternate Email');
+  private static calculateProfileCompletion(
+    profile: any,
+    config: CompletenessConfig
+  ): { percentage: number; missing: string[] } {
+    const result = ProfileCompletenessService.evaluate(profile, config);
 
     return {
-      percentage: Math.round((completedFields / totalFields) * 100),
-      missing
+      percentage: result.score,
+      missing: result.missing
     };
   }
 
@@ -602,38 +622,28 @@ export class AdminProfileService {
     if (action === 'UPDATE' && !profileOp.data) {
       throw new Error('Missing update data');
     }
-  }
 
-  private static async approveProfileContent(userId: string, adminId: string, reason?: string): Promise<void> {
-    // Implementation for content approval
-    await prisma.profileModeration.updateMany({
-      where: {
-        userId,
-        status: 'PENDING'
-      },
-      data: {
-        status: 'APPROVED',
-        moderatorId: adminId,
-        reason,
-        reviewedAt: new Date()
-      }
-    });
+    if ((action === 'APPROVE' || action === 'REJECT') && !profileOp.contentId) {
+      throw new Error('Missing contentId');
+    }
   }
 
-  private static async rejectProfileContent(userId: string, adminId: string, reason: string): Promise<void> {
-    // Implementation for content rejection
-    await prisma.profileModeration.updateMany({
-      where: {
-        userId,
-        status: 'PENDING'
-      },
-      data: {
-        status: 'REJECTED',
-        moderatorId: adminId,
-        reason,
-        reviewedAt: new Date()
-      }
+  private static async decideProfileContent(
+    userId: string,
+    contentId: string,
+    decision: 'APPROVED' | 'REJECTED',
+    scope: ModerationScope,
+    reason?: string
+  ): Promise<void> {
+    const entry = await prisma.profileModeration.findFirst({
+      where: { contentId, userId },
+      select: { id: true }
     });
+    if (!entry) {
+      throw new Error(`Content ${contentId} does not belong to user ${userId}`);
+    }
+
+    await ProfileModerationService.decide(contentId, decision, scope, reason);
   }
 
   private static async requireProfileCompletion(userId: string, collegeId: string): Promise<void> {
@@ -644,14 +654,14 @@ export class AdminProfileService {
     const profile = await prisma.profile.findUnique({
       where: { userId },
       include: {
-        personalProjects: true,
-        experiences: true
+        personalProjects: { where: { deletedAt: null } },
+        experiences: { where: { deletedAt: null } }
       }
     });
 
     if (!profile) return;
 
-    const completion = await this.calculateProfileCompletion(profile);
+    const completion = this.calculateProfileCompletion(profile, await ProfileCompletenessService.getConfig(collegeId));
     
     if (completion.percentage < 80) {
       // Create moderation entry for incomplete profile
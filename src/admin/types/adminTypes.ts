@@ -34,7 +34,7 @@ export interface ProfileUpdateRequest {
 
 export interface BulkProfileOperation {
   action: "UPDATE" | "APPROVE" | "REJECT" | "REQUIRE_COMPLETION";
-  profiles: Array<{ userId: string; data?: ProfileUpdateRequest; reason?: string }>;
+  profiles: Array<{ userId: string; data?: ProfileUpdateRequest; reason?: string; contentId?: string }>; // contentId: moderation item, APPROVE/REJECT only
   preview?: boolean;
 }
 
@@ -48,6 +48,10 @@ export interface BadgeDefinitionRequest {
   criteria?: string;
   rarity: "COMMON" | "UNCOMMON" | "RARE" | "EPIC" | "LEGENDARY";
   points?: number;
+  validityDays?: number | null; // null = never expires
+  awardMode?: "SINGLE" | "REPEATABLE" | "TIERED";
+  maxAwards?: number | null; // REPEATABLE only, null = unlimited
+  levels?: Array<{ name: string; points: number }> | null; // TIERED only, in ascending order
   isActive?: boolean;
 }
 
@@ -57,6 +61,7 @@ export interface BadgeAwardRequest {
   reason: string;
   projectId?: string;
   eventId?: string;
+  level?: number; // TIERED badges: defaults to the next level
   awardedByName?: string;
 }
 
@@ -78,7 +83,7 @@ export interface ModerationRequest {
   userId: string;
   contentType: "BIO" | "PROJECT" | "PUBLICATION" | "EXPERIENCE" | "PROFILE";
   contentId?: string;
-  status: "PENDING" | "APPROVED" | "REJECTED";
+  status: "PENDING" | "IN_REVIEW" | "APPROVED" | "REJECTED";
   reason?: string;
 }
 
@@ -95,6 +100,8 @@ export interface ProfileRequirementsConfig {
   enforceForNetwork: boolean;
   enforceForEvents: boolean;
   enforceForProjects: boolean;
+  requireModeration: boolean;
+  completenessWeights?: Record<string, number>;
   isActive: boolean;
 }
 
@@ -162,6 +169,7 @@ export interface PlacementReadinessReport {
     year: number;
     profileCompleteness: number;
     skillCount: number;
+    endorsedSkillCount: number;
     projectCount: number;
     badgeCount: number;
     placementScore: number;
@@ -212,10 +220,12 @@ export type ProfileAuditAction =
   | "LOGIN" | "LOGOUT"
   | "CREATE_PROFILE" | "UPDATE_PROFILE" | "DELETE_PROFILE"
   | "CREATE_BADGE" | "UPDATE_BADGE" | "DELETE_BADGE" 
-  | "AWARD_BADGE" | "REVOKE_BADGE"
+  | "AWARD_BADGE" | "REVOKE_BADGE" | "RENEW_BADGE"
+  | "NOMINATE_BADGE" | "APPROVE_NOMINATION" | "REJECT_NOMINATION"
   | "CREATE_PROJECT" | "UPDATE_PROJECT" | "DELETE_PROJECT"
   | "CREATE_PUBLICATION" | "UPDATE_PUBLICATION" | "DELETE_PUBLICATION"
-  | "APPROVE_CONTENT" | "REJECT_CONTENT"
+  | "CLAIM_CONTENT" | "APPROVE_CONTENT" | "REJECT_CONTENT"
+  | "CREATE_SKILL" | "UPDATE_SKILL" | "MERGE_SKILLS"
   | "UPDATE_REQUIREMENTS" | "BULK_OPERATION"
   | "EXPORT_DATA" | "GENERATE_REPORT";
 
@@ -322,9 +332,23 @@ export interface BadgePolicyConfig {
   departmentId?: string;
   eventCreationRequired: number;
   categoryDiversityMin: number;
+  approvalRarities?: Array<"COMMON" | "UNCOMMON" | "RARE" | "EPIC" | "LEGENDARY">;
   isActive: boolean;
 }
 
+export interface BadgeRenewalRequest {
+  validityDays?: number; // Defaults to the badge validity period
+  expiresAt?: Date; // Explicit new expiry, takes precedence over validityDays
+}
+
+// Who is revoking or renewing an award, and which awards they may manage
+export interface BadgeAwardManagementOptions {
+  revokedByName?: string;
+  authHeader?: string;
+  ownAwardsOnly?: boolean; // FACULTY: only awards they made themselves
+  department?: string; // DEPT_ADMIN: only students in this department
+}
+
 // Industry trend interfaces
 export interface IndustryTrend {
   skill: string;
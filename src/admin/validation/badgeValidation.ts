@@ -54,6 +54,37 @@ export const BadgeDefinitionRequestSchema = z.object({
     .optional()
     .default(10),
   
+  validityDays: z.number()
+    .int('Validity must be a whole number of days')
+    .min(1, 'Validity must be at least 1 day')
+    .max(3650, 'Validity cannot exceed 3650 days')
+    .nullable()
+    .optional(),
+  
+  awardMode: z.enum(['SINGLE', 'REPEATABLE', 'TIERED'], {
+    errorMap: () => ({ message: 'Award mode must be one of: SINGLE, REPEATABLE, TIERED' })
+  }).optional(),
+  
+  maxAwards: z.number()
+    .int('Award cap must be a whole number')
+    .min(1, 'Award cap must be at least 1')
+    .max(100, 'Award cap cannot exceed 100')
+    .nullable()
+    .optional(),
+  
+  levels: z.array(z.object({
+    name: z.string()
+      .min(1, 'Level name is required')
+      .max(50, 'Level name must be 50 characters or less'),
+    points: z.number()
+      .int('Level points must be an integer')
+      .min(0, 'Level points cannot be negative')
+      .max(1000, 'Level points cannot exceed 1000')
+  }))
+    .max(10, 'Badges can have at most 10 levels')
+    .nullable()
+    .optional(),
+  
   isActive: z.boolean()
     .optional()
     .default(true)
@@ -74,6 +105,11 @@ export const BadgeAwardRequestSchema = z.object({
   
   eventId: cuidSchema.optional(),
   
+  level: z.number()
+    .int('Level must be a whole number')
+    .min(1, 'Level must be at least 1')
+    .optional(),
+  
   awardedByName: z.string()
     .min(1, 'Awarded by name cannot be empty')
     .max(100, 'Awarded by name must be 100 characters or less')
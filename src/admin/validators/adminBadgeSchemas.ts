@@ -1,6 +1,11 @@
 import { z } from 'zod';
 
 // Badge definition schemas
+const badgeLevelSchema = z.object({
+  name: z.string().min(1, 'Level name is required').max(50, 'Level name too long'),
+  points: z.number().int().min(0).max(1000)
+});
+
 export const createBadgeSchema = z.object({
   name: z.string().min(1, 'Badge name is required').max(100, 'Badge name too long'),
   description: z.string().min(1, 'Description is required').max(500, 'Description too long'),
@@ -10,6 +15,10 @@ export const createBadgeSchema = z.object({
   criteria: z.string().max(1000).optional(),
   rarity: z.enum(['COMMON', 'UNCOMMON', 'RARE', 'EPIC', 'LEGENDARY']).default('COMMON'),
   points: z.number().int().min(1).max(1000).optional().default(10),
+  validityDays: z.number().int().min(1).max(3650).nullable().optional(), // null = never expires
+  awardMode: z.enum(['SINGLE', 'REPEATABLE', 'TIERED']).optional(),
+  maxAwards: z.number().int().min(1).max(100).nullable().optional(), // REPEATABLE only, null = unlimited
+  levels: z.array(badgeLevelSchema).max(10).nullable().optional(), // TIERED only, in ascending order
   isActive: z.boolean().optional().default(true)
 });
 
@@ -21,6 +30,7 @@ export const awardBadgeSchema = z.object({
   reason: z.string().min(1, 'Reason is required').max(500, 'Reason too long'),
   projectId: z.string().cuid().optional(),
   eventId: z.string().cuid().optional(),
+  level: z.number().int().min(1).optional(), // TIERED badges: defaults to the next level
   awardedByName: z.string().optional()
 });
 
@@ -40,11 +50,29 @@ export const bulkBadgeOperationSchema = z.object({
   preview: z.boolean().optional().default(false)
 });
 
+export const approveNominationSchema = z.object({
+  note: z.string().max(500, 'Note too long').optional(),
+  level: z.number().int().min(1).optional() // TIERED badges: overrides the nominated level
+});
+
+export const rejectNominationSchema = z.object({
+  reason: z.string().min(1, 'Reason is required').max(500, 'Reason too long')
+});
+
+export const badgeRuleDryRunSchema = z.object({
+  badgeId: z.string().cuid('Invalid badge ID').optional(),
+  criteria: z.string().max(1000).optional(), // Overrides the badge's stored rule
+  limit: z.number().int().min(1).max(500).optional().default(100)
+}).refine(data => data.badgeId || data.criteria, {
+  message: 'Either badgeId or criteria is required'
+});
+
 export const badgePolicySchema = z.object({
   collegeId: z.string().cuid(),
   departmentId: z.string().optional(),
   eventCreationRequired: z.number().int().min(0).max(50).default(8),
   categoryDiversityMin: z.number().int().min(0).max(20).default(4),
+  approvalRarities: z.array(z.enum(['COMMON', 'UNCOMMON', 'RARE', 'EPIC', 'LEGENDARY'])).optional(),
   isActive: z.boolean().default(true)
 });
 
@@ -59,6 +87,13 @@ export const badgeFiltersSchema = z.object({
   awardedBefore: z.string().datetime().optional().transform(val => val ? new Date(val) : undefined)
 });
 
+export const nominationQueueQuerySchema = z.object({
+  status: z.enum(['PENDING', 'APPROVED', 'REJECTED']).optional(),
+  badgeId: z.string().cuid().optional(),
+  page: z.string().optional().transform(val => parseInt(val || '1')).pipe(z.number().int().min(1)),
+  limit: z.string().optional().transform(val => parseInt(val || '50')).pipe(z.number().int().min(1).max(100))
+});
+
 export const leaderboardQuerySchema = z.object({
   limit: z.string().optional().transform(val => parseInt(val || '50')).pipe(z.number().int().min(1).max(100))
 });
@@ -72,6 +107,10 @@ export const badgeAwardParamsSchema = z.object({
   awardId: z.string().cuid('Invalid award ID')
 });
 
+export const nominationParamsSchema = z.object({
+  nominationId: z.string().cuid('Invalid nomination ID')
+});
+
 // Response schemas
 export const badgeDefinitionResponseSchema = z.object({
   id: z.string(),
@@ -83,6 +122,10 @@ export const badgeDefinitionResponseSchema = z.object({
   criteria: z.string().nullable(),
   rarity: z.string(),
   points: z.number(),
+  validityDays: z.number().nullable(),
+  awardMode: z.string(),
+  maxAwards: z.number().nullable(),
+  levels: z.any(),
   isActive: z.boolean(),
   collegeId: z.string().nullable(),
   createdAt: z.date(),
@@ -108,6 +151,31 @@ export const badgeAwardResponseSchema = z.object({
   badge: badgeDefinitionResponseSchema
 });
 
+export const badgeRevocationResponseSchema = z.object({
+  id: z.string(),
+  awardId: z.string(),
+  studentId: z.string(),
+  badgeId: z.string(),
+  collegeId: z.string().nullable(),
+  awardedBy: z.string(),
+  awardedByName: z.string().nullable(),
+  awardReason: z.string(),
+  awardedAt: z.date(),
+  projectId: z.string().nullable(),
+  eventId: z.string().nullable(),
+  revokedBy: z.string(),
+  revokedByName: z.string().nullable(),
+  reason: z.string(),
+  revokedAt: z.date(),
+  badge: badgeDefinitionResponseSchema
+});
+
+export const revokeBadgeResponseSchema = z.object({
+  success: z.boolean(),
+  data: badgeRevocationResponseSchema,
+  message: z.string().optional()
+});
+
 export const badgeStatisticsResponseSchema = z.object({
   overview: z.object({
     totalBadges: z.number(),
@@ -137,11 +205,95 @@ export const badgeLeaderboardResponseSchema = z.object({
     department: z.string().nullable(),
     year: z.number().nullable(),
     badgeCount: z.number(),
+    distinctBadgeCount: z.number().optional(),
     categories: z.array(z.string()),
-    totalPoints: z.number()
+    totalPoints: z.number(),
+    recentBadges: z.array(z.object({
+      id: z.string(),
+      name: z.string(),
+      rarity: z.string(),
+      level: z.number().nullable(),
+      levelName: z.string().nullable(),
+      count: z.number(),
+      awardedAt: z.date()
+    })).optional()
   }))
 });
 
+export const badgeNominationResponseSchema = z.object({
+  id: z.string(),
+  badgeId: z.string(),
+  nomineeId: z.string(),
+  nominatedBy: z.string(),
+  nominatedByName: z.string().nullable(),
+  nominatorRole: z.string(),
+  collegeId: z.string(),
+  department: z.string().nullable(),
+  reason: z.string(),
+  evidence: z.any(),
+  projectId: z.string().nullable(),
+  eventId: z.string().nullable(),
+  level: z.number().nullable(),
+  status: z.string(),
+  reviewedBy: z.string().nullable(),
+  reviewedByName: z.string().nullable(),
+  reviewNote: z.string().nullable(),
+  reviewedAt: z.date().nullable(),
+  awardId: z.string().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+  badge: z.object({
+    id: z.string(),
+    name: z.string(),
+    icon: z.string().nullable(),
+    color: z.string().nullable(),
+    category: z.string().nullable(),
+    rarity: z.string()
+  })
+});
+
+export const nominationQueueResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.array(badgeNominationResponseSchema),
+  pagination: z.object({
+    page: z.number(),
+    limit: z.number(),
+    total: z.number(),
+    totalPages: z.number()
+  })
+});
+
+export const nominationDecisionResponseSchema = z.object({
+  success: z.boolean(),
+  data: badgeNominationResponseSchema,
+  message: z.string().optional()
+});
+
+export const badgeRuleDryRunResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.object({
+    badgeId: z.string().nullable(),
+    collegeId: z.string(),
+    rule: z.any(),
+    evaluated: z.number(),
+    qualifying: z.number(),
+    wouldAward: z.number(),
+    students: z.array(z.object({
+      userId: z.string(),
+      alreadyAwarded: z.boolean(),
+      revoked: z.boolean(),
+      facts: z.object({
+        projects: z.number(),
+        publications: z.record(z.number()),
+        experiences: z.record(z.number()),
+        skills: z.number(),
+        completeness: z.number()
+      })
+    }))
+  }),
+  message: z.string().optional()
+});
+
 export const badgesListResponseSchema = z.object({
   success: z.boolean(),
   data: z.array(badgeDefinitionResponseSchema),
@@ -161,6 +313,7 @@ export const badgePolicyResponseSchema = z.object({
     departmentId: z.string().nullable(),
     eventCreationRequired: z.number(),
     categoryDiversityMin: z.number(),
+    approvalRarities: z.array(z.string()),
     isActive: z.boolean(),
     createdAt: z.date(),
     updatedAt: z.date()
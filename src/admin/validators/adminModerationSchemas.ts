@@ -0,0 +1,60 @@
+import { z } from 'zod';
+
+const moderationContentTypes = ['BIO', 'PROJECT', 'PUBLICATION', 'EXPERIENCE'] as const;
+
+// Moderation queue schemas
+export const moderationQueueQuerySchema = z.object({
+  status: z.enum(['PENDING', 'IN_REVIEW', 'APPROVED', 'REJECTED']).optional(),
+  contentType: z.enum(moderationContentTypes).optional(),
+  department: z.string().max(100).optional(),
+  mine: z.string().optional().transform(val => val === 'true'),
+  page: z.string().optional().transform(val => parseInt(val || '1')).pipe(z.number().int().min(1)),
+  limit: z.string().optional().transform(val => parseInt(val || '50')).pipe(z.number().int().min(1).max(100))
+});
+
+export const moderationParamsSchema = z.object({
+  contentId: z.string().min(1, 'Content ID is required')
+});
+
+export const approveContentSchema = z.object({
+  reason: z.string().max(500, 'Reason too long').optional()
+});
+
+export const rejectContentSchema = z.object({
+  reason: z.string().min(1, 'Reason is required').max(500, 'Reason too long')
+});
+
+// Response schemas
+export const moderationItemResponseSchema = z.object({
+  id: z.string(),
+  profileId: z.string(),
+  userId: z.string(),
+  moderatorId: z.string().nullable(),
+  status: z.string(),
+  contentType: z.string(),
+  contentId: z.string().nullable(),
+  collegeId: z.string().nullable(),
+  department: z.string().nullable(),
+  snapshot: z.any(),
+  reason: z.string().nullable(),
+  submittedAt: z.date(),
+  claimedAt: z.date().nullable(),
+  reviewedAt: z.date().nullable()
+});
+
+export const moderationQueueResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.array(moderationItemResponseSchema),
+  pagination: z.object({
+    page: z.number(),
+    limit: z.number(),
+    total: z.number(),
+    totalPages: z.number()
+  })
+});
+
+export const moderationDecisionResponseSchema = z.object({
+  success: z.boolean(),
+  data: moderationItemResponseSchema,
+  message: z.string().optional()
+});
@@ -0,0 +1,77 @@
+import { z } from 'zod';
+import { updateProfileSchema, profileResponseSchema } from './adminProfileSchemas';
+
+// Placement query schemas
+export const readinessQuerySchema = z.object({
+  readiness: z.enum(['ready', 'not-ready', 'high-potential']).optional(),
+  department: z.string().max(100).optional()
+});
+
+export const placementAnalyticsQuerySchema = z.object({
+  type: z.enum(['skills', 'readiness', 'department-wise']).optional()
+});
+
+export const placementReportQuerySchema = z.object({
+  department: z.string().max(100).optional(),
+  year: z.string().regex(/^[1-6]$/, 'Year must be between 1 and 6').optional(),
+  format: z.enum(['json', 'csv']).optional().default('json')
+});
+
+// Placement admins may only touch placement-relevant profile fields
+export const placementProfileUpdateSchema = updateProfileSchema.pick({
+  skills: true,
+  resumeUrl: true,
+  linkedIn: true,
+  github: true,
+  bio: true,
+  contactInfo: true,
+  phoneNumber: true,
+  alternateEmail: true
+});
+
+// Response schemas
+export const placementStudentSchema = z.object({
+  userId: z.string(),
+  displayName: z.string().optional(),
+  department: z.string().nullable().optional(),
+  year: z.number().nullable().optional(),
+  profileCompleteness: z.number(),
+  skillCount: z.number(),
+  projectCount: z.number(),
+  badgeCount: z.number(),
+  placementScore: z.number(),
+  recommendations: z.array(z.string())
+});
+
+export const departmentSummarySchema = z.record(z.object({
+  totalStudents: z.number(),
+  readyStudents: z.number(),
+  averageScore: z.number(),
+  topSkills: z.array(z.string()),
+  recommendations: z.array(z.string())
+}));
+
+export const placementStudentsListResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.array(profileResponseSchema.extend({
+    placementScore: z.number(),
+    placementRecommendations: z.array(z.string())
+  })),
+  pagination: z.object({
+    page: z.number(),
+    limit: z.number(),
+    total: z.number(),
+    totalPages: z.number()
+  }).optional()
+});
+
+export const readinessStudentsResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.array(placementStudentSchema)
+});
+
+export const placementDataResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.any(),
+  message: z.string().optional()
+});
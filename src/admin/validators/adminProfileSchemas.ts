@@ -24,11 +24,25 @@ export const bulkProfileOperationSchema = z.object({
   profiles: z.array(z.object({
     userId: z.string().cuid(),
     data: updateProfileSchema.optional(),
-    reason: z.string().optional()
+    reason: z.string().optional(),
+    contentId: z.string().optional()
   })).min(1).max(500),
   preview: z.boolean().optional().default(false)
 });
 
+export const completenessWeightsSchema = z.object({
+  name: z.number().int().min(0).max(100),
+  bio: z.number().int().min(0).max(100),
+  skills: z.number().int().min(0).max(100),
+  socialLinks: z.number().int().min(0).max(100),
+  contactInfo: z.number().int().min(0).max(100),
+  resume: z.number().int().min(0).max(100),
+  projects: z.number().int().min(0).max(100),
+  experience: z.number().int().min(0).max(100),
+  phoneNumber: z.number().int().min(0).max(100),
+  alternateEmail: z.number().int().min(0).max(100)
+}).partial();
+
 export const profileRequirementsSchema = z.object({
   collegeId: z.string().cuid(),
   requireBio: z.boolean().default(false),
@@ -42,6 +56,8 @@ export const profileRequirementsSchema = z.object({
   enforceForNetwork: z.boolean().default(true),
   enforceForEvents: z.boolean().default(true),
   enforceForProjects: z.boolean().default(true),
+  requireModeration: z.boolean().default(false),
+  completenessWeights: completenessWeightsSchema.optional(),
   isActive: z.boolean().default(true)
 });
 
@@ -0,0 +1,87 @@
+import { z } from 'zod';
+
+// Skill catalogue schemas
+const skillCategorySchema = z.enum([
+  'LANGUAGE', 'FRAMEWORK', 'LIBRARY', 'DATABASE', 'CLOUD', 'DEVOPS', 'TOOL', 'DOMAIN', 'SOFT_SKILL'
+]);
+
+const skillAliasListSchema = z.array(z.string().min(1).max(100)).max(50, 'Too many aliases');
+
+export const createSkillSchema = z.object({
+  name: z.string().min(1, 'Skill name is required').max(100, 'Skill name too long'),
+  category: skillCategorySchema.nullable().optional(),
+  aliases: skillAliasListSchema.optional()
+});
+
+export const updateSkillSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  category: skillCategorySchema.nullable().optional(),
+  aliases: skillAliasListSchema.optional(), // Replaces the alias list
+  isActive: z.boolean().optional()
+});
+
+export const mergeSkillsSchema = z.object({
+  targetSkillId: z.string().cuid('Invalid skill ID'),
+  sourceSkillIds: z.array(z.string().cuid('Invalid skill ID')).max(50).optional(),
+  sourceNames: z.array(z.string().min(1).max(100)).max(100).optional()
+}).refine(
+  data => (data.sourceSkillIds?.length || 0) + (data.sourceNames?.length || 0) > 0,
+  { message: 'Provide sourceSkillIds or sourceNames to merge' }
+);
+
+// Query and parameter schemas
+export const skillListQuerySchema = z.object({
+  search: z.string().max(100).optional(),
+  category: skillCategorySchema.optional(),
+  includeInactive: z.string().optional().transform(val => val === 'true'),
+  page: z.string().optional().transform(val => parseInt(val || '1')).pipe(z.number().int().min(1)),
+  limit: z.string().optional().transform(val => parseInt(val || '50')).pipe(z.number().int().min(1).max(100))
+});
+
+export const skillParamsSchema = z.object({
+  skillId: z.string().cuid('Invalid skill ID')
+});
+
+// Response schemas
+const skillResponseSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  normalizedName: z.string(),
+  category: z.string().nullable(),
+  isActive: z.boolean(),
+  createdBy: z.string().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+  aliases: z.array(z.object({
+    id: z.string(),
+    alias: z.string()
+  }))
+});
+
+export const skillListResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.array(skillResponseSchema),
+  pagination: z.object({
+    page: z.number(),
+    limit: z.number(),
+    total: z.number(),
+    totalPages: z.number()
+  })
+});
+
+export const skillMutationResponseSchema = z.object({
+  success: z.boolean(),
+  data: skillResponseSchema,
+  message: z.string().optional()
+});
+
+export const skillMergeResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.object({
+    skill: skillResponseSchema,
+    mergedSkills: z.number(),
+    aliasesAdded: z.number(),
+    profilesUpdated: z.number()
+  }),
+  message: z.string().optional()
+});
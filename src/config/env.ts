@@ -20,11 +20,35 @@ export const env = {
   
   NETWORK_SERVICE_URL: process.env.NETWORK_SERVICE_URL ?? "http://localhost:4005",
   BADGE_AUTO_POST_ENABLED: process.env.BADGE_AUTO_POST_ENABLED !== "false",
+  BADGE_EXPIRY_SWEEP_INTERVAL_MS: Number(process.env.BADGE_EXPIRY_SWEEP_INTERVAL_MS ?? 60 * 60 * 1000),
+  BADGE_RULE_INTERVAL_MS: Number(process.env.BADGE_RULE_INTERVAL_MS ?? 6 * 60 * 60 * 1000),
+  PROFILE_INSIGHTS_FLUSH_INTERVAL_MS: Number(process.env.PROFILE_INSIGHTS_FLUSH_INTERVAL_MS ?? 5 * 60 * 1000),
+  PROFILE_TRASH_PURGE_INTERVAL_MS: Number(process.env.PROFILE_TRASH_PURGE_INTERVAL_MS ?? 6 * 60 * 60 * 1000),
+
+  // Verifiable badge credentials: private JWK used to sign them and the public issuer identity
+  BADGE_CREDENTIAL_SIGNING_KEY: process.env.BADGE_CREDENTIAL_SIGNING_KEY ?? "",
+  BADGE_CREDENTIAL_ISSUER_URL: process.env.BADGE_CREDENTIAL_ISSUER_URL ?? "http://localhost:4002",
+  BADGE_CREDENTIAL_ISSUER_NAME: process.env.BADGE_CREDENTIAL_ISSUER_NAME ?? "Nexus",
   
   // System authentication for inter-service communication
   SYSTEM_SECRET: process.env.SYSTEM_SECRET ?? "default-system-secret-change-in-production",
   SYSTEM_JWT_SECRET: process.env.SYSTEM_JWT_SECRET ?? "system-jwt-secret-change-in-production",
+
+  // Key for the user id hash on erasure receipts; changing it breaks lookups of earlier receipts
+  ERASURE_RECEIPT_SECRET: process.env.ERASURE_RECEIPT_SECRET ?? "erasure-receipt-secret-change-in-production",
   
+  // Project media storage: "local" writes to MEDIA_LOCAL_DIR (development), "s3" uses any S3-compatible store
+  MEDIA_STORAGE_DRIVER: process.env.MEDIA_STORAGE_DRIVER ?? "local",
+  MEDIA_LOCAL_DIR: process.env.MEDIA_LOCAL_DIR ?? "./uploads",
+  MEDIA_PUBLIC_BASE_URL: process.env.MEDIA_PUBLIC_BASE_URL ?? "http://localhost:4002",
+  MEDIA_URL_TTL_SECONDS: Number(process.env.MEDIA_URL_TTL_SECONDS ?? 60 * 60),
+  S3_ENDPOINT: process.env.S3_ENDPOINT ?? "",
+  S3_REGION: process.env.S3_REGION ?? "us-east-1",
+  S3_BUCKET: process.env.S3_BUCKET ?? "",
+  S3_ACCESS_KEY_ID: process.env.S3_ACCESS_KEY_ID ?? "",
+  S3_SECRET_ACCESS_KEY: process.env.S3_SECRET_ACCESS_KEY ?? "",
+  S3_PUBLIC_URL: process.env.S3_PUBLIC_URL ?? "",
+
   // Redis configuration for caching and rate limiting
   REDIS_URL: process.env.REDIS_URL ?? "redis://localhost:6379",
   REDIS_ENABLED: process.env.REDIS_ENABLED !== "false",
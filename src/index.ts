@@ -16,6 +16,11 @@ import { requestLoggingMiddleware } from "./middleware/requestLogger.js";
 import { GracefulShutdown, MemoryMonitor } from "./utils/gracefulShutdown.js";
 import { PerformanceMonitor } from "./utils/performanceMonitor.js";
 import { UserSyncService } from "./services/UserSyncService.js";
+import { BadgeExpiryService } from "./services/BadgeExpiryService.js";
+import { BadgeRuleService } from "./services/BadgeRuleService.js";
+import { ProfileInsightsService } from "./services/ProfileInsightsService.js";
+import { ProfileTrashService } from "./services/ProfileTrashService.js";
+import { ProfileSearchService } from "./services/ProfileSearchService.js";
 
 async function buildServer() {
   console.log('[BUILD] Creating Fastify instance...');
@@ -136,6 +141,7 @@ async function buildServer() {
         { name: "head-admin", description: "HEAD_ADMIN profile management endpoints" },
         { name: "dept-admin", description: "DEPT_ADMIN profile management endpoints" },
         { name: "placements-admin", description: "PLACEMENTS_ADMIN profile management endpoints" },
+        { name: "moderation", description: "Profile content moderation queue endpoints" },
       ],
     },
     transform: jsonSchemaTransform,
@@ -264,6 +270,23 @@ async function startServer() {
       // Non-blocking - service can work without sync
     }
 
+    // Mark expired term-limited badge awards on a schedule
+    BadgeExpiryService.startSweep();
+
+    // Re-evaluate automatic badge rules for known students on a schedule
+    BadgeRuleService.startSchedule();
+
+    // Index existing profiles for search the first time the service starts with an empty index
+    ProfileSearchService.ensureIndexed().catch(error => {
+      console.warn('[STARTUP] Failed to check the profile search index (non-blocking):', error);
+    });
+
+    // Flush buffered profile view and search appearance counts to Postgres
+    ProfileInsightsService.startFlush();
+
+    // Permanently remove projects, publications and experiences left in the trash past retention
+    ProfileTrashService.startPurge();
+
     // Build and start the server
     console.log('[STARTUP] Building server...');
     const app = await buildServer();
@@ -282,6 +305,10 @@ async function startServer() {
       try {
         // PHASE 3: Stop user sync service
         await UserSyncService.stopListening();
+        BadgeExpiryService.stopSweep();
+        BadgeRuleService.stopSchedule();
+        await ProfileInsightsService.stopFlush();
+        ProfileTrashService.stopPurge();
         
         await app.close();
         await disconnectDatabase();
@@ -143,10 +143,13 @@ function sanitizeObject(obj: any, path: string = ''): any {
   return obj;
 }
 
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // Default upper bound for a single uploaded file
+
 /**
  * Validate file upload inputs
+ * The size check only runs when the caller knows the decoded size
  */
-function validateFileInput(filename: string, mimeType: string): void {
+function validateFileInput(filename: string, mimeType: string, size?: number, maxSize: number = MAX_FILE_SIZE): void {
   // Check filename for dangerous patterns
   if (/[<>:"|?*\\\/]/.test(filename)) {
     throw new Error('Filename contains invalid characters');
@@ -166,12 +169,22 @@ function validateFileInput(filename: string, mimeType: string): void {
   // Validate MIME type
   const allowedMimeTypes = [
     'image/jpeg', 'image/png', 'image/gif', 'image/webp',
-    'application/pdf', 'text/plain', 'application/json'
+    'application/pdf', 'text/plain', 'application/json',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
   ];
 
   if (!allowedMimeTypes.includes(mimeType)) {
     throw new Error('MIME type not allowed');
   }
+
+  if (size !== undefined) {
+    if (size <= 0) {
+      throw new Error('File is empty');
+    }
+    if (size > maxSize) {
+      throw new Error(`File exceeds the ${Math.floor(maxSize / (1024 * 1024))} MB limit`);
+    }
+  }
 }
 
 /**
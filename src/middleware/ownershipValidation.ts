@@ -32,9 +32,9 @@ export async function validateProjectOwnership(request: FastifyRequest, reply: F
       });
     }
 
-    // Check if project exists and belongs to the user
-    const project = await prisma.personalProject.findUnique({
-      where: { id: projectId },
+    // Check if project exists and belongs to the user (trashed items count as missing)
+    const project = await prisma.personalProject.findFirst({
+      where: { id: projectId, deletedAt: null },
       select: { id: true, userId: true, title: true }
     });
 
@@ -80,9 +80,9 @@ export async function validatePublicationOwnership(request: FastifyRequest, repl
       });
     }
 
-    // Check if publication exists and belongs to the user
-    const publication = await prisma.publication.findUnique({
-      where: { id: publicationId },
+    // Check if publication exists and belongs to the user (trashed items count as missing)
+    const publication = await prisma.publication.findFirst({
+      where: { id: publicationId, deletedAt: null },
       select: { id: true, userId: true, title: true }
     });
 
@@ -128,9 +128,9 @@ export async function validateExperienceOwnership(request: FastifyRequest, reply
       });
     }
 
-    // Check if experience exists and belongs to the user
-    const experience = await prisma.experience.findUnique({
-      where: { id },
+    // Check if experience exists and belongs to the user (trashed items count as missing)
+    const experience = await prisma.experience.findFirst({
+      where: { id, deletedAt: null },
       select: { id: true, profileId: true }
     });
 
@@ -6,6 +6,9 @@
  * - phoneNumber
  * - alternateEmail
  * - contactInfo
+ *
+ * Owners can also set per-field visibility (public, college, connections, private),
+ * which is applied to every viewer without full PII access
  */
 
 import { FastifyRequest, FastifyReply } from 'fastify';
@@ -26,6 +29,89 @@ const PII_FIELDS = [
   'email'           // PHASE 1: Email should be protected from non-admins
 ];
 
+export type VisibilityLevel = 'PUBLIC' | 'COLLEGE' | 'CONNECTIONS' | 'PRIVATE';
+
+export const VISIBILITY_LEVELS: VisibilityLevel[] = ['PUBLIC', 'COLLEGE', 'CONNECTIONS', 'PRIVATE'];
+
+// A type alias rather than an interface so settings can be stored as Prisma JSON
+export type VisibilitySettings = Record<string, VisibilityLevel>;
+
+/**
+ * Fields and sections owners can control, with the response keys each one covers
+ */
+export const VISIBILITY_FIELDS: Record<string, string[]> = {
+  avatar: ['avatar', 'avatarUrl'],
+  bio: ['bio'],
+  skills: ['skills', 'skillDetails'],
+  expertise: ['expertise'],
+  experiences: ['experiences', 'experienceCount'],
+  projects: ['projects', 'personalProjects', 'projectCount'],
+  publications: ['publications'],
+  badges: ['badges', 'studentBadges', 'badgeSummary', 'badgeCount'],
+  ...Object.fromEntries(PII_FIELDS.map(field => [field, [field]]))
+};
+
+/**
+ * PII stays private until the owner opens it up; everything else keeps its previous,
+ * unrestricted visibility so existing profiles read the same
+ */
+export const DEFAULT_VISIBILITY: VisibilitySettings = Object.fromEntries(
+  Object.keys(VISIBILITY_FIELDS).map(field => [field, PII_FIELDS.includes(field) ? 'PRIVATE' : 'PUBLIC'])
+);
+
+// Search snippets can quote any of these, so they are dropped when one is hidden
+const SNIPPET_SOURCES = ['bio', 'skills', 'expertise', 'experiences', 'projects', 'publications'];
+
+/**
+ * Who is looking at a profile, beyond their id and roles
+ */
+export interface ViewerContext {
+  collegeId?: string;
+  isConnection?: boolean;
+}
+
+/**
+ * Merge stored settings over the defaults, ignoring unknown fields and levels
+ */
+export function resolveVisibility(stored: unknown): VisibilitySettings {
+  const settings: VisibilitySettings = { ...DEFAULT_VISIBILITY };
+
+  if (stored && typeof stored === 'object' && !Array.isArray(stored)) {
+    for (const [field, level] of Object.entries(stored as Record<string, unknown>)) {
+      if (field in VISIBILITY_FIELDS && VISIBILITY_LEVELS.includes(level as VisibilityLevel)) {
+        settings[field] = level as VisibilityLevel;
+      }
+    }
+  }
+
+  return settings;
+}
+
+/**
+ * Whether a viewer falls inside a visibility level
+ * COLLEGE also admits connections; an unknown profile college never matches
+ */
+export function canViewLevel(
+  level: VisibilityLevel,
+  requestingUserId: string | undefined,
+  viewer: ViewerContext,
+  profileCollegeId?: string | null
+): boolean {
+  switch (level) {
+    case 'PUBLIC':
+      return true;
+    case 'COLLEGE':
+      return Boolean(requestingUserId) && (
+        viewer.isConnection === true
+        || (Boolean(profileCollegeId) && viewer.collegeId === profileCollegeId)
+      );
+    case 'CONNECTIONS':
+      return Boolean(requestingUserId) && viewer.isConnection === true;
+    default:
+      return false;
+  }
+}
+
 /**
  * Check if requester can access PII for a profile
  * 
@@ -81,15 +167,47 @@ export function removePII(profile: any): any {
   return cleaned;
 }
 
+/**
+ * Remove the fields a viewer may not see under the owner's visibility settings
+ */
+export function applyVisibility(
+  profile: any,
+  requestingUserId: string | undefined,
+  viewer: ViewerContext = {}
+): any {
+  if (!profile) return profile;
+
+  const settings = resolveVisibility(profile.visibility);
+  const cleaned = { ...profile };
+  delete cleaned.visibility;
+
+  const hidden = Object.keys(VISIBILITY_FIELDS).filter(
+    field => !canViewLevel(settings[field], requestingUserId, viewer, profile.collegeId)
+  );
+
+  hidden.forEach(field => {
+    VISIBILITY_FIELDS[field].forEach(key => {
+      delete cleaned[key];
+    });
+  });
+
+  if (hidden.some(field => SNIPPET_SOURCES.includes(field))) {
+    delete cleaned.snippet;
+  }
+
+  return cleaned;
+}
+
 /**
  * Protect PII in a profile object based on access rules
- * Returns the profile with PII removed if user doesn't have access
+ * Viewers without full PII access get the profile filtered by the owner's visibility settings
  */
 export function protectPII(
   profile: any,
   requestingUserId: string | undefined,
   requestingUserRoles: string[] = [],
-  requestingUserDept?: string
+  requestingUserDept?: string,
+  viewer: ViewerContext = {}
 ): any {
   if (!profile) return profile;
 
@@ -105,14 +223,15 @@ export function protectPII(
     profileUserDept
   );
 
-  // If no access, remove PII fields
+  // If no access, remove PII fields and anything else the owner has hidden from this viewer
   if (!hasAccess) {
-    return removePII(profile);
+    return applyVisibility(profile, requestingUserId, viewer);
   }
 
   return profile;
 }
 
+
 /**
  * Protect PII in an array of profiles
  */
@@ -120,10 +239,11 @@ export function protectPIIArray(
   profiles: any[],
   requestingUserId: string | undefined,
   requestingUserRoles: string[] = [],
-  requestingUserDept?: string
+  requestingUserDept?: string,
+  viewer: ViewerContext = {}
 ): any[] {
   return profiles.map(profile =>
-    protectPII(profile, requestingUserId, requestingUserRoles, requestingUserDept)
+    protectPII(profile, requestingUserId, requestingUserRoles, requestingUserDept, viewer)
   );
 }
 
@@ -148,6 +268,7 @@ export async function piiProtectionHook(
     const requestingUserId = (request as any).user?.sub;
     const requestingUserRoles = (request as any).user?.roles || [];
     const requestingUserDept = (request as any).user?.department;
+    const viewer: ViewerContext = { collegeId: (request as any).user?.collegeId };
 
     // Protect single profile
     if (data.profile && typeof data.profile === 'object') {
@@ -155,7 +276,8 @@ export async function piiProtectionHook(
         data.profile,
         requestingUserId,
         requestingUserRoles,
-        requestingUserDept
+        requestingUserDept,
+        viewer
       );
     }
 
@@ -165,7 +287,8 @@ export async function piiProtectionHook(
         data.profiles,
         requestingUserId,
         requestingUserRoles,
-        requestingUserDept
+        requestingUserDept,
+        viewer
       );
     }
 
@@ -175,7 +298,8 @@ export async function piiProtectionHook(
         data.users,
         requestingUserId,
         requestingUserRoles,
-        requestingUserDept
+        requestingUserDept,
+        viewer
       );
     }
 
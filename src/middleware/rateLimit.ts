@@ -89,7 +89,19 @@ export const badgeRateLimit = createRateLimit({
   windowMs: 60 * 1000,
 });
 
+export const publicRateLimit = createRateLimit({
+  max: 60, // 60 unauthenticated requests per minute per IP
+  windowMs: 60 * 1000,
+  keyGenerator: (req) => `public:${req.ip || 'anonymous'}`
+});
+
 export const uploadRateLimit = createRateLimit({
   max: 20, // 20 uploads per minute per user
   windowMs: 60 * 1000,
 });
+
+export const exportRateLimit = createRateLimit({
+  max: 5, // 5 full data exports per hour per user
+  windowMs: 60 * 60 * 1000,
+  keyGenerator: (req) => `export:${(req as any).user?.sub || req.ip || 'anonymous'}`
+});
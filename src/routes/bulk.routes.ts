@@ -5,6 +5,8 @@ import { requireAuth, requireRole } from "../middleware/auth.js";
 import { AuthServiceClient } from "../utils/AuthServiceClient.js";
 import { CacheInvalidator } from "../middleware/caching.js";
 import { MetricsLogger } from "../utils/logger.js";
+import { AdminBadgeService } from "../admin/services/AdminBadgeService.js";
+import { BadgeApprovalRequiredError, BadgeAwardLimitReachedError, DuplicateBadgeAwardError } from "../admin/errors/BadgeServiceErrors.js";
 
 /**
  * Bulk Operations Routes for 10M+ Users Performance
@@ -49,7 +51,7 @@ export default async function bulkRoutes(app: FastifyInstance) {
       // Validate badge exists and admin has access
       const badge = await prisma.badgeDefinition.findUnique({
         where: { id: badgeId },
-        select: { id: true, name: true, collegeId: true, isActive: true }
+        select: { id: true, name: true, points: true, rarity: true, collegeId: true, isActive: true, awardMode: true, maxAwards: true, levels: true, validityDays: true }
       });
 
       if (!badge) {
@@ -74,16 +76,43 @@ export default async function bulkRoutes(app: FastifyInstance) {
         });
       }
 
-      // Check which users already have this badge
-      const existingBadges = await prisma.studentBadge.findMany({
+      // Gated rarities are awarded only by approving a nomination
+      try {
+        await AdminBadgeService.assertAwardAllowed(badge, adminInfo.collegeId);
+      } catch (error) {
+        if (error instanceof BadgeApprovalRequiredError) {
+          return reply.code(error.statusCode).send({
+            success: false,
+            message: error.message
+          });
+        }
+        throw error;
+      }
+
+      // Levels are chosen per student, so tiered badges cannot be bulk awarded
+      if (badge.awardMode === 'TIERED') {
+        return reply.code(400).send({
+          success: false,
+          message: 'Tiered badges must be awarded individually'
+        });
+      }
+
+      // Check which users already have this badge (or have reached the cap for repeatable badges)
+      const existingBadges = await prisma.studentBadge.groupBy({
+        by: ['studentId'],
         where: {
           badgeId,
           studentId: { in: userIds }
         },
-        select: { studentId: true }
+        _count: { studentId: true }
       });
 
-      const existingUserIds = new Set(existingBadges.map(b => b.studentId));
+      const awardLimit = badge.awardMode === 'REPEATABLE' ? badge.maxAwards : 1;
+      const existingUserIds = new Set(
+        existingBadges
+          .filter(b => awardLimit !== null && b._count.studentId >= awardLimit)
+          .map(b => b.studentId)
+      );
       const newUserIds = userIds.filter(id => !existingUserIds.has(id));
 
       if (newUserIds.length === 0) {
@@ -99,53 +128,42 @@ export default async function bulkRoutes(app: FastifyInstance) {
         });
       }
 
-      // Prepare bulk insert data
-      const bulkData = newUserIds.map((userId: string) => ({
-        badgeId,
-        studentId: userId,
-        awardedBy: awardedBy || adminUserId,
-        awardedAt: new Date(),
-        reason: reason || `Bulk award by ${adminInfo.displayName || adminUserId}`
-      }));
-
-      // Perform bulk insert using batching
+      // Each student is awarded through the same locked path as single awards, so a
+      // concurrent award cannot push a student past the badge's limit
+      const awardedAt = new Date();
+      const awardReason = reason || `Bulk award by ${adminInfo.displayName || adminUserId}`;
       let awarded = 0;
+      let skipped = existingUserIds.size;
       let errors = 0;
-      const batchSize = 100;
       const errorDetails: string[] = [];
 
-      for (let i = 0; i < bulkData.length; i += batchSize) {
-        const batch = bulkData.slice(i, i + batchSize);
-        
+      for (const userId of newUserIds) {
         try {
-          const result = await prisma.studentBadge.createMany({
-            data: batch,
-            skipDuplicates: true
-          });
-          
-          awarded += result.count;
-          
-          req.log.info({
-            type: 'bulk_badge_award_batch',
-            badgeId,
-            batchSize: batch.length,
-            awarded: result.count,
-            adminUserId
-          }, `Bulk badge award batch completed`);
-          
+          await prisma.$transaction(tx => AdminBadgeService.createAward(tx, badge, {
+            studentId: userId,
+            awardedBy: awardedBy || adminUserId,
+            reason: awardReason,
+            awardedAt
+          }));
+          awarded++;
         } catch (error) {
-          errors += batch.length;
+          // Awarded by someone else since the pre-check
+          if (error instanceof DuplicateBadgeAwardError || error instanceof BadgeAwardLimitReachedError) {
+            skipped++;
+            continue;
+          }
+
+          errors++;
           const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-          errorDetails.push(`Batch ${Math.floor(i / batchSize) + 1}: ${errorMsg}`);
-          
+          errorDetails.push(`${userId}: ${errorMsg}`);
+
           req.log.error({
             type: 'bulk_badge_award_error',
             badgeId,
-            batchStart: i,
-            batchSize: batch.length,
+            userId,
             error: errorMsg,
             adminUserId
-          }, `Bulk badge award batch failed`);
+          }, `Bulk badge award failed for student`);
         }
       }
 
@@ -160,7 +178,7 @@ export default async function bulkRoutes(app: FastifyInstance) {
         badgeName: badge.name,
         totalRequested: userIds.length,
         awarded,
-        skipped: existingUserIds.size,
+        skipped,
         errors,
         duration,
         adminUserId
@@ -172,7 +190,7 @@ export default async function bulkRoutes(app: FastifyInstance) {
         results: {
           total: userIds.length,
           awarded,
-          skipped: existingUserIds.size,
+          skipped,
           errors,
           duration
         },
@@ -248,8 +266,8 @@ export default async function bulkRoutes(app: FastifyInstance) {
           _count: {
             select: {
               studentBadges: true,
-              personalProjects: true,
-              experiences: true
+              personalProjects: { where: { deletedAt: null } },
+              experiences: { where: { deletedAt: null } }
             }
           }
         },
@@ -425,8 +443,8 @@ export default async function bulkRoutes(app: FastifyInstance) {
         prisma.profile.count({ where: { createdAt: { gte: startDate } } }),
         prisma.studentBadge.count(),
         prisma.studentBadge.count({ where: { awardedAt: { gte: startDate } } }),
-        prisma.personalProject.count(),
-        prisma.personalProject.count({ where: { createdAt: { gte: startDate } } }),
+        prisma.personalProject.count({ where: { deletedAt: null } }),
+        prisma.personalProject.count({ where: { deletedAt: null, createdAt: { gte: startDate } } }),
         prisma.$queryRaw`SELECT COUNT(*) as count FROM "Profile" WHERE array_length(skills, 1) > 0`,
         prisma.$queryRaw`
           SELECT 
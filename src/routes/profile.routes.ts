@@ -1,17 +1,47 @@
-import { FastifyInstance } from "fastify";
+import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
 import { z } from "zod";
 import axios from "axios";
 import { prisma } from "../db.js";
 import { requireAuth, requireRole } from "../middleware/auth.js";
-import { requireSystemAuth, requireSystemPermission } from "../middleware/systemAuth.js";
+import { requireSystemAuth, requireSystemPermission, SystemRequest } from "../middleware/systemAuth.js";
 import { validateProjectOwnership, validatePublicationOwnership, validateExperienceOwnership, validateCrossCollegeAccess } from "../middleware/ownershipValidation.js";
 import { errorResponseSchema, messageResponseSchema } from "../schemas/profile.schemas.js";
 import { AuthServiceClient } from "../utils/AuthServiceClient.js";
 import { BadgePostService } from "../utils/BadgePostService.js";
 import { RedisCache } from "../utils/redisClient.js";
 import { profileCache, searchCache, directoryCache, badgeCache, statsCache, CacheInvalidator } from "../middleware/caching.js";
-import { protectPII, protectPIIArray, logPIIAccess } from "../middleware/piiProtection.js";
+import { protectPII, protectPIIArray, logPIIAccess, VISIBILITY_FIELDS, VISIBILITY_LEVELS } from "../middleware/piiProtection.js";
 import { validateCollegeAccess } from "../middleware/collegeValidation.js";
+import { ProfileModerationService, ModerationContentType } from "../services/ProfileModerationService.js";
+import { ProfileCompletenessService } from "../services/ProfileCompletenessService.js";
+import { ProfileEligibilityService } from "../services/ProfileEligibilityService.js";
+import { BadgeEligibilityService } from "../services/BadgeEligibilityService.js";
+import { BadgeExpiryService } from "../services/BadgeExpiryService.js";
+import { AdminBadgeService } from "../admin/services/AdminBadgeService.js";
+import { BadgeServiceError, DuplicateBadgeAwardError, BadgeApprovalRequiredError } from "../admin/errors/BadgeServiceErrors.js";
+import { BadgeTierService } from "../services/BadgeTierService.js";
+import { BadgeRuleService } from "../services/BadgeRuleService.js";
+import { BadgeNominationService } from "../services/BadgeNominationService.js";
+import { BadgeCredentialService } from "../services/BadgeCredentialService.js";
+import { ProfileSearchService, ProfileSearchSort } from "../services/ProfileSearchService.js";
+import { SkillTaxonomyService } from "../services/SkillTaxonomyService.js";
+import { SkillEndorsementService, SkillEndorsementError, SKILL_LEVELS } from "../services/SkillEndorsementService.js";
+import { UserSuggestionService } from "../services/UserSuggestionService.js";
+import { ProfileInsightsService } from "../services/ProfileInsightsService.js";
+import { ProfileVisibilityService, ProfileVisibilityError, VisibilityUpdate } from "../services/ProfileVisibilityService.js";
+import { ResumeService, ResumeError, ResumeTemplate, RESUME_TEMPLATES } from "../services/ResumeService.js";
+import { ResumeImportService, ResumeImportError } from "../services/ResumeImportService.js";
+import { PublicationImportService, PublicationImportError } from "../services/PublicationImportService.js";
+import { ProfileHistoryService, ProfileHistoryError, HistoryAction, HistoryEntityType, HISTORY_ENTITY_TYPES } from "../services/ProfileHistoryService.js";
+import { ProfileTrashService, ProfileTrashError, TrashEntityType, TRASH_ENTITY_TYPES } from "../services/ProfileTrashService.js";
+import { PersonalDataService } from "../services/PersonalDataService.js";
+import { PortfolioOrderService, PortfolioOrderError, PortfolioEntityType, PortfolioOrderItem, PORTFOLIO_ENTITY_TYPES, PORTFOLIO_ORDER } from "../services/PortfolioOrderService.js";
+import { CITATION_FORMATS } from "../utils/CitationFormats.js";
+import { getCredentialJwks } from "../utils/jwt.js";
+import { exportRateLimit, publicRateLimit, uploadRateLimit } from "../middleware/rateLimit.js";
+import { validateFileInput } from "../middleware/inputSanitization.js";
+import { ProjectMediaService, ProjectMediaError, ProjectMediaKind, PROJECT_MEDIA_KINDS } from "../services/ProjectMediaService.js";
+import { getMediaStorage, LocalDiskStorage, MediaStorageError } from "../utils/MediaStorage.js";
 
 // Validation schemas
 const updateProfileSchema = z.object({
@@ -57,6 +87,7 @@ const personalProjectSchema = z.object({
   github: z.string().url().optional().or(z.literal("")),
   demoLink: z.string().url().optional().or(z.literal("")),
   image: z.string().url().optional().or(z.literal("")),
+  isFeatured: z.boolean().optional(),
 });
 
 const experienceSchema = z.object({
@@ -64,12 +95,14 @@ const experienceSchema = z.object({
   level: z.enum(["Beginner", "Intermediate", "Advanced", "Expert"]),
   yearsExp: z.number().min(0).max(50).optional(),
   description: z.string().optional(),
+  isFeatured: z.boolean().optional(),
 });
 
 const publicationSchema = z.object({
   title: z.string().min(1),
   year: z.number().min(1900).max(new Date().getFullYear()),
   link: z.string().url().optional().or(z.literal("")),
+  isFeatured: z.boolean().optional(),
 });
 
 const badgeDefinitionSchema = z.object({
@@ -81,6 +114,13 @@ const badgeDefinitionSchema = z.object({
   criteria: z.string().max(1000, "Criteria too long").optional(),
   rarity: z.enum(["COMMON", "UNCOMMON", "RARE", "EPIC", "LEGENDARY"]).default("COMMON"),
   points: z.number().int().min(1, "Points must be at least 1").max(1000, "Points too high").default(10),
+  validityDays: z.number().int().min(1, "Validity must be at least 1 day").max(3650, "Validity too long").nullable().optional(), // null = never expires
+  awardMode: z.enum(["SINGLE", "REPEATABLE", "TIERED"]).optional(),
+  maxAwards: z.number().int().min(1, "Cap must be at least 1").max(100, "Cap too high").nullable().optional(), // REPEATABLE only, null = unlimited
+  levels: z.array(z.object({
+    name: z.string().min(1, "Level name is required").max(50, "Level name too long"),
+    points: z.number().int().min(0, "Points cannot be negative").max(1000, "Points too high"),
+  })).max(10, "Too many levels").nullable().optional(), // TIERED only, in ascending order
   isActive: z.boolean().default(true),
   collegeId: z.string().cuid("Invalid college ID").optional(),
 });
@@ -91,9 +131,163 @@ const awardBadgeSchema = z.object({
   reason: z.string().min(1, "Reason is required"),
   projectId: z.string().cuid().optional(),
   eventId: z.string().cuid().optional(),
+  level: z.number().int().min(1).optional(), // TIERED badges: defaults to the next level
   awardedByName: z.string().optional(),
 });
 
+const nominateBadgeSchema = z.object({
+  badgeDefinitionId: z.string().cuid(),
+  nomineeId: z.string().cuid(),
+  reason: z.string().min(1, "Reason is required").max(500, "Reason too long"),
+  evidence: z.array(z.object({
+    title: z.string().min(1, "Evidence title is required").max(200, "Evidence title too long"),
+    url: z.string().url("Invalid evidence URL").optional(),
+    description: z.string().max(1000, "Evidence description too long").optional(),
+  })).min(1, "At least one piece of evidence is required").max(10, "Too much evidence"),
+  projectId: z.string().cuid().optional(),
+  eventId: z.string().cuid().optional(),
+  level: z.number().int().min(1).optional(), // TIERED badges: defaults to the next level
+});
+
+const visibilityOverviewSchema = z.object({
+  publicSlug: z.string().nullable(),
+  isPublic: z.boolean(),
+  publicPath: z.string().nullable(),
+  visibility: z.record(z.string(), z.enum(VISIBILITY_LEVELS as [string, ...string[]])),
+});
+
+const skillDetailSchema = z.object({
+  skill: z.string(),
+  level: z.enum(SKILL_LEVELS as [string, ...string[]]).nullable(),
+  yearsExp: z.number().nullable(),
+  endorsementCount: z.number(),
+  facultyEndorsementCount: z.number(),
+  endorsedByViewer: z.boolean().optional(),
+});
+
+const projectMediaSchema = z.object({
+  id: z.string(),
+  kind: z.enum(PROJECT_MEDIA_KINDS as [ProjectMediaKind, ...ProjectMediaKind[]]),
+  caption: z.string().nullable(),
+  position: z.number(),
+  url: z.string().nullable(),
+  filename: z.string().nullable(),
+  mimeType: z.string().nullable(),
+  size: z.number().nullable(),
+  createdAt: z.date(),
+});
+
+// Queue an owner edit for review; a moderation failure must never fail the edit itself
+async function submitForModeration(
+  req: FastifyRequest,
+  contentType: ModerationContentType,
+  contentId: string,
+  snapshot: Record<string, any>
+) {
+  try {
+    await ProfileModerationService.submit({
+      userId: req.user!.sub,
+      collegeId: req.user!.collegeId,
+      department: req.user!.department,
+      contentType,
+      contentId,
+      snapshot
+    });
+  } catch (error) {
+    req.log.warn({
+      error: error instanceof Error ? error.message : 'Unknown error',
+      contentType,
+      contentId
+    }, 'Failed to queue content for moderation');
+  }
+}
+
+async function withdrawFromModeration(req: FastifyRequest, contentType: ModerationContentType, contentId: string) {
+  try {
+    await ProfileModerationService.withdraw(contentType, contentId, req.user!.sub);
+  } catch (error) {
+    req.log.warn({
+      error: error instanceof Error ? error.message : 'Unknown error',
+      contentType,
+      contentId
+    }, 'Failed to withdraw content from moderation');
+  }
+}
+
+// Record an owner's change in the profile history; a history failure must never fail the edit itself
+async function recordHistory(
+  req: FastifyRequest,
+  entityType: HistoryEntityType,
+  entityId: string,
+  before: Record<string, any> | null,
+  after: Record<string, any> | null,
+  action?: HistoryAction
+) {
+  try {
+    await ProfileHistoryService.record({
+      userId: req.user!.sub,
+      entityType,
+      entityId,
+      before,
+      after,
+      actor: { id: req.user!.sub, source: 'OWNER' },
+      action
+    });
+  } catch (error) {
+    req.log.warn({
+      error: error instanceof Error ? error.message : 'Unknown error',
+      entityType,
+      entityId
+    }, 'Failed to record profile history');
+  }
+}
+
+// Requirement checks cached for other services go stale as soon as the profile changes
+async function invalidateEligibility(req: FastifyRequest, userId: string) {
+  try {
+    await ProfileEligibilityService.invalidate(userId);
+  } catch (error) {
+    req.log.warn({
+      error: error instanceof Error ? error.message : 'Unknown error',
+      userId
+    }, 'Failed to invalidate eligibility cache');
+  }
+}
+
+// Drop cached eligibility, refresh the search document and re-run automatic badge rules
+// for a student's own profile change
+async function onProfileChanged(req: FastifyRequest, userId: string) {
+  await invalidateEligibility(req, userId);
+
+  // The token only describes the requester, so membership is refreshed on own changes only
+  const membership = userId === req.user?.sub
+    ? { collegeId: req.user?.collegeId, department: req.user?.department, year: req.user?.year }
+    : undefined;
+  ProfileSearchService.index(userId, membership).catch(error => {
+    req.log.warn({
+      error: error instanceof Error ? error.message : 'Unknown error',
+      userId
+    }, 'Failed to update profile search index');
+  });
+
+  if (userId === req.user?.sub) {
+    await UserSuggestionService.invalidate(userId);
+  }
+
+  const collegeId = req.user?.collegeId;
+  if (!collegeId || userId !== req.user?.sub || !req.user?.roles?.includes('STUDENT')) {
+    return;
+  }
+
+  // Runs in the background so awarding never delays the response
+  BadgeRuleService.evaluateUser(userId, collegeId, req.headers.authorization || '').catch(error => {
+    req.log.warn({
+      error: error instanceof Error ? error.message : 'Unknown error',
+      userId
+    }, 'Failed to evaluate automatic badge rules');
+  });
+}
+
 export default async function profileRoutes(app: FastifyInstance) {
   // Public: List colleges (no auth required)
   app.get("/v1/colleges", {
@@ -177,16 +371,19 @@ export default async function profileRoutes(app: FastifyInstance) {
           where: { userId },
           include: {
             personalProjects: {
+              where: { deletedAt: null },
               take: 20, // Limit to prevent large payloads
-              orderBy: { createdAt: 'desc' }
+              orderBy: PORTFOLIO_ORDER
             },
             publications: {
+              where: { deletedAt: null },
               take: 20, // Limit to prevent large payloads
-              orderBy: { createdAt: 'desc' }
+              orderBy: PORTFOLIO_ORDER
             },
             experiences: {
+              where: { deletedAt: null },
               take: 10, // Limit to prevent large payloads
-              orderBy: { createdAt: 'desc' }
+              orderBy: PORTFOLIO_ORDER
             },
             studentBadges: {
               take: 50, // Limit badges to prevent memory issues
@@ -201,7 +398,10 @@ export default async function profileRoutes(app: FastifyInstance) {
                     color: true,
                     category: true,
                     rarity: true,
-                    points: true
+                    points: true,
+                    awardMode: true,
+                    maxAwards: true,
+                    levels: true
                   }
                 }
               }
@@ -262,16 +462,19 @@ export default async function profileRoutes(app: FastifyInstance) {
               },
               include: {
                 personalProjects: {
+                  where: { deletedAt: null },
                   take: 20,
-                  orderBy: { createdAt: 'desc' }
+                  orderBy: PORTFOLIO_ORDER
                 },
                 publications: {
+                  where: { deletedAt: null },
                   take: 20,
-                  orderBy: { createdAt: 'desc' }
+                  orderBy: PORTFOLIO_ORDER
                 },
                 experiences: {
+                  where: { deletedAt: null },
                   take: 10,
-                  orderBy: { createdAt: 'desc' }
+                  orderBy: PORTFOLIO_ORDER
                 },
                 studentBadges: {
                   take: 50,
@@ -286,7 +489,10 @@ export default async function profileRoutes(app: FastifyInstance) {
                         color: true,
                         category: true,
                         rarity: true,
-                        points: true
+                        points: true,
+                        awardMode: true,
+                        maxAwards: true,
+                        levels: true
                       }
                     }
                   }
@@ -306,6 +512,17 @@ export default async function profileRoutes(app: FastifyInstance) {
 
       // Safely extract profile data with null checks
       const safeProfile: any = profile || {};
+
+      // Pending and rejected moderation items so the owner can track review status
+      let moderationItems: any[] = [];
+      try {
+        moderationItems = await ProfileModerationService.getOwnerItems(userId);
+      } catch (moderationError) {
+        req.log.warn({
+          error: moderationError instanceof Error ? moderationError.message : 'Unknown error',
+          userId
+        }, 'Failed to fetch moderation status, continuing without it');
+      }
       
       // Combine profile and user data with safe access
       const enhancedProfile = {
@@ -330,8 +547,11 @@ export default async function profileRoutes(app: FastifyInstance) {
         joinedAt: userInfo?.createdAt || safeProfile.createdAt,
         experiences: Array.isArray(safeProfile.experiences) ? safeProfile.experiences : [],
         badges: Array.isArray(safeProfile.studentBadges) ? safeProfile.studentBadges : [],
+        // Repeatable and tiered badges collapsed to one entry with count/level
+        badgeSummary: Array.isArray(safeProfile.studentBadges) ? BadgeTierService.summarize(safeProfile.studentBadges) : [],
         projects: Array.isArray(safeProfile.personalProjects) ? safeProfile.personalProjects : [],
         publications: Array.isArray(safeProfile.publications) ? safeProfile.publications : [],
+        moderation: moderationItems,
         // Add metadata for debugging and monitoring
         _metadata: {
           hasAuthData: !!userInfo,
@@ -455,6 +675,12 @@ export default async function profileRoutes(app: FastifyInstance) {
     // Separate user model fields from profile model fields
     const { displayName, avatarUrl, year, department, ...profileData } = data;
 
+    // Normalise skills against the skill catalogue
+    if (profileData.skills) {
+      profileData.skills = (await SkillTaxonomyService.canonicalize(profileData.skills))
+        .slice(0, SkillTaxonomyService.MAX_PROFILE_SKILLS);
+    }
+
     // Separate avatar updates from critical auth service updates
     const authServiceFields = { displayName, year, department };
     const hasAuthServiceFields = displayName || year !== undefined || department;
@@ -559,6 +785,8 @@ export default async function profileRoutes(app: FastifyInstance) {
       profileData.avatar = avatarUrl;
     }
 
+    const previousProfile = await prisma.profile.findUnique({ where: { userId } });
+
     // Update profile data in profile service with timeout protection
     const updatedProfile = await Promise.race([
       prisma.profile.upsert({
@@ -576,6 +804,16 @@ export default async function profileRoutes(app: FastifyInstance) {
       )
     ]);
 
+    await recordHistory(req, 'PROFILE', updatedProfile.id, previousProfile, updatedProfile);
+
+    if (profileData.bio !== undefined) {
+      await submitForModeration(req, 'BIO', updatedProfile.id, { bio: profileData.bio });
+    }
+
+    if (profileData.skills) {
+      await SkillEndorsementService.pruneProficiencies(userId, updatedProfile.skills);
+    }
+
     // Invalidate cache after successful update
     const cacheKey = `profile:${userId}`;
     try {
@@ -587,6 +825,7 @@ export default async function profileRoutes(app: FastifyInstance) {
         userId 
       }, 'Failed to invalidate profile cache');
     }
+    await onProfileChanged(req, userId);
 
     // Log successful update
     req.log.info({ 
@@ -655,9 +894,9 @@ export default async function profileRoutes(app: FastifyInstance) {
     const initialProfile = await prisma.profile.findUnique({
       where: { userId },
       include: {
-        personalProjects: true,
-        publications: true,
-        experiences: true,
+        personalProjects: { where: { deletedAt: null }, orderBy: PORTFOLIO_ORDER },
+        publications: { where: { deletedAt: null }, orderBy: PORTFOLIO_ORDER },
+        experiences: { where: { deletedAt: null }, orderBy: PORTFOLIO_ORDER },
         studentBadges: {
           include: {
             badge: true,
@@ -689,9 +928,9 @@ export default async function profileRoutes(app: FastifyInstance) {
           expertise: [],
         },
         include: {
-          personalProjects: true,
-          publications: true,
-          experiences: true,
+          personalProjects: { where: { deletedAt: null }, orderBy: PORTFOLIO_ORDER },
+          publications: { where: { deletedAt: null }, orderBy: PORTFOLIO_ORDER },
+          experiences: { where: { deletedAt: null }, orderBy: PORTFOLIO_ORDER },
           studentBadges: {
             include: {
               badge: true,
@@ -728,213 +967,1062 @@ export default async function profileRoutes(app: FastifyInstance) {
       joinedAt: userInfo?.createdAt || profile?.createdAt,
       experiences: profile?.experiences || [],
       badges: profile?.studentBadges || [],
-      projects: profile?.personalProjects || [],
+      badgeSummary: BadgeTierService.summarize(profile?.studentBadges || []),
+      skillDetails: await SkillEndorsementService.getSkillDetails(userId, profile?.skills || [], req.user!.sub),
+      projects: await ProjectMediaService.attachTo(profile?.personalProjects || []),
       publications: profile?.publications || [],
+      publicSlug: (profile as any)?.isPublic ? (profile as any)?.publicSlug : null,
+      visibility: (profile as any)?.visibility ?? null,
     };
 
     // SECURITY FIX: Apply PII protection based on access rules
     const requestingUserId = req.user!.sub;
     const requestingUserRoles = req.user!.roles || [];
     const requestingUserDept = (req.user as any)?.department;
+    const viewer = await ProfileVisibilityService.viewerContext(
+      enhancedProfile,
+      { id: requestingUserId, collegeId: req.user!.collegeId },
+      req.headers.authorization || ''
+    );
+
+    // Content still under moderation, or rejected, is shown to its owner only
+    if (requestingUserId !== userId) {
+      const held = await ProfileModerationService.getHeldContent([userId]);
+      enhancedProfile = ProfileModerationService.withoutHeldContent(enhancedProfile, held.get(userId));
+    }
     
     enhancedProfile = protectPII(
       enhancedProfile,
       requestingUserId,
       requestingUserRoles,
-      requestingUserDept
+      requestingUserDept,
+      viewer
     );
 
+    // Anonymised view count for the owner's insights; never delays the response
+    ProfileInsightsService.recordView(
+      userId,
+      { id: requestingUserId, roles: requestingUserRoles, collegeId: req.user!.collegeId },
+      userInfo?.collegeId
+    ).catch(error => {
+      req.log.warn({ error: error instanceof Error ? error.message : 'Unknown error', userId }, 'Failed to record profile view');
+    });
+
     return reply.send({ profile: enhancedProfile });
   });
 
-
-  // Protected: Get my personal projects
-  app.get("/v1/profile/me/projects", {
+  // Protected: Get my profile view and search appearance insights
+  app.get("/v1/profile/me/insights", {
     preHandler: requireAuth,
     schema: {
-      tags: ["projects"],
-      response: { 200: z.any() },
+      tags: ["profiles"],
+      querystring: z.object({
+        days: z.string().transform(Number).pipe(z.number().int().min(1).max(ProfileInsightsService.MAX_DAYS)).optional(),
+      }),
+      response: {
+        200: z.object({
+          range: z.object({ from: z.string(), to: z.string(), days: z.number() }),
+          totals: z.object({ views: z.number(), searchAppearances: z.number() }),
+          daily: z.array(z.object({ date: z.string(), views: z.number(), searchAppearances: z.number() })),
+          viewerRoles: z.array(z.object({ role: z.string(), count: z.number() })),
+          viewerColleges: z.object({ sameCollege: z.number(), otherCollege: z.number() }),
+          adminViews: z.number(),
+        }),
+      },
     },
   }, async (req, reply) => {
-    const userId = req.user!.sub;
+    const { days } = req.query as { days?: number };
 
-    const projects = await prisma.personalProject.findMany({
-      where: { userId },
-      orderBy: { createdAt: 'desc' },
-    });
-
-    return reply.send({ projects });
+    const insights = await ProfileInsightsService.getInsights(req.user!.sub, days || 30);
+    return reply.send(insights);
   });
 
-  // Protected: Get my publications
-  app.get("/v1/profile/me/publications", {
+  // Protected: Render my resume from profile data as HTML, PDF or JSON
+  app.get("/v1/profile/me/resume", {
     preHandler: requireAuth,
     schema: {
-      tags: ["publications"],
-      response: { 200: z.any() },
+      tags: ["profiles"],
+      querystring: z.object({
+        format: z.enum(["html", "pdf", "json"]).optional(),
+        template: z.enum(RESUME_TEMPLATES as [string, ...string[]]).optional(),
+        projects: z.string().max(2000).optional(), // Comma-separated project ids; defaults to visible projects
+        publications: z.string().max(2000).optional(), // Comma-separated publication ids; defaults to all
+        badges: z.string().transform(val => val === "true").optional(),
+      }),
+      response: { 200: z.any(), 400: errorResponseSchema, 404: errorResponseSchema },
     },
   }, async (req, reply) => {
-    const userId = req.user!.sub;
+    const { format = "html", template = "classic", projects, publications, badges } = req.query as {
+      format?: "html" | "pdf" | "json";
+      template?: ResumeTemplate;
+      projects?: string;
+      publications?: string;
+      badges?: boolean;
+    };
+    const user = req.user!;
+    const ids = (value?: string) => value === undefined ? undefined : value.split(",").map(id => id.trim()).filter(Boolean);
 
-    const publications = await prisma.publication.findMany({
-      where: { userId },
-      orderBy: { year: 'desc' },
-    });
+    try {
+      const college = user.collegeId
+        ? await AuthServiceClient.getCollege(user.collegeId, req.headers.authorization || "")
+        : null;
+
+      const data = await ResumeService.build({
+        id: user.sub,
+        displayName: user.displayName,
+        email: user.email,
+        department: user.department,
+        year: user.year,
+        collegeName: college?.name ?? null,
+      }, {
+        projectIds: ids(projects),
+        publicationIds: ids(publications),
+        includeBadges: badges,
+      });
 
-    return reply.send({ publications });
+      if (format === "json") {
+        return reply.send({ template, resume: data });
+      }
+
+      if (format === "pdf") {
+        return reply
+          .header("Content-Type", "application/pdf")
+          .header("Content-Disposition", 'attachment; filename="resume.pdf"')
+          .send(ResumeService.renderPdf(data, template));
+      }
+
+      return reply
+        .header("Content-Type", "text/html; charset=utf-8")
+        .send(ResumeService.renderHtml(data, template));
+    } catch (error) {
+      if (error instanceof ResumeError) {
+        return reply.code(error.statusCode).send({ message: error.message });
+      }
+      throw error;
+    }
   });
 
-  // Protected: Create personal project
-  app.post("/v1/profiles/me/projects", {
-    preHandler: requireAuth,
+  // Protected: Parse an uploaded resume into a draft of profile changes to review
+  app.post("/v1/profile/me/resume/import", {
+    preHandler: [requireAuth, uploadRateLimit],
+    bodyLimit: Math.ceil(ResumeImportService.MAX_FILE_BYTES * 4 / 3) + 64 * 1024, // Base64 overhead
     schema: {
-      tags: ["projects"],
-      body: personalProjectSchema,
-      response: { 201: z.any() },
+      tags: ["profiles"],
+      body: z.object({
+        filename: z.string().min(1).max(255),
+        mimeType: z.string().min(1).max(200),
+        content: z.string().min(1), // Base64-encoded file
+      }),
+      response: {
+        201: z.any(),
+        400: errorResponseSchema,
+        413: errorResponseSchema,
+        415: errorResponseSchema,
+        422: errorResponseSchema,
+      },
     },
   }, async (req, reply) => {
-    const data = req.body as z.infer<typeof personalProjectSchema>;
-
-    // Ensure profile exists
-    await prisma.profile.upsert({
-      where: { userId: req.user!.sub },
-      update: {},
-      create: { 
-        userId: req.user!.sub,
-        skills: [],
-        expertise: [],
-      },
-    });
+    const upload = req.body as { filename: string; mimeType: string; content: string };
 
-    const project = await prisma.personalProject.create({
-      data: {
-        ...data,
-        profile: { connect: { userId: req.user!.sub } },
-      },
-    });
+    try {
+      validateFileInput(upload.filename, upload.mimeType);
+    } catch (error) {
+      return reply.code(400).send({ message: error instanceof Error ? error.message : "Invalid file" });
+    }
 
-    return reply.code(201).send({ project });
+    try {
+      const preview = await ResumeImportService.preview(req.user!.sub, upload);
+      return reply.code(201).send(preview);
+    } catch (error) {
+      if (error instanceof ResumeImportError) {
+        return reply.code(error.statusCode).send({ message: error.message });
+      }
+      throw error;
+    }
   });
 
-  // Protected: Update personal project
-  app.put("/v1/profiles/me/projects/:projectId", {
-    preHandler: [requireAuth, validateProjectOwnership],
+  // Protected: Review a parsed resume import again
+  app.get("/v1/profile/me/resume/imports/:importId", {
+    preHandler: requireAuth,
     schema: {
-      tags: ["projects"],
-      params: z.object({ projectId: z.string().cuid() }),
-      body: personalProjectSchema,
-      response: { 200: z.any() },
+      tags: ["profiles"],
+      params: z.object({ importId: z.string().min(1) }),
+      response: { 200: z.any(), 404: errorResponseSchema },
     },
   }, async (req, reply) => {
-    const { projectId } = req.params as { projectId: string };
-    const data = req.body as z.infer<typeof personalProjectSchema>;
-
-    // Check ownership
-    const existingProject = await prisma.personalProject.findFirst({
-      where: { 
-        id: projectId,
-        profile: { userId: req.user!.sub },
-      },
-    });
+    const { importId } = req.params as { importId: string };
 
-    if (!existingProject) {
-      return reply.code(404).send({ message: "Project not found" });
+    try {
+      const preview = await ResumeImportService.getImport(req.user!.sub, importId);
+      return reply.send(preview);
+    } catch (error) {
+      if (error instanceof ResumeImportError) {
+        return reply.code(error.statusCode).send({ message: error.message });
+      }
+      throw error;
     }
-
-    const project = await prisma.personalProject.update({
-      where: { id: projectId },
-      data,
-    });
-
-    return reply.send({ project });
   });
 
-  // Protected: Delete personal project
-  app.delete("/v1/profiles/me/projects/:projectId", {
-    preHandler: [requireAuth, validateProjectOwnership],
+  // Protected: Apply the confirmed items of a resume import to my profile
+  app.post("/v1/profile/me/resume/imports/:importId/confirm", {
+    preHandler: requireAuth,
     schema: {
-      tags: ["projects"],
-      params: z.object({ projectId: z.string().cuid() }),
-      response: { 204: z.any() },
+      tags: ["profiles"],
+      params: z.object({ importId: z.string().min(1) }),
+      body: z.object({
+        accept: z.array(z.string().min(1)).max(500).optional(), // Item keys; defaults to every new or changed item
+      }),
+      response: {
+        200: z.any(),
+        400: errorResponseSchema,
+        404: errorResponseSchema,
+        409: errorResponseSchema,
+        410: errorResponseSchema,
+      },
     },
   }, async (req, reply) => {
-    const { projectId } = req.params as { projectId: string };
+    const { importId } = req.params as { importId: string };
+    const { accept } = req.body as { accept?: string[] };
+    const userId = req.user!.sub;
 
-    // Check ownership
-    const existingProject = await prisma.personalProject.findFirst({
-      where: { 
-        id: projectId,
-        profile: { userId: req.user!.sub },
-      },
-    });
+    try {
+      const previousProfile = await prisma.profile.findUnique({ where: { userId } });
+      const { createdExperiences, createdProjects, ...result } = await ResumeImportService.confirm(userId, importId, accept);
 
-    if (!existingProject) {
-      return reply.code(404).send({ message: "Project not found" });
-    }
+      const [profile, experiences, projects] = await Promise.all([
+        prisma.profile.findUnique({ where: { userId } }),
+        prisma.experience.findMany({ where: { id: { in: createdExperiences.map(experience => experience.id) } } }),
+        prisma.personalProject.findMany({ where: { id: { in: createdProjects.map(project => project.id) } } }),
+      ]);
+      if (profile) {
+        await recordHistory(req, 'PROFILE', profile.id, previousProfile, profile);
+      }
+      for (const experience of experiences) {
+        await recordHistory(req, 'EXPERIENCE', experience.id, null, experience);
+      }
+      for (const project of projects) {
+        await recordHistory(req, 'PROJECT', project.id, null, project);
+      }
 
-    await prisma.personalProject.delete({
-      where: { id: projectId },
-    });
+      for (const experience of createdExperiences) {
+        await submitForModeration(req, 'EXPERIENCE', experience.id, { title: experience.title, description: experience.description });
+      }
+      for (const project of createdProjects) {
+        await submitForModeration(req, 'PROJECT', project.id, { title: project.title, description: project.description });
+      }
+      await onProfileChanged(req, userId);
 
-    return reply.code(204).send();
+      return reply.send({
+        ...result,
+        experienceIds: createdExperiences.map(experience => experience.id),
+        projectIds: createdProjects.map(project => project.id),
+      });
+    } catch (error) {
+      if (error instanceof ResumeImportError) {
+        return reply.code(error.statusCode).send({ message: error.message });
+      }
+      throw error;
+    }
   });
 
-  // Protected: Create publication (Faculty only)
-  app.post("/v1/profiles/me/publications", {
-    preHandler: [requireAuth, requireRole(["FACULTY", "HEAD_ADMIN"])],
+  // Protected: My profile change history, newest first
+  app.get("/v1/profile/me/history", {
+    preHandler: requireAuth,
     schema: {
-      tags: ["publications"],
-      body: publicationSchema,
-      response: { 201: z.any() },
+      tags: ["profiles"],
+      querystring: z.object({
+        entityType: z.enum(HISTORY_ENTITY_TYPES as [HistoryEntityType, ...HistoryEntityType[]]).optional(),
+        entityId: z.string().min(1).optional(),
+        limit: z.string().transform(Number).pipe(z.number().int().min(1).max(ProfileHistoryService.MAX_PAGE_SIZE)).optional(),
+        cursor: z.string().min(1).optional(),
+      }),
+      response: {
+        200: z.object({
+          revisions: z.array(z.object({
+            id: z.string(),
+            entityType: z.string(),
+            entityId: z.string(),
+            version: z.number(),
+            action: z.string(),
+            changes: z.array(z.object({ field: z.string(), from: z.any(), to: z.any() })),
+            source: z.string(),
+            actorId: z.string().nullable(),
+            restoredFromVersion: z.number().nullable(),
+            createdAt: z.date(),
+          })),
+          nextCursor: z.string().nullable(),
+        }),
+      },
     },
   }, async (req, reply) => {
-    const data = req.body as z.infer<typeof publicationSchema>;
-
-    // Ensure profile exists
-    await prisma.profile.upsert({
-      where: { userId: req.user!.sub },
-      update: {},
-      create: { 
-        userId: req.user!.sub,
-        skills: [],
-        expertise: [],
-      },
-    });
+    const { entityType, entityId, limit, cursor } = req.query as {
+      entityType?: HistoryEntityType;
+      entityId?: string;
+      limit?: number;
+      cursor?: string;
+    };
 
-    const publication = await prisma.publication.create({
-      data: {
-        ...data,
-        type: "JOURNAL", // Default type for legacy publications
-        profile: { connect: { userId: req.user!.sub } },
-      },
+    const history = await ProfileHistoryService.getHistory(req.user!.sub, {
+      entityType,
+      entityId,
+      limit: limit || 20,
+      cursor,
     });
-
-    return reply.code(201).send({ publication });
+    return reply.send(history);
   });
 
-  // Protected: Update publication (Faculty only)
-  app.put("/v1/profiles/me/publications/:publicationId", {
-    preHandler: [requireAuth, requireRole(["FACULTY", "HEAD_ADMIN"]), validatePublicationOwnership],
+  // Protected: Revert one profile item to the state recorded in a revision
+  app.post("/v1/profile/me/history/:revisionId/restore", {
+    preHandler: requireAuth,
     schema: {
-      tags: ["publications"],
-      params: z.object({ publicationId: z.string().cuid() }),
-      body: publicationSchema,
-      response: { 200: z.any() },
+      tags: ["profiles"],
+      params: z.object({ revisionId: z.string().min(1) }),
+      response: {
+        200: z.object({
+          entityType: z.string(),
+          entityId: z.string(),
+          version: z.number(),
+          restoredFromVersion: z.number(),
+          entity: z.any(),
+        }),
+        404: errorResponseSchema,
+        409: errorResponseSchema,
+      },
     },
   }, async (req, reply) => {
-    const { publicationId } = req.params as { publicationId: string };
-    const data = req.body as z.infer<typeof publicationSchema>;
+    const { revisionId } = req.params as { revisionId: string };
+    const userId = req.user!.sub;
 
-    // Check ownership
-    const existingPublication = await prisma.publication.findFirst({
-      where: { 
-        id: publicationId,
-        profile: { userId: req.user!.sub },
-      },
-    });
+    try {
+      const result = await ProfileHistoryService.restore(userId, revisionId, { id: userId, source: 'OWNER' });
+      const { entity } = result;
+
+      // Restored content goes back through moderation just like a fresh edit
+      switch (result.entityType) {
+        case 'PROFILE':
+          if (entity.bio) {
+            await submitForModeration(req, 'BIO', entity.id, { bio: entity.bio });
+          }
+          break;
+        case 'PROJECT':
+          await submitForModeration(req, 'PROJECT', entity.id, { title: entity.title, description: entity.description });
+          break;
+        case 'PUBLICATION':
+          await submitForModeration(req, 'PUBLICATION', entity.id, { title: entity.title, year: entity.year, link: entity.link });
+          break;
+        case 'EXPERIENCE':
+          await submitForModeration(req, 'EXPERIENCE', entity.id, { area: entity.area, level: entity.level, description: entity.description });
+          break;
+      }
+      await onProfileChanged(req, userId);
 
-    if (!existingPublication) {
-      return reply.code(404).send({ message: "Publication not found" });
+      return reply.send(result);
+    } catch (error) {
+      if (error instanceof ProfileHistoryError) {
+        return reply.code(error.statusCode).send({ message: error.message });
+      }
+      throw error;
+    }
+  });
+
+  // Protected: Deleted projects, publications and experiences that can still be restored
+  app.get("/v1/profile/me/trash", {
+    preHandler: requireAuth,
+    schema: {
+      tags: ["profiles"],
+      response: {
+        200: z.object({
+          retentionDays: z.number(),
+          items: z.array(z.object({
+            entityType: z.string(),
+            id: z.string(),
+            title: z.string().nullable(),
+            deletedAt: z.date(),
+            purgeAt: z.date(),
+          })),
+        }),
+      },
+    },
+  }, async (req, reply) => {
+    const items = await ProfileTrashService.list(req.user!.sub);
+    return reply.send({ retentionDays: ProfileTrashService.RETENTION_DAYS, items });
+  });
+
+  // Protected: Put a deleted item back on my profile
+  app.post("/v1/profile/me/trash/:entityType/:id/restore", {
+    preHandler: requireAuth,
+    schema: {
+      tags: ["profiles"],
+      params: z.object({
+        entityType: z.enum(TRASH_ENTITY_TYPES as [TrashEntityType, ...TrashEntityType[]]),
+        id: z.string().min(1),
+      }),
+      response: {
+        200: z.object({ entityType: z.string(), item: z.any() }),
+        404: errorResponseSchema,
+      },
+    },
+  }, async (req, reply) => {
+    const { entityType, id } = req.params as { entityType: TrashEntityType; id: string };
+    const userId = req.user!.sub;
+
+    try {
+      const { before, after } = await ProfileTrashService.restore(userId, entityType, id);
+
+      await recordHistory(req, entityType, id, before, after, 'RESTORE');
+      switch (entityType) {
+        case 'PROJECT':
+          await submitForModeration(req, 'PROJECT', id, { title: after.title, description: after.description });
+          break;
+        case 'PUBLICATION':
+          await submitForModeration(req, 'PUBLICATION', id, { title: after.title, year: after.year, link: after.link });
+          break;
+        case 'EXPERIENCE':
+          await submitForModeration(req, 'EXPERIENCE', id, { area: after.area, level: after.level, description: after.description });
+          break;
+      }
+      await onProfileChanged(req, userId);
+
+      return reply.send({ entityType, item: after });
+    } catch (error) {
+      if (error instanceof ProfileTrashError) {
+        return reply.code(error.statusCode).send({ message: error.message });
+      }
+      throw error;
+    }
+  });
+
+  // Protected: Download everything held about me as a ZIP of JSON files
+  app.get("/v1/profile/me/data-export", {
+    preHandler: [requireAuth, exportRateLimit],
+    schema: {
+      tags: ["profiles"],
+      response: { 200: z.any() },
+    },
+  }, async (req, reply) => {
+    const archive = await PersonalDataService.exportArchive(req.user!.sub);
+    const date = new Date().toISOString().slice(0, 10);
+
+    return reply
+      .header("Content-Type", "application/zip")
+      .header("Content-Disposition", `attachment; filename="profile-data-${date}.zip"`)
+      .header("Cache-Control", "no-store")
+      .send(archive);
+  });
+
+  // Protected: Get my public page settings and per-field visibility
+  app.get("/v1/profile/me/visibility", {
+    preHandler: requireAuth,
+    schema: {
+      tags: ["profiles"],
+      response: { 200: visibilityOverviewSchema },
+    },
+  }, async (req, reply) => {
+    const settings = await ProfileVisibilityService.getSettings(req.user!.sub);
+    return reply.send(settings);
+  });
+
+  // Protected: Update my public slug, publish state or per-field visibility
+  app.put("/v1/profile/me/visibility", {
+    preHandler: requireAuth,
+    schema: {
+      tags: ["profiles"],
+      body: z.object({
+        publicSlug: z.string().min(3).max(40).nullable().optional(),
+        isPublic: z.boolean().optional(),
+        visibility: z.record(
+          z.enum(Object.keys(VISIBILITY_FIELDS) as [string, ...string[]]),
+          z.enum(VISIBILITY_LEVELS as [string, ...string[]])
+        ).optional(),
+      }),
+      response: {
+        200: visibilityOverviewSchema,
+        400: errorResponseSchema,
+        409: errorResponseSchema,
+      },
+    },
+  }, async (req, reply) => {
+    const userId = req.user!.sub;
+
+    try {
+      const previousProfile = await prisma.profile.findUnique({ where: { userId } });
+      const settings = await ProfileVisibilityService.updateSettings(userId, req.body as VisibilityUpdate);
+
+      const updatedProfile = await prisma.profile.findUnique({ where: { userId } });
+      if (updatedProfile) {
+        await recordHistory(req, 'PROFILE', updatedProfile.id, previousProfile, updatedProfile);
+      }
+      // Reindexed before responding so newly hidden fields stop matching searches right away
+      await ProfileSearchService.index(userId, {
+        collegeId: req.user!.collegeId,
+        department: req.user!.department,
+        year: req.user!.year
+      });
+      await onProfileChanged(req, userId);
+
+      return reply.send(settings);
+    } catch (error) {
+      if (error instanceof ProfileVisibilityError) {
+        return reply.code(error.statusCode).send({ message: error.message });
+      }
+      throw error;
+    }
+  });
+
+  // Public: Published profile at a vanity slug, limited to fields the owner made public
+  app.get("/v1/public/profiles/:slug", {
+    preHandler: publicRateLimit,
+    schema: {
+      tags: ["profiles"],
+      params: z.object({ slug: z.string().min(3).max(40) }),
+      response: { 200: z.any(), 404: errorResponseSchema },
+    },
+  }, async (req, reply) => {
+    const { slug } = req.params as { slug: string };
+
+    try {
+      const profile = await ProfileVisibilityService.getPublicProfile(slug);
+      return reply.send({ profile });
+    } catch (error) {
+      if (error instanceof ProfileVisibilityError) {
+        return reply.code(error.statusCode).send({ message: error.message });
+      }
+      throw error;
+    }
+  });
+
+
+  // Protected: Get my profile completeness (same engine and college weights admins see)
+  app.get("/v1/profile/me/completeness", {
+    preHandler: requireAuth,
+    schema: {
+      tags: ["profiles"],
+      response: { 200: z.any(), 404: errorResponseSchema },
+    },
+  }, async (req, reply) => {
+    const userId = req.user!.sub;
+
+    const completeness = await ProfileCompletenessService.scoreUser(userId, req.user!.collegeId);
+
+    if (!completeness) {
+      return reply.code(404).send({ message: "Profile not found" });
+    }
+
+    return reply.send({ success: true, completeness });
+  });
+
+  // Protected: Get my personal projects
+  app.get("/v1/profile/me/projects", {
+    preHandler: requireAuth,
+    schema: {
+      tags: ["projects"],
+      response: { 200: z.any() },
+    },
+  }, async (req, reply) => {
+    const userId = req.user!.sub;
+
+    const projects = await prisma.personalProject.findMany({
+      where: { userId, deletedAt: null },
+      orderBy: PORTFOLIO_ORDER,
+    });
+
+    return reply.send({ projects });
+  });
+
+  // Protected: Get my publications
+  app.get("/v1/profile/me/publications", {
+    preHandler: requireAuth,
+    schema: {
+      tags: ["publications"],
+      response: { 200: z.any() },
+    },
+  }, async (req, reply) => {
+    const userId = req.user!.sub;
+
+    const publications = await prisma.publication.findMany({
+      where: { userId, deletedAt: null },
+      orderBy: PORTFOLIO_ORDER,
+    });
+
+    return reply.send({ publications });
+  });
+
+  // Protected: Set the display order and featured flags of my projects, publications or experiences
+  app.put("/v1/profile/me/portfolio/order", {
+    preHandler: requireAuth,
+    schema: {
+      tags: ["profiles"],
+      body: z.object({
+        entityType: z.enum(PORTFOLIO_ENTITY_TYPES as [PortfolioEntityType, ...PortfolioEntityType[]]),
+        items: z.array(z.object({
+          id: z.string().min(1),
+          isFeatured: z.boolean().optional(),
+        })).max(PortfolioOrderService.MAX_ITEMS), // Every item of the type, in display order
+      }),
+      response: {
+        200: z.object({
+          entityType: z.string(),
+          items: z.array(z.object({
+            id: z.string(),
+            title: z.string().nullable(),
+            position: z.number(),
+            isFeatured: z.boolean(),
+          })),
+        }),
+        400: errorResponseSchema,
+      },
+    },
+  }, async (req, reply) => {
+    const { entityType, items } = req.body as { entityType: PortfolioEntityType; items: PortfolioOrderItem[] };
+
+    try {
+      const ordered = await PortfolioOrderService.reorder(req.user!.sub, entityType, items);
+      return reply.send({ entityType, items: ordered });
+    } catch (error) {
+      if (error instanceof PortfolioOrderError) {
+        return reply.code(error.statusCode).send({ message: error.message });
+      }
+      throw error;
+    }
+  });
+
+  // Protected: Create personal project
+  app.post("/v1/profiles/me/projects", {
+    preHandler: requireAuth,
+    schema: {
+      tags: ["projects"],
+      body: personalProjectSchema,
+      response: { 201: z.any() },
+    },
+  }, async (req, reply) => {
+    const data = req.body as z.infer<typeof personalProjectSchema>;
+
+    // Ensure profile exists
+    await prisma.profile.upsert({
+      where: { userId: req.user!.sub },
+      update: {},
+      create: { 
+        userId: req.user!.sub,
+        skills: [],
+        expertise: [],
+      },
+    });
+
+    const project = await prisma.personalProject.create({
+      data: {
+        ...data,
+        profile: { connect: { userId: req.user!.sub } },
+      },
+    });
+
+    await recordHistory(req, 'PROJECT', project.id, null, project);
+    await submitForModeration(req, 'PROJECT', project.id, { title: project.title, description: project.description });
+    await onProfileChanged(req, req.user!.sub);
+
+    return reply.code(201).send({ project });
+  });
+
+  // Protected: Update personal project
+  app.put("/v1/profiles/me/projects/:projectId", {
+    preHandler: [requireAuth, validateProjectOwnership],
+    schema: {
+      tags: ["projects"],
+      params: z.object({ projectId: z.string().cuid() }),
+      body: personalProjectSchema,
+      response: { 200: z.any() },
+    },
+  }, async (req, reply) => {
+    const { projectId } = req.params as { projectId: string };
+    const data = req.body as z.infer<typeof personalProjectSchema>;
+
+    // Check ownership
+    const existingProject = await prisma.personalProject.findFirst({
+      where: { 
+        id: projectId,
+        profile: { userId: req.user!.sub },
+        deletedAt: null,
+      },
+    });
+
+    if (!existingProject) {
+      return reply.code(404).send({ message: "Project not found" });
+    }
+
+    const project = await prisma.personalProject.update({
+      where: { id: projectId },
+      data,
+    });
+
+    await recordHistory(req, 'PROJECT', project.id, existingProject, project);
+    await submitForModeration(req, 'PROJECT', project.id, { title: project.title, description: project.description });
+    await onProfileChanged(req, req.user!.sub);
+
+    return reply.send({ project });
+  });
+
+  // Protected: Delete personal project
+  app.delete("/v1/profiles/me/projects/:projectId", {
+    preHandler: [requireAuth, validateProjectOwnership],
+    schema: {
+      tags: ["projects"],
+      params: z.object({ projectId: z.string().cuid() }),
+      response: { 204: z.any() },
+    },
+  }, async (req, reply) => {
+    const { projectId } = req.params as { projectId: string };
+
+    // Check ownership
+    const existingProject = await prisma.personalProject.findFirst({
+      where: { 
+        id: projectId,
+        profile: { userId: req.user!.sub },
+        deletedAt: null,
+      },
+    });
+
+    if (!existingProject) {
+      return reply.code(404).send({ message: "Project not found" });
+    }
+
+    // Kept in the trash for the retention period before the purge job removes it
+    await prisma.personalProject.update({
+      where: { id: projectId },
+      data: { deletedAt: new Date() },
+    });
+
+    await recordHistory(req, 'PROJECT', projectId, existingProject, null);
+    await withdrawFromModeration(req, 'PROJECT', projectId);
+    await onProfileChanged(req, req.user!.sub);
+
+    return reply.code(204).send();
+  });
+
+  // Protected: List a project's media gallery
+  app.get("/v1/profiles/me/projects/:projectId/media", {
+    preHandler: [requireAuth, validateProjectOwnership],
+    schema: {
+      tags: ["projects"],
+      params: z.object({ projectId: z.string().cuid() }),
+      response: { 200: z.object({ media: z.array(projectMediaSchema) }) },
+    },
+  }, async (req, reply) => {
+    const { projectId } = req.params as { projectId: string };
+    const media = await ProjectMediaService.list(projectId);
+    return reply.send({ media });
+  });
+
+  // Protected: Upload a screenshot or attachment, or add a demo video link
+  app.post("/v1/profiles/me/projects/:projectId/media", {
+    preHandler: [requireAuth, uploadRateLimit, validateProjectOwnership],
+    bodyLimit: Math.ceil(ProjectMediaService.MAX_ATTACHMENT_BYTES * 4 / 3) + 64 * 1024, // Base64 overhead
+    schema: {
+      tags: ["projects"],
+      params: z.object({ projectId: z.string().cuid() }),
+      body: z.discriminatedUnion("kind", [
+        z.object({
+          kind: z.enum(["IMAGE", "ATTACHMENT"]),
+          filename: z.string().min(1).max(255),
+          mimeType: z.string().min(1).max(200),
+          content: z.string().min(1), // Base64-encoded file
+          caption: z.string().max(300).nullable().optional(),
+        }),
+        z.object({
+          kind: z.literal("VIDEO_LINK"),
+          url: z.string().url().max(2048),
+          caption: z.string().max(300).nullable().optional(),
+        }),
+      ]),
+      response: {
+        201: projectMediaSchema,
+        400: errorResponseSchema,
+        409: errorResponseSchema,
+        415: errorResponseSchema,
+      },
+    },
+  }, async (req, reply) => {
+    const { projectId } = req.params as { projectId: string };
+    const body = req.body as
+      | { kind: "IMAGE" | "ATTACHMENT"; filename: string; mimeType: string; content: string; caption?: string | null }
+      | { kind: "VIDEO_LINK"; url: string; caption?: string | null };
+
+    try {
+      let media;
+      if (body.kind === "VIDEO_LINK") {
+        media = await ProjectMediaService.add(req.user!.sub, projectId, body);
+      } else {
+        const content = Buffer.from(body.content, "base64");
+        try {
+          validateFileInput(body.filename, body.mimeType, content.length, ProjectMediaService.maxBytes(body.kind));
+        } catch (error) {
+          return reply.code(400).send({ message: error instanceof Error ? error.message : "Invalid file" });
+        }
+        media = await ProjectMediaService.add(req.user!.sub, projectId, { ...body, content });
+      }
+      return reply.code(201).send(media);
+    } catch (error) {
+      if (error instanceof ProjectMediaError) {
+        return reply.code(error.statusCode).send({ message: error.message });
+      }
+      throw error;
+    }
+  });
+
+  // Protected: Set the order of a project's media gallery
+  app.put("/v1/profiles/me/projects/:projectId/media/order", {
+    preHandler: [requireAuth, validateProjectOwnership],
+    schema: {
+      tags: ["projects"],
+      params: z.object({ projectId: z.string().cuid() }),
+      body: z.object({
+        ids: z.array(z.string().min(1)).max(ProjectMediaService.MAX_ITEMS_PER_PROJECT), // Every item, in gallery order
+      }),
+      response: {
+        200: z.object({ media: z.array(projectMediaSchema) }),
+        400: errorResponseSchema,
+      },
+    },
+  }, async (req, reply) => {
+    const { projectId } = req.params as { projectId: string };
+    const { ids } = req.body as { ids: string[] };
+
+    try {
+      const media = await ProjectMediaService.reorder(req.user!.sub, projectId, ids);
+      return reply.send({ media });
+    } catch (error) {
+      if (error instanceof ProjectMediaError) {
+        return reply.code(error.statusCode).send({ message: error.message });
+      }
+      throw error;
+    }
+  });
+
+  // Protected: Change the caption of a media item
+  app.patch("/v1/profiles/me/projects/:projectId/media/:mediaId", {
+    preHandler: [requireAuth, validateProjectOwnership],
+    schema: {
+      tags: ["projects"],
+      params: z.object({ projectId: z.string().cuid(), mediaId: z.string().cuid() }),
+      body: z.object({ caption: z.string().max(300).nullable() }),
+      response: {
+        200: projectMediaSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (req, reply) => {
+    const { projectId, mediaId } = req.params as { projectId: string; mediaId: string };
+    const { caption } = req.body as { caption: string | null };
+
+    try {
+      const media = await ProjectMediaService.updateCaption(req.user!.sub, projectId, mediaId, caption);
+      return reply.send(media);
+    } catch (error) {
+      if (error instanceof ProjectMediaError) {
+        return reply.code(error.statusCode).send({ message: error.message });
+      }
+      throw error;
+    }
+  });
+
+  // Protected: Remove a media item and its stored file
+  app.delete("/v1/profiles/me/projects/:projectId/media/:mediaId", {
+    preHandler: [requireAuth, validateProjectOwnership],
+    schema: {
+      tags: ["projects"],
+      params: z.object({ projectId: z.string().cuid(), mediaId: z.string().cuid() }),
+      response: { 204: z.any(), 404: errorResponseSchema },
+    },
+  }, async (req, reply) => {
+    const { projectId, mediaId } = req.params as { projectId: string; mediaId: string };
+
+    try {
+      await ProjectMediaService.remove(req.user!.sub, projectId, mediaId);
+      return reply.code(204).send();
+    } catch (error) {
+      if (error instanceof ProjectMediaError) {
+        return reply.code(error.statusCode).send({ message: error.message });
+      }
+      throw error;
+    }
+  });
+
+  // Public: Serve project media files when they are stored on local disk (development and tests)
+  // S3 storage hands out bucket or CDN URLs instead, so this route is not used there
+  app.get("/v1/media/*", {
+    preHandler: publicRateLimit,
+    schema: {
+      tags: ["projects"],
+      response: { 200: z.any(), 404: errorResponseSchema },
+    },
+  }, async (req, reply) => {
+    const key = (req.params as { "*": string })["*"];
+    const storage = getMediaStorage();
+    if (!(storage instanceof LocalDiskStorage)) {
+      return reply.code(404).send({ message: "Media not found" });
+    }
+
+    // Only files that still belong to a live project are served
+    const media = await prisma.projectMedia.findFirst({
+      where: { storageKey: key, project: { deletedAt: null } },
+      select: { filename: true, mimeType: true },
+    });
+    if (!media) {
+      return reply.code(404).send({ message: "Media not found" });
+    }
+
+    let content: Buffer | null;
+    try {
+      content = await storage.read(key);
+    } catch (error) {
+      if (error instanceof MediaStorageError) {
+        return reply.code(404).send({ message: "Media not found" });
+      }
+      throw error;
+    }
+    if (!content) {
+      return reply.code(404).send({ message: "Media not found" });
+    }
+
+    const inline = media.mimeType?.startsWith("image/");
+    return reply
+      .header("Content-Type", media.mimeType || "application/octet-stream")
+      .header("Content-Disposition", `${inline ? "inline" : "attachment"}; filename="${(media.filename || "file").replace(/[^\x20-\x7e]|["\\]/g, "_")}"`)
+      .header("X-Content-Type-Options", "nosniff")
+      .header("Cache-Control", "private, max-age=3600")
+      .send(content);
+  });
+
+  // Protected: Create publication (Faculty only)
+  app.post("/v1/profiles/me/publications", {
+    preHandler: [requireAuth, requireRole(["FACULTY", "HEAD_ADMIN"])],
+    schema: {
+      tags: ["publications"],
+      body: publicationSchema,
+      response: { 201: z.any() },
+    },
+  }, async (req, reply) => {
+    const data = req.body as z.infer<typeof publicationSchema>;
+
+    // Ensure profile exists
+    await prisma.profile.upsert({
+      where: { userId: req.user!.sub },
+      update: {},
+      create: { 
+        userId: req.user!.sub,
+        skills: [],
+        expertise: [],
+      },
+    });
+
+    const publication = await prisma.publication.create({
+      data: {
+        ...data,
+        type: "JOURNAL", // Default type for legacy publications
+        profile: { connect: { userId: req.user!.sub } },
+      },
+    });
+
+    await recordHistory(req, 'PUBLICATION', publication.id, null, publication);
+    await submitForModeration(req, 'PUBLICATION', publication.id, { title: publication.title, year: publication.year, link: publication.link });
+    await onProfileChanged(req, req.user!.sub);
+
+    return reply.code(201).send({ publication });
+  });
+
+  // Protected: Import publications from BibTeX, RIS, CSL-JSON or an ORCID works export (Faculty only)
+  app.post("/v1/profiles/me/publications/import", {
+    preHandler: [requireAuth, requireRole(["FACULTY", "HEAD_ADMIN"]), uploadRateLimit],
+    bodyLimit: 2 * 1024 * 1024,
+    schema: {
+      tags: ["publications"],
+      body: z.object({
+        content: z.string().min(1).max(2 * 1000 * 1000), // File contents as text
+        format: z.enum(CITATION_FORMATS as [string, ...string[]]).optional(),
+        dryRun: z.boolean().optional(),
+      }),
+      response: {
+        200: z.object({
+          format: z.string(),
+          dryRun: z.boolean(),
+          total: z.number(),
+          created: z.array(z.object({ id: z.string().nullable(), title: z.string() })),
+          updated: z.array(z.object({ id: z.string(), title: z.string(), fields: z.array(z.string()) })),
+          skipped: z.array(z.object({ title: z.string().nullable(), reason: z.string() })),
+        }),
+        400: errorResponseSchema,
+      },
+    },
+  }, async (req, reply) => {
+    const { content, format, dryRun } = req.body as { content: string; format?: typeof CITATION_FORMATS[number]; dryRun?: boolean };
+    const userId = req.user!.sub;
+
+    try {
+      const previousPublications = dryRun ? [] : await prisma.publication.findMany({ where: { userId, deletedAt: null } });
+      const report = await PublicationImportService.importPublications(userId, content, { format, dryRun });
+
+      if (!report.dryRun && report.created.length + report.updated.length > 0) {
+        const previousById = new Map(previousPublications.map(publication => [publication.id, publication]));
+        const changedPublications = await prisma.publication.findMany({
+          where: { id: { in: [...report.created, ...report.updated].map(publication => publication.id!) } },
+        });
+        for (const publication of changedPublications) {
+          await recordHistory(req, 'PUBLICATION', publication.id, previousById.get(publication.id) ?? null, publication);
+        }
+
+        for (const publication of [...report.created, ...report.updated]) {
+          await submitForModeration(req, 'PUBLICATION', publication.id!, { title: publication.title });
+        }
+        await onProfileChanged(req, userId);
+      }
+
+      return reply.send(report);
+    } catch (error) {
+      if (error instanceof PublicationImportError) {
+        return reply.code(error.statusCode).send({ message: error.message });
+      }
+      throw error;
+    }
+  });
+
+  // Protected: Export my publications as BibTeX
+  app.get("/v1/profiles/me/publications/export", {
+    preHandler: requireAuth,
+    schema: {
+      tags: ["publications"],
+      response: { 200: z.any() },
+    },
+  }, async (req, reply) => {
+    const bibtex = await PublicationImportService.exportBibtex(req.user!.sub);
+
+    return reply
+      .header("Content-Type", "application/x-bibtex; charset=utf-8")
+      .header("Content-Disposition", 'attachment; filename="publications.bib"')
+      .send(bibtex);
+  });
+
+  // Protected: Update publication (Faculty only)
+  app.put("/v1/profiles/me/publications/:publicationId", {
+    preHandler: [requireAuth, requireRole(["FACULTY", "HEAD_ADMIN"]), validatePublicationOwnership],
+    schema: {
+      tags: ["publications"],
+      params: z.object({ publicationId: z.string().cuid() }),
+      body: publicationSchema,
+      response: { 200: z.any() },
+    },
+  }, async (req, reply) => {
+    const { publicationId } = req.params as { publicationId: string };
+    const data = req.body as z.infer<typeof publicationSchema>;
+
+    // Check ownership
+    const existingPublication = await prisma.publication.findFirst({
+      where: { 
+        id: publicationId,
+        profile: { userId: req.user!.sub },
+        deletedAt: null,
+      },
+    });
+
+    if (!existingPublication) {
+      return reply.code(404).send({ message: "Publication not found" });
     }
 
     const publication = await prisma.publication.update({
@@ -942,6 +2030,10 @@ export default async function profileRoutes(app: FastifyInstance) {
       data,
     });
 
+    await recordHistory(req, 'PUBLICATION', publication.id, existingPublication, publication);
+    await submitForModeration(req, 'PUBLICATION', publication.id, { title: publication.title, year: publication.year, link: publication.link });
+    await onProfileChanged(req, req.user!.sub);
+
     return reply.send({ publication });
   });
 
@@ -961,6 +2053,7 @@ export default async function profileRoutes(app: FastifyInstance) {
       where: { 
         id: publicationId,
         profile: { userId: req.user!.sub },
+        deletedAt: null,
       },
     });
 
@@ -968,10 +2061,16 @@ export default async function profileRoutes(app: FastifyInstance) {
       return reply.code(404).send({ message: "Publication not found" });
     }
 
-    await prisma.publication.delete({
+    // Kept in the trash for the retention period before the purge job removes it
+    await prisma.publication.update({
       where: { id: publicationId },
+      data: { deletedAt: new Date() },
     });
 
+    await recordHistory(req, 'PUBLICATION', publicationId, existingPublication, null);
+    await withdrawFromModeration(req, 'PUBLICATION', publicationId);
+    await onProfileChanged(req, req.user!.sub);
+
     return reply.code(204).send({ message: "Publication deleted successfully" });
   });
 
@@ -987,7 +2086,7 @@ export default async function profileRoutes(app: FastifyInstance) {
 
     const profile = await prisma.profile.findUnique({
       where: { userId },
-      select: { experiences: true },
+      select: { experiences: { where: { deletedAt: null }, orderBy: PORTFOLIO_ORDER } },
     });
 
     return reply.send({ experiences: profile?.experiences || [] });
@@ -1028,6 +2127,10 @@ export default async function profileRoutes(app: FastifyInstance) {
       },
     });
 
+    await recordHistory(req, 'EXPERIENCE', experience.id, null, experience);
+    await submitForModeration(req, 'EXPERIENCE', experience.id, { area: experience.area, level: experience.level, description: experience.description });
+    await onProfileChanged(req, req.user!.sub);
+
     return reply.send({ experience });
   });
 
@@ -1049,7 +2152,8 @@ export default async function profileRoutes(app: FastifyInstance) {
     const existingExperience = await prisma.experience.findFirst({
       where: { 
         id,
-        profile: { userId }
+        profile: { userId },
+        deletedAt: null,
       },
     });
 
@@ -1062,6 +2166,10 @@ export default async function profileRoutes(app: FastifyInstance) {
       data,
     });
 
+    await recordHistory(req, 'EXPERIENCE', experience.id, existingExperience, experience);
+    await submitForModeration(req, 'EXPERIENCE', experience.id, { area: experience.area, level: experience.level, description: experience.description });
+    await onProfileChanged(req, req.user!.sub);
+
     return reply.send({ experience });
   });
 
@@ -1083,25 +2191,36 @@ export default async function profileRoutes(app: FastifyInstance) {
       include: { profile: true },
     });
 
-    if (!experience || experience.profile.userId !== userId) {
+    if (!experience || experience.profile.userId !== userId || experience.deletedAt) {
       return reply.code(404).send({ message: "Experience not found" });
     }
 
-    await prisma.experience.delete({
+    // Kept in the trash for the retention period before the purge job removes it
+    await prisma.experience.update({
       where: { id },
+      data: { deletedAt: new Date() },
     });
 
-    return reply.send({ message: "Experience deleted successfully" });
+    await recordHistory(req, 'EXPERIENCE', id, experience, null);
+    await withdrawFromModeration(req, 'EXPERIENCE', id);
+    await onProfileChanged(req, userId);
+
+    return reply.send({ message: "Experience moved to trash" });
   });
 
   // Skills CRUD endpoints
   
-  // Protected: Get my skills
+  // Protected: Get my skills with proficiency levels and endorsement counts
   app.get("/v1/profile/me/skills", {
     preHandler: requireAuth,
     schema: {
       tags: ["profiles"],
-      response: { 200: z.object({ skills: z.array(z.string()) }) },
+      response: {
+        200: z.object({
+          skills: z.array(z.string()),
+          skillDetails: z.array(skillDetailSchema),
+        }),
+      },
     },
   }, async (req, reply) => {
     const userId = req.user!.sub;
@@ -1111,7 +2230,10 @@ export default async function profileRoutes(app: FastifyInstance) {
       select: { skills: true },
     });
 
-    return reply.send({ skills: profile?.skills || [] });
+    const skills = profile?.skills || [];
+    const skillDetails = await SkillEndorsementService.getSkillDetails(userId, skills);
+
+    return reply.send({ skills, skillDetails });
   });
 
   // Protected: Update my skills
@@ -1126,11 +2248,11 @@ export default async function profileRoutes(app: FastifyInstance) {
     const { skills } = req.body as { skills: string[] };
     const userId = req.user!.sub;
 
-    // Validate and clean skills
-    const cleanedSkills = skills
-      .map(skill => skill.trim())
-      .filter(skill => skill.length > 0)
-      .slice(0, 50); // Limit to 50 skills
+    // Resolve aliases to canonical catalogue names and drop duplicates
+    const cleanedSkills = (await SkillTaxonomyService.canonicalize(skills))
+      .slice(0, SkillTaxonomyService.MAX_PROFILE_SKILLS);
+
+    const previousProfile = await prisma.profile.findUnique({ where: { userId } });
 
     const profile = await prisma.profile.upsert({
       where: { userId },
@@ -1140,9 +2262,13 @@ export default async function profileRoutes(app: FastifyInstance) {
         skills: cleanedSkills,
         expertise: [],
       },
-      select: { skills: true },
     });
 
+    await recordHistory(req, 'PROFILE', profile.id, previousProfile, profile);
+
+    await SkillEndorsementService.pruneProficiencies(userId, profile.skills);
+    await onProfileChanged(req, userId);
+
     return reply.send({ skills: profile.skills });
   });
 
@@ -1158,78 +2284,292 @@ export default async function profileRoutes(app: FastifyInstance) {
     const { skill } = req.body as { skill: string };
     const userId = req.user!.sub;
 
-    const cleanedSkill = skill.trim();
+    const [cleanedSkill] = await SkillTaxonomyService.canonicalize([skill]);
     if (!cleanedSkill) {
       return reply.code(400).send({ message: "Skill cannot be empty" });
     }
 
     const profile = await prisma.profile.findUnique({
       where: { userId },
-      select: { skills: true },
     });
 
     const currentSkills = profile?.skills || [];
     
-    // Check if skill already exists (case insensitive)
-    if (currentSkills.some(s => s.toLowerCase() === cleanedSkill.toLowerCase())) {
+    // Check if skill already exists under any spelling
+    const skillKey = SkillTaxonomyService.normalizeKey(cleanedSkill);
+    if (currentSkills.some(s => SkillTaxonomyService.normalizeKey(s) === skillKey)) {
       return reply.code(400).send({ message: "Skill already exists" });
     }
 
-    // Limit to 50 skills
-    if (currentSkills.length >= 50) {
-      return reply.code(400).send({ message: "Maximum 50 skills allowed" });
+    if (currentSkills.length >= SkillTaxonomyService.MAX_PROFILE_SKILLS) {
+      return reply.code(400).send({ message: `Maximum ${SkillTaxonomyService.MAX_PROFILE_SKILLS} skills allowed` });
     }
 
     const updatedSkills = [...currentSkills, cleanedSkill];
 
-    const updatedProfile = await prisma.profile.upsert({
-      where: { userId },
-      update: { skills: updatedSkills },
-      create: {
+    const updatedProfile = await prisma.profile.upsert({
+      where: { userId },
+      update: { skills: updatedSkills },
+      create: {
+        userId,
+        skills: updatedSkills,
+        expertise: [],
+      },
+    });
+
+    await recordHistory(req, 'PROFILE', updatedProfile.id, profile, updatedProfile);
+
+    await onProfileChanged(req, userId);
+
+    return reply.send({ skills: updatedProfile.skills });
+  });
+
+  // Protected: Suggest catalogue skills for a partial name or alias
+  app.get("/v1/skills/autocomplete", {
+    preHandler: requireAuth,
+    schema: {
+      tags: ["skills"],
+      querystring: z.object({
+        q: z.string().min(1).max(100),
+        limit: z.string().transform(Number).pipe(z.number().int().min(1).max(25)).optional(),
+      }),
+      response: {
+        200: z.object({
+          suggestions: z.array(z.object({
+            id: z.string(),
+            name: z.string(),
+            category: z.string().nullable(),
+            matchedAlias: z.string().optional(),
+          })),
+        }),
+      },
+    },
+  }, async (req, reply) => {
+    const { q, limit } = req.query as { q: string; limit?: number };
+
+    const suggestions = await SkillTaxonomyService.autocomplete(q, limit || 10);
+    return reply.send({ suggestions });
+  });
+
+  // Protected: Remove a skill
+  app.delete("/v1/profile/me/skills/:skill", {
+    preHandler: requireAuth,
+    schema: {
+      tags: ["profiles"],
+      params: z.object({ skill: z.string() }),
+      response: { 200: z.object({ skills: z.array(z.string()) }) },
+    },
+  }, async (req, reply) => {
+    const { skill } = req.params as { skill: string };
+    const userId = req.user!.sub;
+
+    const decodedSkill = decodeURIComponent(skill);
+
+    const profile = await prisma.profile.findUnique({
+      where: { userId },
+    });
+
+    const currentSkills = profile?.skills || [];
+    const [canonicalSkill] = await SkillTaxonomyService.canonicalize([decodedSkill]);
+    const removedKeys = new Set([decodedSkill, canonicalSkill || ''].map(s => SkillTaxonomyService.normalizeKey(s)));
+    const updatedSkills = currentSkills.filter(s => !removedKeys.has(SkillTaxonomyService.normalizeKey(s)));
+
+    const updatedProfile = await prisma.profile.upsert({
+      where: { userId },
+      update: { skills: updatedSkills },
+      create: {
+        userId,
+        skills: updatedSkills,
+        expertise: [],
+      },
+    });
+
+    await recordHistory(req, 'PROFILE', updatedProfile.id, profile, updatedProfile);
+
+    await SkillEndorsementService.pruneProficiencies(userId, updatedProfile.skills);
+    await onProfileChanged(req, userId);
+
+    return reply.send({ skills: updatedProfile.skills });
+  });
+
+  // Protected: Set my proficiency level for a skill
+  app.put("/v1/profile/me/skills/:skill/proficiency", {
+    preHandler: requireAuth,
+    schema: {
+      tags: ["profiles"],
+      params: z.object({ skill: z.string().min(1).max(100) }),
+      body: z.object({
+        level: z.enum(SKILL_LEVELS as [string, ...string[]]),
+        yearsExp: z.number().int().min(0).max(50).nullable().optional(),
+      }),
+      response: {
+        200: z.object({
+          skill: z.string(),
+          level: z.string(),
+          yearsExp: z.number().nullable(),
+        }),
+        404: errorResponseSchema,
+      },
+    },
+  }, async (req, reply) => {
+    const { skill } = req.params as { skill: string };
+    const { level, yearsExp } = req.body as { level: typeof SKILL_LEVELS[number]; yearsExp?: number | null };
+    const userId = req.user!.sub;
+
+    try {
+      const proficiency = await SkillEndorsementService.setProficiency(userId, decodeURIComponent(skill), { level, yearsExp });
+      await onProfileChanged(req, userId);
+
+      return reply.send({
+        skill: proficiency.skill,
+        level: proficiency.level,
+        yearsExp: proficiency.yearsExp,
+      });
+    } catch (error) {
+      if (error instanceof SkillEndorsementError) {
+        return reply.code(error.statusCode).send({ message: error.message });
+      }
+      throw error;
+    }
+  });
+
+  // Protected: Clear my proficiency level for a skill
+  app.delete("/v1/profile/me/skills/:skill/proficiency", {
+    preHandler: requireAuth,
+    schema: {
+      tags: ["profiles"],
+      params: z.object({ skill: z.string().min(1).max(100) }),
+      response: { 200: messageResponseSchema, 404: errorResponseSchema },
+    },
+  }, async (req, reply) => {
+    const { skill } = req.params as { skill: string };
+    const userId = req.user!.sub;
+
+    try {
+      await SkillEndorsementService.clearProficiency(userId, decodeURIComponent(skill));
+      await onProfileChanged(req, userId);
+
+      return reply.send({ message: "Proficiency level cleared" });
+    } catch (error) {
+      if (error instanceof SkillEndorsementError) {
+        return reply.code(error.statusCode).send({ message: error.message });
+      }
+      throw error;
+    }
+  });
+
+  // Protected: List endorsements of a member's skill
+  app.get("/v1/profile/:userId/skills/:skill/endorsements", {
+    preHandler: [requireAuth, validateCollegeAccess],
+    schema: {
+      tags: ["profiles"],
+      params: z.object({ userId: z.string().cuid(), skill: z.string().min(1).max(100) }),
+      response: {
+        200: z.object({
+          skill: z.string(),
+          endorsements: z.array(z.object({
+            id: z.string(),
+            endorserId: z.string(),
+            endorserName: z.string().nullable(),
+            endorserRole: z.string(),
+            comment: z.string().nullable(),
+            createdAt: z.date(),
+          })),
+        }),
+        404: errorResponseSchema,
+      },
+    },
+  }, async (req, reply) => {
+    const { userId, skill } = req.params as { userId: string; skill: string };
+    const decodedSkill = decodeURIComponent(skill);
+
+    try {
+      const endorsements = await SkillEndorsementService.listEndorsements(userId, decodedSkill);
+      return reply.send({ skill: decodedSkill, endorsements });
+    } catch (error) {
+      if (error instanceof SkillEndorsementError) {
+        return reply.code(error.statusCode).send({ message: error.message });
+      }
+      throw error;
+    }
+  });
+
+  // Protected: Endorse a skill on another member's profile (faculty and students of the same college)
+  app.post("/v1/profile/:userId/skills/:skill/endorsements", {
+    preHandler: [requireAuth, requireRole(['FACULTY', 'STUDENT'])],
+    schema: {
+      tags: ["profiles"],
+      params: z.object({ userId: z.string().cuid(), skill: z.string().min(1).max(100) }),
+      body: z.object({ comment: z.string().max(500).optional() }).optional(),
+      response: {
+        201: z.object({
+          id: z.string(),
+          skill: z.string(),
+          endorserRole: z.string(),
+          createdAt: z.date(),
+        }),
+        400: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+        409: errorResponseSchema,
+      },
+    },
+  }, async (req, reply) => {
+    const { userId, skill } = req.params as { userId: string; skill: string };
+    const body = req.body as { comment?: string } | undefined;
+
+    try {
+      const endorsement = await SkillEndorsementService.endorse(
         userId,
-        skills: updatedSkills,
-        expertise: [],
-      },
-      select: { skills: true },
-    });
+        decodeURIComponent(skill),
+        {
+          id: req.user!.sub,
+          displayName: req.user!.displayName,
+          roles: req.user!.roles || [],
+          collegeId: req.user!.collegeId,
+        },
+        req.headers.authorization || '',
+        body?.comment
+      );
 
-    return reply.send({ skills: updatedProfile.skills });
+      await onProfileChanged(req, userId);
+
+      return reply.code(201).send({
+        id: endorsement.id,
+        skill: endorsement.skill,
+        endorserRole: endorsement.endorserRole,
+        createdAt: endorsement.createdAt,
+      });
+    } catch (error) {
+      if (error instanceof SkillEndorsementError) {
+        return reply.code(error.statusCode).send({ message: error.message });
+      }
+      throw error;
+    }
   });
 
-  // Protected: Remove a skill
-  app.delete("/v1/profile/me/skills/:skill", {
+  // Protected: Withdraw my endorsement of a member's skill
+  app.delete("/v1/profile/:userId/skills/:skill/endorsements", {
     preHandler: requireAuth,
     schema: {
       tags: ["profiles"],
-      params: z.object({ skill: z.string() }),
-      response: { 200: z.object({ skills: z.array(z.string()) }) },
+      params: z.object({ userId: z.string().cuid(), skill: z.string().min(1).max(100) }),
+      response: { 200: messageResponseSchema, 404: errorResponseSchema },
     },
   }, async (req, reply) => {
-    const { skill } = req.params as { skill: string };
-    const userId = req.user!.sub;
-
-    const decodedSkill = decodeURIComponent(skill);
-
-    const profile = await prisma.profile.findUnique({
-      where: { userId },
-      select: { skills: true },
-    });
-
-    const currentSkills = profile?.skills || [];
-    const updatedSkills = currentSkills.filter(s => s !== decodedSkill);
+    const { userId, skill } = req.params as { userId: string; skill: string };
 
-    const updatedProfile = await prisma.profile.upsert({
-      where: { userId },
-      update: { skills: updatedSkills },
-      create: {
-        userId,
-        skills: updatedSkills,
-        expertise: [],
-      },
-      select: { skills: true },
-    });
+    try {
+      await SkillEndorsementService.withdraw(userId, decodeURIComponent(skill), req.user!.sub);
+      await onProfileChanged(req, userId);
 
-    return reply.send({ skills: updatedProfile.skills });
+      return reply.send({ message: "Endorsement withdrawn" });
+    } catch (error) {
+      if (error instanceof SkillEndorsementError) {
+        return reply.code(error.statusCode).send({ message: error.message });
+      }
+      throw error;
+    }
   });
 
   // Protected: Get users directory for network discovery
@@ -1266,48 +2606,47 @@ export default async function profileRoutes(app: FastifyInstance) {
         });
       }
 
+      const profiles = await prisma.profile.findMany({
+        where: { userId: { in: usersData.users.map((user: any) => user.id) } },
+        select: {
+          userId: true,
+          name: true,
+          bio: true,
+          skills: true,
+          visibility: true,
+        },
+      });
+      const profileMap = new Map(profiles.map(profile => [profile.userId, profile]));
+      const heldContent = await ProfileModerationService.getHeldContent(profiles.map(profile => profile.userId));
+
       // Enhance users with profile data
-      const enhancedUsers = await Promise.all(
-        usersData.users.map(async (user: any) => {
-          try {
-            const profile = await prisma.profile.findUnique({
-              where: { userId: user.id },
-              select: {
-                name: true,
-                bio: true,
-                skills: true,
-              },
-            });
-
-            return {
-              id: user.id,
-              name: profile?.name || user.displayName || user.name,
-              email: user.email,
-              avatarUrl: user.avatarUrl,
-              college: user.collegeName,
-              collegeId: user.collegeId,
-              department: user.department,
-              year: user.year,
-              bio: profile?.bio,
-              skills: profile?.skills || [],
-            };
-          } catch (error) {
-            console.error(`Error enhancing user ${user.id}:`, error);
-            return {
-              id: user.id,
-              name: user.displayName || user.name,
-              email: user.email,
-              avatarUrl: user.avatarUrl,
-              college: user.collegeName,
-              collegeId: user.collegeId,
-              department: user.department,
-              year: user.year,
-              bio: '',
-              skills: [],
-            };
-          }
-        })
-      );
+      const users = usersData.users.map((user: any) => {
+        const profile = profileMap.get(user.id);
+        const held = user.id === req.user!.sub ? undefined : heldContent.get(user.id);
+        return ProfileModerationService.withoutHeldContent({
+          id: user.id,
+          userId: user.id,
+          name: profile?.name || user.displayName || user.name,
+          email: user.email,
+          avatarUrl: user.avatarUrl,
+          college: user.collegeName,
+          collegeId: user.collegeId,
+          department: user.department,
+          year: user.year,
+          bio: profile?.bio || '',
+          skills: profile?.skills || [],
+          visibility: profile?.visibility,
+        }, held);
+      });
+
+      // Same PII and visibility rules as search and the directory
+      const enhancedUsers = protectPIIArray(
+        users,
+        req.user!.sub,
+        req.user!.roles || [],
+        (req.user as any)?.department,
+        { collegeId: req.user!.collegeId }
+      ).map(({ userId, visibility, ...user }) => user);
 
       return reply.send({
         users: enhancedUsers,
@@ -1323,94 +2662,60 @@ export default async function profileRoutes(app: FastifyInstance) {
     }
   });
 
-  // Protected: Get user suggestions for follow recommendations
+  // Protected: Get user suggestions ranked by profile similarity, with the reasons for each
   app.get("/v1/users/suggestions", {
     preHandler: requireAuth,
     schema: {
       tags: ["users"],
       querystring: z.object({
         userId: z.string().optional(),
-        limit: z.string().transform(Number).optional(),
+        limit: z.string().transform(Number).pipe(z.number().int().min(1).max(UserSuggestionService.MAX_SUGGESTIONS)).optional(),
       }),
-      response: { 200: z.any() },
+      response: {
+        200: z.object({
+          users: z.array(z.object({
+            id: z.string(),
+            name: z.string(),
+            avatarUrl: z.string().nullable().optional(),
+            college: z.string().nullable(),
+            department: z.string().nullable().optional(),
+            bio: z.string().nullable(),
+            skills: z.array(z.string()),
+            score: z.number(),
+            reasons: z.array(z.string()),
+            explanation: z.string(),
+          })),
+        }),
+      },
     },
   }, async (req, reply) => {
-    const { userId, limit = 10 } = req.query as any;
-    const currentUserId = userId || req.user!.sub;
+    const { userId, limit = 10 } = req.query as { userId?: string; limit?: number };
+    const authHeader = req.headers.authorization || '';
 
     try {
-      // Get user's college info for better suggestions
-      const authServiceUrl = process.env.AUTH_SERVICE_URL || 'http://localhost:4001';
-      const userResponse = await axios.get(`${authServiceUrl}/v1/users/${currentUserId}`, {
-        headers: {
-          'Authorization': req.headers.authorization || '',
-        },
-        timeout: 5000,
-      });
-
-      const currentUser = userResponse.data.user;
-      
-      // Get users from same college
-      const queryParams = new URLSearchParams();
-      queryParams.append('limit', Math.min(limit * 2, 50).toString()); // Get more to filter
-      if (currentUser?.collegeId) {
-        queryParams.append('collegeId', currentUser.collegeId);
-      }
-
-      const suggestionsResponse = await axios.get(`${authServiceUrl}/v1/users?${queryParams}`, {
-        headers: {
-          'Authorization': req.headers.authorization || '',
-        },
-        timeout: 10000,
-      });
+      // The token describes the requester; anyone else's membership comes from the auth service
+      let requester = {
+        id: req.user!.sub,
+        collegeId: req.user!.collegeId,
+        department: req.user!.department,
+        year: req.user!.year,
+      };
 
-      if (!suggestionsResponse.data || !suggestionsResponse.data.users) {
-        return reply.send({ users: [] });
+      if (userId && userId !== req.user!.sub) {
+        const user = await AuthServiceClient.getUser(userId, authHeader);
+        if (!user || user.collegeId !== req.user!.collegeId) {
+          return reply.send({ users: [] });
+        }
+        requester = { id: user.id, collegeId: user.collegeId, department: user.department, year: user.year };
       }
 
-      // Filter out current user and enhance with profile data
-      const suggestions = suggestionsResponse.data.users
-        .filter((user: any) => user.id !== currentUserId)
-        .slice(0, limit);
-
-      const enhancedSuggestions = await Promise.all(
-        suggestions.map(async (user: any) => {
-          try {
-            const profile = await prisma.profile.findUnique({
-              where: { userId: user.id },
-              select: {
-                name: true,
-                bio: true,
-                skills: true,
-              },
-            });
-
-            return {
-              id: user.id,
-              name: profile?.name || user.displayName || user.name,
-              avatarUrl: user.avatarUrl,
-              college: user.collegeName,
-              department: user.department,
-              bio: profile?.bio,
-              skills: profile?.skills || [],
-            };
-          } catch (error) {
-            return {
-              id: user.id,
-              name: user.displayName || user.name,
-              avatarUrl: user.avatarUrl,
-              college: user.collegeName,
-              department: user.department,
-              bio: '',
-              skills: [],
-            };
-          }
-        })
-      );
-
-      return reply.send({ users: enhancedSuggestions });
+      const users = await UserSuggestionService.getSuggestions(requester, authHeader, limit);
+      return reply.send({ users });
     } catch (error) {
-      console.error('Error fetching user suggestions:', error);
+      req.log.error({
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: userId || req.user!.sub
+      }, 'Failed to build user suggestions');
       return reply.send({ users: [] });
     }
   });
@@ -1496,6 +2801,23 @@ export default async function profileRoutes(app: FastifyInstance) {
       if (data.criteria && data.criteria.trim()) {
         createData.criteria = data.criteria.trim();
       }
+      if (data.validityDays) {
+        createData.validityDays = data.validityDays;
+      }
+
+      try {
+        BadgeRuleService.validateCriteria(data.criteria);
+        Object.assign(createData, BadgeTierService.buildSettings({
+          awardMode: data.awardMode,
+          maxAwards: data.maxAwards,
+          levels: data.levels,
+        }));
+      } catch (error) {
+        if (error instanceof BadgeServiceError) {
+          return reply.code(400).send({ success: false, message: error.message, code: error.code });
+        }
+        throw error;
+      }
 
       // Create badge definition with timeout protection
       const badgeDefinition = await Promise.race([
@@ -1510,6 +2832,10 @@ export default async function profileRoutes(app: FastifyInstance) {
             category: true,
             rarity: true,
             points: true,
+            validityDays: true,
+            awardMode: true,
+            maxAwards: true,
+            levels: true,
             isActive: true,
             createdAt: true,
             // Don't return: createdBy, collegeId, criteria (sensitive)
@@ -1619,6 +2945,10 @@ export default async function profileRoutes(app: FastifyInstance) {
             category: z.string().nullable(),
             rarity: z.string(),
             points: z.number(),
+            validityDays: z.number().nullable(),
+            awardMode: z.string(),
+            maxAwards: z.number().nullable(),
+            levels: z.any(),
             isActive: z.boolean()
           })),
           pagination: z.object({
@@ -1709,6 +3039,10 @@ export default async function profileRoutes(app: FastifyInstance) {
             category: true,
             rarity: true,
             points: true,
+            validityDays: true,
+            awardMode: true,
+            maxAwards: true,
+            levels: true,
             isActive: true,
             // Exclude sensitive fields: createdBy, collegeId, criteria, createdAt
           },
@@ -1818,6 +3152,10 @@ export default async function profileRoutes(app: FastifyInstance) {
             category: z.string().nullable(),
             rarity: z.string(),
             points: z.number(),
+            validityDays: z.number().nullable(),
+            awardMode: z.string(),
+            maxAwards: z.number().nullable(),
+            levels: z.any(),
             isActive: z.boolean()
           }),
           message: z.string()
@@ -1858,7 +3196,10 @@ export default async function profileRoutes(app: FastifyInstance) {
             name: true,
             collegeId: true,
             createdBy: true,
-            isActive: true
+            isActive: true,
+            awardMode: true,
+            maxAwards: true,
+            levels: true
           }
         }),
         new Promise<any>((_, reject) => 
@@ -1900,6 +3241,21 @@ export default async function profileRoutes(app: FastifyInstance) {
       if (data.description !== undefined) updateData.description = data.description.trim();
       if (data.rarity !== undefined) updateData.rarity = data.rarity;
       if (data.points !== undefined) updateData.points = data.points;
+      if (data.validityDays !== undefined) updateData.validityDays = data.validityDays;
+
+      try {
+        BadgeRuleService.validateCriteria(data.criteria);
+        Object.assign(updateData, BadgeTierService.buildSettings({
+          awardMode: data.awardMode,
+          maxAwards: data.maxAwards,
+          levels: data.levels,
+        }, existingBadge));
+      } catch (error) {
+        if (error instanceof BadgeServiceError) {
+          return reply.code(400).send({ success: false, message: error.message, code: error.code });
+        }
+        throw error;
+      }
       if (data.isActive !== undefined) updateData.isActive = data.isActive;
       if (data.collegeId !== undefined) updateData.collegeId = data.collegeId;
       
@@ -1923,6 +3279,10 @@ export default async function profileRoutes(app: FastifyInstance) {
             category: true,
             rarity: true,
             points: true,
+            validityDays: true,
+            awardMode: true,
+            maxAwards: true,
+            levels: true,
             isActive: true
           }
         }),
@@ -2127,103 +3487,381 @@ export default async function profileRoutes(app: FastifyInstance) {
     }
   });
 
-  // Protected: Award badge (Faculty/Admin only)
-  app.post("/v1/badges/award", {
-    preHandler: [requireAuth, requireRole(["FACULTY", "DEPT_ADMIN", "HEAD_ADMIN"])],
+  // Protected: Award badge (Faculty/Admin only)
+  app.post("/v1/badges/award", {
+    preHandler: [requireAuth, requireRole(["FACULTY", "DEPT_ADMIN", "HEAD_ADMIN"])],
+    schema: {
+      tags: ["badges"],
+      body: awardBadgeSchema,
+      response: { 201: z.any() },
+    },
+  }, async (req, reply) => {
+    const data = req.body as z.infer<typeof awardBadgeSchema>;
+    
+    console.log('Badge award request body:', JSON.stringify(req.body, null, 2));
+    console.log('Validated data:', JSON.stringify(data, null, 2));
+    
+    // Verify the target user exists in auth service and get user info
+    const authServiceUrl = process.env.AUTH_SERVICE_URL || 'http://localhost:4001';
+    let studentInfo: any = null;
+    try {
+      const userResponse = await axios.get(`${authServiceUrl}/v1/users/${data.userId}`, {
+        headers: {
+          Authorization: req.headers.authorization,
+        },
+      });
+      
+      if (!userResponse.data) {
+        return reply.code(404).send({
+          error: "User not found",
+          message: `User with ID ${data.userId} does not exist`,
+        });
+      }
+      
+      studentInfo = userResponse.data.user;
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        return reply.code(404).send({
+          error: "User not found", 
+          message: `User with ID ${data.userId} does not exist`,
+        });
+      }
+      return reply.code(500).send({
+        error: "Failed to verify user",
+        message: "Could not verify user existence",
+      });
+    }
+
+    // Ensure target user's profile exists
+    await prisma.profile.upsert({
+      where: { userId: data.userId },
+      update: {},
+      create: { 
+        userId: data.userId,
+        skills: [],
+        expertise: [],
+      },
+    });
+
+    const badgeDefinition = await prisma.badgeDefinition.findUnique({
+      where: { id: data.badgeDefinitionId },
+    });
+
+    if (!badgeDefinition) {
+      return reply.code(404).send({
+        error: "Badge not found",
+        message: `Badge definition ${data.badgeDefinitionId} does not exist`,
+      });
+    }
+
+    // Gated rarities are awarded only by approving a nomination, admins included
+    try {
+      await AdminBadgeService.assertAwardAllowed(badgeDefinition, req.user!.collegeId);
+    } catch (error) {
+      if (error instanceof BadgeApprovalRequiredError) {
+        return reply.code(error.statusCode).send({
+          error: "Approval required",
+          message: error.message,
+          code: error.code,
+        });
+      }
+      throw error;
+    }
+
+    let badge;
+    try {
+      badge = await prisma.$transaction(tx => AdminBadgeService.createAward(tx, badgeDefinition, {
+        studentId: data.userId,
+        awardedBy: req.user!.sub,
+        reason: data.reason,
+        projectId: data.projectId,
+        eventId: data.eventId,
+        awardedByName: data.awardedByName,
+        level: data.level,
+      }));
+    } catch (error) {
+      if (error instanceof DuplicateBadgeAwardError) {
+        const existingBadge = await prisma.studentBadge.findFirst({
+          where: { badgeId: data.badgeDefinitionId, studentId: data.userId },
+        });
+        const isExpired = !!existingBadge?.expiresAt && existingBadge.expiresAt <= new Date();
+        return reply.code(400).send({
+          error: "Badge already awarded",
+          message: isExpired
+            ? `Student's badge expired on ${existingBadge!.expiresAt}; renew the existing award instead`
+            : `Student already has this badge (awarded on ${existingBadge?.awardedAt})`,
+        });
+      }
+      if (error instanceof BadgeServiceError) {
+        return reply.code(400).send({
+          error: "Badge award not allowed",
+          message: error.message,
+        });
+      }
+      throw error;
+    }
+
+    // Auto-create badge award post (if enabled)
+    try {
+      await BadgePostService.createBadgeAwardPost(badge, req.user!, studentInfo);
+    } catch (error) {
+      console.error('Failed to create badge award post:', error);
+      // Don't fail the badge creation if post creation fails
+    }
+
+    return reply.code(201).send({ badge });
+  });
+
+  // Protected: Revoke a badge award (Faculty/Admin only)
+  // Faculty can revoke awards they made; DEPT_ADMIN is limited to their department
+  const revokeBadgeAward = async (req: FastifyRequest, reply: FastifyReply) => {
+    const { awardId } = req.params as { awardId: string };
+    const { reason } = req.body as { reason: string };
+    const user = req.user!;
+
+    if (!user.collegeId) {
+      return reply.code(403).send({ message: "College information is required to revoke badges" });
+    }
+
+    const isHeadAdmin = user.roles.includes("HEAD_ADMIN");
+    const isDeptAdmin = user.roles.includes("DEPT_ADMIN");
+
+    try {
+      const result = await AdminBadgeService.revokeBadge(awardId, reason, user.sub, user.collegeId, {
+        revokedByName: user.displayName,
+        authHeader: req.headers.authorization,
+        ownAwardsOnly: !isHeadAdmin && !isDeptAdmin,
+        department: !isHeadAdmin && isDeptAdmin ? user.department : undefined,
+      });
+
+      await invalidateEligibility(req, result.revocation.studentId);
+      await RedisCache.del(`profile:${result.revocation.studentId}`);
+
+      return reply.send({ success: true, revocation: result.revocation });
+    } catch (error) {
+      if (error instanceof BadgeServiceError) {
+        return reply.code(error.statusCode).send({ message: error.message });
+      }
+
+      req.log.error({
+        error: error instanceof Error ? error.message : 'Unknown error',
+        awardId
+      }, 'Failed to revoke badge award');
+      return reply.code(500).send({ message: "Failed to revoke badge" });
+    }
+  };
+
+  const revokeBadgeRouteSchema = {
+    tags: ["badges"],
+    params: z.object({ awardId: z.string().cuid() }),
+    body: z.object({ reason: z.string().min(1, 'Reason is required').max(500, 'Reason too long') }),
+    response: { 200: z.any(), 403: errorResponseSchema, 404: errorResponseSchema, 422: errorResponseSchema, 500: errorResponseSchema },
+  };
+
+  app.post("/v1/badges/awards/:awardId/revoke", {
+    preHandler: [requireAuth, requireRole(["FACULTY", "DEPT_ADMIN", "HEAD_ADMIN"])],
+    schema: revokeBadgeRouteSchema,
+  }, revokeBadgeAward);
+
+  app.delete("/v1/badges/awards/:awardId", {
+    preHandler: [requireAuth, requireRole(["FACULTY", "DEPT_ADMIN", "HEAD_ADMIN"])],
+    schema: revokeBadgeRouteSchema,
+  }, revokeBadgeAward);
+
+  // Protected: Renew a term-limited badge award (Faculty/Admin only)
+  // Scoped like revocation: faculty renew their own awards, DEPT_ADMIN their department
+  app.post("/v1/badges/awards/:awardId/renew", {
+    preHandler: [requireAuth, requireRole(["FACULTY", "DEPT_ADMIN", "HEAD_ADMIN"])],
+    schema: {
+      tags: ["badges"],
+      params: z.object({ awardId: z.string().cuid() }),
+      body: z.object({
+        validityDays: z.number().int().min(1).max(3650).optional(),
+        expiresAt: z.string().datetime().optional(),
+      }),
+      response: { 200: z.any(), 400: errorResponseSchema, 403: errorResponseSchema, 404: errorResponseSchema, 500: errorResponseSchema },
+    },
+  }, async (req, reply) => {
+    const { awardId } = req.params as { awardId: string };
+    const { validityDays, expiresAt } = req.body as { validityDays?: number; expiresAt?: string };
+    const user = req.user!;
+
+    if (!user.collegeId) {
+      return reply.code(403).send({ message: "College information is required to renew badges" });
+    }
+
+    const isHeadAdmin = user.roles.includes("HEAD_ADMIN");
+    const isDeptAdmin = user.roles.includes("DEPT_ADMIN");
+
+    try {
+      const award = await AdminBadgeService.renewBadge(awardId, user.sub, user.collegeId, {
+        validityDays,
+        expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+      }, {
+        authHeader: req.headers.authorization,
+        ownAwardsOnly: !isHeadAdmin && !isDeptAdmin,
+        department: !isHeadAdmin && isDeptAdmin ? user.department : undefined,
+      });
+
+      await invalidateEligibility(req, award.studentId);
+      await RedisCache.del(`profile:${award.studentId}`);
+
+      return reply.send({ success: true, award });
+    } catch (error) {
+      if (error instanceof BadgeServiceError) {
+        return reply.code(error.statusCode).send({ message: error.message });
+      }
+
+      req.log.error({
+        error: error instanceof Error ? error.message : 'Unknown error',
+        awardId
+      }, 'Failed to renew badge award');
+      return reply.code(500).send({ message: "Failed to renew badge" });
+    }
+  });
+
+  // Protected: Export one of my badge awards as a signed Open Badges 3.0 credential
+  app.get("/v1/badges/awards/:awardId/credential", {
+    preHandler: requireAuth,
+    schema: {
+      tags: ["badges"],
+      params: z.object({ awardId: z.string().cuid() }),
+      response: { 200: z.any(), 404: errorResponseSchema, 500: errorResponseSchema },
+    },
+  }, async (req, reply) => {
+    const { awardId } = req.params as { awardId: string };
+
+    try {
+      const issued = await BadgeCredentialService.issue(awardId, req.user!.sub);
+      return reply.send(issued);
+    } catch (error) {
+      if (error instanceof BadgeServiceError) {
+        return reply.code(error.statusCode).send({ message: error.message });
+      }
+
+      req.log.error({
+        error: error instanceof Error ? error.message : 'Unknown error',
+        awardId
+      }, 'Failed to issue badge credential');
+      return reply.code(500).send({ message: "Failed to issue badge credential" });
+    }
+  });
+
+  // Public: Check that a badge award is authentic and not revoked or expired
+  // Pass the credential JWT to also verify its signature against the service key
+  app.get("/v1/badges/verify/:awardId", {
+    preHandler: publicRateLimit,
     schema: {
       tags: ["badges"],
-      body: awardBadgeSchema,
-      response: { 201: z.any() },
+      params: z.object({ awardId: z.string().cuid() }),
+      querystring: z.object({ credential: z.string().max(10000).optional() }),
+      response: { 200: z.any(), 404: errorResponseSchema, 500: errorResponseSchema },
     },
   }, async (req, reply) => {
-    const data = req.body as z.infer<typeof awardBadgeSchema>;
-    
-    console.log('Badge award request body:', JSON.stringify(req.body, null, 2));
-    console.log('Validated data:', JSON.stringify(data, null, 2));
-    
-    // Verify the target user exists in auth service and get user info
-    const authServiceUrl = process.env.AUTH_SERVICE_URL || 'http://localhost:4001';
-    let studentInfo: any = null;
+    const { awardId } = req.params as { awardId: string };
+    const { credential } = req.query as { credential?: string };
+
     try {
-      const userResponse = await axios.get(`${authServiceUrl}/v1/users/${data.userId}`, {
-        headers: {
-          Authorization: req.headers.authorization,
-        },
-      });
-      
-      if (!userResponse.data) {
-        return reply.code(404).send({
-          error: "User not found",
-          message: `User with ID ${data.userId} does not exist`,
-        });
-      }
-      
-      studentInfo = userResponse.data.user;
-    } catch (error: any) {
-      if (error.response?.status === 404) {
-        return reply.code(404).send({
-          error: "User not found", 
-          message: `User with ID ${data.userId} does not exist`,
-        });
+      const verification = await BadgeCredentialService.verify(awardId, credential);
+      return reply.send(verification);
+    } catch (error) {
+      if (error instanceof BadgeServiceError) {
+        return reply.code(error.statusCode).send({ message: error.message });
       }
-      return reply.code(500).send({
-        error: "Failed to verify user",
-        message: "Could not verify user existence",
-      });
+
+      req.log.error({
+        error: error instanceof Error ? error.message : 'Unknown error',
+        awardId
+      }, 'Failed to verify badge credential');
+      return reply.code(500).send({ message: "Failed to verify badge credential" });
     }
+  });
 
-    // Ensure target user's profile exists
-    await prisma.profile.upsert({
-      where: { userId: data.userId },
-      update: {},
-      create: { 
-        userId: data.userId,
-        skills: [],
-        expertise: [],
-      },
-    });
+  // Public: Key set for verifying badge credentials offline
+  app.get("/v1/badges/credentials/jwks", {
+    preHandler: publicRateLimit,
+    schema: {
+      tags: ["badges"],
+      response: { 200: z.any() },
+    },
+  }, async (req, reply) => {
+    return reply.send(await getCredentialJwks());
+  });
 
-    // Check if student already has this badge
-    const existingBadge = await prisma.studentBadge.findUnique({
-      where: {
-        badgeId_studentId: {
-          badgeId: data.badgeDefinitionId,
-          studentId: data.userId
-        }
-      }
-    });
+  // Protected: Nominate a student for a badge (Faculty/Student)
+  app.post("/v1/badges/nominations", {
+    preHandler: [requireAuth, requireRole(["FACULTY", "STUDENT"])],
+    schema: {
+      tags: ["badges"],
+      body: nominateBadgeSchema,
+      response: { 201: z.any(), 403: errorResponseSchema, 404: errorResponseSchema, 409: errorResponseSchema, 422: errorResponseSchema, 500: errorResponseSchema },
+    },
+  }, async (req, reply) => {
+    const data = req.body as z.infer<typeof nominateBadgeSchema>;
+    const user = req.user!;
 
-    if (existingBadge) {
-      return reply.code(400).send({
-        error: "Badge already awarded",
-        message: `Student already has this badge (awarded on ${existingBadge.awardedAt})`,
-      });
+    if (!user.collegeId) {
+      return reply.code(403).send({ message: "College information is required to nominate students" });
     }
 
-    const badge = await prisma.studentBadge.create({
-      data: {
-        studentId: data.userId,
-        badgeId: data.badgeDefinitionId,
-        awardedBy: req.user!.sub,
-        reason: data.reason,
-        projectId: data.projectId,
-        eventId: data.eventId,
-        awardedByName: data.awardedByName,
-      },
-      include: {
-        badge: true,
-      },
-    });
-
-    // Auto-create badge award post (if enabled)
     try {
-      await BadgePostService.createBadgeAwardPost(badge, req.user!, studentInfo);
+      const nomination = await BadgeNominationService.nominate(data, {
+        id: user.sub,
+        displayName: user.displayName,
+        roles: user.roles,
+        collegeId: user.collegeId,
+      }, req.headers.authorization || '');
+
+      return reply.code(201).send({ success: true, nomination });
     } catch (error) {
-      console.error('Failed to create badge award post:', error);
-      // Don't fail the badge creation if post creation fails
+      if (error instanceof BadgeServiceError) {
+        return reply.code(error.statusCode).send({ message: error.message });
+      }
+
+      req.log.error({
+        error: error instanceof Error ? error.message : 'Unknown error',
+        badgeId: data.badgeDefinitionId
+      }, 'Failed to create badge nomination');
+      return reply.code(500).send({ message: "Failed to create nomination" });
+    }
+  });
+
+  // Protected: Nominations I have submitted, with their review status
+  app.get("/v1/badges/nominations/mine", {
+    preHandler: requireAuth,
+    schema: {
+      tags: ["badges"],
+      response: { 200: z.any() },
+    },
+  }, async (req, reply) => {
+    const nominations = await BadgeNominationService.getNominationsBy(req.user!.sub);
+    return reply.send({ nominations });
+  });
+
+  // Protected: Revoked badge history (owner or Faculty/Admin)
+  app.get("/v1/badges/user/:userId/revocations", {
+    preHandler: requireAuth,
+    schema: {
+      tags: ["badges"],
+      params: z.object({ userId: z.string().cuid() }),
+      response: { 200: z.any(), 403: errorResponseSchema },
+    },
+  }, async (req, reply) => {
+    const { userId } = req.params as { userId: string };
+    const user = req.user!;
+    const isStaff = ["FACULTY", "DEPT_ADMIN", "HEAD_ADMIN"].some(role => user.roles.includes(role));
+
+    if (user.sub !== userId && (!isStaff || !user.collegeId)) {
+      return reply.code(403).send({ message: "Access denied" });
     }
 
-    return reply.code(201).send({ badge });
+    // Staff only see revocations made within their own college
+    const revocations = await AdminBadgeService.getRevocationHistory(
+      userId,
+      user.sub === userId ? undefined : user.collegeId
+    );
+
+    return reply.send({ revocations });
   });
 
   // Protected: Export badge awards data (Faculty/Admin only)
@@ -2266,6 +3904,13 @@ export default async function profileRoutes(app: FastifyInstance) {
         }
       }
 
+      // Repeatable badges appear once per award; include how many times each student holds the badge
+      const awardCounts = new Map<string, number>();
+      for (const award of awards) {
+        const key = `${award.studentId}:${award.badgeId}`;
+        awardCounts.set(key, (awardCounts.get(key) || 0) + 1);
+      }
+
       // Format export data
       const exportData = awards.map(award => {
         const studentInfo = studentDetails.get(award.studentId);
@@ -2280,6 +3925,9 @@ export default async function profileRoutes(app: FastifyInstance) {
           reason: award.reason,
           badgeCategory: award.badge.category || 'N/A',
           badgeRarity: award.badge.rarity,
+          level: award.level,
+          levelName: BadgeTierService.levelName(award.badge, award.level) || 'N/A',
+          awardCount: awardCounts.get(`${award.studentId}:${award.badgeId}`) || 1,
           projectName: award.projectId ? `Project-${award.projectId}` : 'N/A', // TODO: Fetch actual project name
           eventName: award.eventId ? `Event-${award.eventId}` : 'N/A', // TODO: Fetch actual event name
         };
@@ -2316,7 +3964,7 @@ export default async function profileRoutes(app: FastifyInstance) {
       orderBy: { awardedAt: "desc" },
     });
 
-    reply.code(200).send({ badges });
+    reply.code(200).send({ badges, summary: BadgeTierService.summarize(badges) });
   });
 
   // Protected: Get recent badge awards (Faculty/Admin only)
@@ -2398,10 +4046,11 @@ export default async function profileRoutes(app: FastifyInstance) {
     });
 
     const counts: Record<string, number> = {};
+    const activeAwardWhere = BadgeExpiryService.activeAwardWhere();
     
     for (const badge of badgeDefinitions) {
       const count = await prisma.studentBadge.count({
-        where: { badgeId: badge.id },
+        where: { badgeId: badge.id, ...activeAwardWhere },
       });
       counts[badge.id] = count;
     }
@@ -2441,11 +4090,9 @@ export default async function profileRoutes(app: FastifyInstance) {
       }
 
       // Check cache first
-      const cached = await prisma.badgeEligibilityCache.findUnique({
-        where: { userId },
-      });
+      const cached = await BadgeEligibilityService.getCached(userId);
 
-      if (cached && cached.expiresAt > new Date()) {
+      if (cached) {
         return reply.send({
           canCreate: cached.canCreate,
           badgeCount: cached.badgeCount,
@@ -2454,57 +4101,9 @@ export default async function profileRoutes(app: FastifyInstance) {
         });
       }
 
-      // Get badge policy for user's college
-      const policy = await prisma.badgePolicy.findUnique({
-        where: { collegeId: user.collegeId },
-      });
-
-      const requiredBadges = policy?.eventCreationRequired || 8;
-      const requiredCategories = policy?.categoryDiversityMin || 4;
-
-      // Get user's badges with categories
-      const userBadges = await prisma.studentBadge.findMany({
-        where: { studentId: userId },
-        include: {
-          badge: {
-            select: { category: true, isActive: true },
-          },
-        },
-      });
-
-      const activeBadges = userBadges.filter(award => award.badge.isActive);
-      const categories = [...new Set(activeBadges.map(award => award.badge.category).filter((cat): cat is string => Boolean(cat)))];
-      
-      const canCreate = activeBadges.length >= requiredBadges && categories.length >= requiredCategories;
-
-      // Update cache
-      const expiresAt = new Date(Date.now() + 30 * 60 * 1000); // 30 minutes
-      await prisma.badgeEligibilityCache.upsert({
-        where: { userId },
-        update: {
-          canCreate,
-          badgeCount: activeBadges.length,
-          categories,
-          lastChecked: new Date(),
-          expiresAt,
-        },
-        create: {
-          userId,
-          canCreate,
-          badgeCount: activeBadges.length,
-          categories,
-          expiresAt,
-        },
-      });
+      const eligibility = await BadgeEligibilityService.recompute(userId, user.collegeId);
 
-      return reply.send({
-        canCreate,
-        badgeCount: activeBadges.length,
-        requiredBadges,
-        categories,
-        requiredCategories,
-        lastChecked: new Date(),
-      });
+      return reply.send(eligibility);
 
     } catch (error) {
       console.error('Badge eligibility check failed:', error);
@@ -2525,6 +4124,7 @@ export default async function profileRoutes(app: FastifyInstance) {
         departmentId: z.string().optional(),
         eventCreationRequired: z.number().int().min(1).default(8),
         categoryDiversityMin: z.number().int().min(1).default(4),
+        approvalRarities: z.array(z.enum(["COMMON", "UNCOMMON", "RARE", "EPIC", "LEGENDARY"])).optional(),
       }),
       response: { 201: z.any() },
     },
@@ -2562,6 +4162,7 @@ export default async function profileRoutes(app: FastifyInstance) {
           collegeId,
           eventCreationRequired: 8,
           categoryDiversityMin: 4,
+          approvalRarities: BadgeNominationService.DEFAULT_APPROVAL_RARITIES,
           isActive: true,
         }
       });
@@ -2661,6 +4262,8 @@ export default async function profileRoutes(app: FastifyInstance) {
         return newProfile;
       });
 
+      await onProfileChanged(req, userId);
+
       return reply.code(201).send({ 
         success: true,
         profile: {
@@ -2697,6 +4300,104 @@ export default async function profileRoutes(app: FastifyInstance) {
     }
   });
 
+  // System: Check whether a user's profile meets their college's requirements for a feature
+  app.get("/v1/system/eligibility/:userId", {
+    preHandler: [requireSystemAuth, requireSystemPermission('canAccessUserData')],
+    schema: {
+      tags: ["profiles"],
+      summary: "Check profile requirement eligibility",
+      description: "Used by network, event and project services before letting a user post, create events or join projects. Results are cached and invalidated on profile changes.",
+      params: z.object({ userId: z.string().min(1) }),
+      querystring: z.object({
+        feature: z.enum(['NETWORK', 'EVENTS', 'PROJECTS']),
+        collegeId: z.string().min(1, 'College ID is required'),
+      }),
+      response: {
+        200: z.object({
+          success: z.boolean(),
+          userId: z.string(),
+          collegeId: z.string(),
+          feature: z.enum(['NETWORK', 'EVENTS', 'PROJECTS']),
+          eligible: z.boolean(),
+          enforced: z.boolean(),
+          missing: z.array(z.string()),
+          checkedAt: z.string(),
+          cached: z.boolean(),
+        }),
+        500: errorResponseSchema,
+      },
+    },
+  }, async (req, reply) => {
+    const { userId } = req.params as { userId: string };
+    const { feature, collegeId } = req.query as { feature: 'NETWORK' | 'EVENTS' | 'PROJECTS'; collegeId: string };
+
+    try {
+      const result = await ProfileEligibilityService.check(userId, collegeId, feature);
+      return reply.send({ success: true, ...result });
+    } catch (error) {
+      req.log.error({
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        feature,
+        serviceId: (req as any).system?.serviceId
+      }, 'Failed to check profile eligibility');
+
+      return reply.code(500).send({ message: "Failed to check profile eligibility" });
+    }
+  });
+
+  // System: Erase everything held about a deleted account and record an erasure receipt
+  app.delete("/v1/system/users/:userId/data", {
+    preHandler: [requireSystemAuth, requireSystemPermission('canDeleteProfiles')],
+    schema: {
+      tags: ["profiles"],
+      summary: "Erase a user's personal data",
+      description: "Called by the auth service when an account is deleted. Deletes the user's records, anonymises references to them elsewhere and returns a hash-chained receipt. Safe to repeat.",
+      params: z.object({ userId: z.string().min(1) }),
+      response: {
+        200: z.object({
+          success: z.boolean(),
+          receipt: z.object({
+            id: z.string(),
+            sequence: z.number(),
+            subjectHash: z.string(),
+            requestedBy: z.string(),
+            summary: z.record(z.number()),
+            erasedAt: z.date(),
+            previousHash: z.string().nullable(),
+            hash: z.string(),
+          }),
+        }),
+      },
+    },
+  }, async (req, reply) => {
+    const { userId } = req.params as { userId: string };
+    const serviceId = (req as SystemRequest).system.serviceId;
+
+    const receipt = await PersonalDataService.erase(userId, serviceId);
+
+    req.log.info({ serviceId, receiptId: receipt.id, sequence: receipt.sequence }, 'User data erased');
+    return reply.send({ success: true, receipt });
+  });
+
+  // System: Check that no erasure receipt has been altered or removed
+  app.get("/v1/system/erasure-receipts/verify", {
+    preHandler: [requireSystemAuth, requireSystemPermission('canDeleteProfiles')],
+    schema: {
+      tags: ["profiles"],
+      response: {
+        200: z.object({
+          valid: z.boolean(),
+          receipts: z.number(),
+          brokenAt: z.number().nullable(),
+        }),
+      },
+    },
+  }, async (req, reply) => {
+    const status = await PersonalDataService.verifyReceipts();
+    return reply.send(status);
+  });
+
   // ============================================================================
   // CRITICAL P0 ENDPOINTS FOR 10M+ USERS
   // ============================================================================
@@ -2710,130 +4411,118 @@ export default async function profileRoutes(app: FastifyInstance) {
         q: z.string().min(1).max(100).optional(), // Search query
         skills: z.string().optional(), // Comma-separated skills
         department: z.string().optional(),
-        year: z.number().int().min(1).max(6).optional(),
+        year: z.string().transform(Number).pipe(z.number().int().min(1).max(6)).optional(),
         college: z.string().optional(),
-        limit: z.number().int().min(1).max(50).default(20),
-        offset: z.number().int().min(0).default(0),
-        sortBy: z.enum(['name', 'createdAt', 'badges', 'projects']).default('name'),
-        sortOrder: z.enum(['asc', 'desc']).default('asc')
+        limit: z.string().transform(Number).pipe(z.number().int().min(1).max(50)).optional().default("20"),
+        offset: z.string().transform(Number).pipe(z.number().int().min(0)).optional().default("0"),
+        sortBy: z.enum(['relevance', 'name', 'createdAt', 'badges', 'projects']).optional(), // Defaults to relevance when q is given, otherwise name
+        sortOrder: z.enum(['asc', 'desc']).optional(),
+        facets: z.string().transform(val => val === 'true').optional() // Include filter counts for the whole result set
       }),
       response: { 200: z.any() },
     },
   }, async (req, reply) => {
     const startTime = Date.now();
-    const { q, skills, department, year, college, limit, offset, sortBy, sortOrder } = req.query as any;
-    
-    try {
-      // Build search conditions
-      const whereConditions: any = {};
-      const searchConditions: any[] = [];
-
-      // Text search on name and bio
-      if (q) {
-        searchConditions.push({
-          OR: [
-            { name: { contains: q, mode: 'insensitive' } },
-            { bio: { contains: q, mode: 'insensitive' } }
-          ]
-        });
-      }
-
-      // Skills search (array contains)
-      if (skills) {
-        const skillArray = skills.split(',').map((s: string) => s.trim());
-        searchConditions.push({
-          skills: { hasSome: skillArray }
-        });
-      }
-
-      // Combine all search conditions
-      if (searchConditions.length > 0) {
-        whereConditions.AND = searchConditions;
-      }
+    const { q, skills, department, year, college, limit, offset, facets: includeFacets } = req.query as any;
+    const sortBy: ProfileSearchSort = (req.query as any).sortBy || (q ? 'relevance' : 'name');
+    // Relevance and counts read best highest first; names and dates keep the old ascending default
+    const sortOrder: 'asc' | 'desc' = (req.query as any).sortOrder
+      || (['relevance', 'badges', 'projects'].includes(sortBy) ? 'desc' : 'asc');
 
-      // Get user info to filter by college if needed
-      const userInfo = await AuthServiceClient.getUser(req.user!.sub, req.headers.authorization || '');
-      
-      // Build sorting
-      const orderBy: any = {};
-      if (sortBy === 'name') {
-        orderBy.name = sortOrder;
-      } else if (sortBy === 'createdAt') {
-        orderBy.createdAt = sortOrder;
-      }
+    try {
+      const skillList = skills ? await SkillTaxonomyService.canonicalize(skills.split(',')) : undefined;
+
+      const { hits, total: totalCount } = await ProfileSearchService.search({
+        q,
+        skills: skillList,
+        collegeId: college,
+        department,
+        year,
+        limit,
+        offset,
+        sortBy,
+        sortOrder
+      });
 
-      // Execute search with pagination
-      const [profiles, totalCount] = await Promise.all([
-        prisma.profile.findMany({
-          where: whereConditions,
-          select: {
-            id: true,
-            userId: true,
-            name: true,
-            bio: true,
-            skills: true,
-            expertise: true,
-            avatar: true,
-            createdAt: true,
-            _count: {
-              select: {
-                studentBadges: true,
-                personalProjects: true,
-                experiences: true
-              }
+      // Facets only ever count profiles in the requester's own college
+      const facetCollegeId = req.user!.collegeId;
+      const facets = includeFacets && facetCollegeId && (!college || college === facetCollegeId)
+        ? await ProfileSearchService.facets({ q, skills: skillList, department, year }, facetCollegeId)
+        : undefined;
+
+      const profileRows = await prisma.profile.findMany({
+        where: { userId: { in: hits.map(hit => hit.userId) } },
+        select: {
+          id: true,
+          userId: true,
+          name: true,
+          bio: true,
+          skills: true,
+          expertise: true,
+          avatar: true,
+          visibility: true,
+          createdAt: true,
+          _count: {
+            select: {
+              experiences: { where: { deletedAt: null } }
             }
-          },
-          orderBy,
-          take: limit,
-          skip: offset
-        }),
-        prisma.profile.count({ where: whereConditions })
-      ]);
+          }
+        }
+      });
+      const profilesByUserId = new Map(profileRows.map(profile => [profile.userId, profile]));
+
+      // Keep the ranked order from the search index
+      const profiles = hits
+        .map(hit => {
+          const profile = profilesByUserId.get(hit.userId);
+          return profile ? { profile, hit } : null;
+        })
+        .filter((entry): entry is NonNullable<typeof entry> => entry !== null);
 
       // PHASE 2 FIX: Use batch API instead of individual calls
       // Before: 50 profiles = 50 HTTP calls (2-3 seconds)
       // After: 50 profiles = 1 HTTP call (200-300ms)
-      const userIds = profiles.map(p => p.userId);
+      const userIds = profiles.map(({ profile }) => profile.userId);
       const userDataMap = await AuthServiceClient.getUsersBatch(userIds, req.headers.authorization || '');
 
-      const enhancedProfiles = profiles.map(profile => {
-        try {
-          const userData = userDataMap.get(profile.userId);
-          return {
-            ...profile,
-            displayName: userData?.displayName || profile.name,
-            avatar: profile.avatar || '',
-            department: userData?.department,
-            year: userData?.year,
-            collegeId: userData?.collegeId,
-            badgeCount: profile._count.studentBadges,
-            projectCount: profile._count.personalProjects,
-            experienceCount: profile._count.experiences
-          };
-        } catch (error) {
-          // If processing fails, return profile data only
-          req.log.error({ error, profileId: profile.id }, 'Error processing search result');
-          return {
-            ...profile,
-            displayName: profile.name,
-            avatar: profile.avatar,
-            badgeCount: profile._count.studentBadges,
-            projectCount: profile._count.personalProjects,
-            experienceCount: profile._count.experiences
-          };
+      // Documents indexed before college membership was known pick it up from the auth service
+      for (const { hit } of profiles) {
+        const userData = userDataMap.get(hit.userId);
+        if (!hit.indexedCollegeId && userData?.collegeId) {
+          ProfileSearchService.updateMembership(hit.userId, {
+            collegeId: userData.collegeId,
+            department: userData.department ?? null,
+            year: userData.year ?? null
+          }).catch(error => {
+            req.log.warn({ error: error instanceof Error ? error.message : 'Unknown error', userId: hit.userId }, 'Failed to update search membership');
+          });
         }
+      }
+
+      ProfileInsightsService.recordSearchAppearances(userIds, req.user!.sub).catch(error => {
+        req.log.warn({ error: error instanceof Error ? error.message : 'Unknown error' }, 'Failed to record search appearances');
       });
 
-      // Filter by department/year/college if specified
-      let filteredProfiles = enhancedProfiles;
-      if (department || year || college) {
-        filteredProfiles = enhancedProfiles.filter(profile => {
-          if (department && 'department' in profile && profile.department !== department) return false;
-          if (year && 'year' in profile && profile.year !== year) return false;
-          if (college && 'collegeId' in profile && profile.collegeId !== college) return false;
-          return true;
-        });
-      }
+      const heldContent = await ProfileModerationService.getHeldContent(userIds);
+
+      const enhancedProfiles = profiles.map(({ profile, hit }) => {
+        const { _count, ...profileData } = profile;
+        const userData = userDataMap.get(profile.userId);
+        const held = profile.userId === req.user!.sub ? undefined : heldContent.get(profile.userId);
+        return {
+          ...ProfileModerationService.withoutHeldContent(profileData, held),
+          displayName: userData?.displayName || profile.name,
+          avatar: profile.avatar || '',
+          department: userData?.department,
+          year: userData?.year,
+          collegeId: userData?.collegeId,
+          badgeCount: hit.badgeCount,
+          projectCount: hit.projectCount,
+          experienceCount: _count.experiences,
+          rank: hit.rank,
+          snippet: hit.snippet
+        };
+      });
 
       // SECURITY FIX: Apply PII protection to search results
       const requestingUserId = req.user!.sub;
@@ -2841,10 +4530,11 @@ export default async function profileRoutes(app: FastifyInstance) {
       const requestingUserDept = (req.user as any)?.department;
       
       const protectedProfiles = protectPIIArray(
-        filteredProfiles,
+        enhancedProfiles,
         requestingUserId,
         requestingUserRoles,
-        requestingUserDept
+        requestingUserDept,
+        { collegeId: req.user!.collegeId }
       );
 
       const responseTime = Date.now() - startTime;
@@ -2866,9 +4556,10 @@ export default async function profileRoutes(app: FastifyInstance) {
           offset,
           hasMore: offset + limit < totalCount
         },
+        ...(includeFacets ? { facets: facets ?? null } : {}),
         meta: {
           responseTime,
-          query: { q, skills, department, year, college }
+          query: { q, skills, department, year, college, sortBy, sortOrder }
         }
       });
 
@@ -2897,18 +4588,19 @@ export default async function profileRoutes(app: FastifyInstance) {
       tags: ["profiles"],
       querystring: z.object({
         department: z.string().optional(),
-        year: z.number().int().min(1).max(6).optional(),
+        year: z.string().transform(Number).pipe(z.number().int().min(1).max(6)).optional(),
         role: z.enum(['STUDENT', 'FACULTY']).optional(),
-        limit: z.number().int().min(1).max(50).default(20),
-        offset: z.number().int().min(0).default(0),
+        limit: z.string().transform(Number).pipe(z.number().int().min(1).max(50)).optional().default("20"),
+        offset: z.string().transform(Number).pipe(z.number().int().min(0)).optional().default("0"),
         sortBy: z.enum(['name', 'createdAt', 'badges']).default('name'),
-        sortOrder: z.enum(['asc', 'desc']).default('asc')
+        sortOrder: z.enum(['asc', 'desc']).default('asc'),
+        facets: z.string().transform(val => val === 'true').optional() // Include filter counts for the college
       }),
       response: { 200: z.any() },
     },
   }, async (req, reply) => {
     const startTime = Date.now();
-    const { department, year, role, limit, offset, sortBy, sortOrder } = req.query as any;
+    const { department, year, role, limit, offset, sortBy, sortOrder, facets: includeFacets } = req.query as any;
     
     try {
       // Get user's college for filtering
@@ -2921,17 +4613,27 @@ export default async function profileRoutes(app: FastifyInstance) {
         });
       }
 
+      // Filter the whole college first so paging, totals and facets all describe the same set
+      const members = (await AuthServiceClient.getCollegeMembers(userInfo.collegeId, req.headers.authorization || ''))
+        .filter(member => !department || member.department === department)
+        .filter(member => !year || member.year === year)
+        .filter(member => !role || member.roles?.includes(role));
+      const membersById = new Map(members.map(member => [member.id, member]));
+      const where = { userId: { in: members.map(member => member.id) } };
+
       // Build sorting
       const orderBy: any = {};
       if (sortBy === 'name') {
         orderBy.name = sortOrder;
       } else if (sortBy === 'createdAt') {
         orderBy.createdAt = sortOrder;
+      } else if (sortBy === 'badges') {
+        orderBy.studentBadges = { _count: sortOrder };
       }
 
-      // Get profiles from same college
       const [profiles, totalCount] = await Promise.all([
         prisma.profile.findMany({
+          where,
           select: {
             id: true,
             userId: true,
@@ -2940,67 +4642,52 @@ export default async function profileRoutes(app: FastifyInstance) {
             skills: true,
             expertise: true,
             avatar: true,
+            visibility: true,
             createdAt: true,
             _count: {
               select: {
                 studentBadges: true,
-                personalProjects: true,
-                experiences: true
+                personalProjects: { where: { deletedAt: null } },
+                experiences: { where: { deletedAt: null } }
               }
             }
           },
-          orderBy,
+          orderBy: [orderBy, { userId: 'asc' }],
           take: limit,
           skip: offset
         }),
-        prisma.profile.count()
+        prisma.profile.count({ where })
       ]);
 
-      // PHASE 2 FIX: Use batch API instead of individual calls
-      // Before: 50 profiles = 50 HTTP calls (2-3 seconds)
-      // After: 50 profiles = 1 HTTP call (200-300ms)
-      const userIds = profiles.map(p => p.userId);
-      const userDataMap = await AuthServiceClient.getUsersBatch(userIds, req.headers.authorization || '');
+      const heldContent = await ProfileModerationService.getHeldContent(profiles.map(profile => profile.userId));
 
-      const enhancedProfiles = profiles
-        .map(profile => {
-          try {
-            const userData = userDataMap.get(profile.userId);
-            if (!userData) return null;
-            
-            // Filter by college (same college only)
-            if (userData.collegeId !== userInfo.collegeId) return null;
-            
-            // Apply additional filters
-            if (department && userData.department !== department) return null;
-            if (year && userData.year !== year) return null;
-            if (role && !userData.roles?.includes(role)) return null;
-
-            return {
-              id: profile.id,
-              userId: profile.userId,
-              name: profile.name || userData.displayName || '',
-              displayName: userData.displayName || profile.name || '',
-              bio: profile.bio || '',
-              skills: profile.skills || [],
-              expertise: profile.expertise || [],
-              avatar: profile.avatar || '',
-              department: userData.department || '',
-              year: userData.year,
-              roles: userData.roles || [],
-              badgeCount: profile._count.studentBadges,
-              projectCount: profile._count.personalProjects,
-              experienceCount: profile._count.experiences,
-              joinedAt: userData.createdAt || profile.createdAt
-            };
-          } catch (error) {
-            req.log.error({ error, profileId: profile.id }, 'Error processing profile');
-            return null; // Skip profiles where processing fails
-          }
-        });
+      const validProfiles = profiles.map(profile => {
+        const userData = membersById.get(profile.userId)!;
+        const held = profile.userId === req.user!.sub ? undefined : heldContent.get(profile.userId);
+        return ProfileModerationService.withoutHeldContent({
+          id: profile.id,
+          userId: profile.userId,
+          name: profile.name || userData.displayName || '',
+          displayName: userData.displayName || profile.name || '',
+          bio: profile.bio || '',
+          skills: profile.skills || [],
+          expertise: profile.expertise || [],
+          avatar: profile.avatar || '',
+          department: userData.department || '',
+          year: userData.year,
+          collegeId: userInfo.collegeId,
+          roles: userData.roles || [],
+          badgeCount: profile._count.studentBadges,
+          projectCount: profile._count.personalProjects,
+          experienceCount: profile._count.experiences,
+          joinedAt: userData.createdAt || profile.createdAt,
+          visibility: profile.visibility
+        }, held);
+      });
 
-      // Filter out null results
-      const validProfiles = enhancedProfiles.filter(p => p !== null);
+      const facets = includeFacets
+        ? await ProfileSearchService.facets({}, userInfo.collegeId, members.map(member => member.id))
+        : undefined;
       
       // SECURITY FIX: Apply PII protection to directory results
       const requestingUserId = req.user!.sub;
@@ -3011,7 +4698,8 @@ export default async function profileRoutes(app: FastifyInstance) {
         validProfiles,
         requestingUserId,
         requestingUserRoles,
-        requestingUserDept
+        requestingUserDept,
+        { collegeId: userInfo.collegeId }
       );
       
       const responseTime = Date.now() - startTime;
@@ -3029,11 +4717,12 @@ export default async function profileRoutes(app: FastifyInstance) {
         success: true,
         profiles: protectedProfiles,
         pagination: {
-          total: protectedProfiles.length,
+          total: totalCount,
           limit,
           offset,
-          hasMore: offset + limit < protectedProfiles.length
+          hasMore: offset + protectedProfiles.length < totalCount
         },
+        ...(facets ? { facets } : {}),
         meta: {
           responseTime,
           collegeId: userInfo.collegeId,
@@ -3128,6 +4817,7 @@ export default async function profileRoutes(app: FastifyInstance) {
         }),
         prisma.personalProject.groupBy({
           by: ['userId'],
+          where: { deletedAt: null },
           _count: { userId: true }
         })
       ]);
@@ -0,0 +1,233 @@
+/**
+ * Badge Credential Service
+ * Exports badge awards as Open Badges 3.0 credentials (W3C Verifiable Credentials secured as VC-JWT)
+ * and checks awards and presented credentials for authenticity, expiry and revocation
+ */
+
+import { prisma } from '../db.js';
+import { env } from '../config/env.js';
+import { signCredential, verifyCredential } from '../utils/jwt.js';
+import { BadgeAwardNotFoundError } from '../admin/errors/BadgeServiceErrors.js';
+import { BadgeTierService, TierBadge } from './BadgeTierService.js';
+import { BadgeRuleService } from './BadgeRuleService.js';
+
+export type CredentialStatus = 'VALID' | 'EXPIRED' | 'REVOKED';
+
+export interface CredentialBadge extends TierBadge {
+  description: string;
+  icon: string | null;
+  category: string | null;
+  rarity: string;
+  criteria: string | null;
+}
+
+export interface CredentialAward {
+  id: string;
+  studentId: string;
+  reason: string;
+  awardedAt: Date;
+  expiresAt: Date | null;
+  level: number | null;
+  badge: CredentialBadge;
+}
+
+export interface IssuedCredential {
+  credential: Record<string, unknown>;
+  jwt: string;
+  verifyUrl: string;
+}
+
+export interface CredentialVerification {
+  awardId: string;
+  status: CredentialStatus;
+  valid: boolean;
+  badge: {
+    id: string;
+    name: string;
+    description: string;
+    icon: string | null;
+    category: string | null;
+    rarity: string;
+    level: number | null;
+    levelName: string | null;
+  };
+  recipient: { id: string; name: string | null };
+  issuer: { id: string; name: string };
+  awardedAt: Date;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+  signature?: { verified: boolean; error?: string };
+}
+
+const OPEN_BADGES_CONTEXT = [
+  'https://www.w3.org/ns/credentials/v2',
+  'https://purl.imsglobal.org/spec/ob/v3p0/context-3.0.3.json'
+];
+
+export class BadgeCredentialService {
+  /**
+   * Issue a signed credential for one of the student's own awards
+   */
+  static async issue(awardId: string, studentId: string): Promise<IssuedCredential> {
+    const award = await prisma.studentBadge.findUnique({
+      where: { id: awardId },
+      include: { badge: true }
+    });
+
+    if (!award || award.studentId !== studentId) {
+      throw new BadgeAwardNotFoundError(awardId);
+    }
+
+    const credential = this.buildCredential(award);
+    const jwt = await signCredential(credential, {
+      jti: credential.id as string,
+      sub: this.subjectId(award.studentId),
+      expiresAt: award.expiresAt
+    });
+
+    return { credential, jwt, verifyUrl: this.verifyUrl(award.id) };
+  }
+
+  /**
+   * Check an award's current status, and optionally a presented credential JWT for it
+   * Revoked awards are looked up in the revocation history since the award row is deleted
+   */
+  static async verify(awardId: string, token?: string): Promise<CredentialVerification> {
+    const [award, revocation] = await Promise.all([
+      prisma.studentBadge.findUnique({
+        where: { id: awardId },
+        include: { badge: true, student: { select: { name: true } } }
+      }),
+      prisma.badgeRevocation.findUnique({
+        where: { awardId },
+        include: { badge: true }
+      })
+    ]);
+
+    const record = award
+      ? { studentId: award.studentId, awardedAt: award.awardedAt, expiresAt: award.expiresAt, level: award.level, badge: award.badge }
+      : revocation
+        ? { studentId: revocation.studentId, awardedAt: revocation.awardedAt, expiresAt: null, level: null, badge: revocation.badge }
+        : null;
+
+    if (!record) {
+      throw new BadgeAwardNotFoundError(awardId);
+    }
+
+    const status: CredentialStatus = revocation
+      ? 'REVOKED'
+      : record.expiresAt && record.expiresAt <= new Date()
+        ? 'EXPIRED'
+        : 'VALID';
+
+    const signature = token !== undefined
+      ? await this.checkSignature(token, awardId, record.studentId)
+      : undefined;
+
+    return {
+      awardId,
+      status,
+      valid: status === 'VALID' && signature?.verified !== false,
+      badge: {
+        id: record.badge.id,
+        name: record.badge.name,
+        description: record.badge.description,
+        icon: record.badge.icon,
+        category: record.badge.category,
+        rarity: record.badge.rarity,
+        level: record.level,
+        levelName: BadgeTierService.levelName(record.badge, record.level)
+      },
+      recipient: { id: record.studentId, name: award?.student.name ?? null },
+      issuer: this.issuer(),
+      awardedAt: record.awardedAt,
+      expiresAt: record.expiresAt,
+      revokedAt: revocation?.revokedAt ?? null,
+      signature
+    };
+  }
+
+  /**
+   * Build the unsigned OpenBadgeCredential for an award
+   */
+  static buildCredential(award: CredentialAward): Record<string, unknown> {
+    const badge = award.badge;
+    const levelName = BadgeTierService.levelName(badge, award.level);
+
+    // Rule-based criteria are JSON for the award engine, so fall back to the description
+    const narrative = badge.criteria && !BadgeRuleService.parseRule(badge.criteria)
+      ? badge.criteria
+      : badge.description;
+
+    const achievement: Record<string, unknown> = {
+      id: `${env.BADGE_CREDENTIAL_ISSUER_URL}/v1/badge-definitions/${badge.id}`,
+      type: ['Achievement'],
+      achievementType: 'Badge',
+      name: badge.name,
+      description: badge.description,
+      criteria: { narrative },
+      tag: [badge.category, badge.rarity].filter((tag): tag is string => Boolean(tag))
+    };
+
+    if (badge.icon && /^https?:\/\//.test(badge.icon)) {
+      achievement.image = { id: badge.icon, type: 'Image' };
+    }
+
+    const credential: Record<string, unknown> = {
+      '@context': OPEN_BADGES_CONTEXT,
+      id: this.verifyUrl(award.id),
+      type: ['VerifiableCredential', 'OpenBadgeCredential'],
+      name: levelName ? `${badge.name} (${levelName})` : badge.name,
+      issuer: { ...this.issuer(), type: ['Profile'], url: env.BADGE_CREDENTIAL_ISSUER_URL },
+      validFrom: award.awardedAt.toISOString(),
+      credentialSubject: {
+        id: this.subjectId(award.studentId),
+        type: ['AchievementSubject'],
+        achievement
+      },
+      evidence: [{ type: ['Evidence'], narrative: award.reason }],
+      credentialStatus: {
+        id: `${this.verifyUrl(award.id)}#status`,
+        type: '1EdTechRevocationList'
+      }
+    };
+
+    if (award.expiresAt) {
+      credential.validUntil = award.expiresAt.toISOString();
+    }
+
+    return credential;
+  }
+
+  static verifyUrl(awardId: string): string {
+    return `${env.BADGE_CREDENTIAL_ISSUER_URL}/v1/badges/verify/${awardId}`;
+  }
+
+  // Private helper methods
+
+  private static issuer() {
+    return { id: env.BADGE_CREDENTIAL_ISSUER_URL, name: env.BADGE_CREDENTIAL_ISSUER_NAME };
+  }
+
+  private static subjectId(studentId: string): string {
+    return `${env.BADGE_CREDENTIAL_ISSUER_URL}/v1/profile/${studentId}`;
+  }
+
+  private static async checkSignature(
+    token: string,
+    awardId: string,
+    studentId: string
+  ): Promise<{ verified: boolean; error?: string }> {
+    try {
+      const payload = await verifyCredential(token);
+
+      if (payload.jti !== this.verifyUrl(awardId) || payload.sub !== this.subjectId(studentId)) {
+        return { verified: false, error: 'Credential was not issued for this award' };
+      }
+
+      return { verified: true };
+    } catch (error) {
+      return { verified: false, error: error instanceof Error ? error.message : 'Invalid credential' };
+    }
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Badge Eligibility Service
+ * Event creation eligibility derived from a student's badges and the college BadgePolicy
+ * Results are stored in BadgeEligibilityCache
+ */
+
+import { prisma } from '../db.js';
+import { BadgeExpiryService } from './BadgeExpiryService.js';
+
+export interface BadgeEligibility {
+  canCreate: boolean;
+  badgeCount: number;
+  requiredBadges: number;
+  categories: string[];
+  requiredCategories: number;
+  lastChecked: Date;
+}
+
+export class BadgeEligibilityService {
+  private static readonly CACHE_TTL_MS = 30 * 60 * 1000; // 30 minutes
+  private static readonly DEFAULT_REQUIRED_BADGES = 8;
+  private static readonly DEFAULT_REQUIRED_CATEGORIES = 4;
+
+  /**
+   * Get a user's cached eligibility, or null when missing or expired
+   */
+  static async getCached(userId: string) {
+    const cached = await prisma.badgeEligibilityCache.findUnique({
+      where: { userId }
+    });
+
+    return cached && cached.expiresAt > new Date() ? cached : null;
+  }
+
+  /**
+   * Recompute eligibility from the user's current badges and refresh the cache
+   */
+  static async recompute(userId: string, collegeId: string): Promise<BadgeEligibility> {
+    const policy = await prisma.badgePolicy.findUnique({
+      where: { collegeId }
+    });
+
+    const requiredBadges = policy?.eventCreationRequired || this.DEFAULT_REQUIRED_BADGES;
+    const requiredCategories = policy?.categoryDiversityMin || this.DEFAULT_REQUIRED_CATEGORIES;
+
+    const now = new Date();
+
+    // Expired awards no longer count towards eligibility
+    const userBadges = await prisma.studentBadge.findMany({
+      where: {
+        studentId: userId,
+        ...BadgeExpiryService.activeAwardWhere(now)
+      },
+      include: {
+        badge: {
+          select: { category: true, isActive: true }
+        }
+      }
+    });
+
+    const activeBadges = userBadges.filter(award => award.badge.isActive);
+    const categories = [...new Set(activeBadges.map(award => award.badge.category).filter((cat): cat is string => Boolean(cat)))];
+
+    const canCreate = activeBadges.length >= requiredBadges && categories.length >= requiredCategories;
+    const lastChecked = now;
+
+    // Never cache past the moment the next award expires
+    const nextAwardExpiry = activeBadges
+      .map(award => award.expiresAt?.getTime())
+      .filter((time): time is number => time !== undefined)
+      .reduce((earliest, time) => Math.min(earliest, time), Infinity);
+    const expiresAt = new Date(Math.min(lastChecked.getTime() + this.CACHE_TTL_MS, nextAwardExpiry));
+
+    await prisma.badgeEligibilityCache.upsert({
+      where: { userId },
+      update: {
+        canCreate,
+        badgeCount: activeBadges.length,
+        categories,
+        lastChecked,
+        expiresAt
+      },
+      create: {
+        userId,
+        canCreate,
+        badgeCount: activeBadges.length,
+        categories,
+        expiresAt
+      }
+    });
+
+    return {
+      canCreate,
+      badgeCount: activeBadges.length,
+      requiredBadges,
+      categories,
+      requiredCategories,
+      lastChecked
+    };
+  }
+}
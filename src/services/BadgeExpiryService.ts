@@ -0,0 +1,119 @@
+/**
+ * Badge Expiry Service
+ * Term-limited badges (certifications, club leadership) expire validityDays after award or renewal
+ * Reads filter on expiresAt directly; the periodic sweep marks expired awards and refreshes derived caches
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db.js';
+import { env } from '../config/env.js';
+import { RedisCache } from '../utils/redisClient.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class BadgeExpiryService {
+  private static sweepInterval?: NodeJS.Timeout;
+  private static readonly SWEEP_BATCH_SIZE = 500;
+
+  /**
+   * Where clause matching awards that have not expired
+   */
+  static activeAwardWhere(now: Date = new Date()): Prisma.StudentBadgeWhereInput {
+    return {
+      OR: [
+        { expiresAt: null },
+        { expiresAt: { gt: now } }
+      ]
+    };
+  }
+
+  /**
+   * Compute an award's expiry from the badge validity period
+   */
+  static calculateExpiry(validityDays: number | null | undefined, from: Date = new Date()): Date | null {
+    if (!validityDays) return null;
+    return new Date(from.getTime() + validityDays * DAY_MS);
+  }
+
+  /**
+   * Mark awards whose expiresAt has passed and drop caches derived from them
+   * Returns the number of awards marked
+   */
+  static async sweepExpired(now: Date = new Date()): Promise<number> {
+    let marked = 0;
+
+    // Work in batches so a large backlog never loads every award at once
+    while (true) {
+      const batch = await prisma.studentBadge.findMany({
+        where: {
+          expiredAt: null,
+          expiresAt: { lte: now }
+        },
+        select: { id: true, studentId: true },
+        take: this.SWEEP_BATCH_SIZE
+      });
+
+      if (batch.length === 0) break;
+
+      await prisma.studentBadge.updateMany({
+        where: { id: { in: batch.map(award => award.id) } },
+        data: { expiredAt: now }
+      });
+
+      const studentIds = [...new Set(batch.map(award => award.studentId))];
+      await this.invalidateStudents(studentIds);
+
+      marked += batch.length;
+      if (batch.length < this.SWEEP_BATCH_SIZE) break;
+    }
+
+    if (marked > 0) {
+      console.log(`[BadgeExpiry] Marked ${marked} badge awards as expired`);
+    }
+
+    return marked;
+  }
+
+  /**
+   * Start the periodic expiry sweep
+   */
+  static startSweep(intervalMs: number = env.BADGE_EXPIRY_SWEEP_INTERVAL_MS): void {
+    if (this.sweepInterval) {
+      return; // Already running
+    }
+
+    console.log('[BadgeExpiry] Starting badge expiry sweep...');
+
+    const runSweep = () => {
+      this.sweepExpired().catch(error => {
+        console.error('[BadgeExpiry] Expiry sweep failed:', error);
+      });
+    };
+
+    runSweep();
+    this.sweepInterval = setInterval(runSweep, intervalMs);
+  }
+
+  static stopSweep(): void {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = undefined;
+      console.log('[BadgeExpiry] Badge expiry sweep stopped');
+    }
+  }
+
+  // Private helper methods
+
+  private static async invalidateStudents(studentIds: string[]): Promise<void> {
+    // Eligibility is recomputed from active awards on the next check
+    await prisma.badgeEligibilityCache.deleteMany({
+      where: { userId: { in: studentIds } }
+    });
+
+    try {
+      await Promise.all(studentIds.map(studentId => RedisCache.del(`profile:${studentId}`)));
+    } catch (error) {
+      console.warn('[BadgeExpiry] Failed to invalidate profile caches:', error);
+    }
+  }
+}
@@ -0,0 +1,415 @@
+/**
+ * Badge Nomination Service
+ * Faculty and students nominate a student for a badge with evidence; DEPT_ADMIN or HEAD_ADMIN
+ * approve or reject. Badges of the college's approval rarities (EPIC and LEGENDARY by default)
+ * can only be awarded by those admins, so nominations are the route for everyone else
+ */
+
+import { prisma } from '../db.js';
+import { AuthServiceClient } from '../utils/AuthServiceClient.js';
+import { AdminAuditService } from '../admin/services/AdminAuditService.js';
+import { AdminBadgeService } from '../admin/services/AdminBadgeService.js';
+import {
+  BadgeNotFoundError,
+  BadgeInactiveError,
+  BadgeAwardValidationError,
+  BadgeInsufficientPermissionsError,
+  BadgeNominationNotFoundError,
+  CrossCollegeAccessDeniedError,
+  DuplicateBadgeNominationError,
+  NominationAlreadyReviewedError,
+  StudentNotFoundError
+} from '../admin/errors/BadgeServiceErrors.js';
+import { BadgeTierService } from './BadgeTierService.js';
+
+export type NominationStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+// A type alias rather than an interface so evidence can be stored as Prisma JSON
+export type NominationEvidence = {
+  title: string;
+  url?: string;
+  description?: string;
+};
+
+export interface NominationRequest {
+  badgeDefinitionId: string;
+  nomineeId: string;
+  reason: string;
+  evidence: NominationEvidence[];
+  projectId?: string;
+  eventId?: string;
+  level?: number;
+}
+
+export interface Nominator {
+  id: string;
+  displayName?: string;
+  roles: string[];
+  collegeId: string;
+}
+
+export interface NominationReviewScope {
+  reviewerId: string;
+  reviewerName?: string;
+  collegeId: string;
+  department?: string; // Set for DEPT_ADMIN, restricts review to one department
+}
+
+export interface NominationQueueFilters {
+  status?: NominationStatus;
+  badgeId?: string;
+}
+
+const badgeSummarySelect = {
+  id: true,
+  name: true,
+  icon: true,
+  color: true,
+  category: true,
+  rarity: true
+} as const;
+
+export class BadgeNominationService {
+  static readonly DEFAULT_APPROVAL_RARITIES = ['EPIC', 'LEGENDARY'];
+
+  /**
+   * Whether a badge needs a nomination and admin approval in a college
+   */
+  static async requiresApproval(badge: { rarity: string }, collegeId?: string | null): Promise<boolean> {
+    return (await this.approvalRarities(collegeId)).includes(badge.rarity);
+  }
+
+  /**
+   * Rarities that need a nomination and admin approval in a college
+   */
+  static async approvalRarities(collegeId?: string | null): Promise<string[]> {
+    const policy = collegeId
+      ? await prisma.badgePolicy.findUnique({
+          where: { collegeId },
+          select: { approvalRarities: true, isActive: true }
+        })
+      : null;
+
+    return policy?.isActive ? policy.approvalRarities : this.DEFAULT_APPROVAL_RARITIES;
+  }
+
+  /**
+   * Nominate a student on behalf of the rule engine for a badge that needs approval
+   * Each student is nominated once per badge: a pending or rejected automatic nomination is not repeated
+   * Returns null when there already is one
+   */
+  static async nominateAutomatically(
+    badge: { id: string; name: string; criteria: string | null },
+    nomineeId: string,
+    collegeId: string,
+    nominatorId: string,
+    department?: string | null
+  ) {
+    const existing = await prisma.badgeNomination.findFirst({
+      where: {
+        badgeId: badge.id,
+        nomineeId,
+        nominatedBy: nominatorId,
+        status: { in: ['PENDING', 'REJECTED'] }
+      },
+      select: { id: true }
+    });
+    if (existing) return null;
+
+    const nomination = await prisma.badgeNomination.create({
+      data: {
+        badgeId: badge.id,
+        nomineeId,
+        nominatedBy: nominatorId,
+        nominatedByName: 'Automatic nomination',
+        nominatorRole: 'SYSTEM',
+        collegeId,
+        department: department ?? null,
+        reason: `Met the criteria for ${badge.name}`,
+        evidence: [{ title: 'Badge rule', description: badge.criteria ?? undefined }]
+      }
+    });
+
+    await AdminAuditService.logAction({
+      adminId: nominatorId,
+      action: 'NOMINATE_BADGE',
+      targetType: 'BADGE_NOMINATION',
+      targetId: nomination.id,
+      collegeId,
+      details: {
+        badgeId: badge.id,
+        badgeName: badge.name,
+        nomineeId,
+        nominatorRole: 'SYSTEM',
+        automatic: true
+      }
+    });
+
+    return nomination;
+  }
+
+  /**
+   * Nominate a student of the nominator's college for a badge
+   */
+  static async nominate(request: NominationRequest, nominator: Nominator, authHeader: string) {
+    if (request.nomineeId === nominator.id) {
+      throw new BadgeAwardValidationError('You cannot nominate yourself', 'nomineeId');
+    }
+
+    const nominee = await AuthServiceClient.getUser(request.nomineeId, authHeader);
+    if (!nominee || nominee.collegeId !== nominator.collegeId || !nominee.roles?.includes('STUDENT')) {
+      throw new StudentNotFoundError(request.nomineeId, { collegeId: nominator.collegeId });
+    }
+
+    const badge = await prisma.badgeDefinition.findUnique({
+      where: { id: request.badgeDefinitionId }
+    });
+
+    if (!badge) {
+      throw new BadgeNotFoundError(request.badgeDefinitionId);
+    }
+
+    if (!badge.isActive) {
+      throw new BadgeInactiveError(badge.id);
+    }
+
+    if (badge.collegeId && badge.collegeId !== nominator.collegeId) {
+      throw new CrossCollegeAccessDeniedError('badge', badge.id, {
+        badgeCollegeId: badge.collegeId,
+        nominatorCollegeId: nominator.collegeId
+      });
+    }
+
+    const pending = await prisma.badgeNomination.findFirst({
+      where: {
+        badgeId: badge.id,
+        nomineeId: request.nomineeId,
+        nominatedBy: nominator.id,
+        status: 'PENDING'
+      },
+      select: { id: true }
+    });
+
+    if (pending) {
+      throw new DuplicateBadgeNominationError(request.nomineeId, badge.id, { nominationId: pending.id });
+    }
+
+    // Fail early when the badge could not be awarded anyway (already held, cap reached, bad level)
+    const existingAwards = await prisma.studentBadge.findMany({
+      where: { badgeId: badge.id, studentId: request.nomineeId },
+      select: { level: true }
+    });
+    BadgeTierService.resolveAward(badge, request.nomineeId, existingAwards, request.level);
+
+    const nomination = await prisma.badgeNomination.create({
+      data: {
+        badgeId: badge.id,
+        nomineeId: request.nomineeId,
+        nominatedBy: nominator.id,
+        nominatedByName: nominator.displayName,
+        nominatorRole: nominator.roles.includes('FACULTY') ? 'FACULTY' : 'STUDENT',
+        collegeId: nominator.collegeId,
+        department: nominee.department,
+        reason: request.reason,
+        evidence: request.evidence,
+        projectId: request.projectId,
+        eventId: request.eventId,
+        level: request.level
+      },
+      include: {
+        badge: { select: badgeSummarySelect }
+      }
+    });
+
+    await AdminAuditService.logAction({
+      adminId: nominator.id,
+      action: 'NOMINATE_BADGE',
+      targetType: 'BADGE_NOMINATION',
+      targetId: nomination.id,
+      collegeId: nominator.collegeId,
+      details: {
+        badgeId: badge.id,
+        badgeName: badge.name,
+        nomineeId: request.nomineeId,
+        nominatorRole: nomination.nominatorRole,
+        evidenceCount: request.evidence.length
+      }
+    });
+
+    return nomination;
+  }
+
+  /**
+   * Nominations submitted by a user, newest first
+   */
+  static async getNominationsBy(nominatorId: string) {
+    return await prisma.badgeNomination.findMany({
+      where: { nominatedBy: nominatorId },
+      include: {
+        badge: { select: badgeSummarySelect }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Get the review queue for a college (department-scoped for DEPT_ADMIN)
+   */
+  static async getQueue(
+    scope: NominationReviewScope,
+    filters: NominationQueueFilters,
+    pagination: { page: number; limit: number }
+  ) {
+    const take = Math.min(pagination.limit, 100);
+    const skip = (pagination.page - 1) * take;
+
+    const where: any = {
+      collegeId: scope.collegeId,
+      status: filters.status || 'PENDING'
+    };
+
+    if (filters.badgeId) where.badgeId = filters.badgeId;
+    if (scope.department) where.department = scope.department;
+
+    const [items, total] = await Promise.all([
+      prisma.badgeNomination.findMany({
+        where,
+        include: {
+          badge: { select: badgeSummarySelect }
+        },
+        orderBy: { createdAt: 'asc' },
+        skip,
+        take
+      }),
+      prisma.badgeNomination.count({ where })
+    ]);
+
+    return {
+      items,
+      pagination: {
+        page: pagination.page,
+        limit: take,
+        total,
+        totalPages: Math.ceil(total / take)
+      }
+    };
+  }
+
+  /**
+   * Approve a pending nomination and award the badge through AdminBadgeService.awardBadge
+   * The nomination returns to PENDING if the award fails
+   */
+  static async approve(
+    nominationId: string,
+    scope: NominationReviewScope,
+    options: { note?: string; level?: number },
+    authHeader: string = ''
+  ) {
+    const nomination = await this.getReviewable(nominationId, scope);
+
+    // Claim the nomination first so two reviewers cannot both award it
+    await this.transition(nomination.id, 'APPROVED', scope, options.note);
+
+    let award;
+    try {
+      award = await AdminBadgeService.awardBadge(
+        {
+          badgeDefinitionId: nomination.badgeId,
+          userId: nomination.nomineeId,
+          reason: nomination.reason,
+          projectId: nomination.projectId ?? undefined,
+          eventId: nomination.eventId ?? undefined,
+          level: options.level ?? nomination.level ?? undefined,
+          awardedByName: scope.reviewerName
+        },
+        scope.reviewerId,
+        scope.collegeId,
+        authHeader,
+        { approved: true }
+      );
+    } catch (error) {
+      await prisma.badgeNomination.update({
+        where: { id: nomination.id },
+        data: {
+          status: 'PENDING',
+          reviewedBy: null,
+          reviewedByName: null,
+          reviewNote: null,
+          reviewedAt: null
+        }
+      });
+      throw error;
+    }
+
+    return await prisma.badgeNomination.update({
+      where: { id: nomination.id },
+      data: { awardId: award.id },
+      include: {
+        badge: { select: badgeSummarySelect }
+      }
+    });
+  }
+
+  /**
+   * Reject a pending nomination with a reason shown to the nominator
+   */
+  static async reject(nominationId: string, scope: NominationReviewScope, reason: string) {
+    const nomination = await this.getReviewable(nominationId, scope);
+
+    await this.transition(nomination.id, 'REJECTED', scope, reason);
+
+    return await prisma.badgeNomination.findUniqueOrThrow({
+      where: { id: nomination.id },
+      include: {
+        badge: { select: badgeSummarySelect }
+      }
+    });
+  }
+
+  // Private helper methods
+
+  private static async getReviewable(nominationId: string, scope: NominationReviewScope) {
+    const nomination = await prisma.badgeNomination.findFirst({
+      where: { id: nominationId, collegeId: scope.collegeId }
+    });
+
+    if (!nomination) {
+      throw new BadgeNominationNotFoundError(nominationId);
+    }
+
+    if (scope.department && nomination.department !== scope.department) {
+      throw new BadgeInsufficientPermissionsError('Nomination belongs to a different department', {
+        nominationId,
+        department: nomination.department
+      });
+    }
+
+    if (nomination.status !== 'PENDING') {
+      throw new NominationAlreadyReviewedError(nominationId, nomination.status);
+    }
+
+    return nomination;
+  }
+
+  private static async transition(
+    nominationId: string,
+    status: Exclude<NominationStatus, 'PENDING'>,
+    scope: NominationReviewScope,
+    note?: string
+  ): Promise<void> {
+    const { count } = await prisma.badgeNomination.updateMany({
+      where: { id: nominationId, status: 'PENDING' },
+      data: {
+        status,
+        reviewedBy: scope.reviewerId,
+        reviewedByName: scope.reviewerName,
+        reviewNote: note,
+        reviewedAt: new Date()
+      }
+    });
+
+    if (count === 0) {
+      throw new NominationAlreadyReviewedError(nominationId, 'REVIEWED');
+    }
+  }
+}
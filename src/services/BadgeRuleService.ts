@@ -0,0 +1,551 @@
+/**
+ * Badge Rule Service
+ * Automatic badge awards driven by machine-readable rules stored in BadgeDefinition.criteria
+ * Rules are evaluated when a student changes their profile and on a schedule; awards use awardedBy = 'system'.
+ * Badges that need approval are never awarded directly; qualifying students are nominated instead
+ */
+
+import { z } from 'zod';
+import { BadgeDefinition } from '@prisma/client';
+import { prisma } from '../db.js';
+import { env } from '../config/env.js';
+import { RedisCache } from '../utils/redisClient.js';
+import { BadgePostService } from '../utils/BadgePostService.js';
+import { AuthServiceClient } from '../utils/AuthServiceClient.js';
+import { AdminAuditService } from '../admin/services/AdminAuditService.js';
+import { BadgeServiceError, BadgeDefinitionValidationError } from '../admin/errors/BadgeServiceErrors.js';
+import { BadgeExpiryService } from './BadgeExpiryService.js';
+import { BadgeEligibilityService } from './BadgeEligibilityService.js';
+import { BadgeTierService } from './BadgeTierService.js';
+import { BadgeNominationService } from './BadgeNominationService.js';
+import { ProfileCompletenessService } from './ProfileCompletenessService.js';
+
+export const SYSTEM_AWARDER = 'system';
+
+export type BadgeRuleMetric = 'projects' | 'publications' | 'experiences' | 'skills' | 'completeness';
+
+/**
+ * A single threshold, e.g. { "metric": "projects", "min": 3 } or
+ * { "metric": "publications", "type": "JOURNAL", "min": 1 }
+ */
+export interface BadgeRuleCondition {
+  metric: BadgeRuleMetric;
+  min: number;
+  type?: string; // publications and experiences only
+}
+
+export type BadgeRule = BadgeRuleCondition | { all: BadgeRule[] } | { any: BadgeRule[] };
+
+export interface BadgeRuleFacts {
+  projects: number; // visible projects only
+  publications: Record<string, number>; // by type, '*' = total
+  experiences: Record<string, number>; // by type, '*' = total
+  skills: number;
+  completeness: number;
+}
+
+export interface BadgeRuleDryRunResult {
+  badgeId: string | null;
+  collegeId: string;
+  rule: BadgeRule;
+  evaluated: number;
+  qualifying: number;
+  wouldAward: number;
+  students: Array<{
+    userId: string;
+    alreadyAwarded: boolean;
+    revoked: boolean; // revoked awards are never re-awarded automatically
+    facts: BadgeRuleFacts;
+  }>;
+}
+
+interface RuleBadge {
+  badge: BadgeDefinition;
+  rule: BadgeRule;
+}
+
+const badgeRuleConditionSchema = z.object({
+  metric: z.enum(['projects', 'publications', 'experiences', 'skills', 'completeness']),
+  min: z.number().int().min(0).max(1000),
+  type: z.string().min(1).max(50).optional()
+}).strict();
+
+const badgeRuleSchema: z.ZodType<BadgeRule> = z.lazy(() => z.union([
+  badgeRuleConditionSchema,
+  z.object({ all: z.array(badgeRuleSchema).min(1).max(20) }).strict(),
+  z.object({ any: z.array(badgeRuleSchema).min(1).max(20) }).strict()
+]));
+
+export class BadgeRuleService {
+  private static scheduleInterval?: NodeJS.Timeout;
+  private static readonly BATCH_SIZE = 200;
+
+  /**
+   * Parse a machine-readable rule out of a criteria string
+   * Returns null for free-text criteria or malformed rules
+   */
+  static parseRule(criteria: string | null | undefined): BadgeRule | null {
+    if (!criteria || !criteria.trim().startsWith('{')) return null;
+
+    try {
+      const parsed = badgeRuleSchema.safeParse(JSON.parse(criteria));
+      return parsed.success ? parsed.data : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Reject criteria that look like a rule but do not parse, so typos never silently disable auto-award
+   */
+  static validateCriteria(criteria: string | null | undefined): void {
+    if (!criteria || !criteria.trim().startsWith('{')) return;
+
+    let json: unknown;
+    try {
+      json = JSON.parse(criteria);
+    } catch {
+      throw new BadgeDefinitionValidationError('Criteria rule is not valid JSON', 'criteria');
+    }
+
+    const parsed = badgeRuleSchema.safeParse(json);
+    if (!parsed.success) {
+      throw new BadgeDefinitionValidationError(
+        `Invalid criteria rule: ${parsed.error.errors[0]?.message || 'unrecognised rule'}`,
+        'criteria',
+        { issues: parsed.error.errors }
+      );
+    }
+  }
+
+  /**
+   * Check a rule against a student's facts
+   */
+  static matches(rule: BadgeRule, facts: BadgeRuleFacts): boolean {
+    if ('all' in rule) return rule.all.every(child => this.matches(child, facts));
+    if ('any' in rule) return rule.any.some(child => this.matches(child, facts));
+    return this.metricValue(rule, facts) >= rule.min;
+  }
+
+  /**
+   * Load the facts rules are evaluated against, for many students in one query
+   */
+  static async loadFacts(userIds: string[], collegeId: string): Promise<Map<string, BadgeRuleFacts>> {
+    const [profiles, config] = await Promise.all([
+      prisma.profile.findMany({
+        where: { userId: { in: userIds } },
+        include: {
+          personalProjects: { where: { deletedAt: null }, select: { id: true, isVisible: true } },
+          publications: { where: { deletedAt: null }, select: { type: true } },
+          experiences: { where: { deletedAt: null }, select: { id: true, type: true } }
+        }
+      }),
+      ProfileCompletenessService.getConfig(collegeId)
+    ]);
+
+    const facts = new Map<string, BadgeRuleFacts>();
+    for (const profile of profiles) {
+      facts.set(profile.userId, {
+        projects: profile.personalProjects.filter(project => project.isVisible).length,
+        publications: this.countByType(profile.publications),
+        experiences: this.countByType(profile.experiences),
+        skills: profile.skills.length,
+        completeness: ProfileCompletenessService.evaluate(profile, config).score
+      });
+    }
+
+    return facts;
+  }
+
+  /**
+   * Evaluate every rule badge for one student after a profile change
+   * Also records the student's college so scheduled runs can evaluate them later
+   * Returns the ids of badges awarded
+   */
+  static async evaluateUser(userId: string, collegeId: string, authHeader: string = ''): Promise<string[]> {
+    await prisma.badgeRuleSubject.upsert({
+      where: { userId },
+      update: { collegeId, lastEvaluatedAt: new Date() },
+      create: { userId, collegeId }
+    });
+
+    const ruleBadges = await this.getRuleBadges(collegeId);
+    if (ruleBadges.length === 0) return [];
+
+    const facts = (await this.loadFacts([userId], collegeId)).get(userId);
+    if (!facts) return [];
+
+    return this.awardQualifying(userId, collegeId, facts, ruleBadges, authHeader);
+  }
+
+  /**
+   * Evaluate every known student against the rule badges of their college
+   * Returns the number of badges awarded
+   */
+  static async runScheduled(): Promise<number> {
+    const ruleBadgesByCollege = new Map<string, RuleBadge[]>();
+    let awarded = 0;
+    let cursor: string | undefined;
+
+    while (true) {
+      const subjects = await prisma.badgeRuleSubject.findMany({
+        orderBy: { userId: 'asc' },
+        take: this.BATCH_SIZE,
+        ...(cursor ? { cursor: { userId: cursor }, skip: 1 } : {})
+      });
+
+      if (subjects.length === 0) break;
+
+      for (const [collegeId, userIds] of this.groupByCollege(subjects)) {
+        if (!ruleBadgesByCollege.has(collegeId)) {
+          ruleBadgesByCollege.set(collegeId, await this.getRuleBadges(collegeId));
+        }
+
+        const ruleBadges = ruleBadgesByCollege.get(collegeId)!;
+        if (ruleBadges.length === 0) continue;
+
+        const facts = await this.loadFacts(userIds, collegeId);
+        for (const userId of userIds) {
+          const userFacts = facts.get(userId);
+          if (!userFacts) continue;
+
+          const badgeIds = await this.awardQualifying(userId, collegeId, userFacts, ruleBadges);
+          awarded += badgeIds.length;
+        }
+      }
+
+      await prisma.badgeRuleSubject.updateMany({
+        where: { userId: { in: subjects.map(subject => subject.userId) } },
+        data: { lastEvaluatedAt: new Date() }
+      });
+
+      cursor = subjects[subjects.length - 1].userId;
+      if (subjects.length < this.BATCH_SIZE) break;
+    }
+
+    if (awarded > 0) {
+      console.log(`[BadgeRules] Automatically awarded ${awarded} badges`);
+    }
+
+    return awarded;
+  }
+
+  /**
+   * Record students listed by the auth service so scheduled runs and dry runs also cover
+   * students who have not changed their profile since rules were introduced
+   * Existing subjects are left alone; user sync keeps their college current
+   * Returns the number of subjects added
+   */
+  static async backfillSubjects(authHeader: string, collegeId?: string): Promise<number> {
+    let added = 0;
+    let offset = 0;
+
+    while (true) {
+      const page = await AuthServiceClient.getUsers({ offset, limit: 100, collegeId }, authHeader);
+      if (!page || page.users.length === 0) break;
+
+      const students = page.users.filter(user => user.collegeId && user.roles?.includes('STUDENT'));
+      if (students.length > 0) {
+        const result = await prisma.badgeRuleSubject.createMany({
+          data: students.map(user => ({ userId: user.id, collegeId: user.collegeId! })),
+          skipDuplicates: true
+        });
+        added += result.count;
+      }
+
+      if (!page.hasMore) break;
+      offset = page.nextOffset ?? offset + page.users.length;
+    }
+
+    return added;
+  }
+
+  /**
+   * Show which students of a college a rule would award, without awarding anything
+   * Pass badgeId to flag students who already hold an active award of that badge
+   */
+  static async dryRun(
+    rule: BadgeRule,
+    collegeId: string,
+    badgeId?: string,
+    limit: number = 100
+  ): Promise<BadgeRuleDryRunResult> {
+    const result: BadgeRuleDryRunResult = {
+      badgeId: badgeId || null,
+      collegeId,
+      rule,
+      evaluated: 0,
+      qualifying: 0,
+      wouldAward: 0,
+      students: []
+    };
+    let cursor: string | undefined;
+
+    while (true) {
+      const subjects = await prisma.badgeRuleSubject.findMany({
+        where: { collegeId },
+        orderBy: { userId: 'asc' },
+        take: this.BATCH_SIZE,
+        ...(cursor ? { cursor: { userId: cursor }, skip: 1 } : {})
+      });
+
+      if (subjects.length === 0) break;
+
+      const userIds = subjects.map(subject => subject.userId);
+      const facts = await this.loadFacts(userIds, collegeId);
+      const held = badgeId ? await this.getHeldBadges(userIds, [badgeId]) : new Set<string>();
+      const revoked = badgeId ? await this.getRevokedBadges(userIds, [badgeId]) : new Set<string>();
+
+      for (const userId of userIds) {
+        const userFacts = facts.get(userId);
+        if (!userFacts) continue;
+
+        result.evaluated++;
+        if (!this.matches(rule, userFacts)) continue;
+
+        const alreadyAwarded = held.has(`${userId}:${badgeId}`);
+        const wasRevoked = revoked.has(`${userId}:${badgeId}`);
+        result.qualifying++;
+        if (!alreadyAwarded && !wasRevoked) result.wouldAward++;
+
+        if (result.students.length < limit) {
+          result.students.push({ userId, alreadyAwarded, revoked: wasRevoked, facts: userFacts });
+        }
+      }
+
+      cursor = subjects[subjects.length - 1].userId;
+      if (subjects.length < this.BATCH_SIZE) break;
+    }
+
+    return result;
+  }
+
+  /**
+   * Start the periodic rule evaluation
+   */
+  static startSchedule(intervalMs: number = env.BADGE_RULE_INTERVAL_MS): void {
+    if (this.scheduleInterval) {
+      return; // Already running
+    }
+
+    console.log('[BadgeRules] Starting scheduled badge rule evaluation...');
+
+    this.scheduleInterval = setInterval(() => {
+      this.runScheduled().catch(error => {
+        console.error('[BadgeRules] Scheduled evaluation failed:', error);
+      });
+    }, intervalMs);
+  }
+
+  static stopSchedule(): void {
+    if (this.scheduleInterval) {
+      clearInterval(this.scheduleInterval);
+      this.scheduleInterval = undefined;
+      console.log('[BadgeRules] Scheduled badge rule evaluation stopped');
+    }
+  }
+
+  // Private helper methods
+
+  private static async getRuleBadges(collegeId: string): Promise<RuleBadge[]> {
+    const badges = await prisma.badgeDefinition.findMany({
+      where: {
+        isActive: true,
+        criteria: { startsWith: '{' },
+        OR: [
+          { collegeId },
+          { collegeId: null }
+        ]
+      }
+    });
+
+    return badges
+      .map(badge => ({ badge, rule: this.parseRule(badge.criteria) }))
+      .filter((entry): entry is RuleBadge => entry.rule !== null);
+  }
+
+  private static async getHeldBadges(userIds: string[], badgeIds: string[]): Promise<Set<string>> {
+    const awards = await prisma.studentBadge.findMany({
+      where: {
+        studentId: { in: userIds },
+        badgeId: { in: badgeIds },
+        ...BadgeExpiryService.activeAwardWhere()
+      },
+      select: { studentId: true, badgeId: true }
+    });
+
+    return new Set(awards.map(award => `${award.studentId}:${award.badgeId}`));
+  }
+
+  private static async getRevokedBadges(userIds: string[], badgeIds: string[]): Promise<Set<string>> {
+    const revocations = await prisma.badgeRevocation.findMany({
+      where: {
+        studentId: { in: userIds },
+        badgeId: { in: badgeIds }
+      },
+      select: { studentId: true, badgeId: true }
+    });
+
+    return new Set(revocations.map(revocation => `${revocation.studentId}:${revocation.badgeId}`));
+  }
+
+  private static async awardQualifying(
+    userId: string,
+    collegeId: string,
+    facts: BadgeRuleFacts,
+    ruleBadges: RuleBadge[],
+    authHeader: string = ''
+  ): Promise<string[]> {
+    // Rules award once; students holding an active award, or whose award was revoked, are left alone
+    const badgeIds = ruleBadges.map(entry => entry.badge.id);
+    const [held, revoked] = await Promise.all([
+      this.getHeldBadges([userId], badgeIds),
+      this.getRevokedBadges([userId], badgeIds)
+    ]);
+    const approvalRarities = await BadgeNominationService.approvalRarities(collegeId);
+    const awarded: string[] = [];
+
+    for (const { badge, rule } of ruleBadges) {
+      const key = `${userId}:${badge.id}`;
+      if (held.has(key) || revoked.has(key) || !this.matches(rule, facts)) continue;
+
+      if (approvalRarities.includes(badge.rarity)) {
+        await this.nominateForApproval(badge, userId, collegeId, authHeader);
+        continue;
+      }
+
+      try {
+        await this.awardSystemBadge(badge, userId, collegeId, authHeader);
+        awarded.push(badge.id);
+      } catch (error) {
+        // Duplicate, cap and level errors mean the student cannot receive this badge again
+        if (!(error instanceof BadgeServiceError)) {
+          console.error(`[BadgeRules] Failed to award badge ${badge.id} to ${userId}:`, error);
+        }
+      }
+    }
+
+    if (awarded.length > 0) {
+      try {
+        await BadgeEligibilityService.recompute(userId, collegeId);
+        await RedisCache.del(`profile:${userId}`);
+      } catch (error) {
+        console.warn('[BadgeRules] Failed to refresh caches after automatic award:', error);
+      }
+    }
+
+    return awarded;
+  }
+
+  private static async nominateForApproval(
+    badge: BadgeDefinition,
+    userId: string,
+    collegeId: string,
+    authHeader: string
+  ): Promise<void> {
+    try {
+      // The department lets DEPT_ADMIN review it; scheduled runs have no token, so HEAD_ADMIN reviews those
+      const student = authHeader ? await AuthServiceClient.getUser(userId, authHeader) : null;
+      await BadgeNominationService.nominateAutomatically(badge, userId, collegeId, SYSTEM_AWARDER, student?.department);
+    } catch (error) {
+      console.error(`[BadgeRules] Failed to nominate ${userId} for badge ${badge.id}:`, error);
+    }
+  }
+
+  private static async awardSystemBadge(
+    badge: BadgeDefinition,
+    userId: string,
+    collegeId: string,
+    authHeader: string
+  ) {
+    const award = await prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`${badge.id}:${userId}`}))`;
+
+      const existingAwards = await tx.studentBadge.findMany({
+        where: { badgeId: badge.id, studentId: userId },
+        select: { level: true }
+      });
+
+      const { level } = BadgeTierService.resolveAward(badge, userId, existingAwards);
+
+      const studentBadge = await tx.studentBadge.create({
+        data: {
+          studentId: userId,
+          badgeId: badge.id,
+          awardedBy: SYSTEM_AWARDER,
+          awardedByName: 'Automatic award',
+          reason: `Met the criteria for ${badge.name}`,
+          level,
+          expiresAt: BadgeExpiryService.calculateExpiry(badge.validityDays)
+        },
+        include: {
+          badge: true
+        }
+      });
+
+      await AdminAuditService.logAction({
+        adminId: SYSTEM_AWARDER,
+        action: 'AWARD_BADGE',
+        targetType: 'STUDENT_BADGE',
+        targetId: studentBadge.id,
+        collegeId,
+        success: true,
+        details: {
+          studentId: userId,
+          badgeId: badge.id,
+          badgeName: badge.name,
+          automatic: true,
+          criteria: badge.criteria,
+          level
+        }
+      });
+
+      return studentBadge;
+    }, {
+      isolationLevel: 'ReadCommitted',
+      timeout: 10000
+    });
+
+    // Scheduled runs have no user token to post with
+    if (authHeader) {
+      try {
+        await BadgePostService.createSimpleBadgePost(award, authHeader);
+      } catch (error) {
+        console.error('Failed to create badge award post:', error);
+      }
+    }
+
+    return award;
+  }
+
+  private static metricValue(condition: BadgeRuleCondition, facts: BadgeRuleFacts): number {
+    switch (condition.metric) {
+      case 'publications':
+      case 'experiences':
+        return facts[condition.metric][condition.type?.toUpperCase() || '*'] || 0;
+      default:
+        return facts[condition.metric];
+    }
+  }
+
+  private static countByType(items: Array<{ type: string | null }>): Record<string, number> {
+    const counts: Record<string, number> = { '*': items.length };
+    for (const item of items) {
+      if (!item.type) continue;
+      const type = item.type.toUpperCase();
+      counts[type] = (counts[type] || 0) + 1;
+    }
+    return counts;
+  }
+
+  private static groupByCollege(subjects: Array<{ userId: string; collegeId: string }>): Map<string, string[]> {
+    const byCollege = new Map<string, string[]>();
+    for (const subject of subjects) {
+      if (!byCollege.has(subject.collegeId)) {
+        byCollege.set(subject.collegeId, []);
+      }
+      byCollege.get(subject.collegeId)!.push(subject.userId);
+    }
+    return byCollege;
+  }
+}
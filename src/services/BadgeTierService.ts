@@ -0,0 +1,234 @@
+/**
+ * Badge Tier Service
+ * Award rules for SINGLE, REPEATABLE (optionally capped) and TIERED badge definitions
+ * and the per-badge count/level summaries shown on profiles, exports and leaderboards
+ */
+
+import { Prisma } from '@prisma/client';
+import {
+  BadgeDefinitionValidationError,
+  BadgeAwardValidationError,
+  DuplicateBadgeAwardError,
+  BadgeAwardLimitReachedError
+} from '../admin/errors/BadgeServiceErrors.js';
+
+export type BadgeAwardMode = 'SINGLE' | 'REPEATABLE' | 'TIERED';
+
+export const BADGE_AWARD_MODES: BadgeAwardMode[] = ['SINGLE', 'REPEATABLE', 'TIERED'];
+
+// A type alias rather than an interface so levels can be stored as Prisma JSON
+export type BadgeLevel = {
+  level: number;
+  name: string;
+  points: number;
+};
+
+export interface BadgeTierSettingsInput {
+  awardMode?: BadgeAwardMode;
+  maxAwards?: number | null;
+  levels?: Array<{ name: string; points: number }> | null;
+}
+
+export interface TierBadge {
+  id: string;
+  name: string;
+  points: number;
+  awardMode: string;
+  maxAwards: number | null;
+  levels: unknown;
+}
+
+export interface TierAward {
+  badgeId: string;
+  level: number | null;
+  awardedAt: Date;
+  badge: TierBadge;
+}
+
+export interface BadgeAwardSummary {
+  badgeId: string;
+  badgeName: string;
+  awardMode: BadgeAwardMode;
+  count: number;
+  level: number | null;
+  levelName: string | null;
+  maxLevel: number | null;
+  points: number;
+  latestAwardedAt: Date;
+}
+
+export class BadgeTierService {
+  /**
+   * Normalise tier settings for persistence, numbering levels in the order given
+   * Only keys that change are returned so partial updates leave other settings alone;
+   * pass the stored definition on update so the combined settings are validated
+   */
+  static buildSettings(
+    input: BadgeTierSettingsInput,
+    current?: Pick<TierBadge, 'awardMode' | 'maxAwards' | 'levels'>
+  ) {
+    const settings: {
+      awardMode?: BadgeAwardMode;
+      maxAwards?: number | null;
+      levels?: BadgeLevel[] | typeof Prisma.DbNull;
+    } = {};
+
+    const levels = input.levels !== undefined
+      ? (input.levels || []).map((level, index) => ({ level: index + 1, name: level.name.trim(), points: level.points }))
+      : this.parseLevels(current?.levels);
+
+    if (input.awardMode !== undefined) settings.awardMode = input.awardMode;
+    if (input.maxAwards !== undefined) settings.maxAwards = input.maxAwards;
+    if (input.levels !== undefined) settings.levels = levels.length > 0 ? levels : Prisma.DbNull;
+
+    const awardMode = settings.awardMode ?? (current ? this.getMode(current) : 'SINGLE');
+
+    if (awardMode === 'TIERED' && levels.length === 0) {
+      throw new BadgeDefinitionValidationError('Tiered badges need at least one level', 'levels');
+    }
+
+    if (awardMode !== 'REPEATABLE') {
+      if (input.maxAwards) {
+        throw new BadgeDefinitionValidationError('maxAwards only applies to repeatable badges', 'maxAwards');
+      }
+      if (current?.maxAwards) {
+        settings.maxAwards = null;
+      }
+    }
+
+    return settings;
+  }
+
+  /**
+   * Parse the stored levels JSON, ignoring malformed entries
+   */
+  static parseLevels(levels: unknown): BadgeLevel[] {
+    if (!Array.isArray(levels)) return [];
+
+    return levels
+      .filter((entry): entry is BadgeLevel =>
+        !!entry &&
+        typeof entry.level === 'number' &&
+        typeof entry.name === 'string' &&
+        typeof entry.points === 'number'
+      )
+      .sort((a, b) => a.level - b.level);
+  }
+
+  /**
+   * Decide whether another award is allowed given the student's existing awards of the badge
+   * Returns the level to record (null for non-tiered badges)
+   */
+  static resolveAward(
+    badge: TierBadge,
+    studentId: string,
+    existingAwards: Array<{ level: number | null }>,
+    requestedLevel?: number
+  ): { level: number | null } {
+    switch (this.getMode(badge)) {
+      case 'REPEATABLE':
+        if (badge.maxAwards && existingAwards.length >= badge.maxAwards) {
+          throw new BadgeAwardLimitReachedError(studentId, badge.id, badge.maxAwards);
+        }
+        return { level: null };
+
+      case 'TIERED': {
+        const levels = this.parseLevels(badge.levels);
+        const currentLevel = existingAwards.reduce((highest, award) => Math.max(highest, award.level ?? 0), 0);
+        const level = requestedLevel ?? currentLevel + 1;
+
+        if (level <= currentLevel) {
+          throw new BadgeAwardValidationError(
+            `Student already holds level ${currentLevel} of this badge`,
+            'level',
+            { currentLevel, requestedLevel: level }
+          );
+        }
+
+        if (!levels.some(entry => entry.level === level)) {
+          throw new BadgeAwardValidationError(
+            currentLevel >= levels.length
+              ? 'Student already holds the highest level of this badge'
+              : `Badge has no level ${level}`,
+            'level',
+            { currentLevel, maxLevel: levels.length }
+          );
+        }
+
+        return { level };
+      }
+
+      default:
+        if (existingAwards.length > 0) {
+          throw new DuplicateBadgeAwardError(studentId, badge.id);
+        }
+        return { level: null };
+    }
+  }
+
+  /**
+   * Collapse a student's awards into one entry per badge with count, level and points
+   * Repeatable badges earn points per award; tiered badges earn the points of the highest level held
+   */
+  static summarize(awards: TierAward[]): BadgeAwardSummary[] {
+    const byBadge = new Map<string, TierAward[]>();
+    for (const award of awards) {
+      if (!byBadge.has(award.badgeId)) {
+        byBadge.set(award.badgeId, []);
+      }
+      byBadge.get(award.badgeId)!.push(award);
+    }
+
+    return [...byBadge.values()].map(badgeAwards => {
+      const badge = badgeAwards[0].badge;
+      const awardMode = this.getMode(badge);
+      const latestAwardedAt = new Date(Math.max(...badgeAwards.map(award => award.awardedAt.getTime())));
+
+      if (awardMode === 'TIERED') {
+        const levels = this.parseLevels(badge.levels);
+        const level = badgeAwards.reduce((highest, award) => Math.max(highest, award.level ?? 0), 0);
+        const reached = levels.find(entry => entry.level === level);
+
+        return {
+          badgeId: badge.id,
+          badgeName: badge.name,
+          awardMode,
+          count: badgeAwards.length,
+          level: level || null,
+          levelName: reached?.name ?? null,
+          maxLevel: levels.length,
+          points: reached?.points ?? badge.points,
+          latestAwardedAt
+        };
+      }
+
+      return {
+        badgeId: badge.id,
+        badgeName: badge.name,
+        awardMode,
+        count: badgeAwards.length,
+        level: null,
+        levelName: null,
+        maxLevel: null,
+        points: badge.points * badgeAwards.length,
+        latestAwardedAt
+      };
+    });
+  }
+
+  /**
+   * Name of the level recorded on an award, if any
+   */
+  static levelName(badge: TierBadge, level: number | null): string | null {
+    if (level === null) return null;
+    return this.parseLevels(badge.levels).find(entry => entry.level === level)?.name ?? null;
+  }
+
+  // Private helper methods
+
+  private static getMode(badge: { awardMode: string }): BadgeAwardMode {
+    return BADGE_AWARD_MODES.includes(badge.awardMode as BadgeAwardMode)
+      ? (badge.awardMode as BadgeAwardMode)
+      : 'SINGLE';
+  }
+}
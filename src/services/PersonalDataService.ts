@@ -0,0 +1,309 @@
+/**
+ * Personal Data Service
+ * Exports everything the profile service holds about a user as a ZIP of JSON files, and erases it
+ * when the account is deleted. Erasure deletes the user's own records, anonymises references to
+ * them in other people's records and audit logs, and appends a receipt to a hash chain
+ */
+
+import { createHash, createHmac } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db.js';
+import { env } from '../config/env.js';
+import { RedisCache } from '../utils/redisClient.js';
+import { ZipArchive } from '../utils/ZipArchive.js';
+import { ProfileEligibilityService } from './ProfileEligibilityService.js';
+import { ProfileInsightsService } from './ProfileInsightsService.js';
+import { ProjectMediaService } from './ProjectMediaService.js';
+import { UserSuggestionService } from './UserSuggestionService.js';
+
+// Rows deleted or anonymised per table; stored as JSON on the receipt, so kept as a type alias
+export type ErasureSummary = Record<string, number>;
+
+export interface ErasureReceiptView {
+  id: string;
+  sequence: number;
+  subjectHash: string;
+  requestedBy: string;
+  summary: ErasureSummary;
+  erasedAt: Date;
+  previousHash: string | null;
+  hash: string;
+}
+
+export interface ReceiptChainStatus {
+  valid: boolean;
+  receipts: number;
+  brokenAt: number | null; // Sequence of the first receipt that fails verification
+}
+
+// Serialises receipt creation so every receipt links to the one before it
+const ERASURE_LOCK_KEY = 724100;
+
+export class PersonalDataService {
+  private static readonly VERIFY_BATCH_SIZE = 500;
+
+  /**
+   * Everything held about the user, one JSON file per area plus a manifest
+   * Trashed items are included since they are still held until purged
+   */
+  static async exportArchive(userId: string): Promise<Buffer> {
+    const profile = await prisma.profile.findUnique({ where: { userId } });
+
+    const [
+      experiences, projects, publications,
+      proficiencies, endorsementsReceived, endorsementsGiven,
+      awards, revocations, nominationsReceived, nominationsMade,
+      moderation, adminActions, insights, revisions, resumeImports
+    ] = await Promise.all([
+      prisma.experience.findMany({ where: { OR: [{ userId }, { profile: { userId } }] }, orderBy: { createdAt: 'asc' } }),
+      prisma.personalProject.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'asc' },
+        include: { media: { orderBy: { position: 'asc' } } }
+      }),
+      prisma.publication.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+      prisma.skillProficiency.findMany({ where: { userId }, orderBy: { skill: 'asc' } }),
+      prisma.skillEndorsement.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+      prisma.skillEndorsement.findMany({ where: { endorserId: userId }, orderBy: { createdAt: 'asc' } }),
+      prisma.studentBadge.findMany({
+        where: { studentId: userId },
+        include: { badge: { select: { name: true, category: true, rarity: true } } },
+        orderBy: { awardedAt: 'asc' }
+      }),
+      prisma.badgeRevocation.findMany({
+        where: { studentId: userId },
+        include: { badge: { select: { name: true } } },
+        orderBy: { revokedAt: 'asc' }
+      }),
+      prisma.badgeNomination.findMany({ where: { nomineeId: userId }, orderBy: { createdAt: 'asc' } }),
+      prisma.badgeNomination.findMany({ where: { nominatedBy: userId }, orderBy: { createdAt: 'asc' } }),
+      prisma.profileModeration.findMany({ where: { userId }, orderBy: { submittedAt: 'asc' } }),
+      // Admin actions on the profile; the admin's network details are theirs, not the user's
+      prisma.adminAuditLog.findMany({
+        where: { targetId: { in: [userId, ...(profile ? [profile.id] : [])] } },
+        select: { action: true, targetType: true, targetId: true, success: true, createdAt: true },
+        orderBy: { createdAt: 'asc' }
+      }),
+      prisma.profileInsightDaily.findMany({ where: { userId }, orderBy: [{ day: 'asc' }, { metric: 'asc' }] }),
+      prisma.profileRevision.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+      prisma.resumeImport.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } })
+    ]);
+
+    const files: Record<string, unknown> = {
+      'profile.json': profile,
+      'experiences.json': experiences,
+      'projects.json': projects,
+      'publications.json': publications,
+      'skills.json': { proficiencies, endorsementsReceived, endorsementsGiven },
+      'badges.json': { awards, revocations, nominationsReceived, nominationsMade },
+      'moderation.json': { submissions: moderation, adminActions },
+      'analytics.json': { profileInsights: insights },
+      'history.json': revisions,
+      'resume-imports.json': resumeImports
+    };
+
+    const generatedAt = new Date();
+    const zip = new ZipArchive(generatedAt);
+    zip.addFile('manifest.json', this.toJson({
+      userId,
+      generatedAt: generatedAt.toISOString(),
+      files: Object.entries(files).map(([name, content]) => ({ name, records: this.countRecords(content) }))
+    }));
+    for (const [name, content] of Object.entries(files)) {
+      zip.addFile(name, this.toJson(content));
+    }
+
+    return zip.toBuffer();
+  }
+
+  /**
+   * Delete or anonymise all of a user's data and record a receipt
+   * Safe to repeat: erasing an unknown or already erased user records a receipt with zero counts
+   */
+  static async erase(userId: string, requestedBy: string): Promise<ErasureReceiptView> {
+    const subjectHash = this.subjectHash(userId);
+    // Stands in for the user in records that belong to someone else
+    const pseudonym = `erased:${subjectHash.slice(0, 16)}`;
+
+    let mediaKeys: string[] = [];
+
+    const receipt = await prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(${ERASURE_LOCK_KEY})`;
+
+      const profile = await tx.profile.findUnique({ where: { userId }, select: { id: true } });
+      const targetIds = [userId, ...(profile ? [profile.id] : [])];
+      const summary: ErasureSummary = {};
+      const count = async (key: string, operation: Promise<{ count: number }>) => {
+        summary[key] = (await operation).count;
+      };
+
+      // The user's own records
+      await count('experiences', tx.experience.deleteMany({ where: { OR: [{ userId }, { profile: { userId } }] } }));
+      mediaKeys = (await tx.projectMedia.findMany({
+        where: { OR: [{ userId }, { project: { userId } }], storageKey: { not: null } },
+        select: { storageKey: true }
+      })).map(media => media.storageKey!);
+      await count('projectMedia', tx.projectMedia.deleteMany({ where: { OR: [{ userId }, { project: { userId } }] } }));
+      await count('projects', tx.personalProject.deleteMany({ where: { userId } }));
+      await count('publications', tx.publication.deleteMany({ where: { userId } }));
+      await count('skillProficiencies', tx.skillProficiency.deleteMany({ where: { userId } }));
+      await count('skillEndorsementsReceived', tx.skillEndorsement.deleteMany({ where: { userId } }));
+      await count('skillEndorsementsGiven', tx.skillEndorsement.deleteMany({ where: { endorserId: userId } }));
+      await count('badgeAwards', tx.studentBadge.deleteMany({ where: { studentId: userId } }));
+      await count('badgeRevocations', tx.badgeRevocation.deleteMany({ where: { studentId: userId } }));
+      await count('badgeNominationsReceived', tx.badgeNomination.deleteMany({ where: { nomineeId: userId } }));
+      await count('badgeEligibilityCache', tx.badgeEligibilityCache.deleteMany({ where: { userId } }));
+      await count('badgeRuleSubjects', tx.badgeRuleSubject.deleteMany({ where: { userId } }));
+      await count('moderationSubmissions', tx.profileModeration.deleteMany({ where: { userId } }));
+      await count('profileInsights', tx.profileInsightDaily.deleteMany({ where: { userId } }));
+      await count('profileRevisions', tx.profileRevision.deleteMany({ where: { userId } }));
+      await count('resumeImports', tx.resumeImport.deleteMany({ where: { userId } }));
+      await count('searchDocuments', tx.profileSearchDocument.deleteMany({ where: { userId } }));
+      await count('profiles', tx.profile.deleteMany({ where: { userId } }));
+
+      // References to the user in other people's records and in audit trails
+      await count('badgeAwardsGranted', tx.studentBadge.updateMany({
+        where: { awardedBy: userId },
+        data: { awardedBy: pseudonym, awardedByName: null }
+      }));
+      await count('badgeAwardsRenewed', tx.studentBadge.updateMany({ where: { renewedBy: userId }, data: { renewedBy: pseudonym } }));
+      await count('badgeRevocationsGranted', tx.badgeRevocation.updateMany({
+        where: { awardedBy: userId },
+        data: { awardedBy: pseudonym, awardedByName: null }
+      }));
+      await count('badgeRevocationsMade', tx.badgeRevocation.updateMany({
+        where: { revokedBy: userId },
+        data: { revokedBy: pseudonym, revokedByName: null }
+      }));
+      await count('badgeNominationsMade', tx.badgeNomination.updateMany({
+        where: { nominatedBy: userId },
+        data: { nominatedBy: pseudonym, nominatedByName: null }
+      }));
+      await count('badgeNominationsReviewed', tx.badgeNomination.updateMany({
+        where: { reviewedBy: userId },
+        data: { reviewedBy: pseudonym, reviewedByName: null }
+      }));
+      await count('badgeDefinitionsCreated', tx.badgeDefinition.updateMany({ where: { createdBy: userId }, data: { createdBy: pseudonym } }));
+      await count('skillsCreated', tx.skill.updateMany({ where: { createdBy: userId }, data: { createdBy: pseudonym } }));
+      await count('moderationReviews', tx.profileModeration.updateMany({ where: { moderatorId: userId }, data: { moderatorId: pseudonym } }));
+      await count('profileRevisionsMade', tx.profileRevision.updateMany({ where: { actorId: userId }, data: { actorId: pseudonym } }));
+      await count('auditLogsAsAdmin', tx.adminAuditLog.updateMany({
+        where: { adminId: userId },
+        data: { adminId: pseudonym, ipAddress: null, userAgent: null }
+      }));
+      // Details on entries about the user may quote their data, so they go too
+      await count('auditLogsAsTarget', tx.adminAuditLog.updateMany({
+        where: { targetId: { in: targetIds } },
+        data: { targetId: pseudonym, details: Prisma.DbNull }
+      }));
+
+      const previous = await tx.erasureReceipt.findFirst({
+        orderBy: { sequence: 'desc' },
+        select: { sequence: true, hash: true }
+      });
+
+      const fields = {
+        sequence: (previous?.sequence ?? 0) + 1,
+        subjectHash,
+        requestedBy,
+        summary,
+        erasedAt: new Date(),
+        previousHash: previous?.hash ?? null
+      };
+
+      return tx.erasureReceipt.create({
+        data: { ...fields, hash: this.receiptHash(fields) }
+      });
+    }, { timeout: 60000 });
+
+    // Derived state outside Postgres; the rows behind it are already gone
+    await Promise.all([
+      RedisCache.del(`profile:${userId}`),
+      ProfileEligibilityService.invalidate(userId),
+      UserSuggestionService.invalidate(userId),
+      ProfileInsightsService.discardBuffered(userId)
+    ]).catch(error => {
+      console.warn('[PersonalData] Failed to clear cached data after erasure:', error);
+    });
+
+    // Uploaded project files are only removed once the erasure has committed
+    await ProjectMediaService.deleteStoredFiles(mediaKeys);
+
+    return this.toView(receipt);
+  }
+
+  /**
+   * Walk the receipt chain and check every link and hash
+   */
+  static async verifyReceipts(): Promise<ReceiptChainStatus> {
+    let expectedSequence = 1;
+    let previousHash: string | null = null;
+
+    while (true) {
+      const batch = await prisma.erasureReceipt.findMany({
+        where: { sequence: { gte: expectedSequence } },
+        orderBy: { sequence: 'asc' },
+        take: this.VERIFY_BATCH_SIZE
+      });
+      if (batch.length === 0) break;
+
+      for (const receipt of batch) {
+        const view = this.toView(receipt);
+        const intact = view.sequence === expectedSequence
+          && view.previousHash === previousHash
+          && view.hash === this.receiptHash(view);
+
+        if (!intact) {
+          return { valid: false, receipts: expectedSequence - 1, brokenAt: expectedSequence };
+        }
+
+        previousHash = view.hash;
+        expectedSequence++;
+      }
+
+      if (batch.length < this.VERIFY_BATCH_SIZE) break;
+    }
+
+    return { valid: true, receipts: expectedSequence - 1, brokenAt: null };
+  }
+
+  // Private helper methods
+
+  private static subjectHash(userId: string): string {
+    return createHmac('sha256', env.ERASURE_RECEIPT_SECRET).update(userId).digest('hex');
+  }
+
+  /**
+   * Hash over a fixed field order with sorted summary keys, since JSON columns do not keep key order
+   */
+  private static receiptHash(receipt: Omit<ErasureReceiptView, 'id' | 'hash'>): string {
+    const summary = Object.keys(receipt.summary).sort().map(key => [key, receipt.summary[key]]);
+    const payload = JSON.stringify([
+      receipt.sequence,
+      receipt.subjectHash,
+      receipt.requestedBy,
+      summary,
+      receipt.erasedAt.toISOString(),
+      receipt.previousHash
+    ]);
+    return createHash('sha256').update(payload).digest('hex');
+  }
+
+  private static toView(receipt: Prisma.ErasureReceiptGetPayload<{}>): ErasureReceiptView {
+    return { ...receipt, summary: receipt.summary as unknown as ErasureSummary };
+  }
+
+  private static toJson(value: unknown): string {
+    return JSON.stringify(value, null, 2);
+  }
+
+  private static countRecords(content: unknown): number {
+    if (content === null) return 0;
+    if (Array.isArray(content)) return content.length;
+    const values = Object.values(content as Record<string, unknown>);
+    // Grouped files count the records in each group; a single object counts as one
+    return values.every(Array.isArray)
+      ? values.reduce((total: number, value) => total + (value as unknown[]).length, 0)
+      : 1;
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Portfolio Order Service
+ * Owner-chosen order and featured flags for projects, publications and experiences
+ * Items are shown featured first, then by position; new items take position 0, so until the owner
+ * reorders they keep appearing newest first
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db.js';
+import { RedisCache } from '../utils/redisClient.js';
+
+export type PortfolioEntityType = 'PROJECT' | 'PUBLICATION' | 'EXPERIENCE';
+
+export const PORTFOLIO_ENTITY_TYPES: PortfolioEntityType[] = ['PROJECT', 'PUBLICATION', 'EXPERIENCE'];
+
+export interface PortfolioOrderItem {
+  id: string;
+  isFeatured?: boolean; // Unchanged when omitted
+}
+
+// Shared by every read that lists a profile's items in the owner's order
+export const PORTFOLIO_ORDER = [
+  { isFeatured: 'desc' },
+  { position: 'asc' },
+  { createdAt: 'desc' }
+] satisfies Prisma.PersonalProjectOrderByWithRelationInput[];
+
+export class PortfolioOrderError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = 'PortfolioOrderError';
+  }
+}
+
+export class PortfolioOrderService {
+  static readonly MAX_ITEMS = 200;
+
+  /**
+   * Set the order of all of the owner's items of one type, optionally changing featured flags
+   * The list must name every live item exactly once so no item is left with a stale position
+   */
+  static async reorder(userId: string, entityType: PortfolioEntityType, items: PortfolioOrderItem[]) {
+    const ids = items.map(item => item.id);
+    if (new Set(ids).size !== ids.length) {
+      throw new PortfolioOrderError('Each item can only appear once', 400);
+    }
+
+    const current = new Set((await this.list(userId, entityType)).map(item => item.id));
+    const unknown = ids.filter(id => !current.has(id));
+    if (unknown.length > 0) {
+      throw new PortfolioOrderError(`Unknown item(s): ${unknown.join(', ')}`, 400);
+    }
+    if (ids.length !== current.size) {
+      throw new PortfolioOrderError('The order must include every item of this type', 400);
+    }
+
+    await prisma.$transaction(items.map((item, position) => {
+      const data = { position, ...(item.isFeatured !== undefined && { isFeatured: item.isFeatured }) };
+      switch (entityType) {
+        case 'PROJECT':
+          return prisma.personalProject.update({ where: { id: item.id }, data });
+        case 'PUBLICATION':
+          return prisma.publication.update({ where: { id: item.id }, data });
+        case 'EXPERIENCE':
+          return prisma.experience.update({ where: { id: item.id }, data });
+      }
+    }));
+
+    await RedisCache.del(`profile:${userId}`);
+
+    return this.list(userId, entityType);
+  }
+
+  /**
+   * The owner's live items of one type, in display order
+   */
+  static async list(userId: string, entityType: PortfolioEntityType) {
+    const select = { id: true, position: true, isFeatured: true };
+
+    switch (entityType) {
+      case 'PROJECT':
+        return prisma.personalProject.findMany({
+          where: { userId, deletedAt: null },
+          orderBy: PORTFOLIO_ORDER,
+          select: { ...select, title: true }
+        });
+      case 'PUBLICATION':
+        return prisma.publication.findMany({
+          where: { userId, deletedAt: null },
+          orderBy: PORTFOLIO_ORDER,
+          select: { ...select, title: true }
+        });
+      case 'EXPERIENCE':
+        return prisma.experience.findMany({
+          where: { profile: { userId }, deletedAt: null },
+          orderBy: PORTFOLIO_ORDER,
+          select: { ...select, title: true }
+        });
+    }
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * Profile Completeness Service
+ * Single scoring engine for profile completeness, shared by students and admins
+ * Weights are configured per college on ProfileRequirements.completenessWeights
+ */
+
+import { prisma } from '../db.js';
+
+export type CompletenessItem =
+  | 'name'
+  | 'bio'
+  | 'skills'
+  | 'socialLinks'
+  | 'contactInfo'
+  | 'resume'
+  | 'projects'
+  | 'experience'
+  | 'phoneNumber'
+  | 'alternateEmail';
+
+export type CompletenessWeights = Record<CompletenessItem, number>;
+
+export const COMPLETENESS_ITEMS: CompletenessItem[] = [
+  'name', 'bio', 'skills', 'socialLinks', 'contactInfo',
+  'resume', 'projects', 'experience', 'phoneNumber', 'alternateEmail'
+];
+
+// Used when a college has not configured its own weights (sums to 100)
+export const DEFAULT_COMPLETENESS_WEIGHTS: CompletenessWeights = {
+  name: 5,
+  bio: 10,
+  skills: 15,
+  socialLinks: 10,
+  contactInfo: 5,
+  resume: 15,
+  projects: 20,
+  experience: 10,
+  phoneNumber: 5,
+  alternateEmail: 5
+};
+
+const ITEM_LABELS: Record<CompletenessItem, string> = {
+  name: 'Name',
+  bio: 'Bio',
+  skills: 'Skills',
+  socialLinks: 'Social Links',
+  contactInfo: 'Contact Info',
+  resume: 'Resume',
+  projects: 'Projects',
+  experience: 'Experience',
+  phoneNumber: 'Phone Number',
+  alternateEmail: 'Alternate Email'
+};
+
+export interface CompletenessRequirements {
+  requireBio: boolean;
+  requireSkills: boolean;
+  minSkillCount: number;
+  requireProjects: boolean;
+  minProjectCount: number;
+  requireExperience: boolean;
+  requireResume: boolean;
+  requireSocialLinks: boolean;
+  enforceForNetwork: boolean;
+  enforceForEvents: boolean;
+  enforceForProjects: boolean;
+}
+
+export interface CompletenessConfig {
+  weights: CompletenessWeights;
+  requirements: CompletenessRequirements | null; // null when the college has no active requirements
+}
+
+export interface CompletenessBreakdownItem {
+  item: CompletenessItem;
+  label: string;
+  weight: number;
+  earned: number;
+  complete: boolean;
+  required: boolean;
+  current?: number;
+  minimum?: number;
+}
+
+export interface CompletenessResult {
+  score: number;
+  breakdown: CompletenessBreakdownItem[];
+  missing: string[];
+  requirements: {
+    meets: boolean;
+    missing: string[];
+  };
+}
+
+export class ProfileCompletenessService {
+  /**
+   * Load the scoring configuration for a college
+   */
+  static async getConfig(collegeId?: string): Promise<CompletenessConfig> {
+    if (!collegeId) {
+      return { weights: { ...DEFAULT_COMPLETENESS_WEIGHTS }, requirements: null };
+    }
+
+    const row = await prisma.profileRequirements.findUnique({
+      where: { collegeId }
+    });
+
+    return {
+      weights: this.resolveWeights(row?.completenessWeights),
+      requirements: row && row.isActive ? row : null
+    };
+  }
+
+  /**
+   * Score a profile against a configuration
+   * The profile needs personalProjects and experiences loaded to score those items
+   */
+  static evaluate(profile: any, config: CompletenessConfig): CompletenessResult {
+    const { weights, requirements } = config;
+    const skillCount = profile?.skills?.length || 0;
+    const projectCount = profile?.personalProjects?.length || 0;
+    const experienceCount = profile?.experiences?.length || 0;
+
+    // Required minimums raise the bar for counted items
+    const minSkills = requirements?.requireSkills ? Math.max(requirements.minSkillCount, 1) : 1;
+    const minProjects = requirements?.requireProjects ? Math.max(requirements.minProjectCount, 1) : 1;
+
+    const checks: Record<CompletenessItem, { complete: boolean; required: boolean; current?: number; minimum?: number }> = {
+      name: { complete: !!profile?.name, required: false },
+      bio: { complete: !!profile?.bio, required: !!requirements?.requireBio },
+      skills: {
+        complete: skillCount >= minSkills,
+        required: !!requirements?.requireSkills,
+        current: skillCount,
+        minimum: minSkills
+      },
+      socialLinks: { complete: !!(profile?.linkedIn || profile?.github), required: !!requirements?.requireSocialLinks },
+      contactInfo: { complete: !!profile?.contactInfo, required: false },
+      resume: { complete: !!profile?.resumeUrl, required: !!requirements?.requireResume },
+      projects: {
+        complete: projectCount >= minProjects,
+        required: !!requirements?.requireProjects,
+        current: projectCount,
+        minimum: minProjects
+      },
+      experience: { complete: experienceCount > 0, required: !!requirements?.requireExperience },
+      phoneNumber: { complete: !!profile?.phoneNumber, required: false },
+      alternateEmail: { complete: !!profile?.alternateEmail, required: false }
+    };
+
+    const breakdown: CompletenessBreakdownItem[] = COMPLETENESS_ITEMS.map(item => ({
+      item,
+      label: ITEM_LABELS[item],
+      weight: weights[item],
+      earned: checks[item].complete ? weights[item] : 0,
+      ...checks[item]
+    }));
+
+    const totalWeight = breakdown.reduce((sum, entry) => sum + entry.weight, 0);
+    const earnedWeight = breakdown.reduce((sum, entry) => sum + entry.earned, 0);
+
+    const requirementGaps = breakdown
+      .filter(entry => entry.required && !entry.complete)
+      .map(entry => this.describeGap(entry));
+
+    return {
+      score: totalWeight > 0 ? Math.round((earnedWeight / totalWeight) * 100) : 0,
+      breakdown,
+      missing: breakdown.filter(entry => !entry.complete && entry.weight > 0).map(entry => entry.label),
+      requirements: {
+        meets: requirementGaps.length === 0,
+        missing: requirementGaps
+      }
+    };
+  }
+
+  /**
+   * Score a user's stored profile using their college configuration
+   */
+  static async scoreUser(
+    userId: string,
+    collegeId?: string,
+    preloadedConfig?: CompletenessConfig
+  ): Promise<CompletenessResult | null> {
+    const [profile, config] = await Promise.all([
+      prisma.profile.findUnique({
+        where: { userId },
+        include: {
+          personalProjects: { where: { deletedAt: null }, select: { id: true } },
+          experiences: { where: { deletedAt: null }, select: { id: true } }
+        }
+      }),
+      preloadedConfig ?? this.getConfig(collegeId)
+    ]);
+
+    if (!profile) {
+      return null;
+    }
+
+    return this.evaluate(profile, config);
+  }
+
+  // Private helper methods
+
+  private static resolveWeights(stored: unknown): CompletenessWeights {
+    const weights = { ...DEFAULT_COMPLETENESS_WEIGHTS };
+
+    if (stored && typeof stored === 'object') {
+      for (const item of COMPLETENESS_ITEMS) {
+        const value = (stored as Record<string, unknown>)[item];
+        if (typeof value === 'number' && value >= 0) {
+          weights[item] = value;
+        }
+      }
+    }
+
+    return weights;
+  }
+
+  private static describeGap(entry: CompletenessBreakdownItem): string {
+    if (entry.item === 'skills' || entry.item === 'projects') {
+      return `${entry.label} (minimum ${entry.minimum}, current: ${entry.current})`;
+    }
+    if (entry.item === 'socialLinks') {
+      return 'Social Links (LinkedIn or GitHub)';
+    }
+    return entry.label;
+  }
+}
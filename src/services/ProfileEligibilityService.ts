@@ -0,0 +1,102 @@
+/**
+ * Profile Eligibility Service
+ * Answers whether a user's profile meets their college's ProfileRequirements
+ * before other services let them post (NETWORK), create events (EVENTS) or join projects (PROJECTS)
+ */
+
+import { RedisCache } from '../utils/redisClient.js';
+import { ProfileCompletenessService, CompletenessRequirements } from './ProfileCompletenessService.js';
+
+export type EligibilityFeature = 'NETWORK' | 'EVENTS' | 'PROJECTS';
+
+export interface EligibilityResult {
+  userId: string;
+  collegeId: string;
+  feature: EligibilityFeature;
+  eligible: boolean;
+  enforced: boolean;
+  missing: string[];
+  checkedAt: string;
+}
+
+export class ProfileEligibilityService {
+  static readonly FEATURES: EligibilityFeature[] = ['NETWORK', 'EVENTS', 'PROJECTS'];
+
+  // Profile edits invalidate immediately; requirement changes propagate within the TTL
+  private static readonly CACHE_TTL = 300;
+
+  /**
+   * Check eligibility, serving from cache when possible
+   */
+  static async check(
+    userId: string,
+    collegeId: string,
+    feature: EligibilityFeature
+  ): Promise<EligibilityResult & { cached: boolean }> {
+    const cacheKey = this.cacheKey(userId, feature);
+    const cached = await RedisCache.get<EligibilityResult>(cacheKey);
+
+    if (cached && cached.collegeId === collegeId) {
+      return { ...cached, cached: true };
+    }
+
+    const result = await this.evaluate(userId, collegeId, feature);
+    await RedisCache.set(cacheKey, result, this.CACHE_TTL);
+
+    return { ...result, cached: false };
+  }
+
+  /**
+   * Evaluate eligibility against the database, bypassing the cache
+   */
+  static async evaluate(
+    userId: string,
+    collegeId: string,
+    feature: EligibilityFeature
+  ): Promise<EligibilityResult> {
+    const config = await ProfileCompletenessService.getConfig(collegeId);
+    const enforced = !!config.requirements && this.isEnforced(config.requirements, feature);
+
+    let missing: string[] = [];
+    if (enforced) {
+      const completeness = await ProfileCompletenessService.scoreUser(userId, collegeId, config);
+      missing = completeness ? completeness.requirements.missing : ['Profile not found'];
+    }
+
+    return {
+      userId,
+      collegeId,
+      feature,
+      eligible: missing.length === 0,
+      enforced,
+      missing,
+      checkedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Drop cached results for a user; call after any profile change
+   */
+  static async invalidate(userId: string): Promise<void> {
+    await Promise.all(
+      this.FEATURES.map(feature => RedisCache.del(this.cacheKey(userId, feature)))
+    );
+  }
+
+  // Private helper methods
+
+  private static cacheKey(userId: string, feature: EligibilityFeature): string {
+    return `eligibility:${userId}:${feature}`;
+  }
+
+  private static isEnforced(requirements: CompletenessRequirements, feature: EligibilityFeature): boolean {
+    switch (feature) {
+      case 'NETWORK':
+        return requirements.enforceForNetwork;
+      case 'EVENTS':
+        return requirements.enforceForEvents;
+      case 'PROJECTS':
+        return requirements.enforceForProjects;
+    }
+  }
+}
@@ -0,0 +1,346 @@
+/**
+ * Profile History Service
+ * Versioned change history for profiles and their projects, publications and experiences.
+ * Every change records who made it, whether it came from the owner, an admin or the system,
+ * the field-level diff and a snapshot, so any entity can be restored to an earlier version
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db.js';
+import { RedisCache } from '../utils/redisClient.js';
+import { SkillEndorsementService } from './SkillEndorsementService.js';
+
+export type HistoryEntityType = 'PROFILE' | 'PROJECT' | 'PUBLICATION' | 'EXPERIENCE';
+
+export const HISTORY_ENTITY_TYPES: HistoryEntityType[] = ['PROFILE', 'PROJECT', 'PUBLICATION', 'EXPERIENCE'];
+
+export type HistoryAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'RESTORE';
+
+export type HistorySource = 'OWNER' | 'ADMIN' | 'SYSTEM';
+
+// Stored as JSON on the revision, so kept as a type alias
+export type FieldChange = { field: string; from: unknown; to: unknown };
+
+export interface HistoryActor {
+  id: string | null;
+  source: HistorySource;
+}
+
+export interface HistoryChange {
+  userId: string;
+  entityType: HistoryEntityType;
+  entityId: string;
+  before: Record<string, any> | null; // Null when the entity is created
+  after: Record<string, any> | null; // Null when the entity is deleted; may hold only the changed fields
+  actor: HistoryActor;
+  action?: HistoryAction; // Derived from before/after when omitted
+  restoredFromVersion?: number;
+}
+
+export interface HistoryQuery {
+  entityType?: HistoryEntityType;
+  entityId?: string;
+  limit: number;
+  cursor?: string;
+}
+
+export interface RestoreResult {
+  entityType: HistoryEntityType;
+  entityId: string;
+  version: number;
+  restoredFromVersion: number;
+  entity: Record<string, any>;
+}
+
+// Fields that make up an entity's user-visible state; ids and timestamps are left out
+const TRACKED_FIELDS: Record<HistoryEntityType, string[]> = {
+  PROFILE: [
+    'name', 'bio', 'skills', 'expertise', 'linkedIn', 'github', 'twitter', 'resumeUrl', 'avatar',
+    'contactInfo', 'phoneNumber', 'alternateEmail', 'publicSlug', 'isPublic', 'visibility'
+  ],
+  PROJECT: [
+    'title', 'description', 'technologies', 'githubUrl', 'liveUrl', 'imageUrl', 'startDate', 'endDate',
+    'isVisible', 'github', 'demoLink', 'image'
+  ],
+  PUBLICATION: ['title', 'authors', 'journal', 'conference', 'publishedAt', 'doi', 'url', 'type', 'link', 'year'],
+  EXPERIENCE: [
+    'title', 'company', 'location', 'description', 'startDate', 'endDate', 'isCurrent', 'type', 'area',
+    'level', 'yearsExp'
+  ]
+};
+
+const DATE_FIELDS = new Set(['startDate', 'endDate', 'publishedAt']);
+
+export class ProfileHistoryError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = 'ProfileHistoryError';
+  }
+}
+
+export class ProfileHistoryService {
+  static readonly MAX_PAGE_SIZE = 100;
+  private static readonly VERSION_RETRIES = 3;
+
+  /**
+   * Record one change as the entity's next version
+   * Updates that change no tracked field are not recorded; deletions and restores always are
+   */
+  static async record(change: HistoryChange): Promise<void> {
+    const fields = TRACKED_FIELDS[change.entityType];
+    const action = change.action
+      ?? (change.before === null ? 'CREATE' : change.after === null ? 'DELETE' : 'UPDATE');
+
+    const before = change.before ? this.pick(change.before, fields) : null;
+    const after = change.after ? this.pick(change.after, fields) : null;
+
+    const changes = this.diff(before, after, fields);
+    if (changes.length === 0 && action === 'UPDATE') return;
+
+    const snapshot = after === null ? before : { ...(before || {}), ...after };
+
+    for (let attempt = 1; ; attempt++) {
+      const latest = await prisma.profileRevision.findFirst({
+        where: { entityType: change.entityType, entityId: change.entityId },
+        orderBy: { version: 'desc' },
+        select: { version: true }
+      });
+
+      try {
+        await prisma.profileRevision.create({
+          data: {
+            userId: change.userId,
+            entityType: change.entityType,
+            entityId: change.entityId,
+            version: (latest?.version ?? 0) + 1,
+            action,
+            changes: changes as unknown as Prisma.InputJsonValue,
+            snapshot: (snapshot ?? {}) as Prisma.InputJsonValue,
+            source: change.actor.source,
+            actorId: change.actor.id,
+            restoredFromVersion: change.restoredFromVersion ?? null
+          }
+        });
+        return;
+      } catch (error) {
+        // Two changes to one entity at the same moment; take the next free version
+        const conflict = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+        if (!conflict || attempt >= this.VERSION_RETRIES) throw error;
+      }
+    }
+  }
+
+  /**
+   * The owner's change history, newest first
+   */
+  static async getHistory(userId: string, query: HistoryQuery) {
+    const limit = Math.min(Math.max(query.limit, 1), this.MAX_PAGE_SIZE);
+
+    const revisions = await prisma.profileRevision.findMany({
+      where: {
+        userId,
+        ...(query.entityType && { entityType: query.entityType }),
+        ...(query.entityId && { entityId: query.entityId })
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+      select: {
+        id: true,
+        entityType: true,
+        entityId: true,
+        version: true,
+        action: true,
+        changes: true,
+        source: true,
+        actorId: true,
+        restoredFromVersion: true,
+        createdAt: true
+      }
+    });
+
+    const hasMore = revisions.length > limit;
+    const page = hasMore ? revisions.slice(0, limit) : revisions;
+
+    return {
+      revisions: page.map(revision => ({ ...revision, changes: revision.changes as unknown as FieldChange[] })),
+      nextCursor: hasMore ? page[page.length - 1].id : null
+    };
+  }
+
+  /**
+   * Put an entity back into the state it had at a recorded version
+   * Restoring a deletion brings the entity back with its last state, out of the trash if it is still there
+   */
+  static async restore(userId: string, revisionId: string, actor: HistoryActor): Promise<RestoreResult> {
+    const revision = await prisma.profileRevision.findFirst({ where: { id: revisionId, userId } });
+    if (!revision) {
+      throw new ProfileHistoryError('Revision not found', 404);
+    }
+
+    const entityType = revision.entityType as HistoryEntityType;
+    const fields = TRACKED_FIELDS[entityType];
+    const snapshot = revision.snapshot as Record<string, unknown>;
+    const data = this.toWriteData(snapshot, fields);
+
+    const before = await this.load(entityType, revision.entityId, userId);
+    if (before && !before.deletedAt && this.diff(this.pick(before, fields), this.pick(snapshot, fields), fields).length === 0) {
+      throw new ProfileHistoryError('This item already matches that version', 409);
+    }
+
+    let after: Record<string, any>;
+    try {
+      after = await this.write(entityType, revision.entityId, userId, before, data);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ProfileHistoryError('That version conflicts with current data, such as a public slug now used by someone else', 409);
+      }
+      throw error;
+    }
+
+    await this.record({
+      userId,
+      entityType,
+      entityId: revision.entityId,
+      before,
+      after,
+      actor,
+      action: 'RESTORE',
+      restoredFromVersion: revision.version
+    });
+
+    if (entityType === 'PROFILE') {
+      await SkillEndorsementService.pruneProficiencies(userId, after.skills || []);
+    }
+    await RedisCache.del(`profile:${userId}`);
+
+    const latest = await prisma.profileRevision.findFirst({
+      where: { entityType, entityId: revision.entityId },
+      orderBy: { version: 'desc' },
+      select: { version: true }
+    });
+
+    return {
+      entityType,
+      entityId: revision.entityId,
+      version: latest?.version ?? revision.version,
+      restoredFromVersion: revision.version,
+      entity: after
+    };
+  }
+
+  // Private helper methods
+
+  private static async load(entityType: HistoryEntityType, entityId: string, userId: string): Promise<Record<string, any> | null> {
+    switch (entityType) {
+      case 'PROFILE':
+        return prisma.profile.findFirst({ where: { id: entityId, userId } });
+      case 'PROJECT':
+        return prisma.personalProject.findFirst({ where: { id: entityId, userId } });
+      case 'PUBLICATION':
+        return prisma.publication.findFirst({ where: { id: entityId, userId } });
+      case 'EXPERIENCE':
+        return prisma.experience.findFirst({ where: { id: entityId, profile: { userId } } });
+    }
+  }
+
+  /**
+   * Update the entity, or recreate it under its original id when it has been deleted
+   */
+  private static async write(
+    entityType: HistoryEntityType,
+    entityId: string,
+    userId: string,
+    existing: Record<string, any> | null,
+    data: Record<string, any>
+  ): Promise<Record<string, any>> {
+    switch (entityType) {
+      case 'PROFILE':
+        if (!existing) throw new ProfileHistoryError('Profile not found', 404);
+        return prisma.profile.update({ where: { id: entityId }, data });
+      case 'PROJECT':
+        return existing
+          ? prisma.personalProject.update({ where: { id: entityId }, data: { ...data, deletedAt: null } })
+          : prisma.personalProject.create({ data: { ...data, id: entityId, userId } as Prisma.PersonalProjectUncheckedCreateInput });
+      case 'PUBLICATION':
+        return existing
+          ? prisma.publication.update({ where: { id: entityId }, data: { ...data, deletedAt: null } })
+          : prisma.publication.create({ data: { ...data, id: entityId, userId } as Prisma.PublicationUncheckedCreateInput });
+      case 'EXPERIENCE': {
+        if (existing) {
+          return prisma.experience.update({ where: { id: entityId }, data: { ...data, deletedAt: null } });
+        }
+        const profile = await prisma.profile.upsert({
+          where: { userId },
+          update: {},
+          create: { userId, skills: [], expertise: [] },
+          select: { id: true }
+        });
+        return prisma.experience.create({
+          data: { ...data, id: entityId, userId, profileId: profile.id } as Prisma.ExperienceUncheckedCreateInput
+        });
+      }
+    }
+  }
+
+  private static pick(source: Record<string, any>, fields: string[]): Record<string, unknown> {
+    const picked: Record<string, unknown> = {};
+    for (const field of fields) {
+      if (field in source) {
+        picked[field] = this.plain(source[field]);
+      }
+    }
+    return picked;
+  }
+
+  /**
+   * JSON-safe value, so snapshots, diffs and comparisons all see the same representation
+   */
+  private static plain(value: unknown): unknown {
+    if (value instanceof Date) return value.toISOString();
+    return value === undefined ? null : value;
+  }
+
+  private static diff(
+    before: Record<string, unknown> | null,
+    after: Record<string, unknown> | null,
+    fields: string[]
+  ): FieldChange[] {
+    const changes: FieldChange[] = [];
+
+    for (const field of fields) {
+      const hasBefore = before !== null && field in before;
+      const hasAfter = after !== null && field in after;
+
+      // Partial updates only describe the fields they touched
+      if (before !== null && after !== null && !(hasBefore && hasAfter)) continue;
+
+      const from = hasBefore ? before![field] : null;
+      const to = hasAfter ? after![field] : null;
+      if (JSON.stringify(from) !== JSON.stringify(to)) {
+        changes.push({ field, from, to });
+      }
+    }
+
+    return changes;
+  }
+
+  private static toWriteData(snapshot: Record<string, unknown>, fields: string[]): Record<string, any> {
+    const data: Record<string, any> = {};
+
+    for (const field of fields) {
+      if (!(field in snapshot)) continue;
+      const value = snapshot[field];
+
+      if (DATE_FIELDS.has(field)) {
+        data[field] = value ? new Date(value as string) : null;
+      } else if (field === 'visibility') {
+        data[field] = value === null ? Prisma.DbNull : value;
+      } else {
+        data[field] = value;
+      }
+    }
+
+    return data;
+  }
+}
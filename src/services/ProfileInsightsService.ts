@@ -0,0 +1,328 @@
+/**
+ * Profile Insights Service
+ * Anonymised profile view and search appearance counts for profile owners
+ * Events are counted in Redis per owner and day, then flushed to Postgres on a schedule;
+ * viewer ids are never stored, only role, college match and admin status
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db.js';
+import { env } from '../config/env.js';
+import { RedisClient } from '../utils/redisClient.js';
+
+export type InsightMetric = 'VIEW' | 'SEARCH_APPEARANCE';
+
+export interface ProfileViewer {
+  id: string;
+  roles: string[];
+  collegeId?: string;
+}
+
+export interface ProfileInsights {
+  range: { from: string; to: string; days: number };
+  totals: { views: number; searchAppearances: number };
+  daily: Array<{ date: string; views: number; searchAppearances: number }>;
+  viewerRoles: Array<{ role: string; count: number }>;
+  viewerColleges: { sameCollege: number; otherCollege: number };
+  adminViews: number;
+}
+
+const KEY_PREFIX = 'profile-service:insights:';
+const DIRTY_KEY = `${KEY_PREFIX}dirty`;
+const ADMIN_ROLES = ['SUPER_ADMIN', 'HEAD_ADMIN', 'DEPT_ADMIN', 'PLACEMENTS_ADMIN'];
+const ROLE_PRIORITY = [...ADMIN_ROLES, 'FACULTY', 'STUDENT'];
+
+export class ProfileInsightsService {
+  static readonly MAX_DAYS = 90;
+  private static readonly VIEW_DEDUPE_SECONDS = 30 * 60; // Repeat views by one viewer within this window count once
+  private static readonly FLUSH_BATCH_SIZE = 100;
+  private static flushInterval?: NodeJS.Timeout;
+
+  /**
+   * Count a view of a profile by another member
+   * Owners viewing their own profile are ignored
+   */
+  static async recordView(ownerId: string, viewer: ProfileViewer, ownerCollegeId?: string | null): Promise<void> {
+    if (ownerId === viewer.id) return;
+
+    const day = this.today();
+
+    // Dedupe on a short-lived key so the viewer id never reaches the counters
+    const fresh = await RedisClient.safeExecute(async (client) => {
+      const result = await client.set(`${KEY_PREFIX}seen:${ownerId}:${viewer.id}`, '1', 'EX', this.VIEW_DEDUPE_SECONDS, 'NX');
+      return result === 'OK';
+    }, true);
+    if (!fresh) return;
+
+    const isAdmin = viewer.roles.some(role => ADMIN_ROLES.includes(role));
+    const college = ownerCollegeId && viewer.collegeId === ownerCollegeId ? 'same' : 'other';
+
+    await this.increment(ownerId, day, 'VIEW', [
+      'total',
+      `role:${this.primaryRole(viewer.roles)}`,
+      `college:${college}`,
+      `admin:${isAdmin}`
+    ]);
+  }
+
+  /**
+   * Count an appearance in someone else's search results for each listed profile
+   */
+  static async recordSearchAppearances(ownerIds: string[], searcherId: string): Promise<void> {
+    const day = this.today();
+    const owners = [...new Set(ownerIds)].filter(ownerId => ownerId !== searcherId);
+
+    await Promise.all(owners.map(ownerId => this.increment(ownerId, day, 'SEARCH_APPEARANCE', ['total'])));
+  }
+
+  /**
+   * Insights for a profile owner over the last `days` days, including counts not yet flushed
+   */
+  static async getInsights(userId: string, days: number): Promise<ProfileInsights> {
+    const span = Math.min(Math.max(days, 1), this.MAX_DAYS);
+    const to = this.today();
+    const from = new Date(to);
+    from.setUTCDate(from.getUTCDate() - (span - 1));
+
+    const [stored, pending] = await Promise.all([
+      prisma.profileInsightDaily.findMany({
+        where: { userId, day: { gte: new Date(from), lte: new Date(to) } },
+        select: { day: true, metric: true, dimension: true, count: true }
+      }),
+      this.readPending(userId)
+    ]);
+
+    const rows = [
+      ...stored.map(row => ({ day: this.dayKey(row.day), metric: row.metric, dimension: row.dimension, count: row.count })),
+      ...pending.filter(row => row.day >= from.toISOString().slice(0, 10))
+    ];
+
+    const daily = new Map<string, { views: number; searchAppearances: number }>();
+    for (let offset = 0; offset < span; offset++) {
+      const date = new Date(from);
+      date.setUTCDate(date.getUTCDate() + offset);
+      daily.set(this.dayKey(date), { views: 0, searchAppearances: 0 });
+    }
+
+    const roles = new Map<string, number>();
+    const viewerColleges = { sameCollege: 0, otherCollege: 0 };
+    let adminViews = 0;
+
+    for (const row of rows) {
+      const bucket = daily.get(row.day);
+      if (!bucket) continue;
+
+      if (row.metric === 'SEARCH_APPEARANCE') {
+        if (row.dimension === 'total') bucket.searchAppearances += row.count;
+        continue;
+      }
+
+      if (row.dimension === 'total') {
+        bucket.views += row.count;
+      } else if (row.dimension.startsWith('role:')) {
+        const role = row.dimension.slice('role:'.length);
+        roles.set(role, (roles.get(role) || 0) + row.count);
+      } else if (row.dimension === 'college:same') {
+        viewerColleges.sameCollege += row.count;
+      } else if (row.dimension === 'college:other') {
+        viewerColleges.otherCollege += row.count;
+      } else if (row.dimension === 'admin:true') {
+        adminViews += row.count;
+      }
+    }
+
+    const dailyList = [...daily.entries()].map(([date, counts]) => ({ date, ...counts }));
+
+    return {
+      range: { from: this.dayKey(from), to: this.dayKey(to), days: span },
+      totals: {
+        views: dailyList.reduce((sum, entry) => sum + entry.views, 0),
+        searchAppearances: dailyList.reduce((sum, entry) => sum + entry.searchAppearances, 0)
+      },
+      daily: dailyList,
+      viewerRoles: [...roles.entries()]
+        .map(([role, count]) => ({ role, count }))
+        .sort((a, b) => b.count - a.count),
+      viewerColleges,
+      adminViews
+    };
+  }
+
+  /**
+   * Drop an owner's counts still buffered in Redis so they are never flushed
+   */
+  static async discardBuffered(ownerId: string): Promise<void> {
+    await RedisClient.safeExecute(async (client) => {
+      await client.srem(DIRTY_KEY, ownerId);
+      await client.del(this.pendingKey(ownerId), this.flushingKey(ownerId));
+    });
+  }
+
+  /**
+   * Move buffered counts from Redis into Postgres
+   * Each owner's buffer is renamed before it is read so new events keep accumulating safely
+   */
+  static async flush(): Promise<number> {
+    let flushed = 0;
+    const failed: string[] = [];
+
+    while (true) {
+      const owners = await RedisClient.safeExecute(
+        async (client) => await client.spop(DIRTY_KEY, this.FLUSH_BATCH_SIZE),
+        [] as string[]
+      );
+      if (!owners || owners.length === 0) break;
+
+      for (const ownerId of owners) {
+        try {
+          flushed += await this.flushOwner(ownerId);
+        } catch (error) {
+          console.error(`[ProfileInsights] Failed to flush insights for ${ownerId}:`, error);
+          failed.push(ownerId);
+        }
+      }
+
+      if (owners.length < this.FLUSH_BATCH_SIZE) break;
+    }
+
+    // Retried on the next run; the claimed buffers stay in Redis until then
+    if (failed.length > 0) {
+      await RedisClient.safeExecute(async (client) => await client.sadd(DIRTY_KEY, ...failed));
+    }
+
+    return flushed;
+  }
+
+  /**
+   * Start the periodic flush to Postgres
+   */
+  static startFlush(intervalMs: number = env.PROFILE_INSIGHTS_FLUSH_INTERVAL_MS): void {
+    if (this.flushInterval) {
+      return; // Already running
+    }
+
+    console.log('[ProfileInsights] Starting insights flush...');
+
+    this.flushInterval = setInterval(() => {
+      this.flush().catch(error => {
+        console.error('[ProfileInsights] Insights flush failed:', error);
+      });
+    }, intervalMs);
+  }
+
+  /**
+   * Stop the schedule and flush what is still buffered
+   */
+  static async stopFlush(): Promise<void> {
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval);
+      this.flushInterval = undefined;
+      await this.flush().catch(error => {
+        console.error('[ProfileInsights] Final insights flush failed:', error);
+      });
+      console.log('[ProfileInsights] Insights flush stopped');
+    }
+  }
+
+  // Private helper methods
+
+  private static pendingKey(ownerId: string): string {
+    return `${KEY_PREFIX}pending:${ownerId}`;
+  }
+
+  private static flushingKey(ownerId: string): string {
+    return `${KEY_PREFIX}flushing:${ownerId}`;
+  }
+
+  private static today(): Date {
+    const now = new Date();
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  }
+
+  private static dayKey(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  private static primaryRole(roles: string[]): string {
+    return ROLE_PRIORITY.find(role => roles.includes(role)) || 'OTHER';
+  }
+
+  /**
+   * Buffer counters in Redis, or write straight to Postgres when Redis is unavailable
+   */
+  private static async increment(ownerId: string, day: Date, metric: InsightMetric, dimensions: string[]): Promise<void> {
+    const buffered = await RedisClient.safeExecute(async (client) => {
+      const pipeline = client.multi();
+      for (const dimension of dimensions) {
+        pipeline.hincrby(this.pendingKey(ownerId), `${this.dayKey(day)}|${metric}|${dimension}`, 1);
+      }
+      pipeline.sadd(DIRTY_KEY, ownerId);
+      await pipeline.exec();
+      return true;
+    }, false);
+
+    if (!buffered) {
+      await this.persist(ownerId, dimensions.map(dimension => ({ day: this.dayKey(day), metric, dimension, count: 1 })));
+    }
+  }
+
+  private static async flushOwner(ownerId: string): Promise<number> {
+    const counts = await RedisClient.safeExecute(async (client) => {
+      // A buffer left over from a failed flush is written before the current one is claimed
+      if (!(await client.exists(this.flushingKey(ownerId)))) {
+        if (!(await client.exists(this.pendingKey(ownerId)))) return {};
+        await client.rename(this.pendingKey(ownerId), this.flushingKey(ownerId));
+      }
+      return await client.hgetall(this.flushingKey(ownerId));
+    }, {} as Record<string, string>);
+
+    const rows = this.parseCounts(counts || {});
+    if (rows.length > 0) {
+      await this.persist(ownerId, rows);
+    }
+
+    await RedisClient.safeExecute(async (client) => await client.del(this.flushingKey(ownerId)));
+
+    // Events buffered while this owner was being flushed are picked up next time
+    await RedisClient.safeExecute(async (client) => {
+      if (await client.exists(this.pendingKey(ownerId))) {
+        await client.sadd(DIRTY_KEY, ownerId);
+      }
+    });
+
+    return rows.length;
+  }
+
+  private static async readPending(ownerId: string) {
+    const [pending, flushing] = await Promise.all([
+      RedisClient.safeExecute(async (client) => await client.hgetall(this.pendingKey(ownerId)), {} as Record<string, string>),
+      RedisClient.safeExecute(async (client) => await client.hgetall(this.flushingKey(ownerId)), {} as Record<string, string>)
+    ]);
+
+    return [...this.parseCounts(pending || {}), ...this.parseCounts(flushing || {})];
+  }
+
+  private static parseCounts(hash: Record<string, string>) {
+    return Object.entries(hash)
+      .map(([field, value]) => {
+        const [day, metric, dimension] = field.split('|');
+        return { day, metric, dimension, count: Number(value) };
+      })
+      .filter(row => row.day && row.metric && row.dimension && row.count > 0);
+  }
+
+  private static async persist(
+    ownerId: string,
+    rows: Array<{ day: string; metric: string; dimension: string; count: number }>
+  ): Promise<void> {
+    const values = rows.map(row => Prisma.sql`(
+      gen_random_uuid()::text, ${ownerId}, ${row.day}::date, ${row.metric}, ${row.dimension}, ${row.count}, now()
+    )`);
+
+    await prisma.$executeRaw`
+      INSERT INTO profile_insight_daily (id, "userId", day, metric, dimension, count, "updatedAt")
+      VALUES ${Prisma.join(values)}
+      ON CONFLICT ("userId", day, metric, dimension)
+      DO UPDATE SET count = profile_insight_daily.count + EXCLUDED.count, "updatedAt" = now()`;
+  }
+}
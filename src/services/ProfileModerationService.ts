@@ -0,0 +1,364 @@
+/**
+ * Profile Moderation Service
+ * Per-item moderation queue for bio, project, publication and experience edits
+ * Only active for colleges that opt in via ProfileRequirements.requireModeration
+ * Open and rejected items are shown to their owner only and kept out of search
+ */
+
+import { prisma } from '../db.js';
+import { RedisCache } from '../utils/redisClient.js';
+import { ProfileSearchService } from './ProfileSearchService.js';
+
+export type ModerationContentType = 'BIO' | 'PROJECT' | 'PUBLICATION' | 'EXPERIENCE';
+export type ModerationStatus = 'PENDING' | 'IN_REVIEW' | 'APPROVED' | 'REJECTED';
+
+export interface ModerationSubmission {
+  userId: string;
+  collegeId?: string;
+  department?: string;
+  contentType: ModerationContentType;
+  contentId: string;
+  snapshot: Record<string, any>;
+}
+
+export interface ModerationQueueFilters {
+  status?: ModerationStatus;
+  contentType?: ModerationContentType;
+  department?: string;
+  moderatorId?: string;
+}
+
+// Content held back from everyone but the owner until a moderator approves it
+export interface HeldContent {
+  bio: boolean;
+  itemIds: Set<string>; // Project, publication and experience ids
+}
+
+export interface ModerationScope {
+  moderatorId: string;
+  collegeId: string;
+  department?: string; // Set for DEPT_ADMIN, restricts the queue to one department
+}
+
+export class ProfileModerationService {
+  private static readonly OPEN_STATUSES: ModerationStatus[] = ['PENDING', 'IN_REVIEW'];
+  private static readonly OWNER_VISIBLE_STATUSES: ModerationStatus[] = ['PENDING', 'IN_REVIEW', 'REJECTED'];
+
+  /**
+   * Check whether a college has opted in to content moderation
+   */
+  static async isModerationEnabled(collegeId?: string): Promise<boolean> {
+    if (!collegeId) return false;
+
+    const requirements = await prisma.profileRequirements.findUnique({
+      where: { collegeId },
+      select: { requireModeration: true, isActive: true }
+    });
+
+    return !!requirements?.isActive && requirements.requireModeration;
+  }
+
+  /**
+   * Queue an edited item for review
+   * Re-submitting an item that is still open or was rejected resets the existing entry
+   * Returns null when the owner's college has not opted in
+   */
+  static async submit(submission: ModerationSubmission) {
+    const { userId, collegeId, department, contentType, contentId, snapshot } = submission;
+
+    if (!(await this.isModerationEnabled(collegeId))) {
+      return null;
+    }
+
+    const profile = await prisma.profile.findUnique({
+      where: { userId },
+      select: { id: true }
+    });
+
+    if (!profile) {
+      return null;
+    }
+
+    const existing = await prisma.profileModeration.findFirst({
+      where: {
+        contentType,
+        contentId,
+        status: { in: this.OWNER_VISIBLE_STATUSES }
+      },
+      orderBy: { submittedAt: 'desc' }
+    });
+
+    const entry = existing
+      ? await prisma.profileModeration.update({
+          where: { id: existing.id },
+          data: {
+            status: 'PENDING',
+            snapshot,
+            department,
+            moderatorId: null,
+            reason: null,
+            submittedAt: new Date(),
+            claimedAt: null,
+            reviewedAt: null
+          }
+        })
+      : await prisma.profileModeration.create({
+          data: {
+            profileId: profile.id,
+            userId,
+            collegeId,
+            department,
+            status: 'PENDING',
+            contentType,
+            contentId,
+            snapshot
+          }
+        });
+
+    await this.invalidateOwnerProfile(userId);
+    return entry;
+  }
+
+  /**
+   * Drop open entries for content that no longer exists
+   */
+  static async withdraw(contentType: ModerationContentType, contentId: string, userId: string): Promise<void> {
+    const { count } = await prisma.profileModeration.deleteMany({
+      where: {
+        contentType,
+        contentId,
+        userId,
+        status: { in: this.OWNER_VISIBLE_STATUSES }
+      }
+    });
+
+    if (count > 0) {
+      await this.invalidateOwnerProfile(userId);
+    }
+  }
+
+  /**
+   * Items the owner still needs to know about (open or rejected)
+   */
+  static async getOwnerItems(userId: string) {
+    return await prisma.profileModeration.findMany({
+      where: {
+        userId,
+        status: { in: this.OWNER_VISIBLE_STATUSES }
+      },
+      select: {
+        id: true,
+        contentType: true,
+        contentId: true,
+        status: true,
+        reason: true,
+        submittedAt: true,
+        reviewedAt: true
+      },
+      orderBy: { submittedAt: 'desc' }
+    });
+  }
+
+  /**
+   * Content of each user that is still under review or was rejected
+   * Nothing is held for users whose college has since turned moderation off
+   */
+  static async getHeldContent(userIds: string[]): Promise<Map<string, HeldContent>> {
+    const held = new Map<string, HeldContent>();
+    if (userIds.length === 0) return held;
+
+    const entries = await prisma.profileModeration.findMany({
+      where: {
+        userId: { in: userIds },
+        status: { in: this.OWNER_VISIBLE_STATUSES }
+      },
+      select: { userId: true, collegeId: true, contentType: true, contentId: true }
+    });
+
+    const collegeIds = [...new Set(entries.map(entry => entry.collegeId).filter((id): id is string => !!id))];
+    const enabled = new Set<string>();
+    for (const collegeId of collegeIds) {
+      if (await this.isModerationEnabled(collegeId)) enabled.add(collegeId);
+    }
+
+    for (const entry of entries) {
+      if (!entry.collegeId || !enabled.has(entry.collegeId)) continue;
+
+      const content = held.get(entry.userId) ?? { bio: false, itemIds: new Set<string>() };
+      if (entry.contentType === 'BIO') {
+        content.bio = true;
+      } else if (entry.contentId) {
+        content.itemIds.add(entry.contentId);
+      }
+      held.set(entry.userId, content);
+    }
+
+    return held;
+  }
+
+  /**
+   * Remove held content from a profile view; the bio is blanked and held items are dropped
+   */
+  static withoutHeldContent<T extends Record<string, any>>(profile: T, held: HeldContent | undefined): T {
+    if (!held) return profile;
+
+    const visible: Record<string, any> = { ...profile };
+    if (held.bio && 'bio' in visible) {
+      visible.bio = '';
+    }
+    for (const key of ['projects', 'personalProjects', 'publications', 'experiences']) {
+      if (Array.isArray(visible[key])) {
+        visible[key] = visible[key].filter((item: { id: string }) => !held.itemIds.has(item.id));
+      }
+    }
+    return visible as T;
+  }
+
+  /**
+   * Get the college moderation queue
+   */
+  static async getQueue(
+    scope: ModerationScope,
+    filters: ModerationQueueFilters,
+    pagination: { page: number; limit: number }
+  ) {
+    const take = Math.min(pagination.limit, 100);
+    const skip = (pagination.page - 1) * take;
+
+    const where: any = {
+      collegeId: scope.collegeId,
+      status: filters.status ? filters.status : { in: this.OPEN_STATUSES }
+    };
+
+    if (filters.contentType) where.contentType = filters.contentType;
+    if (filters.moderatorId) where.moderatorId = filters.moderatorId;
+
+    // DEPT_ADMIN is always restricted to their own department
+    const department = scope.department || filters.department;
+    if (department) where.department = department;
+
+    const [items, total] = await Promise.all([
+      prisma.profileModeration.findMany({
+        where,
+        orderBy: { submittedAt: 'asc' },
+        skip,
+        take
+      }),
+      prisma.profileModeration.count({ where })
+    ]);
+
+    return {
+      items,
+      pagination: {
+        page: pagination.page,
+        limit: take,
+        total,
+        totalPages: Math.ceil(total / take)
+      }
+    };
+  }
+
+  /**
+   * Claim an open item so other moderators skip it
+   * The status check is part of the update, so two moderators racing for an item cannot both win
+   */
+  static async claim(contentId: string, scope: ModerationScope) {
+    const entry = await this.getOpenEntry(contentId, scope);
+
+    if (entry.status === 'IN_REVIEW' && entry.moderatorId !== scope.moderatorId) {
+      throw new Error('Content is already claimed by another moderator');
+    }
+
+    const claimed = await prisma.profileModeration.updateMany({
+      where: entry.status === 'PENDING'
+        ? { id: entry.id, status: 'PENDING' }
+        : { id: entry.id, status: 'IN_REVIEW', moderatorId: scope.moderatorId },
+      data: {
+        status: 'IN_REVIEW',
+        moderatorId: scope.moderatorId,
+        claimedAt: new Date()
+      }
+    });
+
+    if (claimed.count === 0) {
+      throw new Error('Content is already claimed by another moderator');
+    }
+
+    return await prisma.profileModeration.findUniqueOrThrow({ where: { id: entry.id } });
+  }
+
+  /**
+   * Approve or reject a single item
+   */
+  static async decide(
+    contentId: string,
+    decision: 'APPROVED' | 'REJECTED',
+    scope: ModerationScope,
+    reason?: string
+  ) {
+    const entry = await this.getOpenEntry(contentId, scope);
+
+    if (entry.status === 'IN_REVIEW' && entry.moderatorId !== scope.moderatorId) {
+      throw new Error('Content is claimed by another moderator');
+    }
+
+    if (decision === 'REJECTED' && !reason) {
+      throw new Error('Reason is required when rejecting content');
+    }
+
+    // Only decided while still in the state just checked, so a concurrent claim or decision wins
+    const decided = await prisma.profileModeration.updateMany({
+      where: { id: entry.id, status: entry.status, moderatorId: entry.moderatorId },
+      data: {
+        status: decision,
+        moderatorId: scope.moderatorId,
+        reason,
+        reviewedAt: new Date()
+      }
+    });
+
+    if (decided.count === 0) {
+      throw new Error('Content was claimed or decided by another moderator');
+    }
+
+    await this.invalidateOwnerProfile(entry.userId);
+
+    // Approved content becomes searchable; rejected content stays out of the index
+    ProfileSearchService.index(entry.userId).catch(error => {
+      console.warn('[ProfileModerationService] Failed to reindex profile:', error);
+    });
+
+    return await prisma.profileModeration.findUniqueOrThrow({ where: { id: entry.id } });
+  }
+
+  // Private helper methods
+
+  private static async getOpenEntry(contentId: string, scope: ModerationScope) {
+    const entry = await prisma.profileModeration.findFirst({
+      where: {
+        contentId,
+        collegeId: scope.collegeId,
+        status: { in: this.OPEN_STATUSES }
+      },
+      orderBy: { submittedAt: 'desc' }
+    });
+
+    if (!entry) {
+      throw new Error('No pending moderation item found for this content');
+    }
+
+    if (scope.department && entry.department !== scope.department) {
+      throw new Error('Content belongs to a different department');
+    }
+
+    return entry;
+  }
+
+  private static async invalidateOwnerProfile(userId: string): Promise<void> {
+    try {
+      await RedisCache.del(`profile:${userId}`);
+    } catch (error) {
+      console.warn('[ProfileModerationService] Failed to invalidate profile cache:', error);
+    }
+  }
+}
@@ -0,0 +1,421 @@
+/**
+ * Profile Search Service
+ * Weighted tsvector index over profile text and items, ranked search with highlighted snippets
+ * Documents are rebuilt on profile changes; college, department and year are copied from the
+ * auth service because profiles do not store them. Fields the owner made PRIVATE or
+ * CONNECTIONS-only are left out of the document and facets, so search never reveals them
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db.js';
+import { resolveVisibility, VisibilityLevel } from '../middleware/piiProtection.js';
+import { ProfileModerationService } from './ProfileModerationService.js';
+
+export type ProfileSearchSort = 'relevance' | 'name' | 'createdAt' | 'badges' | 'projects';
+
+export interface SearchMembership {
+  collegeId?: string | null;
+  department?: string | null;
+  year?: number | null;
+}
+
+export interface ProfileSearchParams {
+  q?: string;
+  skills?: string[];
+  collegeId?: string;
+  department?: string;
+  year?: number;
+  limit: number;
+  offset: number;
+  sortBy: ProfileSearchSort;
+  sortOrder: 'asc' | 'desc';
+}
+
+export interface ProfileSearchHit {
+  userId: string;
+  rank: number;
+  snippet: string | null;
+  badgeCount: number;
+  projectCount: number;
+  indexedCollegeId: string | null;
+}
+
+export interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+export interface ProfileSearchFacets {
+  skills: FacetBucket[];
+  expertise: FacetBucket[];
+  departments: FacetBucket[];
+  years: FacetBucket[];
+  badgeCategories: FacetBucket[];
+  technologies: FacetBucket[];
+}
+
+// Snippet markers are control characters so user text can be HTML-escaped before <mark> is added
+const MARK_START = '\u0002';
+const MARK_STOP = '\u0003';
+const HEADLINE_OPTIONS = `StartSel=${MARK_START}, StopSel=${MARK_STOP}, MaxFragments=2, MaxWords=25, MinWords=8, FragmentDelimiter=" … "`;
+
+// Visibility levels that keep a field out of search for everyone
+const UNSEARCHABLE_LEVELS: VisibilityLevel[] = ['PRIVATE', 'CONNECTIONS'];
+
+// Visibility fields that feed the document or a facet
+const SEARCHED_FIELDS = ['bio', 'skills', 'expertise', 'experiences', 'projects', 'publications', 'badges'];
+
+// Projects still under review or rejected in a college that moderates edits
+const HELD_PROJECT = Prisma.sql`EXISTS (
+  SELECT 1 FROM "ProfileModeration" pm
+    JOIN profile_requirements pr ON pr."collegeId" = pm."collegeId" AND pr."isActive" AND pr."requireModeration"
+  WHERE pm."contentType" = 'PROJECT' AND pm."contentId" = pp.id AND pm.status IN ('PENDING', 'IN_REVIEW', 'REJECTED'))`;
+
+export class ProfileSearchService {
+  private static readonly REINDEX_BATCH_SIZE = 200;
+  private static readonly FACET_LIMIT = 25; // Buckets returned per facet, most common first
+
+  /**
+   * Rebuild a profile's search document, optionally refreshing its college membership
+   */
+  static async index(userId: string, membership?: SearchMembership): Promise<void> {
+    const profile = await prisma.profile.findUnique({
+      where: { userId },
+      select: {
+        name: true,
+        bio: true,
+        skills: true,
+        expertise: true,
+        visibility: true,
+        personalProjects: {
+          where: { isVisible: true, deletedAt: null },
+          select: { id: true, title: true, technologies: true }
+        },
+        publications: { where: { deletedAt: null }, select: { id: true, title: true } },
+        experiences: { where: { deletedAt: null }, select: { id: true, company: true } }
+      }
+    });
+
+    if (!profile) {
+      await prisma.profileSearchDocument.deleteMany({ where: { userId } });
+      return;
+    }
+
+    // Content awaiting or failing moderation is not searchable
+    const held = (await ProfileModerationService.getHeldContent([userId])).get(userId);
+    const approved = ProfileModerationService.withoutHeldContent(
+      { bio: profile.bio, projects: profile.personalProjects, publications: profile.publications, experiences: profile.experiences },
+      held
+    );
+
+    const settings = resolveVisibility(profile.visibility);
+    const hiddenSections = SEARCHED_FIELDS.filter(field => UNSEARCHABLE_LEVELS.includes(settings[field]));
+    const searchable = (field: string) => !hiddenSections.includes(field);
+
+    const bio = searchable('bio') ? approved.bio || null : null;
+    const skills = searchable('skills') ? profile.skills : [];
+    const expertise = searchable('expertise') ? profile.expertise : [];
+    const projects = searchable('projects') ? approved.projects : [];
+    const publications = searchable('publications') ? approved.publications : [];
+    const companies = searchable('experiences') ? approved.experiences.map(experience => experience.company) : [];
+
+    // A: name, B: skills and expertise, C: projects and publications, D: bio and companies
+    const weighted = {
+      A: [profile.name],
+      B: [...skills, ...expertise],
+      C: [
+        ...projects.flatMap(project => [project.title, ...project.technologies]),
+        ...publications.map(publication => publication.title)
+      ],
+      D: [bio, ...companies]
+    };
+
+    const text = (values: Array<string | null | undefined>) =>
+      values.filter((value): value is string => Boolean(value)).join(' ').replace(/[\u0002\u0003]/g, '');
+
+    const content = text([
+      profile.name,
+      bio,
+      ...weighted.B,
+      ...weighted.C,
+      ...companies
+    ]);
+
+    const document = Prisma.sql`
+      setweight(to_tsvector('english', ${text(weighted.A)}), 'A') ||
+      setweight(to_tsvector('english', ${text(weighted.B)}), 'B') ||
+      setweight(to_tsvector('english', ${text(weighted.C)}), 'C') ||
+      setweight(to_tsvector('english', ${text(weighted.D)}), 'D')`;
+
+    await prisma.$executeRaw`
+      INSERT INTO profile_search_documents (
+        "userId", "collegeId", department, year, content, document, skills, expertise, "hiddenSections", "updatedAt"
+      )
+      VALUES (
+        ${userId}, ${membership?.collegeId ?? null}, ${membership?.department ?? null}, ${membership?.year ?? null}::int,
+        ${content}, ${document}, ${skills}::text[], ${expertise}::text[], ${hiddenSections}::text[], now()
+      )
+      ON CONFLICT ("userId") DO UPDATE SET
+        content = EXCLUDED.content,
+        document = EXCLUDED.document,
+        skills = EXCLUDED.skills,
+        expertise = EXCLUDED.expertise,
+        "hiddenSections" = EXCLUDED."hiddenSections",
+        "collegeId" = COALESCE(EXCLUDED."collegeId", profile_search_documents."collegeId"),
+        department = COALESCE(EXCLUDED.department, profile_search_documents.department),
+        year = COALESCE(EXCLUDED.year, profile_search_documents.year),
+        "updatedAt" = now()`;
+  }
+
+  /**
+   * Update the college membership of an indexed profile without rebuilding its text
+   */
+  static async updateMembership(userId: string, membership: SearchMembership): Promise<void> {
+    const data: SearchMembership = {};
+    if (membership.collegeId !== undefined) data.collegeId = membership.collegeId;
+    if (membership.department !== undefined) data.department = membership.department;
+    if (membership.year !== undefined) data.year = membership.year;
+
+    if (Object.keys(data).length === 0) return;
+
+    await prisma.profileSearchDocument.updateMany({
+      where: { userId },
+      data
+    });
+  }
+
+  /**
+   * Build the index in the background when it is empty but profiles exist, e.g. on the first start
+   * after search was deployed; `npm run search:reindex` also fills membership and stays the
+   * recommended deploy step
+   */
+  static async ensureIndexed(): Promise<void> {
+    const [documents, profiles] = await Promise.all([
+      prisma.profileSearchDocument.count(),
+      prisma.profile.count()
+    ]);
+    if (documents > 0 || profiles === 0) return;
+
+    console.log(`[ProfileSearch] Search index is empty, indexing ${profiles} profiles...`);
+    this.reindexAll()
+      .then(indexed => console.log(`[ProfileSearch] Indexed ${indexed} profiles`))
+      .catch(error => console.error('[ProfileSearch] Initial indexing failed:', error));
+  }
+
+  /**
+   * Rebuild every profile's document in batches
+   * resolveMemberships looks up college membership for a batch of users when available
+   */
+  static async reindexAll(
+    resolveMemberships?: (userIds: string[]) => Promise<Map<string, SearchMembership>>
+  ): Promise<number> {
+    let indexed = 0;
+    let cursor: string | undefined;
+
+    while (true) {
+      const batch = await prisma.profile.findMany({
+        select: { userId: true },
+        orderBy: { userId: 'asc' },
+        take: this.REINDEX_BATCH_SIZE,
+        ...(cursor ? { skip: 1, cursor: { userId: cursor } } : {})
+      });
+
+      if (batch.length === 0) break;
+
+      const userIds = batch.map(profile => profile.userId);
+      const memberships = resolveMemberships ? await resolveMemberships(userIds) : new Map<string, SearchMembership>();
+
+      for (const userId of userIds) {
+        await this.index(userId, memberships.get(userId));
+      }
+
+      indexed += batch.length;
+      cursor = userIds[userIds.length - 1];
+      if (batch.length < this.REINDEX_BATCH_SIZE) break;
+    }
+
+    return indexed;
+  }
+
+  /**
+   * Ranked search over profile documents
+   * Profiles that have never been indexed only match when no text or membership filter is given
+   */
+  static async search(params: ProfileSearchParams): Promise<{ hits: ProfileSearchHit[]; total: number }> {
+    const query = this.tsQuery(params.q);
+    const where = this.buildWhere(params);
+
+    // Endorsed skills give a gentle, log-scaled boost so text relevance still dominates
+    const rank = query
+      ? Prisma.sql`ts_rank_cd(d.document, ${query}, 32) * (1 + 0.1 * ln(1 + (
+          SELECT COUNT(*) FROM skill_endorsements se
+          WHERE se."userId" = p."userId" AND se.skill = ANY(d.skills))))`
+      : Prisma.sql`0`;
+    const snippet = query
+      ? Prisma.sql`ts_headline('english', d.content, ${query}, ${HEADLINE_OPTIONS})`
+      : Prisma.sql`NULL`;
+
+    const [rows, countRows] = await Promise.all([
+      prisma.$queryRaw<ProfileSearchHit[]>`
+        SELECT
+          p."userId" AS "userId",
+          ${rank}::float8 AS "rank",
+          ${snippet} AS snippet,
+          (SELECT COUNT(*) FROM "StudentBadge" sb
+            WHERE sb."studentId" = p."userId" AND (sb."expiresAt" IS NULL OR sb."expiresAt" > now()))::int AS "badgeCount",
+          (SELECT COUNT(*) FROM "PersonalProject" pp
+            WHERE pp."userId" = p."userId" AND pp."isVisible" AND pp."deletedAt" IS NULL AND NOT ${HELD_PROJECT})::int AS "projectCount",
+          d."collegeId" AS "indexedCollegeId"
+        FROM "Profile" p
+        LEFT JOIN profile_search_documents d ON d."userId" = p."userId"
+        ${where}
+        ORDER BY ${this.orderBy(params.sortBy, params.sortOrder, Boolean(query))}
+        LIMIT ${params.limit} OFFSET ${params.offset}`,
+      prisma.$queryRaw<Array<{ total: number }>>`
+        SELECT COUNT(*)::int AS total
+        FROM "Profile" p
+        LEFT JOIN profile_search_documents d ON d."userId" = p."userId"
+        ${where}`
+    ]);
+
+    return {
+      hits: rows.map(row => ({ ...row, snippet: this.renderSnippet(row.snippet) })),
+      total: countRows[0]?.total ?? 0
+    };
+  }
+
+  /**
+   * Counts per skill, expertise, department, year, badge category and technology across the
+   * whole filtered result set, limited to one college
+   * Pass userIds when the caller has already filtered the set itself; the other filters are then ignored
+   * Only non-PII profile fields the owner has not hidden are faceted; each bucket counts distinct profiles
+   */
+  static async facets(
+    params: Omit<ProfileSearchParams, 'limit' | 'offset' | 'sortBy' | 'sortOrder'>,
+    collegeId: string,
+    userIds?: string[]
+  ): Promise<ProfileSearchFacets> {
+    const where = userIds
+      ? Prisma.sql`WHERE p."userId" = ANY(${userIds}::text[])`
+      : this.buildWhere({ ...params, collegeId });
+
+    const rows = await prisma.$queryRaw<Array<{ facet: keyof ProfileSearchFacets; value: string; count: number }>>`
+      WITH matched AS (
+        SELECT p."userId", d.skills, d.expertise, d.department, d.year, d."hiddenSections"
+        FROM "Profile" p
+        LEFT JOIN profile_search_documents d ON d."userId" = p."userId"
+        ${where}
+      )
+      SELECT 'skills' AS facet, skill AS value, COUNT(DISTINCT m."userId")::int AS count
+        FROM matched m, unnest(m.skills) AS skill
+        GROUP BY skill
+      UNION ALL
+      SELECT 'expertise', area, COUNT(DISTINCT m."userId")::int
+        FROM matched m, unnest(m.expertise) AS area
+        GROUP BY area
+      UNION ALL
+      SELECT 'departments', m.department, COUNT(*)::int
+        FROM matched m
+        WHERE m.department IS NOT NULL
+        GROUP BY m.department
+      UNION ALL
+      SELECT 'years', m.year::text, COUNT(*)::int
+        FROM matched m
+        WHERE m.year IS NOT NULL
+        GROUP BY m.year
+      UNION ALL
+      SELECT 'badgeCategories', bd.category, COUNT(DISTINCT m."userId")::int
+        FROM matched m
+        JOIN "StudentBadge" sb ON sb."studentId" = m."userId"
+        JOIN "BadgeDefinition" bd ON bd.id = sb."badgeId"
+        WHERE bd.category IS NOT NULL
+          AND NOT ('badges' = ANY(m."hiddenSections"))
+          AND bd."isActive"
+          AND (sb."expiresAt" IS NULL OR sb."expiresAt" > now())
+        GROUP BY bd.category
+      UNION ALL
+      SELECT 'technologies', technology, COUNT(DISTINCT m."userId")::int
+        FROM matched m
+        JOIN "PersonalProject" pp ON pp."userId" = m."userId" AND pp."isVisible" AND pp."deletedAt" IS NULL
+        CROSS JOIN unnest(pp.technologies) AS technology
+        WHERE NOT ('projects' = ANY(m."hiddenSections")) AND NOT ${HELD_PROJECT}
+        GROUP BY technology`;
+
+    const facets: ProfileSearchFacets = {
+      skills: [],
+      expertise: [],
+      departments: [],
+      years: [],
+      badgeCategories: [],
+      technologies: []
+    };
+
+    for (const row of rows) {
+      facets[row.facet]?.push({ value: row.value, count: row.count });
+    }
+
+    for (const key of Object.keys(facets) as Array<keyof ProfileSearchFacets>) {
+      facets[key] = facets[key]
+        .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+        .slice(0, this.FACET_LIMIT);
+    }
+
+    return facets;
+  }
+
+  // Private helper methods
+
+  private static tsQuery(q?: string): Prisma.Sql | null {
+    return q ? Prisma.sql`websearch_to_tsquery('english', ${q})` : null;
+  }
+
+  private static buildWhere(params: Pick<ProfileSearchParams, 'q' | 'skills' | 'collegeId' | 'department' | 'year'>): Prisma.Sql {
+    const query = this.tsQuery(params.q);
+
+    const conditions: Prisma.Sql[] = [];
+    if (query) conditions.push(Prisma.sql`d.document @@ ${query}`);
+    if (params.collegeId) conditions.push(Prisma.sql`d."collegeId" = ${params.collegeId}`);
+    if (params.department) conditions.push(Prisma.sql`d.department = ${params.department}`);
+    if (params.year) conditions.push(Prisma.sql`d.year = ${params.year}::int`);
+    if (params.skills && params.skills.length > 0) conditions.push(Prisma.sql`d.skills && ${params.skills}::text[]`);
+
+    return conditions.length > 0
+      ? Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}`
+      : Prisma.empty;
+  }
+
+  private static orderBy(sortBy: ProfileSearchSort, sortOrder: 'asc' | 'desc', hasQuery: boolean): Prisma.Sql {
+    const direction = Prisma.raw(sortOrder === 'desc' ? 'DESC' : 'ASC');
+
+    // Ties fall back to relevance, then a stable key so pages never overlap
+    const tiebreak = hasQuery ? Prisma.sql`"rank" DESC, p."userId" ASC` : Prisma.sql`p."userId" ASC`;
+
+    switch (sortBy) {
+      case 'relevance':
+        return hasQuery
+          ? Prisma.sql`"rank" ${direction}, p."userId" ASC`
+          : Prisma.sql`p.name ASC NULLS LAST, p."userId" ASC`;
+      case 'createdAt':
+        return Prisma.sql`p."createdAt" ${direction}, ${tiebreak}`;
+      case 'badges':
+        return Prisma.sql`"badgeCount" ${direction}, ${tiebreak}`;
+      case 'projects':
+        return Prisma.sql`"projectCount" ${direction}, ${tiebreak}`;
+      default:
+        return Prisma.sql`p.name ${direction} NULLS LAST, ${tiebreak}`;
+    }
+  }
+
+  private static renderSnippet(snippet: string | null): string | null {
+    if (!snippet) return null;
+
+    const escaped = snippet
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+
+    return escaped.split(MARK_START).join('<mark>').split(MARK_STOP).join('</mark>');
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Profile Trash Service
+ * Deleted projects, publications and experiences are kept in the owner's trash for RETENTION_DAYS
+ * and can be put back until then. Reads everywhere filter on deletedAt; the periodic purge removes
+ * expired items for good
+ */
+
+import { prisma } from '../db.js';
+import { env } from '../config/env.js';
+import { ProjectMediaService } from './ProjectMediaService.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type TrashEntityType = 'PROJECT' | 'PUBLICATION' | 'EXPERIENCE';
+
+export const TRASH_ENTITY_TYPES: TrashEntityType[] = ['PROJECT', 'PUBLICATION', 'EXPERIENCE'];
+
+export interface TrashItem {
+  entityType: TrashEntityType;
+  id: string;
+  title: string | null;
+  deletedAt: Date;
+  purgeAt: Date;
+}
+
+export class ProfileTrashError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = 'ProfileTrashError';
+  }
+}
+
+export class ProfileTrashService {
+  static readonly RETENTION_DAYS = 30;
+  private static purgeInterval?: NodeJS.Timeout;
+
+  /**
+   * The owner's trashed items that can still be restored, most recently deleted first
+   */
+  static async list(userId: string, now: Date = new Date()): Promise<TrashItem[]> {
+    const deletedAt = { gt: this.cutoff(now) };
+
+    const [projects, publications, experiences] = await Promise.all([
+      prisma.personalProject.findMany({
+        where: { userId, deletedAt },
+        select: { id: true, title: true, deletedAt: true }
+      }),
+      prisma.publication.findMany({
+        where: { userId, deletedAt },
+        select: { id: true, title: true, deletedAt: true }
+      }),
+      prisma.experience.findMany({
+        where: { profile: { userId }, deletedAt },
+        select: { id: true, title: true, area: true, company: true, deletedAt: true }
+      })
+    ]);
+
+    const items: TrashItem[] = [
+      ...projects.map(project => this.toItem('PROJECT', project.id, project.title, project.deletedAt!)),
+      ...publications.map(publication => this.toItem('PUBLICATION', publication.id, publication.title, publication.deletedAt!)),
+      ...experiences.map(experience => this.toItem(
+        'EXPERIENCE',
+        experience.id,
+        [experience.title || experience.area, experience.company].filter(Boolean).join(' at ') || null,
+        experience.deletedAt!
+      ))
+    ];
+
+    return items.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  }
+
+  /**
+   * Take an item out of the trash and return it as it now stands
+   */
+  static async restore(
+    userId: string,
+    entityType: TrashEntityType,
+    id: string,
+    now: Date = new Date()
+  ): Promise<{ before: Record<string, any>; after: Record<string, any> }> {
+    const where = { id, deletedAt: { gt: this.cutoff(now) } };
+
+    switch (entityType) {
+      case 'PROJECT': {
+        const before = await prisma.personalProject.findFirst({ where: { ...where, userId } });
+        if (!before) throw new ProfileTrashError('Project not found in trash', 404);
+        const after = await prisma.personalProject.update({ where: { id }, data: { deletedAt: null } });
+        return { before, after };
+      }
+      case 'PUBLICATION': {
+        const before = await prisma.publication.findFirst({ where: { ...where, userId } });
+        if (!before) throw new ProfileTrashError('Publication not found in trash', 404);
+        const after = await prisma.publication.update({ where: { id }, data: { deletedAt: null } });
+        return { before, after };
+      }
+      case 'EXPERIENCE': {
+        const before = await prisma.experience.findFirst({ where: { ...where, profile: { userId } } });
+        if (!before) throw new ProfileTrashError('Experience not found in trash', 404);
+        const after = await prisma.experience.update({ where: { id }, data: { deletedAt: null } });
+        return { before, after };
+      }
+    }
+  }
+
+  /**
+   * Permanently delete items that have been in the trash longer than the retention period
+   * Returns the number of items removed
+   */
+  static async purgeExpired(now: Date = new Date()): Promise<number> {
+    const where = { deletedAt: { lte: this.cutoff(now) } };
+    // Media rows cascade with their projects; the stored files have to be removed separately
+    const mediaKeys = await ProjectMediaService.storageKeysFor({ project: where });
+
+    const [projects, publications, experiences] = await Promise.all([
+      prisma.personalProject.deleteMany({ where }),
+      prisma.publication.deleteMany({ where }),
+      prisma.experience.deleteMany({ where })
+    ]);
+
+    const purged = projects.count + publications.count + experiences.count;
+    await ProjectMediaService.deleteStoredFiles(mediaKeys);
+    if (purged > 0) {
+      console.log(`[ProfileTrash] Purged ${purged} expired trash items`);
+    }
+
+    return purged;
+  }
+
+  /**
+   * Start the periodic trash purge
+   */
+  static startPurge(intervalMs: number = env.PROFILE_TRASH_PURGE_INTERVAL_MS): void {
+    if (this.purgeInterval) {
+      return; // Already running
+    }
+
+    console.log('[ProfileTrash] Starting trash purge...');
+
+    const runPurge = () => {
+      this.purgeExpired().catch(error => {
+        console.error('[ProfileTrash] Trash purge failed:', error);
+      });
+    };
+
+    runPurge();
+    this.purgeInterval = setInterval(runPurge, intervalMs);
+  }
+
+  static stopPurge(): void {
+    if (this.purgeInterval) {
+      clearInterval(this.purgeInterval);
+      this.purgeInterval = undefined;
+      console.log('[ProfileTrash] Trash purge stopped');
+    }
+  }
+
+  // Private helper methods
+
+  private static cutoff(now: Date): Date {
+    return new Date(now.getTime() - this.RETENTION_DAYS * DAY_MS);
+  }
+
+  private static toItem(entityType: TrashEntityType, id: string, title: string | null, deletedAt: Date): TrashItem {
+    return {
+      entityType,
+      id,
+      title,
+      deletedAt,
+      purgeAt: new Date(deletedAt.getTime() + this.RETENTION_DAYS * DAY_MS)
+    };
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * Profile Visibility Service
+ * Owner-controlled visibility per profile field and section, and the public profile page
+ * published at a vanity slug. Filtering itself lives in piiProtection so every route applies
+ * the same rules
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db.js';
+import { RedisCache } from '../utils/redisClient.js';
+import { NetworkServiceClient } from '../utils/NetworkServiceClient.js';
+import { BadgeExpiryService } from './BadgeExpiryService.js';
+import { BadgeTierService } from './BadgeTierService.js';
+import { ProfileModerationService } from './ProfileModerationService.js';
+import { PORTFOLIO_ORDER } from './PortfolioOrderService.js';
+import {
+  VisibilitySettings,
+  ViewerContext,
+  DEFAULT_VISIBILITY,
+  resolveVisibility,
+  applyVisibility
+} from '../middleware/piiProtection.js';
+
+export interface VisibilityUpdate {
+  publicSlug?: string | null;
+  isPublic?: boolean;
+  visibility?: Partial<VisibilitySettings>;
+}
+
+export interface VisibilityOverview {
+  publicSlug: string | null;
+  isPublic: boolean;
+  publicPath: string | null;
+  visibility: VisibilitySettings;
+}
+
+export interface Viewer {
+  id: string;
+  collegeId?: string;
+}
+
+const RESERVED_SLUGS = ['me', 'admin', 'api', 'public', 'profile', 'profiles', 'settings', 'search', 'directory', 'new'];
+
+export class ProfileVisibilityError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = 'ProfileVisibilityError';
+  }
+}
+
+export class ProfileVisibilityService {
+  static readonly SLUG_PATTERN = /^[a-z0-9](?:[a-z0-9-]{1,38}[a-z0-9])$/;
+
+  /**
+   * The owner's slug, publish state and effective visibility for every field
+   */
+  static async getSettings(userId: string): Promise<VisibilityOverview> {
+    const profile = await prisma.profile.findUnique({
+      where: { userId },
+      select: { publicSlug: true, isPublic: true, visibility: true }
+    });
+
+    return this.overview(profile);
+  }
+
+  /**
+   * Change the slug, publish state or field visibility
+   */
+  static async updateSettings(userId: string, update: VisibilityUpdate): Promise<VisibilityOverview> {
+    const current = await prisma.profile.findUnique({
+      where: { userId },
+      select: { publicSlug: true, isPublic: true, visibility: true }
+    });
+
+    const data: Prisma.ProfileUpdateInput = {};
+
+    if (update.publicSlug !== undefined) {
+      data.publicSlug = update.publicSlug === null ? null : this.normalizeSlug(update.publicSlug);
+    }
+
+    const slug = data.publicSlug !== undefined ? data.publicSlug : current?.publicSlug ?? null;
+    if (update.isPublic && !slug) {
+      throw new ProfileVisibilityError('Choose a public slug before publishing your profile', 400);
+    }
+
+    // Clearing the slug unpublishes the page
+    data.isPublic = slug ? (update.isPublic ?? current?.isPublic ?? false) : false;
+
+    if (update.visibility) {
+      const visibility = { ...resolveVisibility(current?.visibility), ...update.visibility };
+      data.visibility = this.compact(resolveVisibility(visibility));
+    }
+
+    try {
+      const profile = await prisma.profile.upsert({
+        where: { userId },
+        update: data,
+        create: {
+          userId,
+          skills: [],
+          expertise: [],
+          publicSlug: data.publicSlug as string | null | undefined,
+          isPublic: data.isPublic as boolean | undefined,
+          visibility: data.visibility as Prisma.InputJsonValue | undefined
+        },
+        select: { publicSlug: true, isPublic: true, visibility: true }
+      });
+
+      await RedisCache.del(`profile:${userId}`);
+      return this.overview(profile);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ProfileVisibilityError('That slug is already taken', 409);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Describe a viewer for visibility checks, asking the network service about the
+   * connection only when the owner's settings depend on it
+   */
+  static async viewerContext(
+    profile: { userId: string; visibility?: unknown; collegeId?: string | null },
+    viewer: Viewer,
+    authHeader: string
+  ): Promise<ViewerContext> {
+    const context: ViewerContext = { collegeId: viewer.collegeId };
+    if (viewer.id === profile.userId) return context;
+
+    const levels = Object.values(resolveVisibility(profile.visibility));
+    const sameCollege = Boolean(profile.collegeId) && profile.collegeId === viewer.collegeId;
+    const needsConnection = levels.includes('CONNECTIONS') || (levels.includes('COLLEGE') && !sameCollege);
+
+    if (needsConnection) {
+      context.isConnection = await NetworkServiceClient.isConnected(profile.userId, authHeader);
+    }
+
+    return context;
+  }
+
+  /**
+   * The published profile at a slug, reduced to fields the owner made public
+   */
+  static async getPublicProfile(slug: string) {
+    const normalized = slug.trim().toLowerCase();
+    if (!this.SLUG_PATTERN.test(normalized)) {
+      throw new ProfileVisibilityError('Profile not found', 404);
+    }
+
+    const profile = await prisma.profile.findFirst({
+      where: { publicSlug: normalized, isPublic: true },
+      include: {
+        personalProjects: {
+          where: { isVisible: true, deletedAt: null },
+          orderBy: PORTFOLIO_ORDER
+        },
+        publications: {
+          where: { deletedAt: null },
+          orderBy: PORTFOLIO_ORDER
+        },
+        experiences: {
+          where: { deletedAt: null },
+          orderBy: PORTFOLIO_ORDER
+        },
+        studentBadges: {
+          where: BadgeExpiryService.activeAwardWhere(),
+          orderBy: { awardedAt: 'desc' },
+          include: {
+            badge: {
+              select: {
+                id: true,
+                name: true,
+                description: true,
+                icon: true,
+                color: true,
+                category: true,
+                rarity: true,
+                points: true,
+                awardMode: true,
+                maxAwards: true,
+                levels: true
+              }
+            }
+          }
+        }
+      }
+    });
+
+    if (!profile) {
+      throw new ProfileVisibilityError('Profile not found', 404);
+    }
+
+    const held = (await ProfileModerationService.getHeldContent([profile.userId])).get(profile.userId);
+
+    return applyVisibility(ProfileModerationService.withoutHeldContent({
+      slug: normalized,
+      name: profile.name || '',
+      avatar: profile.avatar || '',
+      bio: profile.bio || '',
+      skills: profile.skills,
+      expertise: profile.expertise,
+      linkedIn: profile.linkedIn || '',
+      github: profile.github || '',
+      twitter: profile.twitter || '',
+      resumeUrl: profile.resumeUrl || '',
+      contactInfo: profile.contactInfo || '',
+      phoneNumber: profile.phoneNumber || '',
+      alternateEmail: profile.alternateEmail || '',
+      experiences: profile.experiences.map(({ profileId, userId, deletedAt, ...experience }) => experience),
+      projects: profile.personalProjects.map(({ userId, deletedAt, ...project }) => project),
+      publications: profile.publications.map(({ userId, deletedAt, ...publication }) => publication),
+      badges: profile.studentBadges.map(award => ({
+        id: award.id,
+        awardedAt: award.awardedAt,
+        expiresAt: award.expiresAt,
+        level: award.level,
+        badge: award.badge
+      })),
+      badgeSummary: BadgeTierService.summarize(profile.studentBadges),
+      visibility: profile.visibility
+    }, held), undefined);
+  }
+
+  // Private helper methods
+
+  private static normalizeSlug(value: string): string {
+    const slug = value.trim().toLowerCase();
+
+    if (!this.SLUG_PATTERN.test(slug) || slug.includes('--')) {
+      throw new ProfileVisibilityError(
+        'Slugs are 3-40 lowercase letters, numbers or single hyphens, and cannot start or end with a hyphen',
+        400
+      );
+    }
+
+    if (RESERVED_SLUGS.includes(slug)) {
+      throw new ProfileVisibilityError('That slug is reserved', 400);
+    }
+
+    return slug;
+  }
+
+  /**
+   * Store only the fields that differ from the defaults
+   */
+  private static compact(settings: VisibilitySettings): Prisma.InputJsonValue {
+    return Object.fromEntries(
+      Object.entries(settings).filter(([field, level]) => DEFAULT_VISIBILITY[field] !== level)
+    );
+  }
+
+  private static overview(
+    profile: { publicSlug: string | null; isPublic: boolean; visibility: unknown } | null
+  ): VisibilityOverview {
+    const publicSlug = profile?.publicSlug ?? null;
+
+    return {
+      publicSlug,
+      isPublic: Boolean(profile?.isPublic && publicSlug),
+      publicPath: publicSlug ? `/v1/public/profiles/${publicSlug}` : null,
+      visibility: resolveVisibility(profile?.visibility)
+    };
+  }
+}
@@ -0,0 +1,306 @@
+/**
+ * Project Media Service
+ * Gallery of screenshots, demo video links and file attachments for personal projects
+ * Files are written through the configured media storage; rows keep the object key, and
+ * download URLs are resolved on read so presigned links never go stale in the database
+ */
+
+import { randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db.js';
+import { RedisCache } from '../utils/redisClient.js';
+import { getMediaStorage } from '../utils/MediaStorage.js';
+
+export type ProjectMediaKind = 'IMAGE' | 'VIDEO_LINK' | 'ATTACHMENT';
+
+export const PROJECT_MEDIA_KINDS: ProjectMediaKind[] = ['IMAGE', 'VIDEO_LINK', 'ATTACHMENT'];
+
+export const PROJECT_IMAGE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+export type ProjectMediaInput =
+  | { kind: 'IMAGE' | 'ATTACHMENT'; filename: string; mimeType: string; content: Buffer; caption?: string | null }
+  | { kind: 'VIDEO_LINK'; url: string; caption?: string | null };
+
+export interface ProjectMediaView {
+  id: string;
+  kind: ProjectMediaKind;
+  caption: string | null;
+  position: number;
+  url: string | null;
+  filename: string | null;
+  mimeType: string | null;
+  size: number | null;
+  createdAt: Date;
+}
+
+type ProjectMediaRow = {
+  id: string;
+  projectId: string;
+  kind: string;
+  caption: string | null;
+  position: number;
+  storageKey: string | null;
+  url: string | null;
+  filename: string | null;
+  mimeType: string | null;
+  size: number | null;
+  createdAt: Date;
+};
+
+// Leading bytes of binary types, checked so a declared MIME type cannot disguise other content
+const SIGNATURES: Record<string, (content: Buffer) => boolean> = {
+  'image/jpeg': content => content.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])),
+  'image/png': content => content.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  'image/gif': content => ['GIF87a', 'GIF89a'].includes(content.subarray(0, 6).toString('latin1')),
+  'image/webp': content => content.subarray(0, 4).toString('latin1') === 'RIFF' && content.subarray(8, 12).toString('latin1') === 'WEBP',
+  'application/pdf': content => content.subarray(0, 5).toString('latin1') === '%PDF-',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': content =>
+    content.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04]))
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'application/pdf': 'pdf',
+  'text/plain': 'txt',
+  'application/json': 'json',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx'
+};
+
+export class ProjectMediaError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = 'ProjectMediaError';
+  }
+}
+
+export class ProjectMediaService {
+  static readonly MAX_ITEMS_PER_PROJECT = 20;
+  static readonly MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+  static readonly MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+  /**
+   * Largest file accepted for an uploaded media kind
+   */
+  static maxBytes(kind: 'IMAGE' | 'ATTACHMENT'): number {
+    return kind === 'IMAGE' ? this.MAX_IMAGE_BYTES : this.MAX_ATTACHMENT_BYTES;
+  }
+
+  /**
+   * A project's media in gallery order
+   */
+  static async list(projectId: string): Promise<ProjectMediaView[]> {
+    const rows = await prisma.projectMedia.findMany({
+      where: { projectId },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }]
+    });
+    return Promise.all(rows.map(row => this.toView(row)));
+  }
+
+  /**
+   * Add each project's media as `media`, for responses that list projects
+   */
+  static async attachTo<T extends { id: string }>(projects: T[]): Promise<Array<T & { media: ProjectMediaView[] }>> {
+    if (projects.length === 0) return [];
+
+    const rows = await prisma.projectMedia.findMany({
+      where: { projectId: { in: projects.map(project => project.id) } },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }]
+    });
+
+    const byProject = new Map<string, ProjectMediaView[]>();
+    for (const row of rows) {
+      const views = byProject.get(row.projectId) || [];
+      views.push(await this.toView(row));
+      byProject.set(row.projectId, views);
+    }
+
+    return projects.map(project => ({ ...project, media: byProject.get(project.id) || [] }));
+  }
+
+  /**
+   * Upload a file or add a video link at the end of the gallery
+   * The caller has already checked ownership and run the generic file validation
+   */
+  static async add(userId: string, projectId: string, input: ProjectMediaInput): Promise<ProjectMediaView> {
+    const existing = await prisma.projectMedia.aggregate({
+      where: { projectId },
+      _count: { _all: true },
+      _max: { position: true }
+    });
+    if (existing._count._all >= this.MAX_ITEMS_PER_PROJECT) {
+      throw new ProjectMediaError(`Projects are limited to ${this.MAX_ITEMS_PER_PROJECT} media items`, 409);
+    }
+
+    const position = (existing._max.position ?? -1) + 1;
+    const caption = input.caption?.trim() || null;
+
+    if (input.kind === 'VIDEO_LINK') {
+      const row = await prisma.projectMedia.create({
+        data: { projectId, userId, kind: input.kind, caption, position, url: this.checkVideoUrl(input.url) }
+      });
+      await RedisCache.del(`profile:${userId}`);
+      return this.toView(row);
+    }
+
+    this.checkContent(input);
+
+    const storage = getMediaStorage();
+    const storageKey = `projects/${projectId}/${randomUUID()}.${EXTENSIONS[input.mimeType] || 'bin'}`;
+    await storage.put(storageKey, input.content, input.mimeType);
+
+    try {
+      const row = await prisma.projectMedia.create({
+        data: {
+          projectId,
+          userId,
+          kind: input.kind,
+          caption,
+          position,
+          storageKey,
+          filename: input.filename,
+          mimeType: input.mimeType,
+          size: input.content.length
+        }
+      });
+      await RedisCache.del(`profile:${userId}`);
+      return this.toView(row);
+    } catch (error) {
+      await this.deleteStoredFiles([storageKey]);
+      throw error;
+    }
+  }
+
+  /**
+   * Change an item's caption; null clears it
+   */
+  static async updateCaption(userId: string, projectId: string, mediaId: string, caption: string | null): Promise<ProjectMediaView> {
+    await this.findOrThrow(projectId, mediaId);
+
+    const row = await prisma.projectMedia.update({
+      where: { id: mediaId },
+      data: { caption: caption?.trim() || null }
+    });
+    await RedisCache.del(`profile:${userId}`);
+
+    return this.toView(row);
+  }
+
+  /**
+   * Set the gallery order; the list must name every item exactly once
+   */
+  static async reorder(userId: string, projectId: string, ids: string[]): Promise<ProjectMediaView[]> {
+    if (new Set(ids).size !== ids.length) {
+      throw new ProjectMediaError('Each media item can only appear once', 400);
+    }
+
+    const current = new Set((await prisma.projectMedia.findMany({
+      where: { projectId },
+      select: { id: true }
+    })).map(item => item.id));
+
+    const unknown = ids.filter(id => !current.has(id));
+    if (unknown.length > 0) {
+      throw new ProjectMediaError(`Unknown media item(s): ${unknown.join(', ')}`, 400);
+    }
+    if (ids.length !== current.size) {
+      throw new ProjectMediaError('The order must include every media item of the project', 400);
+    }
+
+    await prisma.$transaction(ids.map((id, position) =>
+      prisma.projectMedia.update({ where: { id }, data: { position } })
+    ));
+    await RedisCache.del(`profile:${userId}`);
+
+    return this.list(projectId);
+  }
+
+  /**
+   * Remove an item and its stored file
+   */
+  static async remove(userId: string, projectId: string, mediaId: string): Promise<void> {
+    const row = await this.findOrThrow(projectId, mediaId);
+
+    await prisma.projectMedia.delete({ where: { id: mediaId } });
+    await RedisCache.del(`profile:${userId}`);
+
+    if (row.storageKey) {
+      await this.deleteStoredFiles([row.storageKey]);
+    }
+  }
+
+  /**
+   * Object keys of the stored files matching `where`, collected before rows are bulk-deleted
+   */
+  static async storageKeysFor(where: Prisma.ProjectMediaWhereInput): Promise<string[]> {
+    const rows = await prisma.projectMedia.findMany({
+      where: { ...where, storageKey: { not: null } },
+      select: { storageKey: true }
+    });
+    return rows.map(row => row.storageKey!);
+  }
+
+  /**
+   * Best-effort removal of stored files whose rows are gone; failures are logged, not thrown
+   */
+  static async deleteStoredFiles(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+
+    const storage = getMediaStorage();
+    const results = await Promise.allSettled(keys.map(key => storage.delete(key)));
+    const failed = results.filter(result => result.status === 'rejected').length;
+    if (failed > 0) {
+      console.warn(`[ProjectMedia] Failed to delete ${failed} of ${keys.length} stored files`);
+    }
+  }
+
+  // Private helper methods
+
+  private static async findOrThrow(projectId: string, mediaId: string): Promise<ProjectMediaRow> {
+    const row = await prisma.projectMedia.findFirst({ where: { id: mediaId, projectId } });
+    if (!row) {
+      throw new ProjectMediaError('Media item not found', 404);
+    }
+    return row;
+  }
+
+  private static checkContent(input: Extract<ProjectMediaInput, { content: Buffer }>): void {
+    if (input.kind === 'IMAGE' && !PROJECT_IMAGE_MIME_TYPES.includes(input.mimeType)) {
+      throw new ProjectMediaError('Images must be JPEG, PNG, GIF or WebP', 415);
+    }
+
+    const matches = SIGNATURES[input.mimeType];
+    if (matches && !matches(input.content)) {
+      throw new ProjectMediaError('The file content does not match its type', 400);
+    }
+  }
+
+  private static checkVideoUrl(url: string): string {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new ProjectMediaError('Video link must be a valid URL', 400);
+    }
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+      throw new ProjectMediaError('Video link must be an http or https URL', 400);
+    }
+    return parsed.toString();
+  }
+
+  private static async toView(row: ProjectMediaRow): Promise<ProjectMediaView> {
+    return {
+      id: row.id,
+      kind: row.kind as ProjectMediaKind,
+      caption: row.caption,
+      position: row.position,
+      url: row.storageKey ? await getMediaStorage().getUrl(row.storageKey) : row.url,
+      filename: row.filename,
+      mimeType: row.mimeType,
+      size: row.size,
+      createdAt: row.createdAt
+    };
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Publication Import Service
+ * Imports publications from BibTeX, RIS, CSL-JSON and ORCID works files, matching existing
+ * publications by DOI, then by title, and exports a user's publications as BibTeX
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db.js';
+import { RedisCache } from '../utils/redisClient.js';
+import { CitationFormats, CitationFormat, CitationFormatError, CitationRecord } from '../utils/CitationFormats.js';
+
+export interface PublicationImportOptions {
+  format?: CitationFormat; // Detected from the content when omitted
+  dryRun?: boolean;
+}
+
+export interface PublicationImportReport {
+  format: CitationFormat;
+  dryRun: boolean;
+  total: number;
+  created: Array<{ id: string | null; title: string }>;
+  updated: Array<{ id: string; title: string; fields: string[] }>;
+  skipped: Array<{ title: string | null; reason: string }>;
+}
+
+type ExistingPublication = Prisma.PublicationGetPayload<{}>;
+
+// Fields filled in on an existing publication when the import has them and the profile does not
+const MERGE_FIELDS = ['doi', 'authors', 'journal', 'conference', 'publishedAt', 'year', 'url', 'type'] as const;
+
+export class PublicationImportError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = 'PublicationImportError';
+  }
+}
+
+export class PublicationImportService {
+  static readonly MAX_ENTRIES = 500;
+
+  /**
+   * Parse a citation file and create or complete the owner's publications
+   * Existing values are never overwritten; only empty fields are filled in
+   */
+  static async importPublications(
+    userId: string,
+    content: string,
+    options: PublicationImportOptions = {}
+  ): Promise<PublicationImportReport> {
+    const format = options.format ?? CitationFormats.detect(content);
+    if (!format) {
+      throw new PublicationImportError('Unrecognised file; upload BibTeX, RIS, CSL-JSON or an ORCID works export', 400);
+    }
+
+    let records: CitationRecord[];
+    try {
+      records = CitationFormats.parse(content, format);
+    } catch (error) {
+      if (error instanceof CitationFormatError) {
+        throw new PublicationImportError(error.message, 400);
+      }
+      throw error;
+    }
+
+    if (records.length === 0) {
+      throw new PublicationImportError('No publications with a title were found in the file', 400);
+    }
+    if (records.length > this.MAX_ENTRIES) {
+      throw new PublicationImportError(`Import at most ${this.MAX_ENTRIES} publications at a time`, 400);
+    }
+
+    const dryRun = options.dryRun ?? false;
+    const report: PublicationImportReport = { format, dryRun, total: records.length, created: [], updated: [], skipped: [] };
+
+    await prisma.$transaction(async (tx) => {
+      await tx.profile.upsert({
+        where: { userId },
+        update: {},
+        create: { userId, skills: [], expertise: [] }
+      });
+
+      const existing = await tx.publication.findMany({ where: { userId, deletedAt: null } });
+      const byDoi = new Map<string, ExistingPublication>();
+      const byTitle = new Map<string, ExistingPublication>();
+      for (const publication of existing) {
+        const doi = CitationFormats.normalizeDoi(publication.doi);
+        if (doi) byDoi.set(doi, publication);
+        byTitle.set(this.titleKey(publication.title), publication);
+      }
+
+      const seenInFile = new Set<string>();
+
+      for (const record of records) {
+        const titleKey = this.titleKey(record.title);
+        const fileKeys = [record.doi ? `doi:${record.doi}` : null, `title:${titleKey}`].filter(Boolean) as string[];
+        if (fileKeys.some(key => seenInFile.has(key))) {
+          report.skipped.push({ title: record.title, reason: 'Duplicate entry in the file' });
+          continue;
+        }
+        fileKeys.forEach(key => seenInFile.add(key));
+
+        // A DOI match wins; a title match is only trusted when the DOIs do not disagree
+        const titleMatch = byTitle.get(titleKey);
+        const match = (record.doi && byDoi.get(record.doi)) ||
+          (titleMatch && (!record.doi || !titleMatch.doi || CitationFormats.normalizeDoi(titleMatch.doi) === record.doi)
+            ? titleMatch
+            : undefined);
+
+        if (match) {
+          const changes = this.missingFields(match, record);
+          const fields = Object.keys(changes);
+          if (fields.length === 0) {
+            report.skipped.push({ title: record.title, reason: 'Already on your profile' });
+            continue;
+          }
+
+          if (!dryRun) {
+            const updated = await tx.publication.update({ where: { id: match.id }, data: changes });
+            byTitle.set(titleKey, updated);
+            if (updated.doi) byDoi.set(CitationFormats.normalizeDoi(updated.doi) || updated.doi, updated);
+          }
+          report.updated.push({ id: match.id, title: match.title, fields });
+          continue;
+        }
+
+        if (dryRun) {
+          report.created.push({ id: null, title: record.title });
+          continue;
+        }
+
+        const created = await tx.publication.create({
+          data: {
+            userId,
+            title: record.title,
+            authors: record.authors,
+            journal: record.journal,
+            conference: record.conference,
+            publishedAt: record.publishedAt,
+            year: record.year,
+            doi: record.doi,
+            url: record.url,
+            type: record.type
+          }
+        });
+        byTitle.set(titleKey, created);
+        if (created.doi) byDoi.set(created.doi, created);
+        report.created.push({ id: created.id, title: created.title });
+      }
+    }, { timeout: 30000 });
+
+    if (!dryRun && report.created.length + report.updated.length > 0) {
+      await RedisCache.del(`profile:${userId}`);
+    }
+
+    return report;
+  }
+
+  /**
+   * The user's publications as a BibTeX file, newest first
+   */
+  static async exportBibtex(userId: string): Promise<string> {
+    const publications = await prisma.publication.findMany({
+      where: { userId, deletedAt: null },
+      orderBy: [{ publishedAt: { sort: 'desc', nulls: 'last' } }, { year: 'desc' }, { createdAt: 'desc' }]
+    });
+
+    return CitationFormats.toBibtex(publications);
+  }
+
+  // Private helper methods
+
+  private static titleKey(title: string): string {
+    return title.toLowerCase().normalize('NFKD').replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+  }
+
+  private static missingFields(existing: ExistingPublication, record: CitationRecord): Prisma.PublicationUpdateInput {
+    const changes: Record<string, unknown> = {};
+
+    for (const field of MERGE_FIELDS) {
+      const current = existing[field];
+      const incoming = record[field];
+      const isEmpty = current === null || current === undefined || (Array.isArray(current) && current.length === 0);
+      const hasValue = incoming !== null && incoming !== undefined && !(Array.isArray(incoming) && incoming.length === 0);
+
+      if (isEmpty && hasValue) {
+        changes[field] = incoming;
+      }
+    }
+
+    return changes as Prisma.PublicationUpdateInput;
+  }
+}
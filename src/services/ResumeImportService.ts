@@ -0,0 +1,394 @@
+/**
+ * Resume Import Service
+ * Turns an uploaded resume into a draft of profile changes, diffed against the current
+ * profile, and applies the items the owner confirms in a single transaction.
+ * Parsing happens in-process; nothing is sent to external services
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db.js';
+import { RedisCache } from '../utils/redisClient.js';
+import { ResumeTextExtractor, ResumeFileFormat, RESUME_MIME_TYPES } from '../utils/ResumeTextExtractor.js';
+import { ResumeParser, ParsedExperience, ParsedProject, ParsedEducation } from '../utils/ResumeParser.js';
+import { SkillTaxonomyService } from './SkillTaxonomyService.js';
+
+export type ImportItemStatus = 'NEW' | 'CHANGED' | 'DUPLICATE' | 'UNCHANGED';
+
+export type ImportLinkField = 'linkedIn' | 'github' | 'twitter';
+
+// Stored as JSON on the import, so kept as type aliases
+export type ResumeImportDraft = {
+  name: string | null;
+  experiences: Array<{ key: string; status: ImportItemStatus; experience: ParsedExperience }>;
+  projects: Array<{ key: string; status: ImportItemStatus; project: ParsedProject }>;
+  skills: Array<{ key: string; status: ImportItemStatus; skill: string }>;
+  links: Array<{ key: string; status: ImportItemStatus; field: ImportLinkField; current: string | null; proposed: string }>;
+  education: ParsedEducation[]; // For reference only; profiles have no education section
+  otherLinks: string[];
+  warnings: string[];
+};
+
+export interface ResumeUpload {
+  filename: string;
+  mimeType: string;
+  content: string; // Base64
+}
+
+export interface ResumeImportPreview {
+  importId: string;
+  filename: string;
+  format: ResumeFileFormat;
+  status: string;
+  expiresAt: Date;
+  draft: ResumeImportDraft;
+}
+
+export interface ResumeImportResult {
+  importId: string;
+  applied: { experiences: number; projects: number; skills: number; links: number };
+  skipped: Array<{ key: string; reason: string }>;
+  createdExperiences: Array<{ id: string; title: string | null; description: string | null }>;
+  createdProjects: Array<{ id: string; title: string; description: string }>;
+}
+
+export class ResumeImportError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = 'ResumeImportError';
+  }
+}
+
+export class ResumeImportService {
+  static readonly MAX_FILE_BYTES = 5 * 1024 * 1024;
+  private static readonly DRAFT_TTL_HOURS = 24;
+  private static readonly MIN_TEXT_LETTERS = 50;
+
+  /**
+   * Parse an upload into a draft of changes and keep it for confirmation
+   */
+  static async preview(userId: string, upload: ResumeUpload): Promise<ResumeImportPreview> {
+    const declared = RESUME_MIME_TYPES[upload.mimeType];
+    if (!declared) {
+      throw new ResumeImportError('Upload a PDF, DOCX or plain-text resume', 415);
+    }
+
+    const content = Buffer.from(upload.content, 'base64');
+    if (content.length === 0) {
+      throw new ResumeImportError('The uploaded file is empty', 400);
+    }
+    if (content.length > this.MAX_FILE_BYTES) {
+      throw new ResumeImportError(`Resumes must be ${this.MAX_FILE_BYTES / (1024 * 1024)} MB or smaller`, 413);
+    }
+
+    const format = ResumeTextExtractor.sniff(content, declared);
+    if (format !== declared && declared !== 'TEXT') {
+      throw new ResumeImportError('The file content does not match its type', 400);
+    }
+
+    let text: string;
+    try {
+      text = ResumeTextExtractor.extract(content, format);
+    } catch {
+      throw new ResumeImportError('The file could not be read; it may be damaged or password-protected', 422);
+    }
+
+    if ((text.match(/\p{L}/gu) || []).length < this.MIN_TEXT_LETTERS) {
+      throw new ResumeImportError(
+        'No readable text was found. Scanned resumes are not supported; upload a DOCX or text version instead',
+        422
+      );
+    }
+
+    const draft = await this.buildDraft(userId, text);
+
+    // Drafts are short-lived, so expired ones are cleared whenever the owner starts another
+    await prisma.resumeImport.deleteMany({
+      where: { userId, status: 'PENDING', expiresAt: { lt: new Date() } }
+    });
+
+    const record = await prisma.resumeImport.create({
+      data: {
+        userId,
+        filename: upload.filename,
+        format,
+        draft: draft as unknown as Prisma.InputJsonValue,
+        appliedKeys: [],
+        expiresAt: new Date(Date.now() + this.DRAFT_TTL_HOURS * 60 * 60 * 1000)
+      }
+    });
+
+    return this.toPreview(record);
+  }
+
+  /**
+   * A previously parsed import, for reviewing the draft again
+   */
+  static async getImport(userId: string, importId: string): Promise<ResumeImportPreview> {
+    const record = await prisma.resumeImport.findFirst({ where: { id: importId, userId } });
+    if (!record) {
+      throw new ResumeImportError('Import not found', 404);
+    }
+    return this.toPreview(record);
+  }
+
+  /**
+   * Apply confirmed draft items to the profile
+   * Without an explicit list every NEW or CHANGED item is applied. Items that became
+   * duplicates since the preview are skipped and reported
+   */
+  static async confirm(userId: string, importId: string, acceptKeys?: string[]): Promise<ResumeImportResult> {
+    const record = await prisma.resumeImport.findFirst({ where: { id: importId, userId } });
+    if (!record) {
+      throw new ResumeImportError('Import not found', 404);
+    }
+    if (record.status === 'APPLIED') {
+      throw new ResumeImportError('This import has already been applied', 409);
+    }
+    if (record.expiresAt < new Date()) {
+      throw new ResumeImportError('This import has expired; upload the resume again', 410);
+    }
+
+    const draft = record.draft as unknown as ResumeImportDraft;
+    const allKeys = new Set([
+      ...draft.experiences.map(item => item.key),
+      ...draft.projects.map(item => item.key),
+      ...draft.skills.map(item => item.key),
+      ...draft.links.map(item => item.key)
+    ]);
+
+    const unknown = (acceptKeys || []).filter(key => !allKeys.has(key));
+    if (unknown.length > 0) {
+      throw new ResumeImportError(`Unknown import item(s): ${unknown.join(', ')}`, 400);
+    }
+
+    const accepted = new Set(acceptKeys ?? [
+      ...draft.experiences, ...draft.projects, ...draft.skills, ...draft.links
+    ].filter(item => item.status === 'NEW' || item.status === 'CHANGED').map(item => item.key));
+
+    const result = await prisma.$transaction(async (tx) => {
+      // Claim the import first so a concurrent confirmation cannot apply it twice
+      const claimed = await tx.resumeImport.updateMany({
+        where: { id: importId, userId, status: 'PENDING' },
+        data: { status: 'APPLIED', appliedKeys: [...accepted], appliedAt: new Date() }
+      });
+      if (claimed.count === 0) {
+        throw new ResumeImportError('This import has already been applied', 409);
+      }
+
+      const profile = await tx.profile.upsert({
+        where: { userId },
+        update: {},
+        create: { userId, skills: [], expertise: [] },
+        include: {
+          experiences: { where: { deletedAt: null }, select: { title: true, company: true } },
+          personalProjects: { where: { deletedAt: null }, select: { title: true } }
+        }
+      });
+
+      const skipped: ResumeImportResult['skipped'] = [];
+      const experienceKeys = new Set(profile.experiences.map(item => this.experienceKey(item.title, item.company)));
+      const createdExperiences: ResumeImportResult['createdExperiences'] = [];
+      for (const item of draft.experiences.filter(entry => accepted.has(entry.key))) {
+        const { experience } = item;
+        const matchKey = this.experienceKey(experience.title, experience.company);
+        if (experienceKeys.has(matchKey)) {
+          skipped.push({ key: item.key, reason: 'Already on your profile' });
+          continue;
+        }
+        experienceKeys.add(matchKey);
+
+        const created = await tx.experience.create({
+          data: {
+            profileId: profile.id,
+            userId,
+            title: experience.title,
+            company: experience.company,
+            location: experience.location,
+            description: experience.description,
+            startDate: experience.startDate ? new Date(experience.startDate) : null,
+            endDate: experience.endDate ? new Date(experience.endDate) : null,
+            isCurrent: experience.isCurrent,
+            type: experience.type
+          },
+          select: { id: true, title: true, description: true }
+        });
+        createdExperiences.push(created);
+      }
+
+      const projectKeys = new Set(profile.personalProjects.map(item => this.normalize(item.title)));
+      const createdProjects: ResumeImportResult['createdProjects'] = [];
+      for (const item of draft.projects.filter(entry => accepted.has(entry.key))) {
+        const { project } = item;
+        if (projectKeys.has(this.normalize(project.title))) {
+          skipped.push({ key: item.key, reason: 'Already on your profile' });
+          continue;
+        }
+        projectKeys.add(this.normalize(project.title));
+
+        const created = await tx.personalProject.create({
+          data: {
+            userId,
+            title: project.title,
+            description: project.description,
+            technologies: project.technologies,
+            githubUrl: project.githubUrl,
+            liveUrl: project.liveUrl,
+            startDate: project.startDate ? new Date(project.startDate) : null,
+            endDate: project.endDate ? new Date(project.endDate) : null
+          },
+          select: { id: true, title: true, description: true }
+        });
+        createdProjects.push(created);
+      }
+
+      const skills = [...profile.skills];
+      const skillKeys = new Set(skills.map(skill => SkillTaxonomyService.normalizeKey(skill)));
+      let addedSkills = 0;
+      for (const item of draft.skills.filter(entry => accepted.has(entry.key))) {
+        const key = SkillTaxonomyService.normalizeKey(item.skill);
+        if (skillKeys.has(key)) {
+          skipped.push({ key: item.key, reason: 'Already on your profile' });
+          continue;
+        }
+        if (skills.length >= SkillTaxonomyService.MAX_PROFILE_SKILLS) {
+          skipped.push({ key: item.key, reason: `Profiles are limited to ${SkillTaxonomyService.MAX_PROFILE_SKILLS} skills` });
+          continue;
+        }
+        skillKeys.add(key);
+        skills.push(item.skill);
+        addedSkills++;
+      }
+
+      const links: Partial<Record<ImportLinkField, string>> = {};
+      for (const item of draft.links.filter(entry => accepted.has(entry.key))) {
+        links[item.field] = item.proposed;
+      }
+
+      if (addedSkills > 0 || Object.keys(links).length > 0) {
+        await tx.profile.update({
+          where: { userId },
+          data: { ...links, ...(addedSkills > 0 ? { skills } : {}) }
+        });
+      }
+
+      return {
+        importId,
+        applied: {
+          experiences: createdExperiences.length,
+          projects: createdProjects.length,
+          skills: addedSkills,
+          links: Object.keys(links).length
+        },
+        skipped,
+        createdExperiences,
+        createdProjects
+      };
+    });
+
+    await RedisCache.del(`profile:${userId}`);
+    return result;
+  }
+
+  // Private helper methods
+
+  private static async buildDraft(userId: string, text: string): Promise<ResumeImportDraft> {
+    const parsed = ResumeParser.parse(text);
+    const profile = await prisma.profile.findUnique({
+      where: { userId },
+      include: {
+        experiences: { where: { deletedAt: null }, select: { title: true, company: true } },
+        personalProjects: { where: { deletedAt: null }, select: { title: true } }
+      }
+    });
+
+    const experienceKeys = new Set((profile?.experiences || []).map(item => this.experienceKey(item.title, item.company)));
+    const projectKeys = new Set((profile?.personalProjects || []).map(item => this.normalize(item.title)));
+    const skillKeys = new Set((profile?.skills || []).map(skill => SkillTaxonomyService.normalizeKey(skill)));
+
+    const skills = await SkillTaxonomyService.canonicalize(parsed.skills);
+    const seenSkills = new Set<string>();
+
+    const links: ResumeImportDraft['links'] = [];
+    for (const field of ['linkedIn', 'github', 'twitter'] as ImportLinkField[]) {
+      const proposed = parsed.links[field];
+      if (!proposed) continue;
+
+      const current = profile?.[field] || null;
+      links.push({
+        key: `link:${field}`,
+        status: !current ? 'NEW' : this.sameUrl(current, proposed) ? 'UNCHANGED' : 'CHANGED',
+        field,
+        current,
+        proposed
+      });
+    }
+
+    const warnings: string[] = [];
+    if (parsed.experiences.length + parsed.projects.length + skills.length === 0) {
+      warnings.push('No experience, projects or skills were recognised. Check that the resume uses section headings such as "Experience", "Projects" and "Skills"');
+    }
+    if (parsed.education.length > 0) {
+      warnings.push('Education entries are shown for reference and are not added to your profile');
+    }
+
+    return {
+      name: parsed.name,
+      experiences: parsed.experiences.map((experience, index) => ({
+        key: `experience:${index}`,
+        status: experienceKeys.has(this.experienceKey(experience.title, experience.company)) ? 'DUPLICATE' : 'NEW',
+        experience
+      })),
+      projects: parsed.projects.map((project, index) => ({
+        key: `project:${index}`,
+        status: projectKeys.has(this.normalize(project.title)) ? 'DUPLICATE' : 'NEW',
+        project
+      })),
+      skills: skills
+        .filter(skill => {
+          const key = SkillTaxonomyService.normalizeKey(skill);
+          if (seenSkills.has(key)) return false;
+          seenSkills.add(key);
+          return true;
+        })
+        .map(skill => {
+          const key = SkillTaxonomyService.normalizeKey(skill);
+          return { key: `skill:${key}`, status: skillKeys.has(key) ? 'DUPLICATE' : 'NEW', skill };
+        }),
+      links,
+      education: parsed.education,
+      otherLinks: parsed.links.other,
+      warnings
+    };
+  }
+
+  private static toPreview(record: {
+    id: string;
+    filename: string;
+    format: string;
+    status: string;
+    expiresAt: Date;
+    draft: Prisma.JsonValue;
+  }): ResumeImportPreview {
+    return {
+      importId: record.id,
+      filename: record.filename,
+      format: record.format as ResumeFileFormat,
+      status: record.status,
+      expiresAt: record.expiresAt,
+      draft: record.draft as unknown as ResumeImportDraft
+    };
+  }
+
+  private static normalize(value: string | null | undefined): string {
+    return (value || '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+  }
+
+  private static experienceKey(title: string | null, company: string | null): string {
+    return `${this.normalize(title)}|${this.normalize(company)}`;
+  }
+
+  private static sameUrl(a: string, b: string): boolean {
+    const clean = (url: string) => url.toLowerCase().replace(/^https?:\/\/(www\.)?/, '').replace(/\/+$/, '');
+    return clean(a) === clean(b);
+  }
+}
@@ -0,0 +1,393 @@
+/**
+ * Resume Service
+ * Builds a resume from profile data (experience, projects, publications, skills and badges)
+ * and renders it as HTML or PDF in one of several templates, entirely in-process
+ */
+
+import { prisma } from '../db.js';
+import { PdfDocument, PdfColor, PdfTextStyle } from '../utils/PdfDocument.js';
+import { BadgeExpiryService } from './BadgeExpiryService.js';
+import { BadgeTierService } from './BadgeTierService.js';
+import { SkillEndorsementService } from './SkillEndorsementService.js';
+
+export type ResumeTemplate = 'classic' | 'modern' | 'compact';
+
+export const RESUME_TEMPLATES: ResumeTemplate[] = ['classic', 'modern', 'compact'];
+
+export interface ResumeOwner {
+  id: string;
+  displayName?: string;
+  email?: string;
+  department?: string;
+  year?: number;
+  collegeName?: string | null;
+}
+
+export interface ResumeOptions {
+  projectIds?: string[]; // Defaults to every visible project
+  publicationIds?: string[]; // Defaults to every publication
+  includeBadges?: boolean;
+}
+
+export interface ResumeEntry {
+  title: string;
+  subtitle: string | null;
+  dates: string | null;
+  description: string | null;
+  details: string[];
+  link: string | null;
+}
+
+export interface ResumeData {
+  name: string;
+  headline: string | null;
+  contact: string[];
+  links: string[];
+  summary: string | null;
+  skills: string[];
+  experience: ResumeEntry[];
+  projects: ResumeEntry[];
+  publications: ResumeEntry[];
+  badges: string[];
+}
+
+interface TemplateStyle {
+  accent: PdfColor;
+  css: { accent: string; font: string; size: string };
+  nameSize: number;
+  headingSize: number;
+  bodySize: number;
+  centeredHeader: boolean;
+  showSummary: boolean;
+  inlineSkills: boolean;
+  gap: number;
+}
+
+const TEMPLATE_STYLES: Record<ResumeTemplate, TemplateStyle> = {
+  classic: {
+    accent: [0, 0, 0],
+    css: { accent: '#000000', font: 'Georgia, "Times New Roman", serif', size: '11pt' },
+    nameSize: 22,
+    headingSize: 12,
+    bodySize: 10.5,
+    centeredHeader: true,
+    showSummary: true,
+    inlineSkills: true,
+    gap: 10
+  },
+  modern: {
+    accent: [0.12, 0.36, 0.72],
+    css: { accent: '#1f5cb8', font: 'Helvetica, Arial, sans-serif', size: '10.5pt' },
+    nameSize: 26,
+    headingSize: 12.5,
+    bodySize: 10.5,
+    centeredHeader: false,
+    showSummary: true,
+    inlineSkills: false,
+    gap: 12
+  },
+  compact: {
+    accent: [0.2, 0.2, 0.2],
+    css: { accent: '#333333', font: 'Helvetica, Arial, sans-serif', size: '9.5pt' },
+    nameSize: 18,
+    headingSize: 10.5,
+    bodySize: 9,
+    centeredHeader: false,
+    showSummary: false,
+    inlineSkills: true,
+    gap: 6
+  }
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const SKILL_LEVEL_LABELS: Record<string, string> = {
+  BEGINNER: 'Beginner',
+  INTERMEDIATE: 'Intermediate',
+  ADVANCED: 'Advanced',
+  EXPERT: 'Expert'
+};
+
+export class ResumeError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = 'ResumeError';
+  }
+}
+
+export class ResumeService {
+  /**
+   * Collect the resume content for a profile owner
+   */
+  static async build(owner: ResumeOwner, options: ResumeOptions = {}): Promise<ResumeData> {
+    const profile = await prisma.profile.findUnique({
+      where: { userId: owner.id },
+      include: {
+        experiences: { where: { deletedAt: null } },
+        personalProjects: { where: { deletedAt: null } },
+        publications: { where: { deletedAt: null } },
+        studentBadges: {
+          where: BadgeExpiryService.activeAwardWhere(),
+          include: { badge: true }
+        }
+      }
+    });
+
+    if (!profile) {
+      throw new ResumeError('Create your profile before generating a resume', 404);
+    }
+
+    const projects = this.select(
+      profile.personalProjects,
+      options.projectIds,
+      project => project.isVisible,
+      'project'
+    );
+    const publications = this.select(profile.publications, options.publicationIds, () => true, 'publication');
+    const skillDetails = await SkillEndorsementService.getSkillDetails(owner.id, profile.skills);
+
+    const headline = [owner.department, owner.year ? `Year ${owner.year}` : null, owner.collegeName]
+      .filter(Boolean)
+      .join(' · ');
+
+    return {
+      name: profile.name || owner.displayName || '',
+      headline: headline || null,
+      contact: [owner.email, profile.phoneNumber].filter((value): value is string => Boolean(value)),
+      links: [profile.linkedIn, profile.github, profile.twitter].filter((value): value is string => Boolean(value)),
+      summary: profile.bio || null,
+      skills: skillDetails.map(detail =>
+        detail.level ? `${detail.skill} (${SKILL_LEVEL_LABELS[detail.level]})` : detail.skill
+      ),
+      experience: profile.experiences
+        .sort((a, b) => Number(b.isCurrent) - Number(a.isCurrent) || this.time(b.startDate) - this.time(a.startDate))
+        .map(experience => ({
+          title: experience.title || experience.area || 'Experience',
+          subtitle: [experience.company, experience.location].filter(Boolean).join(', ') || null,
+          dates: this.range(experience.startDate, experience.endDate, experience.isCurrent),
+          description: experience.description,
+          details: [],
+          link: null
+        })),
+      projects: projects
+        .sort((a, b) => this.time(b.endDate ?? b.startDate ?? b.createdAt) - this.time(a.endDate ?? a.startDate ?? a.createdAt))
+        .map(project => ({
+          title: project.title,
+          subtitle: project.technologies.length > 0 ? project.technologies.join(', ') : null,
+          dates: this.range(project.startDate, project.endDate, false),
+          description: project.description,
+          details: [],
+          link: project.githubUrl || project.liveUrl || project.github || project.demoLink || null
+        })),
+      publications: publications
+        .sort((a, b) => this.time(b.publishedAt) - this.time(a.publishedAt) || (b.year ?? 0) - (a.year ?? 0))
+        .map(publication => ({
+          title: publication.title,
+          subtitle: [publication.journal || publication.conference, this.year(publication.publishedAt, publication.year)]
+            .filter(Boolean)
+            .join(', ') || null,
+          dates: null,
+          description: publication.authors.length > 0 ? publication.authors.join(', ') : null,
+          details: publication.doi ? [`DOI: ${publication.doi}`] : [],
+          link: publication.url || publication.link || null
+        })),
+      badges: options.includeBadges === false
+        ? []
+        : BadgeTierService.summarize(profile.studentBadges).map(summary =>
+            summary.levelName
+              ? `${summary.badgeName} (${summary.levelName})`
+              : summary.count > 1 ? `${summary.badgeName} ×${summary.count}` : summary.badgeName
+          )
+    };
+  }
+
+  /**
+   * Standalone HTML document, print-ready
+   */
+  static renderHtml(data: ResumeData, template: ResumeTemplate): string {
+    const style = TEMPLATE_STYLES[template];
+    const esc = (value: string) => this.escapeHtml(value);
+
+    const entries = (items: ResumeEntry[]) => items.map(item => `
+      <div class="entry">
+        <div class="entry-head"><strong>${esc(item.title)}</strong>${item.dates ? `<span class="dates">${esc(item.dates)}</span>` : ''}</div>
+        ${item.subtitle ? `<div class="subtitle">${esc(item.subtitle)}</div>` : ''}
+        ${item.description ? `<p>${esc(item.description)}</p>` : ''}
+        ${item.details.map(detail => `<div class="detail">${esc(detail)}</div>`).join('')}
+        ${item.link ? `<div class="detail"><a href="${esc(this.safeUrl(item.link))}">${esc(item.link)}</a></div>` : ''}
+      </div>`).join('');
+
+    const section = (title: string, body: string) => body ? `
+    <section>
+      <h2>${esc(title)}</h2>
+      ${body}
+    </section>` : '';
+
+    const skills = data.skills.length === 0
+      ? ''
+      : style.inlineSkills
+        ? `<p>${data.skills.map(esc).join(' · ')}</p>`
+        : `<ul class="tags">${data.skills.map(skill => `<li>${esc(skill)}</li>`).join('')}</ul>`;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${esc(data.name)} – Resume</title>
+  <style>
+    body { font-family: ${style.css.font}; font-size: ${style.css.size}; color: #222; max-width: 800px; margin: 32px auto; padding: 0 24px; line-height: 1.4; }
+    header { text-align: ${style.centeredHeader ? 'center' : 'left'}; border-bottom: 2px solid ${style.css.accent}; padding-bottom: 8px; margin-bottom: ${style.gap}px; }
+    h1 { margin: 0; font-size: ${style.nameSize}pt; color: ${style.css.accent}; }
+    .headline, .contact { color: #555; }
+    h2 { font-size: ${style.headingSize}pt; text-transform: uppercase; letter-spacing: 0.05em; color: ${style.css.accent}; border-bottom: 1px solid #ccc; margin: ${style.gap + 4}px 0 6px; }
+    .entry { margin-bottom: ${style.gap}px; }
+    .entry-head { display: flex; justify-content: space-between; }
+    .dates, .subtitle, .detail { color: #555; }
+    p { margin: 4px 0; }
+    ul.tags { list-style: none; padding: 0; margin: 0; }
+    ul.tags li { display: inline-block; border: 1px solid ${style.css.accent}; border-radius: 3px; padding: 1px 6px; margin: 0 4px 4px 0; }
+    a { color: inherit; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body class="template-${template}">
+  <header>
+    <h1>${esc(data.name)}</h1>
+    ${data.headline ? `<div class="headline">${esc(data.headline)}</div>` : ''}
+    ${data.contact.length + data.links.length > 0 ? `<div class="contact">${[...data.contact, ...data.links].map(esc).join(' · ')}</div>` : ''}
+  </header>${style.showSummary && data.summary ? section('Summary', `<p>${esc(data.summary)}</p>`) : ''}${section('Experience', entries(data.experience))}${section('Projects', entries(data.projects))}${section('Skills', skills)}${section('Publications', entries(data.publications))}${section('Badges & Recognition', data.badges.length > 0 ? `<p>${data.badges.map(esc).join(' · ')}</p>` : '')}
+</body>
+</html>
+`;
+  }
+
+  /**
+   * PDF document rendered with the built-in PDF writer
+   */
+  static renderPdf(data: ResumeData, template: ResumeTemplate): Buffer {
+    const style = TEMPLATE_STYLES[template];
+    const pdf = new PdfDocument({ title: `${data.name} – Resume`, author: data.name, margin: template === 'compact' ? 40 : 50 });
+    const body: PdfTextStyle = { size: style.bodySize };
+    const muted: PdfTextStyle = { size: style.bodySize, color: [0.35, 0.35, 0.35] };
+    const align = style.centeredHeader ? 'center' : 'left';
+
+    pdf.text(data.name, { font: 'bold', size: style.nameSize, color: style.accent, align, lineHeight: 1.2 });
+    if (data.headline) pdf.text(data.headline, { ...muted, align });
+    if (data.contact.length + data.links.length > 0) {
+      pdf.text([...data.contact, ...data.links].join(' · '), { ...muted, align });
+    }
+    pdf.rule(style.accent, 1.5);
+
+    const heading = (title: string) => {
+      pdf.moveDown(style.gap / 2);
+      pdf.text(title.toUpperCase(), { font: 'bold', size: style.headingSize, color: style.accent });
+      pdf.rule();
+    };
+
+    const entries = (items: ResumeEntry[]) => {
+      for (const item of items) {
+        pdf.row(item.title, item.dates || '', { ...body, font: 'bold' }, { font: 'regular', color: [0.35, 0.35, 0.35] });
+        if (item.subtitle) pdf.text(item.subtitle, { ...muted, font: 'italic' });
+        if (item.description) pdf.text(item.description, body);
+        item.details.forEach(detail => pdf.text(detail, muted));
+        if (item.link) pdf.text(item.link, muted);
+        pdf.moveDown(style.gap / 2);
+      }
+    };
+
+    if (style.showSummary && data.summary) {
+      heading('Summary');
+      pdf.text(data.summary, body);
+    }
+
+    if (data.experience.length > 0) {
+      heading('Experience');
+      entries(data.experience);
+    }
+
+    if (data.projects.length > 0) {
+      heading('Projects');
+      entries(data.projects);
+    }
+
+    if (data.skills.length > 0) {
+      heading('Skills');
+      if (style.inlineSkills) {
+        pdf.text(data.skills.join(' · '), body);
+      } else {
+        data.skills.forEach(skill => pdf.text(`• ${skill}`, { ...body, indent: 8 }));
+      }
+    }
+
+    if (data.publications.length > 0) {
+      heading('Publications');
+      entries(data.publications);
+    }
+
+    if (data.badges.length > 0) {
+      heading('Badges & Recognition');
+      pdf.text(data.badges.join(' · '), body);
+    }
+
+    return pdf.toBuffer();
+  }
+
+  // Private helper methods
+
+  /**
+   * Pick the requested items in the order given, or the default set when none are requested
+   */
+  private static select<T extends { id: string }>(
+    items: T[],
+    ids: string[] | undefined,
+    includeByDefault: (item: T) => boolean,
+    label: string
+  ): T[] {
+    if (!ids) return items.filter(includeByDefault);
+
+    const byId = new Map(items.map(item => [item.id, item]));
+    const unknown = ids.filter(id => !byId.has(id));
+    if (unknown.length > 0) {
+      throw new ResumeError(`Unknown ${label} id(s): ${unknown.join(', ')}`, 400);
+    }
+
+    return [...new Set(ids)].map(id => byId.get(id)!);
+  }
+
+  private static time(date: Date | null | undefined): number {
+    return date ? date.getTime() : 0;
+  }
+
+  private static month(date: Date): string {
+    return `${MONTHS[date.getUTCMonth()]} ${date.getUTCFullYear()}`;
+  }
+
+  private static range(start: Date | null, end: Date | null, isCurrent: boolean): string | null {
+    if (!start && !end) return isCurrent ? 'Present' : null;
+
+    const from = start ? this.month(start) : '';
+    const to = isCurrent ? 'Present' : end ? this.month(end) : '';
+    return from && to && from !== to ? `${from} – ${to}` : from || to;
+  }
+
+  private static year(publishedAt: Date | null, legacyYear: number | null): string | null {
+    if (publishedAt) return String(publishedAt.getUTCFullYear());
+    return legacyYear ? String(legacyYear) : null;
+  }
+
+  private static escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  /**
+   * Only http(s) and mailto links are rendered as anchors
+   */
+  private static safeUrl(value: string): string {
+    return /^(https?:|mailto:)/i.test(value.trim()) ? value.trim() : '#';
+  }
+}
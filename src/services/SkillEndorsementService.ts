@@ -0,0 +1,311 @@
+/**
+ * Skill Endorsement Service
+ * Self-declared proficiency levels for profile skills and endorsements from faculty and peers
+ * of the same college. Counts feed profile views, search ranking and placement scores
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db.js';
+import { AuthServiceClient } from '../utils/AuthServiceClient.js';
+import { SkillTaxonomyService } from './SkillTaxonomyService.js';
+
+export type SkillLevel = 'BEGINNER' | 'INTERMEDIATE' | 'ADVANCED' | 'EXPERT';
+
+export const SKILL_LEVELS: SkillLevel[] = ['BEGINNER', 'INTERMEDIATE', 'ADVANCED', 'EXPERT'];
+
+export interface SkillDetail {
+  skill: string;
+  level: SkillLevel | null;
+  yearsExp: number | null;
+  endorsementCount: number;
+  facultyEndorsementCount: number;
+  endorsedByViewer?: boolean;
+}
+
+export interface SkillSignals {
+  endorsementCount: number;
+  endorsedSkillCount: number;
+  facultyEndorsedSkillCount: number;
+  advancedSkillCount: number; // ADVANCED or EXPERT skills backed by at least one endorsement
+}
+
+export interface Endorser {
+  id: string;
+  displayName?: string;
+  roles: string[];
+  collegeId?: string;
+}
+
+export class SkillEndorsementError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = 'SkillEndorsementError';
+  }
+}
+
+export class SkillEndorsementService {
+  /**
+   * Set the owner's declared level for one of their skills
+   */
+  static async setProficiency(userId: string, skill: string, input: { level: SkillLevel; yearsExp?: number | null }) {
+    const stored = await this.findProfileSkill(userId, skill);
+
+    return await prisma.skillProficiency.upsert({
+      where: { userId_skill: { userId, skill: stored } },
+      update: { level: input.level, yearsExp: input.yearsExp ?? null },
+      create: { userId, skill: stored, level: input.level, yearsExp: input.yearsExp ?? null }
+    });
+  }
+
+  /**
+   * Clear the owner's declared level for a skill
+   */
+  static async clearProficiency(userId: string, skill: string): Promise<void> {
+    const stored = await this.findProfileSkill(userId, skill);
+    await prisma.skillProficiency.deleteMany({ where: { userId, skill: stored } });
+  }
+
+  /**
+   * Drop declared levels for skills no longer on the profile
+   * Endorsements are kept so they return if the skill is added back
+   */
+  static async pruneProficiencies(userId: string, skills: string[]): Promise<void> {
+    await prisma.skillProficiency.deleteMany({
+      where: { userId, skill: { notIn: skills } }
+    });
+  }
+
+  /**
+   * Level and endorsement counts for each of a profile's skills, in profile order
+   */
+  static async getSkillDetails(userId: string, skills: string[], viewerId?: string): Promise<SkillDetail[]> {
+    if (skills.length === 0) return [];
+
+    const [proficiencies, counts, viewerEndorsements] = await Promise.all([
+      prisma.skillProficiency.findMany({
+        where: { userId, skill: { in: skills } },
+        select: { skill: true, level: true, yearsExp: true }
+      }),
+      prisma.skillEndorsement.groupBy({
+        by: ['skill', 'endorserRole'],
+        where: { userId, skill: { in: skills } },
+        _count: { _all: true }
+      }),
+      viewerId && viewerId !== userId
+        ? prisma.skillEndorsement.findMany({
+            where: { userId, endorserId: viewerId, skill: { in: skills } },
+            select: { skill: true }
+          })
+        : Promise.resolve(null)
+    ]);
+
+    const levels = new Map(proficiencies.map(proficiency => [proficiency.skill, proficiency]));
+    const endorsedByViewer = viewerEndorsements ? new Set(viewerEndorsements.map(endorsement => endorsement.skill)) : null;
+
+    return skills.map(skill => {
+      const skillCounts = counts.filter(count => count.skill === skill);
+      const proficiency = levels.get(skill);
+
+      return {
+        skill,
+        level: (proficiency?.level as SkillLevel | undefined) ?? null,
+        yearsExp: proficiency?.yearsExp ?? null,
+        endorsementCount: skillCounts.reduce((sum, count) => sum + count._count._all, 0),
+        facultyEndorsementCount: skillCounts
+          .filter(count => count.endorserRole === 'FACULTY')
+          .reduce((sum, count) => sum + count._count._all, 0),
+        ...(endorsedByViewer ? { endorsedByViewer: endorsedByViewer.has(skill) } : {})
+      };
+    });
+  }
+
+  /**
+   * Endorse a skill on another member's profile
+   */
+  static async endorse(
+    userId: string,
+    skill: string,
+    endorser: Endorser,
+    authHeader: string,
+    comment?: string
+  ) {
+    if (userId === endorser.id) {
+      throw new SkillEndorsementError('You cannot endorse your own skills', 400);
+    }
+
+    if (!endorser.collegeId) {
+      throw new SkillEndorsementError('College information is required to endorse skills', 403);
+    }
+
+    const stored = await this.findProfileSkill(userId, skill);
+
+    const target = await AuthServiceClient.getUser(userId, authHeader);
+    if (!target || target.collegeId !== endorser.collegeId) {
+      throw new SkillEndorsementError('You can only endorse members of your own college', 403);
+    }
+
+    try {
+      return await prisma.skillEndorsement.create({
+        data: {
+          userId,
+          skill: stored,
+          endorserId: endorser.id,
+          endorserName: endorser.displayName,
+          endorserRole: endorser.roles.includes('FACULTY') ? 'FACULTY' : 'STUDENT',
+          collegeId: endorser.collegeId,
+          comment
+        }
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new SkillEndorsementError('You have already endorsed this skill', 409);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Withdraw the endorser's endorsement of a skill
+   */
+  static async withdraw(userId: string, skill: string, endorserId: string): Promise<void> {
+    const stored = await this.findProfileSkill(userId, skill);
+
+    const { count } = await prisma.skillEndorsement.deleteMany({
+      where: { userId, skill: stored, endorserId }
+    });
+
+    if (count === 0) {
+      throw new SkillEndorsementError('Endorsement not found', 404);
+    }
+  }
+
+  /**
+   * Endorsements of one skill, faculty first then newest
+   */
+  static async listEndorsements(userId: string, skill: string) {
+    const stored = await this.findProfileSkill(userId, skill);
+
+    return await prisma.skillEndorsement.findMany({
+      where: { userId, skill: stored },
+      select: {
+        id: true,
+        endorserId: true,
+        endorserName: true,
+        endorserRole: true,
+        comment: true,
+        createdAt: true
+      },
+      orderBy: [{ endorserRole: 'asc' }, { createdAt: 'desc' }]
+    });
+  }
+
+  /**
+   * Endorsement signals per user for scoring, counting only skills still on each profile
+   */
+  static async getSkillSignals(userIds: string[]): Promise<Map<string, SkillSignals>> {
+    const signals = new Map<string, SkillSignals>();
+    if (userIds.length === 0) return signals;
+
+    const [profiles, endorsements, proficiencies] = await Promise.all([
+      prisma.profile.findMany({
+        where: { userId: { in: userIds } },
+        select: { userId: true, skills: true }
+      }),
+      prisma.skillEndorsement.groupBy({
+        by: ['userId', 'skill', 'endorserRole'],
+        where: { userId: { in: userIds } },
+        _count: { _all: true }
+      }),
+      prisma.skillProficiency.findMany({
+        where: { userId: { in: userIds }, level: { in: ['ADVANCED', 'EXPERT'] } },
+        select: { userId: true, skill: true }
+      })
+    ]);
+
+    for (const profile of profiles) {
+      const skills = new Set(profile.skills);
+      const own = endorsements.filter(entry => entry.userId === profile.userId && skills.has(entry.skill));
+      const endorsedSkills = new Set(own.map(entry => entry.skill));
+      const facultyEndorsedSkills = new Set(own.filter(entry => entry.endorserRole === 'FACULTY').map(entry => entry.skill));
+
+      signals.set(profile.userId, {
+        endorsementCount: own.reduce((sum, entry) => sum + entry._count._all, 0),
+        endorsedSkillCount: endorsedSkills.size,
+        facultyEndorsedSkillCount: facultyEndorsedSkills.size,
+        advancedSkillCount: proficiencies.filter(
+          proficiency => proficiency.userId === profile.userId && endorsedSkills.has(proficiency.skill)
+        ).length
+      });
+    }
+
+    return signals;
+  }
+
+  /**
+   * Placement score points (0-10) for skills that others have vouched for
+   */
+  static skillCredibility(signals?: SkillSignals): number {
+    if (!signals) return 0;
+
+    const points = signals.endorsedSkillCount * 2
+      + signals.facultyEndorsedSkillCount
+      + signals.advancedSkillCount;
+
+    return Math.min(points, 10);
+  }
+
+  /**
+   * Move declared levels and endorsements to a skill's new canonical name
+   * Endorsements the same endorser already gave under the new name are dropped
+   */
+  static async renameSkill(userId: string, from: string, to: string): Promise<void> {
+    if (from === to) return;
+
+    await prisma.$transaction(async (tx) => {
+      const existingLevel = await tx.skillProficiency.findUnique({
+        where: { userId_skill: { userId, skill: to } }
+      });
+
+      if (existingLevel) {
+        await tx.skillProficiency.deleteMany({ where: { userId, skill: from } });
+      } else {
+        await tx.skillProficiency.updateMany({ where: { userId, skill: from }, data: { skill: to } });
+      }
+
+      const alreadyEndorsed = await tx.skillEndorsement.findMany({
+        where: { userId, skill: to },
+        select: { endorserId: true }
+      });
+
+      await tx.skillEndorsement.deleteMany({
+        where: { userId, skill: from, endorserId: { in: alreadyEndorsed.map(entry => entry.endorserId) } }
+      });
+      await tx.skillEndorsement.updateMany({
+        where: { userId, skill: from },
+        data: { skill: to }
+      });
+    });
+  }
+
+  // Private helper methods
+
+  /**
+   * Resolve a skill name to the spelling stored on the profile
+   */
+  private static async findProfileSkill(userId: string, skill: string): Promise<string> {
+    const profile = await prisma.profile.findUnique({
+      where: { userId },
+      select: { skills: true }
+    });
+
+    const [canonical] = await SkillTaxonomyService.canonicalize([skill]);
+    const keys = new Set([skill, canonical || ''].map(value => SkillTaxonomyService.normalizeKey(value)));
+    const stored = profile?.skills.find(value => keys.has(SkillTaxonomyService.normalizeKey(value)));
+
+    if (!stored) {
+      throw new SkillEndorsementError('Skill not found on this profile', 404);
+    }
+
+    return stored;
+  }
+}
@@ -0,0 +1,507 @@
+/**
+ * Skill Taxonomy Service
+ * Managed skill catalogue with canonical names, aliases and categories
+ * Profile skills are normalised against it on write; unknown skills are kept as typed
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db.js';
+import { RedisCache } from '../utils/redisClient.js';
+import { ProfileSearchService } from './ProfileSearchService.js';
+import { SkillEndorsementService } from './SkillEndorsementService.js';
+import { ProfileHistoryService } from './ProfileHistoryService.js';
+
+export interface SkillInput {
+  name: string;
+  category?: string | null;
+  aliases?: string[];
+}
+
+export interface SkillUpdateInput {
+  name?: string;
+  category?: string | null;
+  aliases?: string[]; // Replaces the alias list
+  isActive?: boolean;
+}
+
+export interface SkillMergeRequest {
+  targetSkillId: string;
+  sourceSkillIds?: string[]; // Catalogue skills folded into the target and deleted
+  sourceNames?: string[];    // Free-text variants found on profiles, added as aliases
+}
+
+export interface SkillSuggestion {
+  id: string;
+  name: string;
+  category: string | null;
+  matchedAlias?: string;
+}
+
+export interface SkillRewriteResult {
+  scanned: number;
+  updated: number;
+}
+
+const skillWithAliases = {
+  aliases: {
+    select: { id: true, alias: true },
+    orderBy: { alias: 'asc' }
+  }
+} as const;
+
+export class SkillTaxonomyService {
+  static readonly MAX_PROFILE_SKILLS = 50;
+  private static readonly LOOKUP_TTL_MS = 5 * 60 * 1000; // 5 minutes
+  private static readonly REWRITE_BATCH_SIZE = 200;
+  private static lookup?: { expiresAt: number; canonical: Map<string, string> };
+
+  /**
+   * Comparison key for skill names: "Java Script", "javascript" and "JAVA_SCRIPT" share one key
+   * Symbols such as + and # are kept so C, C++ and C# stay distinct
+   */
+  static normalizeKey(value: string): string {
+    return value.normalize('NFKC').toLowerCase().replace(/[\s._-]+/g, '');
+  }
+
+  /**
+   * Resolve skills to their canonical names, dropping blanks and duplicates
+   * Skills missing from the catalogue are kept with whitespace tidied
+   */
+  static async canonicalize(skills: string[]): Promise<string[]> {
+    const canonical = await this.getLookup();
+    const seen = new Set<string>();
+    const result: string[] = [];
+
+    for (const skill of skills) {
+      const tidied = skill.trim().replace(/\s+/g, ' ');
+      const key = this.normalizeKey(tidied);
+      if (!key) continue;
+
+      const name = canonical.get(key) ?? tidied;
+      const nameKey = this.normalizeKey(name);
+      if (seen.has(nameKey)) continue;
+
+      seen.add(nameKey);
+      result.push(name);
+    }
+
+    return result;
+  }
+
+  /**
+   * Catalogue skills matching a prefix of their name or an alias, best matches first
+   */
+  static async autocomplete(query: string, limit: number = 10): Promise<SkillSuggestion[]> {
+    const key = this.normalizeKey(query);
+    if (!key) return [];
+
+    const [byName, byAlias] = await Promise.all([
+      prisma.skill.findMany({
+        where: {
+          isActive: true,
+          OR: [
+            { normalizedName: { startsWith: key } },
+            { name: { contains: query.trim(), mode: 'insensitive' } }
+          ]
+        },
+        select: { id: true, name: true, normalizedName: true, category: true },
+        take: limit * 2
+      }),
+      prisma.skillAlias.findMany({
+        where: {
+          normalizedAlias: { startsWith: key },
+          skill: { isActive: true }
+        },
+        select: {
+          alias: true,
+          normalizedAlias: true,
+          skill: { select: { id: true, name: true, category: true } }
+        },
+        take: limit * 2
+      })
+    ]);
+
+    // 0 = exact, 1 = name prefix, 2 = alias prefix, 3 = name contains
+    const ranked = new Map<string, SkillSuggestion & { score: number }>();
+    const consider = (suggestion: SkillSuggestion, score: number) => {
+      const existing = ranked.get(suggestion.id);
+      if (!existing || score < existing.score) {
+        ranked.set(suggestion.id, { ...suggestion, score });
+      }
+    };
+
+    for (const skill of byName) {
+      const score = skill.normalizedName === key ? 0 : skill.normalizedName.startsWith(key) ? 1 : 3;
+      consider({ id: skill.id, name: skill.name, category: skill.category }, score);
+    }
+
+    for (const alias of byAlias) {
+      consider(
+        { ...alias.skill, matchedAlias: alias.alias },
+        alias.normalizedAlias === key ? 0 : 2
+      );
+    }
+
+    return [...ranked.values()]
+      .sort((a, b) => a.score - b.score || a.name.length - b.name.length || a.name.localeCompare(b.name))
+      .slice(0, limit)
+      .map(({ score, ...suggestion }) => suggestion);
+  }
+
+  /**
+   * List catalogue skills with their aliases
+   */
+  static async listSkills(
+    filters: { search?: string; category?: string; includeInactive?: boolean },
+    pagination: { page: number; limit: number }
+  ) {
+    const take = Math.min(pagination.limit, 100);
+    const skip = (pagination.page - 1) * take;
+
+    const where: Prisma.SkillWhereInput = {};
+    if (!filters.includeInactive) where.isActive = true;
+    if (filters.category) where.category = filters.category;
+    if (filters.search) {
+      const key = this.normalizeKey(filters.search);
+      where.OR = [
+        { name: { contains: filters.search.trim(), mode: 'insensitive' } },
+        { aliases: { some: { normalizedAlias: { contains: key } } } }
+      ];
+    }
+
+    const [items, total] = await Promise.all([
+      prisma.skill.findMany({
+        where,
+        include: skillWithAliases,
+        orderBy: { name: 'asc' },
+        skip,
+        take
+      }),
+      prisma.skill.count({ where })
+    ]);
+
+    return {
+      items,
+      pagination: {
+        page: pagination.page,
+        limit: take,
+        total,
+        totalPages: Math.ceil(total / take)
+      }
+    };
+  }
+
+  /**
+   * Add a skill to the catalogue
+   */
+  static async createSkill(input: SkillInput, adminId: string) {
+    const name = this.tidy(input.name);
+    const normalizedName = this.normalizeKey(name);
+    const aliases = this.prepareAliases(input.aliases || [], normalizedName);
+
+    await this.assertKeysAvailable([normalizedName, ...aliases.map(alias => alias.normalizedAlias)]);
+
+    const skill = await prisma.skill.create({
+      data: {
+        name,
+        normalizedName,
+        category: input.category ?? null,
+        createdBy: adminId,
+        aliases: { create: aliases }
+      },
+      include: skillWithAliases
+    });
+
+    this.invalidateLookup();
+    return skill;
+  }
+
+  /**
+   * Update a catalogue skill
+   * Renaming rewrites profiles that hold the old name
+   */
+  static async updateSkill(skillId: string, input: SkillUpdateInput) {
+    const skill = await prisma.skill.findUnique({
+      where: { id: skillId },
+      include: { aliases: true }
+    });
+
+    if (!skill) {
+      throw new Error('Skill not found');
+    }
+
+    const name = input.name !== undefined ? this.tidy(input.name) : skill.name;
+    const normalizedName = this.normalizeKey(name);
+    const aliases = input.aliases !== undefined ? this.prepareAliases(input.aliases, normalizedName) : undefined;
+
+    const newKeys = [
+      ...(normalizedName !== skill.normalizedName ? [normalizedName] : []),
+      ...(aliases || []).map(alias => alias.normalizedAlias)
+    ];
+    await this.assertKeysAvailable(newKeys, skill.id);
+
+    const updated = await prisma.$transaction(async (tx) => {
+      if (aliases !== undefined) {
+        await tx.skillAlias.deleteMany({ where: { skillId } });
+      }
+
+      // Keep the old name resolvable after a rename
+      const renamedFrom = name !== skill.name && normalizedName !== skill.normalizedName
+        && !(aliases || skill.aliases).some(alias => alias.normalizedAlias === skill.normalizedName)
+        ? [{ alias: skill.name, normalizedAlias: skill.normalizedName }]
+        : [];
+
+      return await tx.skill.update({
+        where: { id: skillId },
+        data: {
+          name,
+          normalizedName,
+          ...(input.category !== undefined ? { category: input.category } : {}),
+          ...(input.isActive !== undefined ? { isActive: input.isActive } : {}),
+          aliases: { create: [...(aliases || []), ...renamedFrom] }
+        },
+        include: skillWithAliases
+      });
+    });
+
+    this.invalidateLookup();
+
+    if (name !== skill.name) {
+      await this.rewriteProfiles([skill.normalizedName, normalizedName]);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Merge catalogue skills and free-text variants into one canonical skill
+   * Source names become aliases of the target and every affected profile is rewritten
+   */
+  static async mergeSkills(request: SkillMergeRequest) {
+    const target = await prisma.skill.findUnique({
+      where: { id: request.targetSkillId },
+      include: { aliases: true }
+    });
+
+    if (!target) {
+      throw new Error('Target skill not found');
+    }
+
+    const sourceIds = [...new Set(request.sourceSkillIds || [])].filter(id => id !== target.id);
+    const sources = await prisma.skill.findMany({
+      where: { id: { in: sourceIds } },
+      include: { aliases: true }
+    });
+
+    if (sources.length !== sourceIds.length) {
+      throw new Error('One or more source skills were not found');
+    }
+
+    const sourceNames = (request.sourceNames || []).map(name => this.tidy(name)).filter(Boolean);
+    if (sources.length === 0 && sourceNames.length === 0) {
+      throw new Error('Nothing to merge: provide sourceSkillIds or sourceNames');
+    }
+
+    const existingKeys = new Set([target.normalizedName, ...target.aliases.map(alias => alias.normalizedAlias)]);
+    const newAliases = this.prepareAliases(
+      [
+        ...sources.flatMap(source => [source.name, ...source.aliases.map(alias => alias.alias)]),
+        ...sourceNames
+      ],
+      target.normalizedName
+    ).filter(alias => !existingKeys.has(alias.normalizedAlias));
+
+    // Free-text variants must not belong to a skill outside the merge
+    await this.assertKeysAvailable(
+      sourceNames.map(name => this.normalizeKey(name)),
+      target.id,
+      sourceIds
+    );
+
+    const merged = await prisma.$transaction(async (tx) => {
+      await tx.skillAlias.deleteMany({ where: { skillId: { in: sourceIds } } });
+      await tx.skill.deleteMany({ where: { id: { in: sourceIds } } });
+
+      return await tx.skill.update({
+        where: { id: target.id },
+        data: { aliases: { create: newAliases } },
+        include: skillWithAliases
+      });
+    });
+
+    this.invalidateLookup();
+
+    const rewrite = await this.rewriteProfiles([
+      target.normalizedName,
+      ...newAliases.map(alias => alias.normalizedAlias)
+    ]);
+
+    return {
+      skill: merged,
+      mergedSkills: sources.length,
+      aliasesAdded: newAliases.length,
+      profilesUpdated: rewrite.updated
+    };
+  }
+
+  /**
+   * Rewrite profile skills to canonical names
+   * With keys, only profiles holding a skill with one of those normalised keys are scanned
+   */
+  static async rewriteProfiles(keys?: string[], options: { dryRun?: boolean } = {}): Promise<SkillRewriteResult> {
+    this.invalidateLookup();
+    let scanned = 0;
+    let updated = 0;
+    let cursor: string | undefined;
+
+    while (true) {
+      const batch = keys
+        ? await prisma.$queryRaw<Array<{ userId: string; skills: string[] }>>`
+            SELECT p."userId", p.skills
+            FROM "Profile" p
+            WHERE EXISTS (
+              SELECT 1 FROM unnest(p.skills) AS skill
+              WHERE regexp_replace(lower(skill), '[[:space:]._-]+', '', 'g') = ANY(${keys}::text[])
+            )
+            ${cursor ? Prisma.sql`AND p."userId" > ${cursor}` : Prisma.empty}
+            ORDER BY p."userId"
+            LIMIT ${this.REWRITE_BATCH_SIZE}`
+        : await prisma.profile.findMany({
+            select: { userId: true, skills: true },
+            where: cursor ? { userId: { gt: cursor } } : undefined,
+            orderBy: { userId: 'asc' },
+            take: this.REWRITE_BATCH_SIZE
+          });
+
+      if (batch.length === 0) break;
+
+      for (const profile of batch) {
+        const skills = (await this.canonicalize(profile.skills)).slice(0, this.MAX_PROFILE_SKILLS);
+        const changed = skills.length !== profile.skills.length
+          || skills.some((skill, index) => skill !== profile.skills[index]);
+
+        if (changed) {
+          updated++;
+          if (!options.dryRun) {
+            const rewritten = await prisma.profile.update({
+              where: { userId: profile.userId },
+              data: { skills }
+            });
+            await ProfileHistoryService.record({
+              userId: profile.userId,
+              entityType: 'PROFILE',
+              entityId: rewritten.id,
+              before: { ...rewritten, skills: profile.skills },
+              after: rewritten,
+              actor: { id: null, source: 'SYSTEM' }
+            });
+            await this.moveSkillRecords(profile.userId, profile.skills);
+            await this.refreshDerived(profile.userId);
+          }
+        }
+      }
+
+      scanned += batch.length;
+      cursor = batch[batch.length - 1].userId;
+      if (batch.length < this.REWRITE_BATCH_SIZE) break;
+    }
+
+    return { scanned, updated };
+  }
+
+  // Private helper methods
+
+  /**
+   * Carry proficiency levels and endorsements over to the renamed skills
+   */
+  private static async moveSkillRecords(userId: string, previousSkills: string[]): Promise<void> {
+    for (const previous of previousSkills) {
+      const [canonical] = await this.canonicalize([previous]);
+      if (canonical && canonical !== previous) {
+        await SkillEndorsementService.renameSkill(userId, previous, canonical);
+      }
+    }
+  }
+
+  private static tidy(value: string): string {
+    return value.trim().replace(/\s+/g, ' ');
+  }
+
+  private static prepareAliases(aliases: string[], skillKey: string) {
+    const seen = new Set<string>([skillKey]);
+    const prepared: Array<{ alias: string; normalizedAlias: string }> = [];
+
+    for (const raw of aliases) {
+      const alias = this.tidy(raw);
+      const normalizedAlias = this.normalizeKey(alias);
+      if (!normalizedAlias || seen.has(normalizedAlias)) continue;
+
+      seen.add(normalizedAlias);
+      prepared.push({ alias, normalizedAlias });
+    }
+
+    return prepared;
+  }
+
+  private static async assertKeysAvailable(keys: string[], ownSkillId?: string, ignoredSkillIds: string[] = []) {
+    if (keys.length === 0) return;
+
+    const allowed = [...(ownSkillId ? [ownSkillId] : []), ...ignoredSkillIds];
+
+    const [skill, alias] = await Promise.all([
+      prisma.skill.findFirst({
+        where: { normalizedName: { in: keys }, id: { notIn: allowed } },
+        select: { name: true }
+      }),
+      prisma.skillAlias.findFirst({
+        where: { normalizedAlias: { in: keys }, skillId: { notIn: allowed } },
+        select: { alias: true, skill: { select: { name: true } } }
+      })
+    ]);
+
+    if (skill) {
+      throw new Error(`Skill "${skill.name}" already exists`);
+    }
+
+    if (alias) {
+      throw new Error(`"${alias.alias}" is already an alias of "${alias.skill.name}"`);
+    }
+  }
+
+  private static async getLookup(): Promise<Map<string, string>> {
+    if (this.lookup && this.lookup.expiresAt > Date.now()) {
+      return this.lookup.canonical;
+    }
+
+    const [skills, aliases] = await Promise.all([
+      prisma.skill.findMany({
+        where: { isActive: true },
+        select: { name: true, normalizedName: true }
+      }),
+      prisma.skillAlias.findMany({
+        where: { skill: { isActive: true } },
+        select: { normalizedAlias: true, skill: { select: { name: true } } }
+      })
+    ]);
+
+    const canonical = new Map<string, string>();
+    aliases.forEach(alias => canonical.set(alias.normalizedAlias, alias.skill.name));
+    skills.forEach(skill => canonical.set(skill.normalizedName, skill.name));
+
+    this.lookup = { expiresAt: Date.now() + this.LOOKUP_TTL_MS, canonical };
+    return canonical;
+  }
+
+  private static invalidateLookup(): void {
+    this.lookup = undefined;
+  }
+
+  private static async refreshDerived(userId: string): Promise<void> {
+    try {
+      await RedisCache.del(`profile:${userId}`);
+      await ProfileSearchService.index(userId);
+    } catch (error) {
+      console.warn('[SkillTaxonomy] Failed to refresh derived data for', userId, error);
+    }
+  }
+}
@@ -0,0 +1,357 @@
+/**
+ * User Suggestion Service
+ * Ranks members of the same college by profile similarity: shared skills and expertise, project
+ * technologies, co-authored publications and same department or year. Each suggestion carries
+ * the reasons it was made. Ranked lists are cached per user; empty lists are not, so members
+ * show up as soon as their college is indexed
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db.js';
+import { RedisCache } from '../utils/redisClient.js';
+import { AuthServiceClient } from '../utils/AuthServiceClient.js';
+import { SkillTaxonomyService } from './SkillTaxonomyService.js';
+import { resolveVisibility, canViewLevel } from '../middleware/piiProtection.js';
+
+export interface SuggestionRequester {
+  id: string;
+  collegeId?: string;
+  department?: string;
+  year?: number;
+}
+
+export interface UserSuggestion {
+  id: string;
+  name: string;
+  avatarUrl?: string;
+  college: string | null;
+  department?: string;
+  bio: string | null;
+  skills: string[];
+  score: number;
+  reasons: string[];
+  explanation: string;
+}
+
+type SuggestionProfile = {
+  userId: string;
+  name: string | null;
+  bio: string | null;
+  skills: string[];
+  expertise: string[];
+  personalProjects: Array<{ technologies: string[] }>;
+  publications: Array<{ title: string; doi: string | null; authors: string[] }>;
+  visibility?: Prisma.JsonValue;
+};
+
+type Candidate = {
+  userId: string;
+  department: string | null;
+  year: number | null;
+};
+
+const WEIGHTS = {
+  skill: 3,
+  expertise: 3,
+  technology: 2,
+  coauthored: 8,
+  department: 4,
+  year: 2
+};
+
+const suggestionProfileSelect = {
+  userId: true,
+  name: true,
+  bio: true,
+  skills: true,
+  expertise: true,
+  personalProjects: {
+    where: { isVisible: true, deletedAt: null },
+    select: { technologies: true }
+  },
+  publications: { where: { deletedAt: null }, select: { title: true, doi: true, authors: true } },
+  visibility: true
+} as const;
+
+export class UserSuggestionService {
+  static readonly MAX_SUGGESTIONS = 50;
+  private static readonly CANDIDATE_POOL = 300; // Pre-ranked in SQL before full scoring
+  private static readonly CACHE_TTL = 900;
+
+  /**
+   * Ranked suggestions for a member, served from cache when available
+   */
+  static async getSuggestions(
+    requester: SuggestionRequester,
+    authHeader: string,
+    limit: number
+  ): Promise<UserSuggestion[]> {
+    const take = Math.min(Math.max(limit, 1), this.MAX_SUGGESTIONS);
+    const cacheKey = this.cacheKey(requester.id);
+
+    const cached = await RedisCache.get<UserSuggestion[]>(cacheKey);
+    if (cached && cached.length > 0) {
+      return cached.slice(0, take);
+    }
+
+    const suggestions = await this.rank(requester, authHeader);
+    if (suggestions.length > 0) {
+      await RedisCache.set(cacheKey, suggestions, this.CACHE_TTL);
+    }
+
+    return suggestions.slice(0, take);
+  }
+
+  /**
+   * Drop a member's cached suggestions after their profile changes
+   */
+  static async invalidate(userId: string): Promise<void> {
+    await RedisCache.del(this.cacheKey(userId));
+  }
+
+  // Private helper methods
+
+  private static cacheKey(userId: string): string {
+    return `suggestions:${userId}`;
+  }
+
+  private static async rank(requester: SuggestionRequester, authHeader: string): Promise<UserSuggestion[]> {
+    if (!requester.collegeId) return [];
+
+    const own = await prisma.profile.findUnique({
+      where: { userId: requester.id },
+      select: suggestionProfileSelect
+    });
+
+    const candidates = await this.findCandidates(requester, own, authHeader);
+    if (candidates.length === 0) return [];
+
+    const profiles = await prisma.profile.findMany({
+      where: { userId: { in: candidates.map(candidate => candidate.userId) } },
+      select: suggestionProfileSelect
+    });
+    const profileMap = new Map(profiles.map(profile => [profile.userId, profile]));
+
+    const scored = candidates
+      .map(candidate => {
+        const stored = profileMap.get(candidate.userId);
+        if (!stored) return null;
+
+        // Sections the candidate hides from their college neither count nor show
+        const profile = this.visibleTo(requester, stored);
+        return { candidate, profile, ...this.score(requester, own, candidate, profile) };
+      })
+      .filter((entry): entry is NonNullable<typeof entry> => entry !== null && entry.score > 0)
+      .sort((a, b) => b.score - a.score || a.candidate.userId.localeCompare(b.candidate.userId))
+      .slice(0, this.MAX_SUGGESTIONS);
+
+    if (scored.length === 0) return [];
+
+    const [users, college] = await Promise.all([
+      AuthServiceClient.getUsersBatch(scored.map(entry => entry.candidate.userId), authHeader),
+      AuthServiceClient.getCollege(requester.collegeId, authHeader)
+    ]);
+
+    return scored.map(({ candidate, profile, score, reasons }) => {
+      const user = users.get(candidate.userId);
+      return {
+        id: candidate.userId,
+        name: profile.name || user?.displayName || '',
+        avatarUrl: user?.avatarUrl,
+        college: college?.name || null,
+        department: user?.department || candidate.department || undefined,
+        bio: profile.bio,
+        skills: profile.skills,
+        score,
+        reasons,
+        explanation: reasons.join(' · ')
+      };
+    });
+  }
+
+  /**
+   * Same-college members, roughly ordered by skill and expertise overlap in SQL
+   * so only the most promising profiles are loaded and scored in full
+   * Falls back to the auth service's member list while the college has no indexed profiles
+   */
+  private static async findCandidates(
+    requester: SuggestionRequester,
+    own: SuggestionProfile | null,
+    authHeader: string
+  ): Promise<Candidate[]> {
+    const keys = [...(own?.skills || []), ...(own?.expertise || [])].map(value => SkillTaxonomyService.normalizeKey(value));
+    const sameDepartment = requester.department
+      ? Prisma.sql`(d.department = ${requester.department})::int`
+      : Prisma.sql`0`;
+
+    const indexed = await prisma.$queryRaw<Candidate[]>`
+      SELECT d."userId", d.department, d.year
+      FROM profile_search_documents d
+      JOIN "Profile" p ON p."userId" = d."userId"
+      WHERE d."collegeId" = ${requester.collegeId}
+        AND d."userId" <> ${requester.id}
+      ORDER BY (
+        SELECT COUNT(*) FROM unnest(p.skills || p.expertise) AS item
+        WHERE regexp_replace(lower(item), '[[:space:]._-]+', '', 'g') = ANY(${keys}::text[])
+      ) + ${sameDepartment} DESC, d."updatedAt" DESC
+      LIMIT ${this.CANDIDATE_POOL}`;
+
+    if (indexed.length > 0) return indexed;
+    return this.findCandidatesFromAuthService(requester, authHeader);
+  }
+
+  /**
+   * Up to CANDIDATE_POOL members of the requester's college as listed by the auth service
+   */
+  private static async findCandidatesFromAuthService(
+    requester: SuggestionRequester,
+    authHeader: string
+  ): Promise<Candidate[]> {
+    const candidates: Candidate[] = [];
+    let offset = 0;
+
+    while (candidates.length < this.CANDIDATE_POOL) {
+      const page = await AuthServiceClient.getUsers({ offset, limit: 100, collegeId: requester.collegeId }, authHeader);
+      if (!page || page.users.length === 0) break;
+
+      for (const user of page.users) {
+        if (user.id === requester.id || (user.collegeId && user.collegeId !== requester.collegeId)) continue;
+        candidates.push({ userId: user.id, department: user.department ?? null, year: user.year ?? null });
+      }
+
+      if (!page.hasMore) break;
+      offset = page.nextOffset ?? offset + page.users.length;
+    }
+
+    return candidates.slice(0, this.CANDIDATE_POOL);
+  }
+
+  private static score(
+    requester: SuggestionRequester,
+    own: SuggestionProfile | null,
+    candidate: Candidate,
+    profile: SuggestionProfile
+  ): { score: number; reasons: string[] } {
+    const reasons: string[] = [];
+    let score = 0;
+
+    const sharedSkills = this.shared(own?.skills || [], profile.skills);
+    if (sharedSkills.length > 0) {
+      score += sharedSkills.length * WEIGHTS.skill;
+      reasons.push(this.plural(sharedSkills.length, 'shared skill'));
+    }
+
+    const sharedExpertise = this.shared(own?.expertise || [], profile.expertise);
+    if (sharedExpertise.length > 0) {
+      score += sharedExpertise.length * WEIGHTS.expertise;
+      reasons.push(this.plural(sharedExpertise.length, 'shared expertise area'));
+    }
+
+    const sharedTechnologies = this.shared(
+      (own?.personalProjects || []).flatMap(project => project.technologies),
+      profile.personalProjects.flatMap(project => project.technologies)
+    );
+    if (sharedTechnologies.length > 0) {
+      score += Math.min(sharedTechnologies.length, 5) * WEIGHTS.technology;
+      reasons.push(`Both build with ${sharedTechnologies.slice(0, 3).join(', ')}`);
+    }
+
+    const coauthored = this.coauthoredCount(own, profile);
+    if (coauthored > 0) {
+      score += coauthored * WEIGHTS.coauthored;
+      reasons.push(`Co-authored ${this.plural(coauthored, 'publication')}`);
+    }
+
+    if (requester.department && candidate.department === requester.department) {
+      score += WEIGHTS.department;
+      reasons.push('Same department');
+    }
+
+    if (requester.year && candidate.year === requester.year) {
+      score += WEIGHTS.year;
+      reasons.push('Same year');
+    }
+
+    return { score, reasons };
+  }
+
+  private static visibleTo(requester: SuggestionRequester, profile: SuggestionProfile): SuggestionProfile {
+    const settings = resolveVisibility(profile.visibility);
+    const visible = (field: string) =>
+      canViewLevel(settings[field], requester.id, { collegeId: requester.collegeId }, requester.collegeId);
+
+    return {
+      ...profile,
+      bio: visible('bio') ? profile.bio : null,
+      skills: visible('skills') ? profile.skills : [],
+      expertise: visible('expertise') ? profile.expertise : [],
+      personalProjects: visible('projects') ? profile.personalProjects : [],
+      publications: visible('publications') ? profile.publications : []
+    };
+  }
+
+  /**
+   * Values of b that also appear in a, compared by normalised key and kept in b's spelling
+   */
+  private static shared(a: string[], b: string[]): string[] {
+    const keys = new Set(a.map(value => SkillTaxonomyService.normalizeKey(value)));
+    const seen = new Set<string>();
+
+    return b.filter(value => {
+      const key = SkillTaxonomyService.normalizeKey(value);
+      if (!key || !keys.has(key) || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  /**
+   * Publications both members list (same DOI or title), or where one lists the other as an author
+   */
+  private static coauthoredCount(own: SuggestionProfile | null, profile: SuggestionProfile): number {
+    if (!own) return 0;
+
+    const ownName = this.nameKey(own.name);
+    const candidateName = this.nameKey(profile.name);
+    const ownKeys = new Set(own.publications.flatMap(publication => this.publicationKeys(publication)));
+    const seen = new Set<string>();
+    let count = 0;
+
+    const record = (keys: string[]) => {
+      if (keys.some(key => seen.has(key))) return;
+      keys.forEach(key => seen.add(key));
+      count++;
+    };
+
+    for (const publication of profile.publications) {
+      const keys = this.publicationKeys(publication);
+      const authors = publication.authors.map(author => this.nameKey(author));
+      if (keys.some(key => ownKeys.has(key)) || (ownName && authors.includes(ownName))) {
+        record(keys);
+      }
+    }
+
+    for (const publication of own.publications) {
+      const authors = publication.authors.map(author => this.nameKey(author));
+      if (candidateName && authors.includes(candidateName)) {
+        record(this.publicationKeys(publication));
+      }
+    }
+
+    return count;
+  }
+
+  private static publicationKeys(publication: { title: string; doi: string | null }): string[] {
+    const keys = [`title:${this.nameKey(publication.title)}`];
+    if (publication.doi) keys.unshift(`doi:${publication.doi.trim().toLowerCase()}`);
+    return keys;
+  }
+
+  private static nameKey(value: string | null): string {
+    return (value || '').normalize('NFKC').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+  }
+
+  private static plural(count: number, noun: string): string {
+    return `${count} ${noun}${count === 1 ? '' : 's'}`;
+  }
+}
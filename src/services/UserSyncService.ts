@@ -7,6 +7,8 @@
 
 import { RedisClient } from '../utils/redisClient.js';
 import { prisma } from '../db.js';
+import { ProfileSearchService } from './ProfileSearchService.js';
+import { ProfileHistoryService } from './ProfileHistoryService.js';
 
 export interface UserUpdateEvent {
   userId: string;
@@ -129,6 +131,14 @@ export class UserSyncService {
       if (changes.displayName) {
         await this.updateProfileIfNeeded(userId, changes);
       }
+
+      if (changes.collegeId || changes.roles) {
+        await this.syncBadgeRuleSubject(userId, changes);
+      }
+
+      if (changes.collegeId || changes.department || changes.year) {
+        await this.syncSearchMembership(userId, changes);
+      }
     } catch (error) {
       console.error('[UserSyncService] Failed to handle user update:', error);
     }
@@ -155,10 +165,18 @@ export class UserSyncService {
 
       // Update profile name if displayName changed and profile name is empty
       if (changes.displayName && !profile.name) {
-        await prisma.profile.update({
+        const updated = await prisma.profile.update({
           where: { userId },
           data: { name: changes.displayName }
         });
+        await ProfileHistoryService.record({
+          userId,
+          entityType: 'PROFILE',
+          entityId: profile.id,
+          before: { ...updated, name: profile.name },
+          after: updated,
+          actor: { id: null, source: 'SYSTEM' }
+        });
         console.log(`[UserSyncService] Updated profile name for user ${userId}`);
       }
     } catch (error) {
@@ -166,6 +184,46 @@ export class UserSyncService {
     }
   }
 
+  /**
+   * Keep the automatic badge engine's record of a student's college current
+   * Users who are no longer students stop being evaluated
+   */
+  private static async syncBadgeRuleSubject(
+    userId: string,
+    changes: UserUpdateEvent['changes']
+  ): Promise<void> {
+    try {
+      if (changes.roles && !changes.roles.includes('STUDENT')) {
+        await prisma.badgeRuleSubject.deleteMany({ where: { userId } });
+      } else if (changes.collegeId) {
+        await prisma.badgeRuleSubject.updateMany({
+          where: { userId },
+          data: { collegeId: changes.collegeId }
+        });
+      }
+    } catch (error) {
+      console.error('[UserSyncService] Failed to sync badge rule subject:', error);
+    }
+  }
+
+  /**
+   * Keep the college, department and year used by profile search filters current
+   */
+  private static async syncSearchMembership(
+    userId: string,
+    changes: UserUpdateEvent['changes']
+  ): Promise<void> {
+    try {
+      await ProfileSearchService.updateMembership(userId, {
+        collegeId: changes.collegeId,
+        department: changes.department,
+        year: changes.year
+      });
+    } catch (error) {
+      console.error('[UserSyncService] Failed to sync search membership:', error);
+    }
+  }
+
   /**
    * Publish user update event (called by auth-service)
    * Used for inter-service communication
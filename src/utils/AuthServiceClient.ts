@@ -292,6 +292,27 @@ export class AuthServiceClient {
     }
   }
 
+  /**
+   * Every member of a college, read page by page from the users listing
+   * Stops at maxUsers so a very large college cannot hold a request open indefinitely
+   */
+  static async getCollegeMembers(collegeId: string, authHeader: string, maxUsers: number = 5000): Promise<AuthUser[]> {
+    const members: AuthUser[] = [];
+    let offset = 0;
+
+    while (members.length < maxUsers) {
+      const page = await this.getUsers({ offset, limit: 100, collegeId }, authHeader);
+      if (!page || !page.users || page.users.length === 0) break;
+
+      members.push(...page.users.filter(user => !user.collegeId || user.collegeId === collegeId));
+
+      if (!page.hasMore) break;
+      offset = page.nextOffset ?? offset + page.users.length;
+    }
+
+    return members.slice(0, maxUsers);
+  }
+
   /**
    * PHASE 2 FIX: Get multiple users in single batch call
    * Replaces N individual calls with 1 batch call
@@ -18,6 +18,16 @@ export interface BadgeAwardData {
   };
 }
 
+export interface BadgeRevocationData {
+  awardId: string;
+  studentId: string;
+  badgeId: string;
+  badgeName: string;
+  reason: string;
+  revokedBy: string;
+  revokedAt: Date;
+}
+
 export interface AwarderInfo {
   id: string;
   displayName?: string;
@@ -60,6 +70,7 @@ export class BadgePostService {
       content,
       visibility: 'COLLEGE',
       badgeData: {
+        awardId: badge.id,
         badgeId: badge.badge.id,
         badgeName: badge.badge.name,
         description: badge.badge.description,
@@ -104,6 +115,55 @@ export class BadgePostService {
     }
   }
 
+  /**
+   * Retract the celebration post for a revoked badge award and notify the student
+   * Not gated on BADGE_AUTO_POST_ENABLED: posts created before auto-post was disabled must still be hidden
+   */
+  static async retractBadgeAwardPost(
+    revocation: BadgeRevocationData,
+    revokerToken: string
+  ): Promise<void> {
+    const retractionData = {
+      type: 'BADGE_AWARD',
+      // Older posts predate awardId, so the network service can also match on badge and student
+      awardId: revocation.awardId,
+      badgeId: revocation.badgeId,
+      awardedToId: revocation.studentId,
+      reason: revocation.reason,
+      retractedBy: revocation.revokedBy,
+      retractedAt: revocation.revokedAt,
+      notifyUser: {
+        userId: revocation.studentId,
+        message: `Your "${revocation.badgeName}" badge has been revoked: ${revocation.reason}`
+      }
+    };
+
+    try {
+      console.log('[BadgePostService] Retracting badge award post:', {
+        awardId: revocation.awardId,
+        badgeName: revocation.badgeName
+      });
+
+      const response = await fetch(`${this.networkServiceUrl}/v1/posts/specialized/retract`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${revokerToken}`
+        },
+        body: JSON.stringify(retractionData)
+      });
+
+      if (!response.ok) {
+        throw new Error(`Network service returned ${response.status}: ${response.statusText}`);
+      }
+
+      console.log('[BadgePostService] Badge award post retracted successfully:', revocation.awardId);
+    } catch (error) {
+      console.error('[BadgePostService] Failed to retract badge award post:', error);
+      // Don't throw error - revocation should succeed even if the retraction fails
+    }
+  }
+
   /**
    * Create badge award post with minimal data (for backward compatibility)
    */
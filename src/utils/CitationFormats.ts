@@ -0,0 +1,536 @@
+/**
+ * Citation formats
+ * Parsers for BibTeX, RIS, CSL-JSON and ORCID works JSON into a common citation record,
+ * and a BibTeX writer for publication exports
+ */
+
+export type CitationFormat = 'bibtex' | 'ris' | 'csl-json' | 'orcid';
+
+export const CITATION_FORMATS: CitationFormat[] = ['bibtex', 'ris', 'csl-json', 'orcid'];
+
+export type PublicationType = 'JOURNAL' | 'CONFERENCE' | 'WORKSHOP' | 'PREPRINT';
+
+export interface CitationRecord {
+  title: string;
+  authors: string[];
+  journal: string | null;
+  conference: string | null;
+  publishedAt: Date | null;
+  year: number | null;
+  doi: string | null;
+  url: string | null;
+  type: PublicationType | null;
+}
+
+export interface BibtexSource {
+  title: string;
+  authors: string[];
+  journal: string | null;
+  conference: string | null;
+  publishedAt: Date | null;
+  year: number | null;
+  doi: string | null;
+  url: string | null;
+  link: string | null;
+  type: string | null;
+}
+
+export class CitationFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CitationFormatError';
+  }
+}
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// LaTeX accent commands and the combining marks they stand for
+const LATEX_ACCENTS: Record<string, string> = {
+  "'": '́', '`': '̀', '^': '̂', '"': '̈', '~': '̃', '=': '̄', '.': '̇',
+  c: '̧', u: '̆', v: '̌', H: '̋', k: '̨'
+};
+
+export class CitationFormats {
+  /**
+   * Guess the format of an uploaded file from its content
+   */
+  static detect(content: string): CitationFormat | null {
+    const text = content.replace(/^﻿/, '').trim();
+
+    if (/^TY {2}- /m.test(text)) return 'ris';
+    if (/^\s*@\w+\s*[{(]/m.test(text) && !text.startsWith('{') && !text.startsWith('[')) return 'bibtex';
+
+    try {
+      const json = JSON.parse(text);
+      if (json && typeof json === 'object' && !Array.isArray(json) &&
+        (json.group || json.bulk || json['activities-summary'] || json.works || json['work-summary'] || json['put-code'])) {
+        return 'orcid';
+      }
+      return 'csl-json';
+    } catch {
+      return null;
+    }
+  }
+
+  static parse(content: string, format: CitationFormat): CitationRecord[] {
+    const text = content.replace(/^﻿/, '');
+
+    switch (format) {
+      case 'bibtex':
+        return this.parseBibtex(text);
+      case 'ris':
+        return this.parseRis(text);
+      case 'csl-json':
+        return this.parseCslJson(this.parseJson(text));
+      case 'orcid':
+        return this.parseOrcid(this.parseJson(text));
+    }
+  }
+
+  /**
+   * BibTeX entries with stable, unique citation keys
+   */
+  static toBibtex(publications: BibtexSource[]): string {
+    const usedKeys = new Map<string, number>();
+
+    return publications.map(publication => {
+      const year = publication.publishedAt ? publication.publishedAt.getUTCFullYear() : publication.year;
+      const baseKey = this.citationKey(publication.authors[0], year, publication.title);
+      const seen = usedKeys.get(baseKey) ?? 0;
+      usedKeys.set(baseKey, seen + 1);
+      const key = seen === 0 ? baseKey : `${baseKey}${String.fromCharCode(97 + ((seen - 1) % 26))}`;
+
+      const entryType = publication.type === 'CONFERENCE' || publication.type === 'WORKSHOP' ||
+        (!publication.type && !publication.journal && publication.conference)
+        ? 'inproceedings'
+        : publication.type === 'PREPRINT' || (!publication.journal && !publication.conference)
+          ? 'misc'
+          : 'article';
+
+      const fields: Array<[string, string | null | undefined]> = [
+        ['title', publication.title],
+        ['author', publication.authors.length > 0 ? publication.authors.join(' and ') : null],
+        [entryType === 'inproceedings' ? 'booktitle' : 'journal', entryType === 'inproceedings'
+          ? publication.conference || publication.journal
+          : publication.journal || (entryType === 'article' ? publication.conference : null)],
+        ['year', year ? String(year) : null],
+        ['month', publication.publishedAt ? MONTH_NAMES[publication.publishedAt.getUTCMonth()] : null],
+        ['doi', publication.doi],
+        ['url', publication.url || publication.link],
+        ['note', publication.type === 'PREPRINT' ? 'Preprint' : null]
+      ];
+
+      const body = fields
+        .filter(([, value]) => value)
+        .map(([name, value]) => name === 'month'
+          ? `  ${name} = ${value}`
+          : `  ${name} = {${this.escapeBibtex(value!, name === 'url' || name === 'doi')}}`)
+        .join(',\n');
+
+      return `@${entryType}{${key},\n${body}\n}`;
+    }).join('\n\n') + (publications.length > 0 ? '\n' : '');
+  }
+
+  /**
+   * Bare, lowercase DOI without resolver prefixes
+   */
+  static normalizeDoi(value: string | null | undefined): string | null {
+    if (!value) return null;
+    const doi = value.trim().replace(/^(https?:\/\/(dx\.)?doi\.org\/|doi:\s*)/i, '').toLowerCase();
+    return /^10\.\d{4,9}\/\S+$/.test(doi) ? doi : null;
+  }
+
+  // Private helper methods
+
+  private static parseJson(text: string): any {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new CitationFormatError('The file is not valid JSON');
+    }
+  }
+
+  private static parseBibtex(text: string): CitationRecord[] {
+    const records: CitationRecord[] = [];
+    const strings: Record<string, string> = Object.fromEntries(
+      MONTH_NAMES.map((month, index) => [month, String(index + 1)])
+    );
+
+    let index = 0;
+    while (true) {
+      const at = text.indexOf('@', index);
+      if (at === -1) break;
+
+      const header = /^@\s*(\w+)\s*([{(])/.exec(text.slice(at, at + 64));
+      if (!header) {
+        index = at + 1;
+        continue;
+      }
+
+      const type = header[1].toLowerCase();
+      const bodyStart = at + header[0].length;
+      const bodyEnd = this.matchingClose(text, bodyStart, header[2] === '{' ? '}' : ')');
+      const body = text.slice(bodyStart, bodyEnd);
+      index = bodyEnd + 1;
+
+      if (type === 'comment' || type === 'preamble') continue;
+
+      if (type === 'string') {
+        const fields = this.readBibtexFields(body, strings);
+        Object.assign(strings, fields);
+        continue;
+      }
+
+      const keyEnd = body.indexOf(',');
+      if (keyEnd === -1) continue;
+
+      const fields = this.readBibtexFields(body.slice(keyEnd + 1), strings);
+      const record = this.fromBibtexFields(type, fields);
+      if (record) records.push(record);
+    }
+
+    return records;
+  }
+
+  /**
+   * End of an entry body, skipping over braced field values
+   */
+  private static matchingClose(text: string, start: number, close: '}' | ')'): number {
+    let braces = 0;
+    for (let index = start; index < text.length; index++) {
+      const char = text[index];
+      if (char === '\\') {
+        index++;
+      } else if (char === '{') {
+        braces++;
+      } else if (char === '}') {
+        if (close === '}' && braces === 0) return index;
+        braces--;
+      } else if (char === ')' && close === ')' && braces === 0) {
+        return index;
+      }
+    }
+    return text.length;
+  }
+
+  /**
+   * name = {value} | "value" | number | macro, joined with #
+   */
+  private static readBibtexFields(body: string, strings: Record<string, string>): Record<string, string> {
+    const fields: Record<string, string> = {};
+    let index = 0;
+
+    while (index < body.length) {
+      const name = /^[\s,]*([\w:.+-]+)\s*=\s*/.exec(body.slice(index));
+      if (!name) break;
+      index += name[0].length;
+
+      let value = '';
+      while (index < body.length) {
+        const char = body[index];
+
+        if (char === '{' || char === '"') {
+          const end = this.readDelimited(body, index);
+          value += body.slice(index + 1, end);
+          index = end + 1;
+        } else {
+          const bare = /^[^\s,#}]+/.exec(body.slice(index));
+          if (!bare) break;
+          value += strings[bare[0].toLowerCase()] ?? bare[0];
+          index += bare[0].length;
+        }
+
+        const concat = /^\s*#\s*/.exec(body.slice(index));
+        if (!concat) break;
+        index += concat[0].length;
+      }
+
+      fields[name[1].toLowerCase()] = this.cleanLatex(value);
+    }
+
+    return fields;
+  }
+
+  private static readDelimited(body: string, start: number): number {
+    if (body[start] === '"') {
+      let depth = 0;
+      for (let index = start + 1; index < body.length; index++) {
+        if (body[index] === '\\') index++;
+        else if (body[index] === '{') depth++;
+        else if (body[index] === '}') depth--;
+        else if (body[index] === '"' && depth === 0) return index;
+      }
+      return body.length;
+    }
+
+    let depth = 0;
+    for (let index = start; index < body.length; index++) {
+      if (body[index] === '\\') index++;
+      else if (body[index] === '{') depth++;
+      else if (body[index] === '}' && --depth === 0) return index;
+    }
+    return body.length;
+  }
+
+  private static fromBibtexFields(type: string, fields: Record<string, string>): CitationRecord | null {
+    const title = fields.title?.trim();
+    if (!title) return null;
+
+    const venue = fields.journal || fields.journaltitle || null;
+    const booktitle = fields.booktitle || fields.eventtitle || null;
+    const isPreprint = Boolean(fields.eprint || fields.archiveprefix) ||
+      /arxiv|biorxiv|medrxiv|ssrn|preprint/i.test(`${venue || ''} ${fields.publisher || ''} ${fields.howpublished || ''} ${fields.note || ''}`);
+
+    let recordType: PublicationType | null = null;
+    if (type === 'inproceedings' || type === 'conference' || type === 'proceedings') {
+      recordType = /workshop/i.test(booktitle || '') ? 'WORKSHOP' : 'CONFERENCE';
+    } else if (isPreprint && (type === 'article' || type === 'misc' || type === 'unpublished' || type === 'online')) {
+      recordType = 'PREPRINT';
+    } else if (type === 'article') {
+      recordType = 'JOURNAL';
+    }
+
+    const dateParts = /^(\d{4})(?:-(\d{1,2}))?/.exec(fields.date || '');
+    const year = this.toYear(fields.year || dateParts?.[1]);
+    const month = Number(fields.month || dateParts?.[2]) || MONTH_NAMES.indexOf((fields.month || '').slice(0, 3).toLowerCase()) + 1;
+
+    return {
+      title,
+      authors: this.splitBibtexAuthors(fields.author || ''),
+      journal: recordType === 'CONFERENCE' || recordType === 'WORKSHOP' ? null : venue,
+      conference: booktitle,
+      publishedAt: this.toDate(year, month),
+      year,
+      doi: this.normalizeDoi(fields.doi),
+      url: fields.url || null,
+      type: recordType
+    };
+  }
+
+  private static splitBibtexAuthors(value: string): string[] {
+    return value
+      .split(/\s+and\s+/i)
+      .map(author => author.trim())
+      .filter(author => author && author.toLowerCase() !== 'others')
+      .map(author => {
+        // "Last, First" and "Last, Jr, First" become "First Last"
+        const parts = author.split(',').map(part => part.trim()).filter(Boolean);
+        if (parts.length === 2) return `${parts[1]} ${parts[0]}`;
+        if (parts.length === 3) return `${parts[2]} ${parts[0]} ${parts[1]}`;
+        return author;
+      });
+  }
+
+  private static parseRis(text: string): CitationRecord[] {
+    const records: CitationRecord[] = [];
+    let tags: Record<string, string[]> = {};
+
+    for (const line of text.split(/\r?\n/)) {
+      const match = /^([A-Z][A-Z0-9]) {2}-(?: (.*))?$/.exec(line);
+      if (!match) continue;
+
+      const [, tag, value = ''] = match;
+      if (tag === 'TY') {
+        tags = { TY: [value.trim()] };
+      } else if (tag === 'ER') {
+        const record = this.fromRisTags(tags);
+        if (record) records.push(record);
+        tags = {};
+      } else if (value.trim()) {
+        (tags[tag] ||= []).push(value.trim());
+      }
+    }
+
+    return records;
+  }
+
+  private static fromRisTags(tags: Record<string, string[]>): CitationRecord | null {
+    const first = (...names: string[]) => names.map(name => tags[name]?.[0]).find(Boolean) || null;
+
+    const title = first('TI', 'T1', 'CT');
+    if (!title) return null;
+
+    const risType = (tags.TY?.[0] || '').toUpperCase();
+    const recordType: PublicationType | null =
+      ['CONF', 'CPAPER'].includes(risType) ? 'CONFERENCE'
+        : risType === 'JOUR' || risType === 'JFULL' || risType === 'EJOUR' ? 'JOURNAL'
+          : risType === 'UNPB' || risType === 'PREPRINT' ? 'PREPRINT'
+            : null;
+
+    const container = first('T2', 'JO', 'JF', 'JA', 'BT', 'J2');
+    const isConference = recordType === 'CONFERENCE';
+    const date = /^(\d{4})(?:[/-](\d{1,2}))?/.exec(first('PY', 'Y1', 'DA') || '');
+    const year = date ? this.toYear(date[1]) : null;
+
+    return {
+      title,
+      authors: [...(tags.AU || []), ...(tags.A1 || [])].map(author => this.splitBibtexAuthors(author)[0]).filter(Boolean),
+      journal: isConference ? null : container,
+      conference: isConference ? container : null,
+      publishedAt: this.toDate(year, date?.[2] ? Number(date[2]) : 0),
+      year,
+      doi: this.normalizeDoi(first('DO')),
+      url: first('UR', 'L2'),
+      type: recordType && isConference && /workshop/i.test(container || '') ? 'WORKSHOP' : recordType
+    };
+  }
+
+  private static parseCslJson(json: any): CitationRecord[] {
+    const items: any[] = Array.isArray(json) ? json : json?.items ?? [json];
+
+    return items.flatMap(item => {
+      const title = this.text(item?.title);
+      if (!title) return [];
+
+      const cslType = String(item.type || '');
+      const container = this.text(item['container-title']) || this.text(item['event-title']) || this.text(item.event) || null;
+      const recordType: PublicationType | null =
+        cslType === 'paper-conference' ? (/workshop/i.test(container || '') ? 'WORKSHOP' : 'CONFERENCE')
+          : cslType === 'article-journal' ? 'JOURNAL'
+            : cslType === 'article' || cslType === 'preprint' ? 'PREPRINT'
+              : null;
+
+      const parts: number[] = item.issued?.['date-parts']?.[0] || item.published?.['date-parts']?.[0] || [];
+      const year = this.toYear(parts[0]) ?? this.toYear(item.issued?.raw?.slice?.(0, 4));
+
+      return [{
+        title,
+        authors: (Array.isArray(item.author) ? item.author : [])
+          .map((author: any) => author.literal || [author.given, author.family].filter(Boolean).join(' '))
+          .filter(Boolean),
+        journal: recordType === 'CONFERENCE' || recordType === 'WORKSHOP' ? null : container,
+        conference: recordType === 'CONFERENCE' || recordType === 'WORKSHOP' ? container : null,
+        publishedAt: this.toDate(year, Number(parts[1]) || 0),
+        year,
+        doi: this.normalizeDoi(item.DOI || item.doi),
+        url: item.URL || item.url || null,
+        type: recordType
+      }];
+    });
+  }
+
+  /**
+   * ORCID works as returned by the public API: summaries (/works), full works (/works/{codes})
+   * or a whole record (/record)
+   */
+  private static parseOrcid(json: any): CitationRecord[] {
+    const works: any[] = [];
+    const groups = json?.group ?? json?.works?.group ?? json?.['activities-summary']?.works?.group;
+
+    if (Array.isArray(groups)) {
+      // Each group is one work as seen from several sources; the first summary is the preferred one
+      for (const group of groups) {
+        const summary = group?.['work-summary']?.[0];
+        if (summary) works.push(summary);
+      }
+    } else if (Array.isArray(json?.bulk)) {
+      works.push(...json.bulk.map((entry: any) => entry?.work).filter(Boolean));
+    } else if (json?.['work-summary'] || json?.['put-code']) {
+      works.push(json['work-summary']?.[0] ?? json);
+    } else {
+      throw new CitationFormatError('Unrecognised ORCID works file');
+    }
+
+    return works.flatMap(work => {
+      const title = work?.title?.title?.value?.trim();
+      if (!title) return [];
+
+      const orcidType = String(work.type || '').toLowerCase();
+      const container = work['journal-title']?.value || null;
+      const recordType: PublicationType | null =
+        orcidType === 'conference-paper' ? (/workshop/i.test(container || '') ? 'WORKSHOP' : 'CONFERENCE')
+          : orcidType === 'journal-article' ? 'JOURNAL'
+            : orcidType === 'preprint' || orcidType === 'working-paper' ? 'PREPRINT'
+              : null;
+
+      const externalIds: any[] = work['external-ids']?.['external-id'] || [];
+      const doi = externalIds.find(id => String(id['external-id-type']).toLowerCase() === 'doi');
+
+      const date = work['publication-date'];
+      const year = this.toYear(date?.year?.value);
+
+      let authors: string[] = (work.contributors?.contributor || [])
+        .map((contributor: any) => contributor?.['credit-name']?.value)
+        .filter(Boolean);
+
+      // Summaries carry no contributors, but full works often embed a BibTeX citation
+      const citation = work.citation;
+      if (authors.length === 0 && String(citation?.['citation-type']).toLowerCase() === 'bibtex') {
+        authors = this.parseBibtex(String(citation['citation-value'] || ''))[0]?.authors || [];
+      }
+
+      return [{
+        title,
+        authors,
+        journal: recordType === 'CONFERENCE' || recordType === 'WORKSHOP' ? null : container,
+        conference: recordType === 'CONFERENCE' || recordType === 'WORKSHOP' ? container : null,
+        publishedAt: this.toDate(year, Number(date?.month?.value) || 0),
+        year,
+        doi: this.normalizeDoi(doi?.['external-id-normalized']?.value || doi?.['external-id-value']),
+        url: work.url?.value || doi?.['external-id-url']?.value || null,
+        type: recordType
+      }];
+    });
+  }
+
+  private static text(value: unknown): string | null {
+    if (Array.isArray(value)) return this.text(value[0]);
+    return typeof value === 'string' && value.trim() ? value.trim() : null;
+  }
+
+  /**
+   * Four-digit whole years only; anything else is stored as an unknown year
+   */
+  private static toYear(value: unknown): number | null {
+    const year = Number(value);
+    return Number.isInteger(year) && year >= 1000 && year <= 9999 ? year : null;
+  }
+
+  /**
+   * Year-only citations keep just the year, so exports do not invent a January date
+   */
+  private static toDate(year: number | null, month: number): Date | null {
+    if (year === null || this.toYear(year) === null || !(month >= 1 && month <= 12)) return null;
+    return new Date(Date.UTC(year, month - 1, 1));
+  }
+
+  private static cleanLatex(value: string): string {
+    // Escaped braces and backslashes are literal text, so they are parked in private-use
+    // characters while grouping braces are stripped
+    return value
+      .replace(/\\textbackslash\{\}/g, '\uE000')
+      .replace(/\\\{/g, '\uE001')
+      .replace(/\\\}/g, '\uE002')
+      .replace(/\\([`'^"~=.])\s*\{?([A-Za-z])\}?/g, (_, accent, letter) => `${letter}${LATEX_ACCENTS[accent]}`)
+      .replace(/\\([cuvHk])\{([A-Za-z])\}/g, (_, accent, letter) => `${letter}${LATEX_ACCENTS[accent]}`)
+      .replace(/\\ss\b\s?/g, 'ß')
+      .replace(/\\([&%$#_])/g, '$1')
+      .replace(/\\(textit|textbf|emph|textrm|textsc|mathrm)\s*/g, '')
+      .replace(/---/g, '—')
+      .replace(/--/g, '–')
+      .replace(/~/g, ' ')
+      .replace(/[{}]/g, '')
+      .replace(/\uE000/g, '\\')
+      .replace(/\uE001/g, '{')
+      .replace(/\uE002/g, '}')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .normalize('NFC');
+  }
+
+  private static escapeBibtex(value: string, verbatim: boolean): string {
+    if (verbatim) return value.replace(/[{}]/g, '');
+    return value.replace(/[\\&%$#_{}]/g, char => (char === '\\' ? '\\textbackslash{}' : `\\${char}`));
+  }
+
+  private static citationKey(author: string | undefined, year: number | null, title: string): string {
+    const ascii = (value: string) => value.normalize('NFD').replace(/[^A-Za-z0-9]/g, '');
+    const surname = ascii((author || '').trim().split(/\s+/).pop() || '').toLowerCase() || 'anon';
+    const word = title
+      .split(/\s+/)
+      .map(ascii)
+      .find(part => part.length > 3 && !['with', 'from', 'that', 'this', 'towards', 'using'].includes(part.toLowerCase()))
+      ?.toLowerCase() || 'untitled';
+    return `${surname}${year ?? 'nd'}${word}`;
+  }
+}
@@ -0,0 +1,259 @@
+/**
+ * Storage for uploaded media files
+ * Local disk for development and tests; any S3-compatible object store (AWS S3, MinIO, R2) in production.
+ * The driver is chosen by MEDIA_STORAGE_DRIVER; callers only deal with opaque object keys
+ */
+
+import axios from 'axios';
+import { createHash, createHmac } from 'crypto';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { env } from '../config/env.js';
+
+export interface MediaStorage {
+  readonly driver: 'local' | 's3';
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  getUrl(key: string): Promise<string>; // Where a client can download the object
+}
+
+export interface S3StorageConfig {
+  endpoint: string; // e.g. https://s3.eu-west-1.amazonaws.com; path-style addressing is used
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  publicUrl?: string; // Serve objects from here (CDN or public bucket) instead of presigned links
+  urlTtlSeconds: number;
+}
+
+// Keys are generated by the service; anything else is rejected before touching the disk or bucket
+const KEY_PATTERN = /^[A-Za-z0-9_-][A-Za-z0-9_.-]*(\/[A-Za-z0-9_.-]+)*$/;
+
+export class MediaStorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MediaStorageError';
+  }
+}
+
+export class LocalDiskStorage implements MediaStorage {
+  readonly driver = 'local' as const;
+  private readonly root: string;
+
+  constructor(root: string, private readonly publicBaseUrl: string) {
+    this.root = path.resolve(root);
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, body);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true });
+  }
+
+  async getUrl(key: string): Promise<string> {
+    this.resolve(key);
+    return `${this.publicBaseUrl.replace(/\/$/, '')}/v1/media/${key}`;
+  }
+
+  /**
+   * File contents for the development media route; null when the file does not exist
+   */
+  async read(key: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  // Private helper methods
+
+  private resolve(key: string): string {
+    const file = path.resolve(this.root, key);
+    if (!KEY_PATTERN.test(key) || key.split('/').includes('..') || !file.startsWith(this.root + path.sep)) {
+      throw new MediaStorageError('Invalid media key');
+    }
+    return file;
+  }
+}
+
+export class S3Storage implements MediaStorage {
+  readonly driver = 's3' as const;
+  private static readonly timeout = 30000;
+
+  constructor(private readonly config: S3StorageConfig) {}
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    const payloadHash = this.sha256(body);
+    await axios.put(this.objectUrl(key), body, {
+      headers: {
+        ...this.signedHeaders('PUT', key, payloadHash),
+        'Content-Type': contentType,
+        'Content-Length': String(body.length)
+      },
+      timeout: S3Storage.timeout,
+      maxBodyLength: Infinity
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    const payloadHash = this.sha256(Buffer.alloc(0));
+    await axios.delete(this.objectUrl(key), {
+      headers: this.signedHeaders('DELETE', key, payloadHash),
+      timeout: S3Storage.timeout
+    });
+  }
+
+  async getUrl(key: string): Promise<string> {
+    this.checkKey(key);
+    if (this.config.publicUrl) {
+      return `${this.config.publicUrl.replace(/\/$/, '')}/${this.encodePath(key)}`;
+    }
+    return this.presignedGetUrl(key);
+  }
+
+  // Private helper methods
+
+  private objectUrl(key: string): string {
+    this.checkKey(key);
+    return `${this.config.endpoint.replace(/\/$/, '')}${this.canonicalUri(key)}`;
+  }
+
+  private canonicalUri(key: string): string {
+    return `/${this.encodePath(this.config.bucket)}/${this.encodePath(key)}`;
+  }
+
+  /**
+   * Signature Version 4 headers for a request whose payload hash is known
+   */
+  private signedHeaders(method: string, key: string, payloadHash: string): Record<string, string> {
+    const { amzDate, scope, credential } = this.credentialScope(new Date());
+    const headers: Record<string, string> = {
+      host: new URL(this.config.endpoint).host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate
+    };
+    const signedHeaderNames = Object.keys(headers).sort().join(';');
+
+    const canonicalRequest = [
+      method,
+      this.canonicalUri(key),
+      '',
+      ...Object.keys(headers).sort().map(name => `${name}:${headers[name]}`),
+      '',
+      signedHeaderNames,
+      payloadHash
+    ].join('\n');
+
+    const signature = this.sign(amzDate, scope, canonicalRequest);
+    return {
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      Authorization: `AWS4-HMAC-SHA256 Credential=${credential}, SignedHeaders=${signedHeaderNames}, Signature=${signature}`
+    };
+  }
+
+  private presignedGetUrl(key: string): string {
+    const { amzDate, scope, credential } = this.credentialScope(new Date());
+    const host = new URL(this.config.endpoint).host;
+    const query: Record<string, string> = {
+      'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+      'X-Amz-Credential': credential,
+      'X-Amz-Date': amzDate,
+      'X-Amz-Expires': String(this.config.urlTtlSeconds),
+      'X-Amz-SignedHeaders': 'host'
+    };
+    const canonicalQuery = Object.keys(query).sort()
+      .map(name => `${this.encode(name)}=${this.encode(query[name])}`)
+      .join('&');
+
+    const canonicalRequest = [
+      'GET',
+      this.canonicalUri(key),
+      canonicalQuery,
+      `host:${host}`,
+      '',
+      'host',
+      'UNSIGNED-PAYLOAD'
+    ].join('\n');
+
+    const signature = this.sign(amzDate, scope, canonicalRequest);
+    return `${this.objectUrl(key)}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+  }
+
+  private credentialScope(now: Date) {
+    const amzDate = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const scope = `${amzDate.slice(0, 8)}/${this.config.region}/s3/aws4_request`;
+    return { amzDate, scope, credential: `${this.config.accessKeyId}/${scope}` };
+  }
+
+  private sign(amzDate: string, scope: string, canonicalRequest: string): string {
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, this.sha256(Buffer.from(canonicalRequest, 'utf8'))].join('\n');
+
+    const dateKey = this.hmac(`AWS4${this.config.secretAccessKey}`, amzDate.slice(0, 8));
+    const regionKey = this.hmac(dateKey, this.config.region);
+    const serviceKey = this.hmac(regionKey, 's3');
+    const signingKey = this.hmac(serviceKey, 'aws4_request');
+
+    return createHmac('sha256', signingKey).update(stringToSign, 'utf8').digest('hex');
+  }
+
+  private hmac(key: string | Buffer, value: string): Buffer {
+    return createHmac('sha256', key).update(value, 'utf8').digest();
+  }
+
+  private sha256(body: Buffer): string {
+    return createHash('sha256').update(body).digest('hex');
+  }
+
+  /**
+   * RFC 3986 encoding as SigV4 expects, keeping '/' between path segments
+   */
+  private encodePath(value: string): string {
+    return value.split('/').map(segment => this.encode(segment)).join('/');
+  }
+
+  private encode(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  }
+
+  private checkKey(key: string): void {
+    if (!KEY_PATTERN.test(key) || key.split('/').includes('..')) {
+      throw new MediaStorageError('Invalid media key');
+    }
+  }
+}
+
+let storage: MediaStorage | null = null;
+
+/**
+ * The configured storage driver, created on first use
+ */
+export function getMediaStorage(): MediaStorage {
+  if (storage) return storage;
+
+  if (env.MEDIA_STORAGE_DRIVER === 's3') {
+    if (!env.S3_ENDPOINT || !env.S3_BUCKET || !env.S3_ACCESS_KEY_ID || !env.S3_SECRET_ACCESS_KEY) {
+      throw new MediaStorageError('S3 media storage needs S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+    }
+    storage = new S3Storage({
+      endpoint: env.S3_ENDPOINT,
+      region: env.S3_REGION,
+      bucket: env.S3_BUCKET,
+      accessKeyId: env.S3_ACCESS_KEY_ID,
+      secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+      publicUrl: env.S3_PUBLIC_URL || undefined,
+      urlTtlSeconds: env.MEDIA_URL_TTL_SECONDS
+    });
+  } else {
+    storage = new LocalDiskStorage(env.MEDIA_LOCAL_DIR, env.MEDIA_PUBLIC_BASE_URL);
+  }
+
+  return storage;
+}
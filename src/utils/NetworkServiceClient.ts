@@ -0,0 +1,33 @@
+import axios from 'axios';
+import { env } from '../config/env.js';
+
+export class NetworkServiceClient {
+  private static readonly baseUrl = env.NETWORK_SERVICE_URL;
+  private static readonly timeout = 3000;
+
+  /**
+   * Whether the requester (identified by the auth header) is connected to another user
+   * Treated as not connected when the network service cannot be reached
+   */
+  static async isConnected(otherUserId: string, authHeader: string): Promise<boolean> {
+    if (!authHeader) return false;
+
+    try {
+      const response = await axios.get(`${this.baseUrl}/v1/connections/status/${otherUserId}`, {
+        headers: {
+          'Authorization': authHeader,
+          'x-service-name': 'profile-service'
+        },
+        timeout: this.timeout,
+      });
+
+      return response.data?.status === 'CONNECTED' || response.data?.connected === true;
+    } catch (error) {
+      console.warn(
+        `[NetworkServiceClient] Connection status lookup failed for ${otherUserId}:`,
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+      return false;
+    }
+  }
+}
@@ -0,0 +1,303 @@
+/**
+ * Minimal PDF writer for server-side documents
+ * Flowing text with wrapping and pagination in the standard Helvetica fonts (no embedding,
+ * no external renderer). Text is WinAnsi encoded; characters outside it print as '?'
+ */
+
+export type PdfFont = 'regular' | 'bold' | 'italic';
+
+export type PdfColor = [number, number, number]; // RGB, 0-1
+
+export interface PdfTextStyle {
+  font?: PdfFont;
+  size?: number;
+  color?: PdfColor;
+  indent?: number;
+  align?: 'left' | 'center';
+  lineHeight?: number; // Multiple of the font size
+}
+
+export interface PdfDocumentOptions {
+  title?: string;
+  author?: string;
+  pageWidth?: number;
+  pageHeight?: number;
+  margin?: number;
+}
+
+// Advance widths (1/1000 em) for characters 32-126 from the standard font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+const FONT_RESOURCES: Record<PdfFont, { name: string; baseFont: string; widths: number[] }> = {
+  regular: { name: 'F1', baseFont: 'Helvetica', widths: HELVETICA_WIDTHS },
+  bold: { name: 'F2', baseFont: 'Helvetica-Bold', widths: HELVETICA_BOLD_WIDTHS },
+  italic: { name: 'F3', baseFont: 'Helvetica-Oblique', widths: HELVETICA_WIDTHS }
+};
+
+// Unicode punctuation that WinAnsiEncoding places in the 0x80-0x9F range
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99
+};
+
+export class PdfDocument {
+  private readonly pageWidth: number;
+  private readonly pageHeight: number;
+  private readonly margin: number;
+  private readonly pages: string[][] = [];
+  private cursorY = 0;
+
+  constructor(private readonly options: PdfDocumentOptions = {}) {
+    this.pageWidth = options.pageWidth ?? 595.28; // A4
+    this.pageHeight = options.pageHeight ?? 841.89;
+    this.margin = options.margin ?? 50;
+    this.addPage();
+  }
+
+  get contentWidth(): number {
+    return this.pageWidth - this.margin * 2;
+  }
+
+  /**
+   * Width of a string in points
+   */
+  measure(value: string, font: PdfFont = 'regular', size: number = 11): number {
+    const widths = FONT_RESOURCES[font].widths;
+    let total = 0;
+
+    for (const char of this.encodable(value)) {
+      const code = char.charCodeAt(0);
+      total += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+    }
+
+    return (total / 1000) * size;
+  }
+
+  /**
+   * Write a paragraph, wrapping at the margins and starting new pages as needed
+   */
+  text(value: string, style: PdfTextStyle = {}): this {
+    const font = style.font ?? 'regular';
+    const size = style.size ?? 11;
+    const indent = style.indent ?? 0;
+    const width = this.contentWidth - indent;
+
+    for (const paragraph of value.split(/\r?\n/)) {
+      for (const line of this.wrap(paragraph, font, size, width)) {
+        const x = style.align === 'center'
+          ? this.margin + (this.contentWidth - this.measure(line, font, size)) / 2
+          : this.margin + indent;
+        this.writeLine(line, x, style);
+      }
+    }
+
+    return this;
+  }
+
+  /**
+   * A line with text on the left and shorter text flush right, such as a title and its dates
+   */
+  row(left: string, right: string, style: PdfTextStyle = {}, rightStyle: PdfTextStyle = {}): this {
+    const font = style.font ?? 'regular';
+    const size = style.size ?? 11;
+    const indent = style.indent ?? 0;
+    const rightFont = rightStyle.font ?? font;
+    const rightSize = rightStyle.size ?? size;
+    const rightWidth = right ? this.measure(right, rightFont, rightSize) : 0;
+
+    const lines = this.wrap(left, font, size, this.contentWidth - indent - rightWidth - 12);
+    lines.forEach((line, index) => {
+      const y = this.writeLine(line, this.margin + indent, style);
+      if (index === 0 && right) {
+        this.draw(right, this.pageWidth - this.margin - rightWidth, y, { ...style, ...rightStyle });
+      }
+    });
+
+    return this;
+  }
+
+  moveDown(points: number): this {
+    this.cursorY -= points;
+    if (this.cursorY < this.margin) this.addPage();
+    return this;
+  }
+
+  /**
+   * Horizontal rule across the content width
+   */
+  rule(color: PdfColor = [0.75, 0.75, 0.75], thickness: number = 0.75): this {
+    this.moveDown(4);
+    this.currentPage().push(
+      `${this.rgb(color)} RG ${thickness} w ${this.margin} ${this.cursorY.toFixed(2)} m ` +
+      `${(this.pageWidth - this.margin).toFixed(2)} ${this.cursorY.toFixed(2)} l S`
+    );
+    this.moveDown(8);
+    return this;
+  }
+
+  /**
+   * Serialise the document
+   */
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const fontIds: Record<string, number> = {};
+
+    const add = (body: string) => {
+      objects.push(body);
+      return objects.length;
+    };
+
+    const catalogId = add(''); // Filled in once the page tree id is known
+    const pagesId = add('');
+
+    for (const font of Object.values(FONT_RESOURCES)) {
+      fontIds[font.name] = add(
+        `<< /Type /Font /Subtype /Type1 /BaseFont /${font.baseFont} /Encoding /WinAnsiEncoding >>`
+      );
+    }
+
+    const fontDict = Object.entries(fontIds).map(([name, id]) => `/${name} ${id} 0 R`).join(' ');
+    const pageIds = this.pages.map(operations => {
+      const stream = operations.join('\n');
+      const contentId = add(`<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`);
+      return add(
+        `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${this.pageWidth} ${this.pageHeight}] ` +
+        `/Resources << /Font << ${fontDict} >> >> /Contents ${contentId} 0 R >>`
+      );
+    });
+
+    objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+    objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+    const info = [
+      this.options.title ? `/Title ${this.literal(this.options.title)}` : '',
+      this.options.author ? `/Author ${this.literal(this.options.author)}` : '',
+      `/Producer (Nexus Profile Service)`,
+      `/CreationDate (D:${new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z)`
+    ].filter(Boolean).join(' ');
+    const infoId = add(`<< ${info} >>`);
+
+    let output = '%PDF-1.4\n%\xE2\xE3\xCF\xD3\n';
+    const offsets: number[] = [];
+
+    objects.forEach((body, index) => {
+      offsets.push(Buffer.byteLength(output, 'latin1'));
+      output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    });
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1');
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\n`;
+    output += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+
+  // Private helper methods
+
+  private addPage(): void {
+    this.pages.push([]);
+    this.cursorY = this.pageHeight - this.margin;
+  }
+
+  private currentPage(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  /**
+   * Advance one line and draw it, returning the baseline used
+   */
+  private writeLine(line: string, x: number, style: PdfTextStyle): number {
+    const size = style.size ?? 11;
+    const lineHeight = size * (style.lineHeight ?? 1.35);
+
+    if (this.cursorY - lineHeight < this.margin) {
+      this.addPage();
+    }
+
+    this.cursorY -= lineHeight;
+    this.draw(line, x, this.cursorY, style);
+    return this.cursorY;
+  }
+
+  private draw(value: string, x: number, y: number, style: PdfTextStyle): void {
+    const font = FONT_RESOURCES[style.font ?? 'regular'];
+    this.currentPage().push(
+      `BT ${this.rgb(style.color ?? [0, 0, 0])} rg /${font.name} ${style.size ?? 11} Tf ` +
+      `${x.toFixed(2)} ${y.toFixed(2)} Td ${this.literal(value)} Tj ET`
+    );
+  }
+
+  private wrap(paragraph: string, font: PdfFont, size: number, width: number): string[] {
+    const words = paragraph.split(/\s+/).filter(Boolean);
+    if (words.length === 0) return [''];
+
+    const lines: string[] = [];
+    let current = '';
+
+    for (const word of words) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (this.measure(candidate, font, size) <= width || !current) {
+        current = candidate;
+      } else {
+        lines.push(current);
+        current = word;
+      }
+
+      // Break words that are wider than the line on their own, such as long URLs
+      while (this.measure(current, font, size) > width && current.length > 1) {
+        let cut = current.length - 1;
+        while (cut > 1 && this.measure(current.slice(0, cut), font, size) > width) cut--;
+        lines.push(current.slice(0, cut));
+        current = current.slice(cut);
+      }
+    }
+
+    lines.push(current);
+    return lines;
+  }
+
+  private encodable(value: string): string {
+    let result = '';
+
+    for (const char of value) {
+      const code = char.codePointAt(0) ?? 63;
+      if (WIN_ANSI_EXTRAS[char] !== undefined) {
+        result += String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+      } else if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) {
+        result += char;
+      } else if (char === '\t') {
+        result += ' ';
+      } else {
+        result += '?';
+      }
+    }
+
+    return result;
+  }
+
+  private literal(value: string): string {
+    return `(${this.encodable(value).replace(/[\\()]/g, match => `\\${match}`)})`;
+  }
+
+  private rgb(color: PdfColor): string {
+    return color.map(channel => channel.toFixed(3)).join(' ');
+  }
+}
@@ -0,0 +1,404 @@
+/**
+ * Resume parser
+ * Heuristic, layout-independent extraction of resume sections from plain text: headings
+ * split the document into sections, date ranges and bullets split sections into entries.
+ * Output is a draft for the owner to review, so it favours recall over precision
+ */
+
+export interface ParsedExperience {
+  title: string;
+  company: string | null;
+  location: string | null;
+  startDate: string | null; // ISO date, first of the month
+  endDate: string | null;
+  isCurrent: boolean;
+  type: string | null;
+  description: string | null;
+}
+
+export interface ParsedProject {
+  title: string;
+  description: string;
+  technologies: string[];
+  githubUrl: string | null;
+  liveUrl: string | null;
+  startDate: string | null;
+  endDate: string | null;
+}
+
+export interface ParsedEducation {
+  institution: string;
+  degree: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  details: string | null;
+}
+
+export interface ParsedLinks {
+  linkedIn: string | null;
+  github: string | null;
+  twitter: string | null;
+  other: string[];
+}
+
+export interface ParsedResume {
+  name: string | null;
+  experiences: ParsedExperience[];
+  projects: ParsedProject[];
+  skills: string[];
+  education: ParsedEducation[];
+  links: ParsedLinks;
+}
+
+type Section = 'header' | 'experience' | 'projects' | 'skills' | 'education' | 'other';
+
+interface Entry {
+  headers: string[];
+  bullets: string[];
+  dates: { start: string | null; end: string | null; isCurrent: boolean } | null;
+}
+
+const SECTION_HEADINGS: Array<[Section, RegExp]> = [
+  ['experience', /^(work |professional |relevant |industry )?(experience|employment( history)?|work history|internships?|internship experience)$/],
+  ['projects', /^(personal |academic |key |selected |technical |major )?projects?$/],
+  ['skills', /^(technical |key |core )?(skills|skill set|competencies|technologies|tech stack|tools( and technologies)?)( and (tools|technologies|interests))?$/],
+  ['education', /^(education|academics?|academic (background|qualifications?)|qualifications?)$/],
+  ['other', /^(summary|profile|objective|about me|publications?|certifications?|achievements|awards( and honou?rs)?|honou?rs|interests|hobbies|languages|references|contact|activities|extra[- ]?curricular activities|volunteering|positions of responsibility|leadership|courses|coursework|relevant coursework)$/]
+];
+
+const MONTHS: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5, jul: 6, aug: 7, sep: 8, sept: 8, oct: 9, nov: 10, dec: 11
+};
+
+const MONTH_NAME = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const DATE = `(?:${MONTH_NAME}\\s*,?\\s*\\d{4}|\\d{1,2}\\s*[/.-]\\s*\\d{4}|\\d{4})`;
+const DATE_RANGE = new RegExp(`(${DATE})\\s*(?:-|–|—|to|until)\\s*(${DATE}|present|current|now|ongoing|till date|date)`, 'i');
+const SINGLE_DATE = new RegExp(`(?:^|\\s|\\()(${MONTH_NAME}\\s*,?\\s*\\d{4})(?:$|\\s|\\))`, 'i');
+
+const BULLET = /^\s*(?:[-•*▪◦–·●○■►✓➢]|\d+[.)])\s+/;
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>()"',;|]+|\b(?:linkedin\.com\/in|github\.com|twitter\.com|x\.com)\/[^\s<>()"',;|]+/gi;
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+\.[\w.-]+/;
+
+const MAX_ENTRIES = 30;
+const MAX_SKILLS = 60;
+
+export class ResumeParser {
+  static parse(text: string): ParsedResume {
+    const lines = text
+      .split('\n')
+      .map(line => line.replace(/\t+/g, '  ').replace(/\s+$/, ''))
+      .filter(line => line.trim().length > 0);
+
+    const sections = this.splitSections(lines);
+
+    return {
+      name: this.guessName(sections.header),
+      experiences: this.toEntries(sections.experience).map(entry => this.toExperience(entry)).slice(0, MAX_ENTRIES),
+      projects: this.toEntries(sections.projects).map(entry => this.toProject(entry)).slice(0, MAX_ENTRIES),
+      skills: this.toSkills(sections.skills),
+      education: this.toEntries(sections.education).map(entry => this.toEducation(entry)).slice(0, MAX_ENTRIES),
+      links: this.toLinks(text)
+    };
+  }
+
+  // Private helper methods
+
+  private static splitSections(lines: string[]): Record<Section, string[]> {
+    const sections: Record<Section, string[]> = {
+      header: [], experience: [], projects: [], skills: [], education: [], other: []
+    };
+    let current: Section = 'header';
+
+    for (const line of lines) {
+      const heading = this.headingOf(line);
+      if (heading) {
+        current = heading;
+        continue;
+      }
+      sections[current].push(line.trim());
+    }
+
+    return sections;
+  }
+
+  private static headingOf(line: string): Section | null {
+    const normalized = line
+      .trim()
+      .replace(/[:\-–—_=|]+$/, '')
+      .replace(/&/g, 'and')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .toLowerCase();
+    if (!normalized || normalized.length > 45) return null;
+
+    const match = SECTION_HEADINGS.find(([, pattern]) => pattern.test(normalized));
+    return match ? match[0] : null;
+  }
+
+  private static guessName(header: string[]): string | null {
+    const candidate = header.find(line => !EMAIL_PATTERN.test(line) && this.urlsIn(line).length === 0 && !/\d{3}/.test(line));
+    if (!candidate) return null;
+
+    const words = candidate.split(/\s+/);
+    return words.length >= 1 && words.length <= 5 && candidate.length <= 60 ? candidate : null;
+  }
+
+  /**
+   * Group section lines into entries: bullets belong to the entry above them, and a new
+   * entry starts at a heading line that follows bullets or a second date range
+   */
+  private static toEntries(lines: string[]): Entry[] {
+    const entries: Entry[] = [];
+    let current: Entry | null = null;
+
+    for (const line of lines) {
+      if (BULLET.test(line)) {
+        const bullet = line.replace(BULLET, '').trim();
+        if (!current) {
+          current = { headers: [bullet], bullets: [], dates: this.findDates(bullet) };
+          entries.push(current);
+        } else {
+          current.bullets.push(bullet);
+        }
+        continue;
+      }
+
+      if (current && current.bullets.length > 0) {
+        // Wrapped bullet text continues in lowercase on the next line
+        if (/^[a-z(]/.test(line)) {
+          current.bullets[current.bullets.length - 1] += ` ${line}`;
+          continue;
+        }
+        // Labelled lines such as "Tech Stack: React" describe the entry above
+        if (/^[A-Za-z][A-Za-z ]{1,24}:\s+\S/.test(line)) {
+          current.bullets.push(line);
+          continue;
+        }
+      }
+
+      // Unbulleted sentences are descriptions rather than headings
+      if (current && current.headers.length > 0 && (/[.!]$/.test(line) || line.split(/\s+/).length > 12)) {
+        current.bullets.push(line);
+        continue;
+      }
+
+      const dates = this.findDates(line);
+      const startsNew = !current ||
+        current.bullets.length > 0 ||
+        (dates !== null && current.dates !== null) ||
+        (dates === null && current.dates !== null && current.headers.length >= 3);
+
+      if (startsNew) {
+        current = { headers: [], bullets: [], dates: null };
+        entries.push(current);
+      }
+
+      current!.headers.push(line);
+      if (dates && !current!.dates) current!.dates = dates;
+    }
+
+    return entries.filter(entry => entry.headers.some(header => this.stripDates(header).length > 0));
+  }
+
+  private static toExperience(entry: Entry): ParsedExperience {
+    const headers = entry.headers.map(header => this.stripDates(header)).filter(Boolean);
+    let title = headers[0] || 'Experience';
+    let company: string | null = headers[1] ?? null;
+    let location: string | null = headers[2] ?? null;
+
+    // "Software Intern at Acme" or "Software Intern | Acme | Pune"
+    const inline = /^(.+?)\s+(?:at|@)\s+(.+)$/i.exec(title) || /^(.+?)\s*[|,–—]\s+(.+)$/.exec(title);
+    if (inline && !company) {
+      const [, role, rest] = inline;
+      const [employer, place] = rest.split(/\s*[|,]\s*/);
+      title = role;
+      company = employer || null;
+      location = location || place || null;
+    }
+
+    const role = `${title} ${company || ''}`;
+    return {
+      title: this.clip(title, 200),
+      company: company ? this.clip(company, 200) : null,
+      location: location ? this.clip(location, 200) : null,
+      startDate: entry.dates?.start ?? null,
+      endDate: entry.dates?.isCurrent ? null : entry.dates?.end ?? null,
+      isCurrent: entry.dates?.isCurrent ?? false,
+      type: /\bintern(ship)?\b/i.test(role) ? 'INTERNSHIP'
+        : /part[- ]time/i.test(role) ? 'PART_TIME'
+        : /freelanc/i.test(role) ? 'FREELANCE'
+        : /contract/i.test(role) ? 'CONTRACT'
+        : null,
+      description: [...headers.slice(3), ...entry.bullets].join('\n').trim() || null
+    };
+  }
+
+  private static toProject(entry: Entry): ParsedProject {
+    const lines = [...entry.headers, ...entry.bullets];
+    const urls = lines.flatMap(line => this.urlsIn(line));
+    const technologies: string[] = [];
+    const description: string[] = [];
+
+    let title = this.stripUrls(this.stripDates(entry.headers[0] || '')) || 'Project';
+
+    // "Title | React, Node.js" or "Title (React, Node.js)"
+    const inline = /^(.+?)\s*(?:\|\s*|[–—]\s+|\()([^()]+)\)?$/.exec(title);
+    if (inline && /,/.test(inline[2])) {
+      title = inline[1].trim();
+      technologies.push(...this.splitList(inline[2]));
+    }
+
+    for (const line of [...entry.headers.slice(1), ...entry.bullets]) {
+      const stack = /^(?:tech(?:nologies|nology)?(?: stack)?|stack|tools|built with)\s*[:\-]\s*(.+)$/i.exec(line);
+      if (stack) {
+        technologies.push(...this.splitList(stack[1]));
+        continue;
+      }
+      const text = this.stripUrls(this.stripDates(line));
+      if (text) description.push(text);
+    }
+
+    const github = urls.find(url => /github\.com/i.test(url)) || null;
+    const live = urls.find(url => !/github\.com/i.test(url)) || null;
+
+    return {
+      title: this.clip(title, 200),
+      description: this.clip(description.join('\n') || title, 5000),
+      technologies: [...new Set(technologies)].slice(0, 20),
+      githubUrl: github,
+      liveUrl: live,
+      startDate: entry.dates?.start ?? null,
+      endDate: entry.dates?.isCurrent ? null : entry.dates?.end ?? null
+    };
+  }
+
+  private static toEducation(entry: Entry): ParsedEducation {
+    const headers = entry.headers.map(header => this.stripDates(header)).filter(Boolean);
+    const degreePattern = /\b(b\.?\s?tech|m\.?\s?tech|b\.?\s?e\b|m\.?\s?e\b|b\.?\s?sc|m\.?\s?sc|b\.?\s?a\b|m\.?\s?a\b|bachelor|master|ph\.?\s?d|diploma|mba|bca|mca|degree|class (x|xii|10|12)|higher secondary|secondary)/i;
+
+    const degreeIndex = headers.findIndex(header => degreePattern.test(header));
+    const institution = headers.find((_, index) => index !== degreeIndex) || headers[0] || 'Education';
+
+    return {
+      institution: this.clip(institution, 200),
+      degree: degreeIndex >= 0 ? this.clip(headers[degreeIndex], 200) : null,
+      startDate: entry.dates?.start ?? null,
+      endDate: entry.dates?.isCurrent ? null : entry.dates?.end ?? null,
+      details: [...headers.filter((header, index) => index !== degreeIndex && header !== institution), ...entry.bullets]
+        .join('\n') || null
+    };
+  }
+
+  private static toSkills(lines: string[]): string[] {
+    const skills: string[] = [];
+
+    for (const line of lines) {
+      // "Languages: Python, Java" keeps the values, not the category label
+      const values = line.replace(BULLET, '').replace(/^[^:,]{1,40}:\s*/, '');
+      skills.push(...this.splitList(values));
+    }
+
+    const seen = new Set<string>();
+    return skills
+      .filter(skill => skill.length >= 1 && skill.length <= 40 && skill.split(/\s+/).length <= 4)
+      .filter(skill => {
+        const key = skill.toLowerCase();
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, MAX_SKILLS);
+  }
+
+  private static toLinks(text: string): ParsedLinks {
+    const links: ParsedLinks = { linkedIn: null, github: null, twitter: null, other: [] };
+
+    for (const url of this.urlsIn(text)) {
+      if (/linkedin\.com\/in\//i.test(url)) {
+        links.linkedIn = links.linkedIn || url;
+      } else if (/^https:\/\/(www\.)?github\.com\/[^/]+\/?$/i.test(url)) {
+        links.github = links.github || url; // Profile links only; repositories belong to projects
+      } else if (/(twitter|x)\.com\//i.test(url)) {
+        links.twitter = links.twitter || url;
+      } else if (!links.other.includes(url) && !/github\.com\/[^/]+\/[^/]+/i.test(url)) {
+        links.other.push(url);
+      }
+    }
+
+    links.other = links.other.slice(0, 10);
+    return links;
+  }
+
+  private static urlsIn(text: string): string[] {
+    return (text.match(URL_PATTERN) || [])
+      .map(url => url.replace(/[.)\]]+$/, ''))
+      .map(url => (/^https?:\/\//i.test(url) ? url : `https://${url}`));
+  }
+
+  private static findDates(line: string): Entry['dates'] {
+    const range = DATE_RANGE.exec(line);
+    if (range) {
+      const isCurrent = /present|current|now|ongoing|date/i.test(range[2]);
+      return {
+        start: this.toIsoDate(range[1]),
+        end: isCurrent ? null : this.toIsoDate(range[2]),
+        isCurrent
+      };
+    }
+
+    const single = SINGLE_DATE.exec(line);
+    if (single) {
+      const date = this.toIsoDate(single[1]);
+      return { start: date, end: date, isCurrent: false };
+    }
+
+    return null;
+  }
+
+  private static toIsoDate(value: string): string | null {
+    const text = value.toLowerCase().trim();
+
+    const named = /([a-z]+)\.?\s*,?\s*(\d{4})/.exec(text);
+    if (named && MONTHS[named[1].slice(0, named[1].startsWith('sept') ? 4 : 3)] !== undefined) {
+      const month = MONTHS[named[1].slice(0, named[1].startsWith('sept') ? 4 : 3)];
+      return new Date(Date.UTC(Number(named[2]), month, 1)).toISOString();
+    }
+
+    const numeric = /^(\d{1,2})\s*[/.-]\s*(\d{4})$/.exec(text);
+    if (numeric && Number(numeric[1]) >= 1 && Number(numeric[1]) <= 12) {
+      return new Date(Date.UTC(Number(numeric[2]), Number(numeric[1]) - 1, 1)).toISOString();
+    }
+
+    const year = /^(\d{4})$/.exec(text);
+    if (year && Number(year[1]) >= 1950 && Number(year[1]) <= 2100) {
+      return new Date(Date.UTC(Number(year[1]), 0, 1)).toISOString();
+    }
+
+    return null;
+  }
+
+  private static stripDates(line: string): string {
+    return line
+      .replace(DATE_RANGE, '')
+      .replace(SINGLE_DATE, ' ')
+      .replace(/[\s|,–—-]+$/, '')
+      .replace(/^[\s|,–—-]+/, '')
+      .replace(/\(\s*\)/g, '')
+      .trim();
+  }
+
+  private static stripUrls(line: string): string {
+    return line.replace(URL_PATTERN, '').replace(/\s{2,}/g, ' ').replace(/[\s|,–—:-]+$/, '').trim();
+  }
+
+  private static splitList(value: string): string[] {
+    return value
+      .split(/\s*[,;|•·●]\s*|\s+\/\s+/)
+      .map(item => item.replace(/^(and|&)\s+/i, '').replace(/[.)]+$/, '').replace(/^\(/, '').trim())
+      .filter(Boolean);
+  }
+
+  private static clip(value: string, max: number): string {
+    return value.length > max ? value.slice(0, max).trim() : value;
+  }
+}
@@ -0,0 +1,387 @@
+/**
+ * Resume text extraction
+ * Pulls plain text out of PDF, DOCX and text uploads without external services. PDF support
+ * covers text drawn with standard or simple-encoded fonts, which is what resume builders and
+ * word processors produce; scanned resumes have no text layer and are rejected upstream
+ */
+
+import { inflateSync, inflateRawSync } from 'zlib';
+
+export type ResumeFileFormat = 'PDF' | 'DOCX' | 'TEXT';
+
+export const RESUME_MIME_TYPES: Record<string, ResumeFileFormat> = {
+  'application/pdf': 'PDF',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'DOCX',
+  'text/plain': 'TEXT'
+};
+
+// Bounds decompression so a crafted upload cannot expand into gigabytes; for PDFs the limit
+// covers all streams together, since many small streams can add up just as well
+const MAX_INFLATED_BYTES = 20 * 1024 * 1024;
+
+export class ResumeTextExtractor {
+  /**
+   * Plain text of an uploaded resume, one line per visual line
+   */
+  static extract(content: Buffer, format: ResumeFileFormat): string {
+    switch (format) {
+      case 'PDF':
+        return this.fromPdf(content);
+      case 'DOCX':
+        return this.fromDocx(content);
+      default:
+        return content.toString('utf8').replace(/^﻿/, '').replace(/\r\n?/g, '\n');
+    }
+  }
+
+  /**
+   * Detect the format from the file signature, which wins over the declared MIME type
+   */
+  static sniff(content: Buffer, declared: ResumeFileFormat): ResumeFileFormat {
+    if (content.subarray(0, 5).toString('latin1') === '%PDF-') return 'PDF';
+    if (content.length >= 4 && content.readUInt32LE(0) === 0x04034b50) return 'DOCX';
+    return declared;
+  }
+
+  // Private helper methods
+
+  private static fromPdf(content: Buffer): string {
+    const raw = content.toString('latin1');
+    const lines: string[] = [];
+    let position = 0;
+    let inflateBudget = MAX_INFLATED_BYTES;
+
+    while (true) {
+      const streamAt = raw.indexOf('stream', position);
+      if (streamAt === -1) break;
+
+      const endAt = raw.indexOf('endstream', streamAt + 6);
+      if (endAt === -1) break;
+      position = endAt + 9;
+
+      // 'endstream' itself also contains 'stream'
+      if (raw.slice(streamAt - 3, streamAt) === 'end') continue;
+
+      const dictionary = raw.slice(raw.lastIndexOf('obj', streamAt), streamAt);
+      if (/\/(Subtype\s*\/Image|Type\s*\/XRef|Type\s*\/ObjStm|Length1|Subtype\s*\/Type1C|Subtype\s*\/CIDFontType0C)/.test(dictionary)) {
+        continue;
+      }
+
+      let start = streamAt + 6;
+      if (raw[start] === '\r') start++;
+      if (raw[start] === '\n') start++;
+
+      const data = content.subarray(start, endAt);
+      const compressed = dictionary.includes('/FlateDecode');
+      const decoded = compressed ? this.inflate(data, inflateBudget) : data;
+      if (!decoded) continue;
+      if (compressed) inflateBudget -= decoded.length;
+
+      const text = this.readContentStream(decoded.toString('latin1'));
+      if (text.trim()) lines.push(text);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Inflate one stream within what is left of the budget; damaged streams are skipped,
+   * but running out of budget aborts the whole extraction
+   */
+  private static inflate(data: Buffer, budget: number): Buffer | null {
+    if (budget <= 0) {
+      throw new Error('The file expands beyond the decompression limit');
+    }
+
+    try {
+      return inflateSync(data, { maxOutputLength: budget });
+    } catch (error) {
+      this.checkInflateLimit(error);
+      try {
+        // Streams cut short by a wrong /Length still hold usable text
+        return inflateSync(data, { maxOutputLength: budget, finishFlush: 2 });
+      } catch (retryError) {
+        this.checkInflateLimit(retryError);
+        return null;
+      }
+    }
+  }
+
+  private static checkInflateLimit(error: unknown): void {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new Error('The file expands beyond the decompression limit');
+    }
+  }
+
+  /**
+   * Text-showing operators of a page content stream, with line breaks where the text
+   * position moves to a new line
+   */
+  private static readContentStream(stream: string): string {
+    if (!stream.includes('BT')) return '';
+
+    let output = '';
+    let line = '';
+    let operands: Array<string | number | Array<string | number>> = [];
+    let index = 0;
+
+    const newLine = () => {
+      if (line.trim()) output += `${line.replace(/\s+/g, ' ').trim()}\n`;
+      line = '';
+    };
+
+    while (index < stream.length) {
+      const char = stream[index];
+
+      if (char === '(') {
+        const [value, next] = this.readLiteral(stream, index);
+        operands.push(value);
+        index = next;
+      } else if ((char === '<' && stream[index + 1] === '<') || (char === '>' && stream[index + 1] === '>')) {
+        index += 2; // Dictionary delimiters, as in marked-content properties
+      } else if (char === '<') {
+        const end = stream.indexOf('>', index);
+        if (end === -1) break;
+        operands.push(this.decodeHex(stream.slice(index + 1, end)));
+        index = end + 1;
+      } else if (char === '[') {
+        const [values, next] = this.readArray(stream, index);
+        operands.push(values);
+        index = next;
+      } else if (/[\s\]>]/.test(char)) {
+        index++;
+      } else if (char === '%') {
+        const end = stream.indexOf('\n', index);
+        index = end === -1 ? stream.length : end + 1;
+      } else {
+        const match = /^[^\s()<>\[\]{}\/%]+|^\/[^\s()<>\[\]{}\/%]*/.exec(stream.slice(index, index + 64));
+        const token = match ? match[0] : char;
+        index += token.length;
+
+        if (/^[-+]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+          operands.push(Number(token));
+          continue;
+        }
+        if (token.startsWith('/')) {
+          operands.push(token);
+          continue;
+        }
+
+        switch (token) {
+          case 'Tj':
+            line += String(operands[operands.length - 1] ?? '');
+            break;
+          case "'":
+          case '"':
+            newLine();
+            line += String(operands[operands.length - 1] ?? '');
+            break;
+          case 'TJ': {
+            const parts = operands[operands.length - 1];
+            if (Array.isArray(parts)) {
+              for (const part of parts) {
+                if (typeof part === 'string') line += part;
+                else if (part < -200) line += ' '; // Large negative kerning is a word gap
+              }
+            }
+            break;
+          }
+          case 'Td':
+          case 'TD': {
+            const y = operands[operands.length - 1];
+            if (typeof y === 'number' && y !== 0) newLine();
+            else line += ' ';
+            break;
+          }
+          case 'T*':
+          case 'Tm':
+          case 'ET':
+            newLine();
+            break;
+        }
+
+        operands = [];
+      }
+    }
+
+    newLine();
+    return output;
+  }
+
+  private static readLiteral(stream: string, start: number): [string, number] {
+    let depth = 0;
+    let value = '';
+    let index = start;
+
+    while (index < stream.length) {
+      const char = stream[index];
+
+      if (char === '\\') {
+        const next = stream[index + 1];
+        if (next === undefined) break;
+        const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+        if (/[0-7]/.test(next)) {
+          const octal = /^[0-7]{1,3}/.exec(stream.slice(index + 1, index + 4))![0];
+          value += String.fromCharCode(parseInt(octal, 8));
+          index += 1 + octal.length;
+          continue;
+        }
+        if (next === '\r' || next === '\n') {
+          index += stream[index + 2] === '\n' && next === '\r' ? 3 : 2; // Line continuation
+          continue;
+        }
+        value += escapes[next] ?? next;
+        index += 2;
+        continue;
+      }
+
+      if (char === '(') {
+        depth++;
+        if (depth > 1) value += char;
+      } else if (char === ')') {
+        depth--;
+        if (depth === 0) return [this.fromWinAnsi(value), index + 1];
+        value += char;
+      } else {
+        value += char;
+      }
+      index++;
+    }
+
+    return [this.fromWinAnsi(value), index];
+  }
+
+  private static readArray(stream: string, start: number): [Array<string | number>, number] {
+    const values: Array<string | number> = [];
+    let index = start + 1;
+
+    while (index < stream.length && stream[index] !== ']') {
+      const char = stream[index];
+
+      if (char === '(') {
+        const [value, next] = this.readLiteral(stream, index);
+        values.push(value);
+        index = next;
+      } else if (char === '<') {
+        const end = stream.indexOf('>', index);
+        if (end === -1) return [values, stream.length];
+        values.push(this.decodeHex(stream.slice(index + 1, end)));
+        index = end + 1;
+      } else {
+        const number = /^[-+]?(\d+\.?\d*|\.\d+)/.exec(stream.slice(index, index + 32));
+        if (number) {
+          values.push(Number(number[0]));
+          index += number[0].length;
+        } else {
+          index++;
+        }
+      }
+    }
+
+    return [values, index + 1];
+  }
+
+  /**
+   * Hex strings are single-byte text, or two-byte codes from Unicode-mapped fonts
+   */
+  private static decodeHex(hex: string): string {
+    const clean = hex.replace(/\s+/g, '');
+    const bytes = Buffer.from(clean.length % 2 ? `${clean}0` : clean, 'hex');
+
+    const looksUtf16 = bytes.length >= 2 && bytes.length % 2 === 0 &&
+      bytes.every((byte, position) => position % 2 === 1 || byte === 0);
+    if (looksUtf16) {
+      let value = '';
+      for (let position = 0; position < bytes.length; position += 2) {
+        value += String.fromCharCode(bytes.readUInt16BE(position));
+      }
+      return value;
+    }
+
+    return this.fromWinAnsi(bytes.toString('latin1'));
+  }
+
+  private static fromWinAnsi(value: string): string {
+    const extras: Record<number, string> = {
+      0x80: '€', 0x85: '…', 0x91: '‘', 0x92: '’', 0x93: '“', 0x94: '”', 0x95: '•', 0x96: '–', 0x97: '—'
+    };
+    return value.replace(/[\x80-\x9f]/g, char => extras[char.charCodeAt(0)] ?? '');
+  }
+
+  private static fromDocx(content: Buffer): string {
+    const xml = this.readZipEntry(content, 'word/document.xml');
+    if (!xml) {
+      throw new Error('Not a Word document');
+    }
+
+    return xml.toString('utf8')
+      .split('</w:p>')
+      .map(paragraph => {
+        const text = this.decodeXml(
+          paragraph
+            .replace(/<w:tab\/>/g, '\t')
+            .replace(/<w:br\/>/g, '\n')
+            .replace(/<[^>]+>/g, '')
+        );
+        // List paragraphs lose their bullet glyph in the XML, so restore one for the parser
+        return paragraph.includes('<w:numPr>') && text.trim() ? `• ${text}` : text;
+      })
+      .join('\n');
+  }
+
+  /**
+   * Read one file from a ZIP archive through its central directory
+   */
+  private static readZipEntry(archive: Buffer, name: string): Buffer | null {
+    const searchFrom = Math.max(0, archive.length - 65557);
+    let endRecord = -1;
+    for (let offset = archive.length - 22; offset >= searchFrom; offset--) {
+      if (archive.readUInt32LE(offset) === 0x06054b50) {
+        endRecord = offset;
+        break;
+      }
+    }
+    if (endRecord === -1) return null;
+
+    const entryCount = archive.readUInt16LE(endRecord + 10);
+    let offset = archive.readUInt32LE(endRecord + 16);
+
+    for (let entry = 0; entry < entryCount && offset + 46 <= archive.length; entry++) {
+      if (archive.readUInt32LE(offset) !== 0x02014b50) return null;
+
+      const method = archive.readUInt16LE(offset + 10);
+      const compressedSize = archive.readUInt32LE(offset + 20);
+      const nameLength = archive.readUInt16LE(offset + 28);
+      const extraLength = archive.readUInt16LE(offset + 30);
+      const commentLength = archive.readUInt16LE(offset + 32);
+      const localOffset = archive.readUInt32LE(offset + 42);
+      const entryName = archive.subarray(offset + 46, offset + 46 + nameLength).toString('utf8');
+
+      if (entryName === name) {
+        if (localOffset + 30 > archive.length || archive.readUInt32LE(localOffset) !== 0x04034b50) return null;
+
+        const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+        const data = archive.subarray(dataStart, dataStart + compressedSize);
+
+        if (method === 0) return data;
+        if (method === 8) return inflateRawSync(data, { maxOutputLength: MAX_INFLATED_BYTES });
+        return null;
+      }
+
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return null;
+  }
+
+  private static decodeXml(value: string): string {
+    return value
+      .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+      .replace(/&#(\d+);/g, (_, decimal) => String.fromCodePoint(Number(decimal)))
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&');
+  }
+}
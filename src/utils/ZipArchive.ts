@@ -0,0 +1,146 @@
+/**
+ * Minimal ZIP writer for server-generated downloads
+ * Entries are deflated with zlib and written with UTF-8 names; no ZIP64, so archives
+ * stay under 4 GB and 65535 entries, which is far beyond what the service produces
+ */
+
+import { deflateRawSync } from 'zlib';
+
+interface ZipEntry {
+  name: Buffer;
+  crc: number;
+  size: number;
+  data: Buffer;
+  method: number; // 0 = stored, 8 = deflated
+  offset: number;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const UTF8_NAMES_FLAG = 0x0800;
+const VERSION = 20; // 2.0: deflate
+// Made on Unix: Info-ZIP ignores the UTF-8 flag on names from MS-DOS hosts and garbles them
+const MADE_BY = (3 << 8) | VERSION;
+const FILE_ATTRIBUTES = 0o100644 << 16; // Regular file, rw-r--r--
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export class ZipArchive {
+  private readonly entries: ZipEntry[] = [];
+  private readonly chunks: Buffer[] = [];
+  private offset = 0;
+  private readonly modified: Date;
+
+  constructor(modified: Date = new Date()) {
+    this.modified = modified;
+  }
+
+  addFile(name: string, content: string | Buffer): this {
+    const raw = typeof content === 'string' ? Buffer.from(content, 'utf8') : content;
+    const deflated = deflateRawSync(raw);
+    // Tiny or incompressible files are smaller stored as-is
+    const method = deflated.length < raw.length ? 8 : 0;
+
+    const entry: ZipEntry = {
+      name: Buffer.from(name, 'utf8'),
+      crc: ZipArchive.crc32(raw),
+      size: raw.length,
+      data: method === 8 ? deflated : raw,
+      method,
+      offset: this.offset
+    };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+    header.writeUInt16LE(VERSION, 4);
+    this.writeCommonFields(header, 6, entry);
+    header.writeUInt16LE(0, 28); // Extra field length
+
+    this.push(header, entry.name, entry.data);
+    this.entries.push(entry);
+    return this;
+  }
+
+  toBuffer(): Buffer {
+    const centralStart = this.offset;
+
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+      header.writeUInt16LE(MADE_BY, 4);
+      header.writeUInt16LE(VERSION, 6); // Needed to extract
+      this.writeCommonFields(header, 8, entry);
+      header.writeUInt16LE(0, 30); // Extra field length
+      header.writeUInt16LE(0, 32); // Comment length
+      header.writeUInt16LE(0, 34); // Disk number
+      header.writeUInt16LE(0, 36); // Internal attributes
+      header.writeUInt32LE(FILE_ATTRIBUTES >>> 0, 38); // External attributes
+      header.writeUInt32LE(entry.offset, 42);
+      this.push(header, entry.name);
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+    end.writeUInt16LE(0, 4); // This disk
+    end.writeUInt16LE(0, 6); // Disk with the central directory
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - centralStart, 12);
+    end.writeUInt32LE(centralStart, 16);
+    end.writeUInt16LE(0, 20); // Comment length
+
+    return Buffer.concat([...this.chunks, end]);
+  }
+
+  static crc32(data: Buffer): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+      crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+  }
+
+  // Private helper methods
+
+  /**
+   * Flags through name length, which local and central headers share
+   */
+  private writeCommonFields(header: Buffer, at: number, entry: ZipEntry): void {
+    const { time, date } = this.dosDateTime();
+    header.writeUInt16LE(UTF8_NAMES_FLAG, at);
+    header.writeUInt16LE(entry.method, at + 2);
+    header.writeUInt16LE(time, at + 4);
+    header.writeUInt16LE(date, at + 6);
+    header.writeUInt32LE(entry.crc, at + 8);
+    header.writeUInt32LE(entry.data.length, at + 12);
+    header.writeUInt32LE(entry.size, at + 16);
+    header.writeUInt16LE(entry.name.length, at + 20);
+  }
+
+  private dosDateTime(): { time: number; date: number } {
+    const d = this.modified;
+    const year = Math.max(d.getUTCFullYear(), 1980);
+    return {
+      time: (d.getUTCHours() << 11) | (d.getUTCMinutes() << 5) | Math.floor(d.getUTCSeconds() / 2),
+      date: ((year - 1980) << 9) | ((d.getUTCMonth() + 1) << 5) | d.getUTCDate()
+    };
+  }
+
+  private push(...buffers: Buffer[]): void {
+    for (const buffer of buffers) {
+      this.chunks.push(buffer);
+      this.offset += buffer.length;
+    }
+  }
+}
@@ -1,4 +1,15 @@
-import { createRemoteJWKSet, jwtVerify, JWTPayload } from "jose";
+import {
+  createRemoteJWKSet,
+  jwtVerify,
+  JWTPayload,
+  JWK,
+  KeyLike,
+  SignJWT,
+  importJWK,
+  exportJWK,
+  generateKeyPair,
+  calculateJwkThumbprint,
+} from "jose";
 import { env } from "../config/env.js";
 
 const JWKS = createRemoteJWKSet(new URL(env.AUTH_JWKS_URL), {
@@ -200,3 +211,116 @@ export async function verifyAccessToken(token: string): Promise<AccessTokenPaylo
     throw error;
   }
 }
+
+// Service key for signing badge credentials (Open Badges 3.0, VC-JWT)
+// BADGE_CREDENTIAL_SIGNING_KEY holds a private EC or OKP JWK; outside production an
+// ephemeral key is generated when it is unset, so credentials only verify until restart
+
+type CredentialSigningKey = {
+  alg: string;
+  kid: string;
+  privateKey: KeyLike | Uint8Array;
+  publicKey: KeyLike | Uint8Array;
+  publicJwk: JWK;
+};
+
+export const CREDENTIAL_JWT_TYPE = "vc+jwt";
+
+let credentialKey: Promise<CredentialSigningKey> | undefined;
+
+async function loadCredentialSigningKey(): Promise<CredentialSigningKey> {
+  if (env.BADGE_CREDENTIAL_SIGNING_KEY) {
+    const jwk = JSON.parse(env.BADGE_CREDENTIAL_SIGNING_KEY) as JWK;
+    if (!jwk.d) {
+      throw new Error('BADGE_CREDENTIAL_SIGNING_KEY must be a private JWK');
+    }
+
+    const alg = jwk.alg ?? (jwk.kty === 'OKP' ? 'EdDSA' : 'ES256');
+    const { d, p, q, dp, dq, qi, ...publicFields } = jwk;
+    const kid = jwk.kid ?? await calculateJwkThumbprint(publicFields);
+
+    return {
+      alg,
+      kid,
+      privateKey: await importJWK(jwk, alg),
+      publicKey: await importJWK(publicFields, alg),
+      publicJwk: { ...publicFields, kid, alg, use: 'sig' },
+    };
+  }
+
+  if (env.NODE_ENV === 'production') {
+    throw new Error('BADGE_CREDENTIAL_SIGNING_KEY must be set in production');
+  }
+
+  console.warn('[JWT] BADGE_CREDENTIAL_SIGNING_KEY not set, using an ephemeral credential signing key');
+  const alg = 'ES256';
+  const { privateKey, publicKey } = await generateKeyPair(alg);
+  const publicFields = await exportJWK(publicKey);
+  const kid = await calculateJwkThumbprint(publicFields);
+
+  return {
+    alg,
+    kid,
+    privateKey,
+    publicKey,
+    publicJwk: { ...publicFields, kid, alg, use: 'sig' },
+  };
+}
+
+function getCredentialSigningKey(): Promise<CredentialSigningKey> {
+  if (!credentialKey) {
+    credentialKey = loadCredentialSigningKey().catch(error => {
+      credentialKey = undefined; // Retry on the next call instead of caching the failure
+      throw error;
+    });
+  }
+  return credentialKey;
+}
+
+/**
+ * Sign a credential as a VC-JWT; the credential itself is the claims set
+ */
+export async function signCredential(
+  credential: Record<string, unknown>,
+  claims: { jti: string; sub: string; expiresAt?: Date | null }
+): Promise<string> {
+  const key = await getCredentialSigningKey();
+
+  const jwt = new SignJWT(credential)
+    .setProtectedHeader({ alg: key.alg, kid: key.kid, typ: CREDENTIAL_JWT_TYPE, cty: 'vc' })
+    .setIssuer(env.BADGE_CREDENTIAL_ISSUER_URL)
+    .setSubject(claims.sub)
+    .setJti(claims.jti)
+    .setIssuedAt();
+
+  if (claims.expiresAt) {
+    jwt.setExpirationTime(Math.floor(claims.expiresAt.getTime() / 1000));
+  }
+
+  return await jwt.sign(key.privateKey);
+}
+
+/**
+ * Verify a credential JWT against the service key
+ * Expiry is not enforced here so callers can report expired credentials distinctly
+ */
+export async function verifyCredential(token: string): Promise<JWTPayload> {
+  const key = await getCredentialSigningKey();
+
+  const { payload } = await jwtVerify(token, key.publicKey, {
+    issuer: env.BADGE_CREDENTIAL_ISSUER_URL,
+    typ: CREDENTIAL_JWT_TYPE,
+    algorithms: [key.alg],
+    currentDate: new Date(0),
+  });
+
+  return payload;
+}
+
+/**
+ * Public key set for verifying credentials offline
+ */
+export async function getCredentialJwks(): Promise<{ keys: JWK[] }> {
+  const key = await getCredentialSigningKey();
+  return { keys: [key.publicJwk] };
+}
@@ -0,0 +1,240 @@
+/**
+ * Citation parsing, BibTeX round trips and import deduplication
+ * Run with: npx tsx tests/citation-formats.test.ts
+ * Imports run as dry runs against in-memory publications instead of the database
+ */
+
+import assert from 'node:assert/strict';
+import { test, finish } from './helpers.js';
+import { prisma } from '../src/db.js';
+import { CitationFormats, CitationRecord, BibtexSource } from '../src/utils/CitationFormats.js';
+import { PublicationImportService } from '../src/services/PublicationImportService.js';
+
+console.log('=== Citation Formats ===\n');
+
+const EXPECTED: CitationRecord[] = [
+  {
+    title: 'Graph Neural Networks for Campus Timetabling',
+    authors: ['Jane Doe', 'Ravi Kumar'],
+    journal: 'Journal of Scheduling',
+    conference: null,
+    publishedAt: new Date(Date.UTC(2023, 2, 1)),
+    year: 2023,
+    doi: '10.1000/jos.2023.042',
+    url: 'https://example.org/papers/gnn-timetabling',
+    type: 'JOURNAL'
+  },
+  {
+    title: 'Low-Latency Indoor Navigation',
+    authors: ['Jane Doe'],
+    journal: null,
+    conference: 'International Conference on Mobile Systems',
+    publishedAt: new Date(Date.UTC(2022, 5, 1)),
+    year: 2022,
+    doi: null,
+    url: null,
+    type: 'CONFERENCE'
+  }
+];
+
+const BIBTEX = `@string{jos = "Journal of Scheduling"}
+
+@article{doe2023graph,
+  title = {Graph Neural Networks for {Campus} Timetabling},
+  author = {Doe, Jane and Kumar, Ravi},
+  journal = jos,
+  year = 2023,
+  month = mar,
+  doi = {https://doi.org/10.1000/JOS.2023.042},
+  url = {https://example.org/papers/gnn-timetabling}
+}
+
+@inproceedings{doe2022indoor,
+  title = "Low-Latency Indoor Navigation",
+  author = "Jane Doe",
+  booktitle = {International Conference on Mobile Systems},
+  year = {2022},
+  month = jun
+}
+`;
+
+const RIS = `TY  - JOUR
+TI  - Graph Neural Networks for Campus Timetabling
+AU  - Doe, Jane
+AU  - Kumar, Ravi
+JO  - Journal of Scheduling
+PY  - 2023/03
+DO  - 10.1000/jos.2023.042
+UR  - https://example.org/papers/gnn-timetabling
+ER  - 
+TY  - CONF
+TI  - Low-Latency Indoor Navigation
+AU  - Doe, Jane
+T2  - International Conference on Mobile Systems
+PY  - 2022/06
+ER  - 
+`;
+
+const CSL_JSON = JSON.stringify([
+  {
+    type: 'article-journal',
+    title: 'Graph Neural Networks for Campus Timetabling',
+    author: [{ given: 'Jane', family: 'Doe' }, { given: 'Ravi', family: 'Kumar' }],
+    'container-title': 'Journal of Scheduling',
+    issued: { 'date-parts': [[2023, 3]] },
+    DOI: '10.1000/jos.2023.042',
+    URL: 'https://example.org/papers/gnn-timetabling'
+  },
+  {
+    type: 'paper-conference',
+    title: 'Low-Latency Indoor Navigation',
+    author: [{ given: 'Jane', family: 'Doe' }],
+    'container-title': 'International Conference on Mobile Systems',
+    issued: { 'date-parts': [[2022, 6]] }
+  }
+]);
+
+const ORCID = JSON.stringify({
+  group: [
+    {
+      'work-summary': [{
+        'put-code': 1,
+        title: { title: { value: 'Graph Neural Networks for Campus Timetabling' } },
+        type: 'journal-article',
+        'journal-title': { value: 'Journal of Scheduling' },
+        'publication-date': { year: { value: '2023' }, month: { value: '03' } },
+        'external-ids': { 'external-id': [{ 'external-id-type': 'doi', 'external-id-value': '10.1000/JOS.2023.042' }] },
+        url: { value: 'https://example.org/papers/gnn-timetabling' },
+        citation: {
+          'citation-type': 'bibtex',
+          'citation-value': '@article{x, title={Graph Neural Networks for Campus Timetabling}, author={Doe, Jane and Kumar, Ravi}}'
+        }
+      }]
+    },
+    {
+      'work-summary': [{
+        'put-code': 2,
+        title: { title: { value: 'Low-Latency Indoor Navigation' } },
+        type: 'conference-paper',
+        'journal-title': { value: 'International Conference on Mobile Systems' },
+        'publication-date': { year: { value: '2022' }, month: { value: '06' } },
+        contributors: { contributor: [{ 'credit-name': { value: 'Jane Doe' } }] }
+      }]
+    }
+  ]
+});
+
+function toSource(record: CitationRecord): BibtexSource {
+  return { ...record, link: null };
+}
+
+// Written out as BibTeX and read back, a record must come through unchanged
+function assertRoundTrip(records: CitationRecord[]): void {
+  const bibtex = CitationFormats.toBibtex(records.map(toSource));
+  assert.equal(CitationFormats.detect(bibtex), 'bibtex');
+  assert.deepEqual(CitationFormats.parse(bibtex, 'bibtex'), records);
+}
+
+const SOURCES: Array<[string, string, 'bibtex' | 'ris' | 'csl-json' | 'orcid']> = [
+  ['BibTeX', BIBTEX, 'bibtex'],
+  ['RIS', RIS, 'ris'],
+  ['CSL-JSON', CSL_JSON, 'csl-json'],
+  ['ORCID', ORCID, 'orcid']
+];
+
+for (const [label, content, format] of SOURCES) {
+  await test(`${label} is detected and parsed into citation records`, () => {
+    assert.equal(CitationFormats.detect(content), format);
+    assert.deepEqual(CitationFormats.parse(content, format), EXPECTED);
+  });
+
+  await test(`${label} records survive a BibTeX round trip`, () => {
+    assertRoundTrip(CitationFormats.parse(content, format));
+  });
+}
+
+await test('BibTeX export escapes special characters and keeps keys unique', () => {
+  const records: CitationRecord[] = [
+    { ...EXPECTED[0], title: 'Costs & Benefits of 100% Uptime {Revisited} on C:\\Servers', doi: '10.1000/a_b' },
+    { ...EXPECTED[0], title: 'Graph Neural Networks, Part Two', doi: null },
+    { ...EXPECTED[1], type: 'PREPRINT', conference: null }
+  ];
+  const bibtex = CitationFormats.toBibtex(records.map(toSource));
+  const keys = [...bibtex.matchAll(/^@\w+\{([^,]+),/gm)].map(match => match[1]);
+
+  assert.equal(new Set(keys).size, keys.length);
+  assert.match(bibtex, /^@misc\{/m);
+  assertRoundTrip(records);
+});
+
+await test('years outside four whole digits are stored as unknown', () => {
+  for (const year of ['2147483648', '2020.5', '99']) {
+    const [record] = CitationFormats.parse(`@article{k, title = {T}, year = {${year}}, month = {3}}`, 'bibtex');
+    assert.equal(record.year, null, year);
+    assert.equal(record.publishedAt, null, year);
+  }
+});
+
+await test('DOIs are normalised and invalid ones dropped', () => {
+  assert.equal(CitationFormats.normalizeDoi('https://dx.doi.org/10.1000/ABC.1'), '10.1000/abc.1');
+  assert.equal(CitationFormats.normalizeDoi('doi: 10.1000/abc.1'), '10.1000/abc.1');
+  assert.equal(CitationFormats.normalizeDoi('not a doi'), null);
+});
+
+// Dry-run imports against an in-memory profile
+let existing: any[] = [];
+(prisma as any).$transaction = async (fn: (tx: any) => Promise<unknown>) => fn({
+  profile: { upsert: async () => ({}) },
+  publication: { findMany: async () => existing }
+});
+
+function storedPublication(fields: Partial<CitationRecord> & { id: string; title: string }) {
+  return { authors: [], journal: null, conference: null, publishedAt: null, year: null, doi: null, url: null, type: null, ...fields };
+}
+
+await test('import matches existing publications by DOI before title', async () => {
+  existing = [storedPublication({ id: 'p1', title: 'An Older Title', doi: 'https://doi.org/10.1000/JOS.2023.042' })];
+  const report = await PublicationImportService.importPublications('user-1', BIBTEX, { dryRun: true });
+
+  assert.deepEqual(report.updated.map(entry => entry.id), ['p1']);
+  assert.ok(report.updated[0].fields.includes('authors'));
+  assert.deepEqual(report.created.map(entry => entry.title), ['Low-Latency Indoor Navigation']);
+});
+
+await test('import matches titles regardless of case and punctuation', async () => {
+  existing = [
+    storedPublication({ ...EXPECTED[1], id: 'p2', title: 'low latency indoor navigation.' }),
+    storedPublication({ ...EXPECTED[0], id: 'p1' })
+  ];
+  const report = await PublicationImportService.importPublications('user-1', RIS, { dryRun: true });
+
+  assert.equal(report.created.length, 0);
+  assert.deepEqual(report.skipped.map(entry => entry.reason), ['Already on your profile', 'Already on your profile']);
+});
+
+await test('a title match with a different DOI is a new publication', async () => {
+  existing = [storedPublication({ id: 'p3', title: EXPECTED[0].title, doi: '10.1000/other' })];
+  const report = await PublicationImportService.importPublications('user-1', CSL_JSON, { dryRun: true });
+
+  assert.equal(report.updated.length, 0);
+  assert.deepEqual(report.created.map(entry => entry.title), EXPECTED.map(record => record.title));
+});
+
+await test('duplicates within one file are skipped', async () => {
+  existing = [];
+  const duplicated = JSON.stringify([
+    ...JSON.parse(CSL_JSON),
+    { type: 'article-journal', title: 'A Retitled Copy', DOI: 'doi:10.1000/JOS.2023.042' },
+    { type: 'paper-conference', title: 'LOW-LATENCY INDOOR NAVIGATION' }
+  ]);
+  const report = await PublicationImportService.importPublications('user-1', duplicated, { dryRun: true });
+
+  assert.equal(report.total, 4);
+  assert.equal(report.created.length, 2);
+  assert.deepEqual(report.skipped, [
+    { title: 'A Retitled Copy', reason: 'Duplicate entry in the file' },
+    { title: 'LOW-LATENCY INDOOR NAVIGATION', reason: 'Duplicate entry in the file' }
+  ]);
+});
+
+finish();
@@ -0,0 +1,94 @@
+/**
+ * Erasure receipt chain verification
+ * Run with: npx tsx tests/erasure-receipts.test.ts
+ * Receipts are served from memory in place of the erasure_receipts table
+ */
+
+import assert from 'node:assert/strict';
+import { test, finish } from './helpers.js';
+import { prisma } from '../src/db.js';
+import { PersonalDataService } from '../src/services/PersonalDataService.js';
+
+console.log('=== Erasure Receipts ===\n');
+
+type Receipt = {
+  id: string;
+  sequence: number;
+  subjectHash: string;
+  requestedBy: string;
+  summary: Record<string, number>;
+  erasedAt: Date;
+  previousHash: string | null;
+  hash: string;
+};
+
+// Hashes come from the service itself, so the chain is built exactly as erase() builds it
+const receiptHash = (fields: Omit<Receipt, 'id' | 'hash'>): string =>
+  (PersonalDataService as any).receiptHash(fields);
+
+function buildChain(length: number): Receipt[] {
+  const receipts: Receipt[] = [];
+  for (let sequence = 1; sequence <= length; sequence++) {
+    const fields = {
+      sequence,
+      subjectHash: `subject-${sequence}`,
+      requestedBy: sequence % 2 === 0 ? 'self' : 'admin-1',
+      summary: { profile: 1, projects: sequence, publications: 0 },
+      erasedAt: new Date(Date.UTC(2024, 0, sequence)),
+      previousHash: receipts[sequence - 2]?.hash ?? null
+    };
+    receipts.push({ id: `receipt-${sequence}`, ...fields, hash: receiptHash(fields) });
+  }
+  return receipts;
+}
+
+let stored: Receipt[] = [];
+(prisma.erasureReceipt as any).findMany = async ({ where, take }: { where: { sequence: { gte: number } }; take: number }) =>
+  stored
+    .filter(receipt => receipt.sequence >= where.sequence.gte)
+    .sort((a, b) => a.sequence - b.sequence)
+    .slice(0, take)
+    .map(receipt => ({ ...receipt, summary: { ...receipt.summary } }));
+
+await test('an empty chain is valid', async () => {
+  stored = [];
+  assert.deepEqual(await PersonalDataService.verifyReceipts(), { valid: true, receipts: 0, brokenAt: null });
+});
+
+await test('an untouched chain is valid', async () => {
+  stored = buildChain(5);
+  assert.deepEqual(await PersonalDataService.verifyReceipts(), { valid: true, receipts: 5, brokenAt: null });
+});
+
+await test('summary key order does not affect the hash', async () => {
+  stored = buildChain(3);
+  stored[1].summary = { publications: 0, projects: 2, profile: 1 };
+  assert.equal((await PersonalDataService.verifyReceipts()).valid, true);
+});
+
+await test('an edited summary breaks the chain at that receipt', async () => {
+  stored = buildChain(5);
+  stored[2].summary.projects = 0;
+  assert.deepEqual(await PersonalDataService.verifyReceipts(), { valid: false, receipts: 2, brokenAt: 3 });
+});
+
+await test('a rehashed receipt breaks the link from the next one', async () => {
+  stored = buildChain(5);
+  const { id, hash, ...fields } = stored[1];
+  stored[1] = { id, ...fields, requestedBy: 'someone-else', hash: receiptHash({ ...fields, requestedBy: 'someone-else' }) };
+  assert.deepEqual(await PersonalDataService.verifyReceipts(), { valid: false, receipts: 2, brokenAt: 3 });
+});
+
+await test('a deleted receipt leaves a gap in the sequence', async () => {
+  stored = buildChain(5);
+  stored.splice(3, 1);
+  assert.deepEqual(await PersonalDataService.verifyReceipts(), { valid: false, receipts: 3, brokenAt: 4 });
+});
+
+await test('a changed erasure time is detected', async () => {
+  stored = buildChain(2);
+  stored[0].erasedAt = new Date(stored[0].erasedAt.getTime() + 1000);
+  assert.deepEqual(await PersonalDataService.verifyReceipts(), { valid: false, receipts: 0, brokenAt: 1 });
+});
+
+finish();
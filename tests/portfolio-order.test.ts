@@ -0,0 +1,87 @@
+/**
+ * Portfolio reorder validation
+ * Run with: npx tsx tests/portfolio-order.test.ts
+ * Publications are kept in memory in place of their table
+ */
+
+import assert from 'node:assert/strict';
+import { test, finish } from './helpers.js';
+import { prisma } from '../src/db.js';
+import { PortfolioOrderService, PortfolioOrderError } from '../src/services/PortfolioOrderService.js';
+
+console.log('=== Portfolio Order ===\n');
+
+type Publication = { id: string; userId: string; title: string; position: number; isFeatured: boolean; deletedAt: Date | null };
+let publications: Publication[] = [];
+let updates = 0;
+
+(prisma.publication as any).findMany = async ({ where }: { where: { userId: string } }) => publications
+  .filter(publication => publication.userId === where.userId && publication.deletedAt === null)
+  .sort((a, b) => Number(b.isFeatured) - Number(a.isFeatured) || a.position - b.position)
+  .map(({ id, title, position, isFeatured }) => ({ id, title, position, isFeatured }));
+(prisma.publication as any).update = async ({ where, data }: { where: { id: string }; data: Partial<Publication> }) => {
+  updates++;
+  Object.assign(publications.find(publication => publication.id === where.id)!, data);
+};
+(prisma as any).$transaction = async (operations: Promise<unknown>[]) => Promise.all(operations);
+
+function reset() {
+  updates = 0;
+  publications = [
+    { id: 'a', userId: 'user-1', title: 'A', position: 0, isFeatured: false, deletedAt: null },
+    { id: 'b', userId: 'user-1', title: 'B', position: 0, isFeatured: false, deletedAt: null },
+    { id: 'c', userId: 'user-1', title: 'C', position: 0, isFeatured: false, deletedAt: null },
+    { id: 'gone', userId: 'user-1', title: 'Trashed', position: 0, isFeatured: false, deletedAt: new Date() },
+    { id: 'other', userId: 'user-2', title: 'Not mine', position: 0, isFeatured: false, deletedAt: null }
+  ];
+}
+
+async function rejectsWith(items: Array<{ id: string; isFeatured?: boolean }>, message: RegExp) {
+  await assert.rejects(
+    PortfolioOrderService.reorder('user-1', 'PUBLICATION', items),
+    (error: unknown) => error instanceof PortfolioOrderError && error.statusCode === 400 && message.test(error.message)
+  );
+  assert.equal(updates, 0, 'nothing is written when the order is rejected');
+}
+
+await test('a full order sets positions and featured flags', async () => {
+  reset();
+  const listed = await PortfolioOrderService.reorder('user-1', 'PUBLICATION', [
+    { id: 'c' },
+    { id: 'a', isFeatured: true },
+    { id: 'b' }
+  ]);
+
+  assert.deepEqual(listed.map(item => item.id), ['a', 'c', 'b']);
+  assert.deepEqual(
+    publications.slice(0, 3).map(({ id, position, isFeatured }) => ({ id, position, isFeatured })),
+    [
+      { id: 'a', position: 1, isFeatured: true },
+      { id: 'b', position: 2, isFeatured: false },
+      { id: 'c', position: 0, isFeatured: false }
+    ]
+  );
+});
+
+await test('omitting isFeatured leaves the flag unchanged', async () => {
+  await PortfolioOrderService.reorder('user-1', 'PUBLICATION', [{ id: 'a' }, { id: 'b' }, { id: 'c' }]);
+  assert.equal(publications[0].isFeatured, true);
+});
+
+await test('an item listed twice is rejected', async () => {
+  reset();
+  await rejectsWith([{ id: 'a' }, { id: 'a' }, { id: 'b' }, { id: 'c' }], /only appear once/);
+});
+
+await test("trashed items and other users' items are unknown", async () => {
+  reset();
+  await rejectsWith([{ id: 'a' }, { id: 'b' }, { id: 'c' }, { id: 'gone' }], /Unknown item\(s\): gone/);
+  await rejectsWith([{ id: 'a' }, { id: 'b' }, { id: 'other' }], /Unknown item\(s\): other/);
+});
+
+await test('an order that leaves an item out is rejected', async () => {
+  reset();
+  await rejectsWith([{ id: 'a' }, { id: 'b' }], /every item/);
+});
+
+finish();
@@ -0,0 +1,130 @@
+/**
+ * Profile history diffs and restores
+ * Run with: npx tsx tests/profile-history.test.ts
+ * Revisions and projects are kept in memory in place of their tables
+ */
+
+import assert from 'node:assert/strict';
+import { test, finish } from './helpers.js';
+import { prisma } from '../src/db.js';
+import { ProfileHistoryService, ProfileHistoryError, FieldChange } from '../src/services/ProfileHistoryService.js';
+
+console.log('=== Profile History ===\n');
+
+const PROJECT_FIELDS = ['title', 'description', 'technologies', 'startDate', 'isVisible'];
+
+const diff = (before: Record<string, unknown> | null, after: Record<string, unknown> | null): FieldChange[] =>
+  (ProfileHistoryService as any).diff(before, after, PROJECT_FIELDS);
+
+await test('diff lists changed fields only', () => {
+  assert.deepEqual(
+    diff(
+      { title: 'Timetabler', description: 'v1', technologies: ['ts'] },
+      { title: 'Timetabler', description: 'v2', technologies: ['ts', 'sql'] }
+    ),
+    [
+      { field: 'description', from: 'v1', to: 'v2' },
+      { field: 'technologies', from: ['ts'], to: ['ts', 'sql'] }
+    ]
+  );
+});
+
+await test('diff of a partial update ignores fields it did not touch', () => {
+  assert.deepEqual(
+    diff({ title: 'Timetabler', description: 'v1' }, { description: 'v2' }),
+    [{ field: 'description', from: 'v1', to: 'v2' }]
+  );
+});
+
+await test('diff of a creation or deletion covers every present field', () => {
+  assert.deepEqual(diff(null, { title: 'New', isVisible: true }), [
+    { field: 'title', from: null, to: 'New' },
+    { field: 'isVisible', from: null, to: true }
+  ]);
+  assert.deepEqual(diff({ title: 'Old' }, null), [{ field: 'title', from: 'Old', to: null }]);
+});
+
+// In-memory revisions and projects for one owner
+type Revision = { id: string; userId: string; entityType: string; entityId: string; version: number; [key: string]: any };
+let revisions: Revision[] = [];
+let projects: Record<string, any>[] = [];
+
+const latestFirst = (where: Partial<Revision>) => revisions
+  .filter(revision => Object.entries(where).every(([key, value]) => revision[key] === value))
+  .sort((a, b) => b.version - a.version)[0] ?? null;
+
+(prisma.profileRevision as any).findFirst = async ({ where }: { where: Partial<Revision> }) => latestFirst(where);
+(prisma.profileRevision as any).create = async ({ data }: { data: Omit<Revision, 'id'> }) => {
+  const revision = { ...data, id: `rev-${revisions.length + 1}` } as Revision;
+  revisions.push(revision);
+  return revision;
+};
+(prisma.personalProject as any).findFirst = async ({ where }: { where: { id: string; userId: string } }) => {
+  const project = projects.find(candidate => candidate.id === where.id && candidate.userId === where.userId);
+  return project ? { ...project } : null;
+};
+(prisma.personalProject as any).update = async ({ where, data }: { where: { id: string }; data: Record<string, any> }) => {
+  const project = projects.find(candidate => candidate.id === where.id)!;
+  Object.assign(project, data);
+  return { ...project };
+};
+(prisma.personalProject as any).create = async ({ data }: { data: Record<string, any> }) => {
+  projects.push({ ...data });
+  return { ...data };
+};
+
+const OWNER = { id: 'user-1', source: 'OWNER' as const };
+
+async function recordProjectChange(before: Record<string, any> | null, after: Record<string, any> | null) {
+  await ProfileHistoryService.record({ userId: 'user-1', entityType: 'PROJECT', entityId: 'proj-1', before, after, actor: OWNER });
+}
+
+await test('restore puts a project back to an earlier version', async () => {
+  revisions = [];
+  const original = { id: 'proj-1', userId: 'user-1', title: 'Timetabler', description: 'v1', startDate: new Date(Date.UTC(2024, 0, 1)), deletedAt: null };
+  projects = [{ ...original, description: 'v2' }];
+  await recordProjectChange(null, original);
+  await recordProjectChange(original, { description: 'v2' });
+
+  const result = await ProfileHistoryService.restore('user-1', 'rev-1', OWNER);
+
+  assert.equal(projects[0].description, 'v1');
+  assert.deepEqual(projects[0].startDate, original.startDate);
+  assert.deepEqual(
+    { version: result.version, restoredFromVersion: result.restoredFromVersion },
+    { version: 3, restoredFromVersion: 1 }
+  );
+  assert.equal(revisions[2].action, 'RESTORE');
+  assert.deepEqual(revisions[2].changes, [{ field: 'description', from: 'v2', to: 'v1' }]);
+});
+
+await test('restoring a version the item already matches is refused', async () => {
+  await assert.rejects(
+    ProfileHistoryService.restore('user-1', 'rev-3', OWNER),
+    (error: unknown) => error instanceof ProfileHistoryError && error.statusCode === 409
+  );
+});
+
+await test('restore brings a deleted project back out of the trash', async () => {
+  projects[0].deletedAt = new Date();
+  await ProfileHistoryService.restore('user-1', 'rev-1', OWNER);
+  assert.equal(projects[0].deletedAt, null);
+});
+
+await test('restore recreates a purged project under its original id', async () => {
+  projects = [];
+  await ProfileHistoryService.restore('user-1', 'rev-1', OWNER);
+  assert.deepEqual(
+    { id: projects[0].id, userId: projects[0].userId, title: projects[0].title },
+    { id: 'proj-1', userId: 'user-1', title: 'Timetabler' }
+  );
+});
+
+await test("another user's revision is not found", async () => {
+  await assert.rejects(
+    ProfileHistoryService.restore('user-2', 'rev-1', { id: 'user-2', source: 'OWNER' }),
+    (error: unknown) => error instanceof ProfileHistoryError && error.statusCode === 404
+  );
+});
+
+finish();
@@ -0,0 +1,92 @@
+/**
+ * Profile insight counters and bucketing
+ * Run with: npx tsx tests/profile-insights.test.ts
+ * Flushed rows are served from memory; buffered rows stand in for the Redis hashes
+ */
+
+import assert from 'node:assert/strict';
+import { test, finish } from './helpers.js';
+import { prisma } from '../src/db.js';
+import { ProfileInsightsService } from '../src/services/ProfileInsightsService.js';
+
+console.log('=== Profile Insights ===\n');
+
+type CountRow = { day: string; metric: string; dimension: string; count: number };
+
+const parseCounts = (hash: Record<string, string>): CountRow[] => (ProfileInsightsService as any).parseCounts(hash);
+
+// Day keys relative to today, so the requested range always covers them
+function daysAgo(days: number): string {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() - days);
+  return date.toISOString().slice(0, 10);
+}
+
+await test('buffered counter fields are split into rows', () => {
+  assert.deepEqual(parseCounts({ '2024-05-01|VIEW|role:STUDENT': '3', '2024-05-01|SEARCH_APPEARANCE|total': '2' }), [
+    { day: '2024-05-01', metric: 'VIEW', dimension: 'role:STUDENT', count: 3 },
+    { day: '2024-05-01', metric: 'SEARCH_APPEARANCE', dimension: 'total', count: 2 }
+  ]);
+});
+
+await test('malformed fields and non-positive counts are dropped', () => {
+  assert.deepEqual(parseCounts({ 'garbage': '4', '2024-05-01|VIEW': '1', '2024-05-01|VIEW|total': '0', '2024-05-02|VIEW|total': 'x' }), []);
+});
+
+let stored: CountRow[] = [];
+let pending: CountRow[] = [];
+(prisma.profileInsightDaily as any).findMany = async () =>
+  stored.map(row => ({ ...row, day: new Date(`${row.day}T00:00:00Z`) }));
+(ProfileInsightsService as any).readPending = async () => pending;
+
+await test('flushed and buffered counts are bucketed by day and dimension', async () => {
+  stored = [
+    { day: daysAgo(2), metric: 'VIEW', dimension: 'total', count: 4 },
+    { day: daysAgo(2), metric: 'VIEW', dimension: 'role:STUDENT', count: 3 },
+    { day: daysAgo(2), metric: 'VIEW', dimension: 'role:FACULTY', count: 1 },
+    { day: daysAgo(2), metric: 'VIEW', dimension: 'college:same', count: 3 },
+    { day: daysAgo(2), metric: 'VIEW', dimension: 'college:other', count: 1 },
+    { day: daysAgo(2), metric: 'VIEW', dimension: 'admin:true', count: 1 },
+    { day: daysAgo(2), metric: 'VIEW', dimension: 'admin:false', count: 3 },
+    { day: daysAgo(1), metric: 'SEARCH_APPEARANCE', dimension: 'total', count: 5 }
+  ];
+  pending = [
+    { day: daysAgo(0), metric: 'VIEW', dimension: 'total', count: 2 },
+    { day: daysAgo(0), metric: 'VIEW', dimension: 'role:FACULTY', count: 2 },
+    { day: daysAgo(0), metric: 'VIEW', dimension: 'college:other', count: 2 }
+  ];
+
+  const insights = await ProfileInsightsService.getInsights('user-1', 3);
+
+  assert.deepEqual(insights.range, { from: daysAgo(2), to: daysAgo(0), days: 3 });
+  assert.deepEqual(insights.totals, { views: 6, searchAppearances: 5 });
+  assert.deepEqual(insights.daily, [
+    { date: daysAgo(2), views: 4, searchAppearances: 0 },
+    { date: daysAgo(1), views: 0, searchAppearances: 5 },
+    { date: daysAgo(0), views: 2, searchAppearances: 0 }
+  ]);
+  assert.deepEqual(insights.viewerRoles, [{ role: 'STUDENT', count: 3 }, { role: 'FACULTY', count: 3 }]);
+  assert.deepEqual(insights.viewerColleges, { sameCollege: 3, otherCollege: 3 });
+  assert.equal(insights.adminViews, 1);
+});
+
+await test('buffered counts older than the range are left out', async () => {
+  stored = [];
+  pending = [
+    { day: daysAgo(5), metric: 'VIEW', dimension: 'total', count: 9 },
+    { day: daysAgo(0), metric: 'VIEW', dimension: 'total', count: 1 }
+  ];
+
+  const insights = await ProfileInsightsService.getInsights('user-1', 2);
+  assert.equal(insights.totals.views, 1);
+  assert.equal(insights.daily.length, 2);
+});
+
+await test('the range is clamped to between one and the maximum days', async () => {
+  stored = [];
+  pending = [];
+  assert.equal((await ProfileInsightsService.getInsights('user-1', 0)).daily.length, 1);
+  assert.equal((await ProfileInsightsService.getInsights('user-1', 365)).range.days, ProfileInsightsService.MAX_DAYS);
+});
+
+finish();
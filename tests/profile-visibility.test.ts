@@ -0,0 +1,85 @@
+/**
+ * Per-field profile visibility
+ * Run with: npx tsx tests/profile-visibility.test.ts
+ */
+
+import assert from 'node:assert/strict';
+import { test, finish } from './helpers.js';
+import {
+  resolveVisibility,
+  canViewLevel,
+  applyVisibility,
+  DEFAULT_VISIBILITY
+} from '../src/middleware/piiProtection.js';
+
+console.log('=== Profile Visibility ===\n');
+
+await test('PII defaults to private and everything else to public', () => {
+  const settings = resolveVisibility(null);
+  assert.equal(settings.phoneNumber, 'PRIVATE');
+  assert.equal(settings.email, 'PRIVATE');
+  assert.equal(settings.bio, 'PUBLIC');
+  assert.equal(settings.badges, 'PUBLIC');
+});
+
+await test('stored settings override the defaults, ignoring unknown fields and levels', () => {
+  const settings = resolveVisibility({ bio: 'COLLEGE', github: 'PUBLIC', skills: 'FRIENDS', shoeSize: 'PUBLIC' });
+  assert.equal(settings.bio, 'COLLEGE');
+  assert.equal(settings.github, 'PUBLIC');
+  assert.equal(settings.skills, DEFAULT_VISIBILITY.skills);
+  assert.equal('shoeSize' in settings, false);
+  assert.deepEqual(resolveVisibility(['bio']), DEFAULT_VISIBILITY);
+});
+
+await test('each level admits the right viewers', () => {
+  const outsider = { collegeId: 'college-2' };
+  const classmate = { collegeId: 'college-1' };
+  const connection = { collegeId: 'college-2', isConnection: true };
+
+  assert.equal(canViewLevel('PUBLIC', undefined, {}, 'college-1'), true);
+
+  assert.equal(canViewLevel('COLLEGE', 'viewer', classmate, 'college-1'), true);
+  assert.equal(canViewLevel('COLLEGE', 'viewer', connection, 'college-1'), true);
+  assert.equal(canViewLevel('COLLEGE', 'viewer', outsider, 'college-1'), false);
+  assert.equal(canViewLevel('COLLEGE', undefined, classmate, 'college-1'), false);
+  assert.equal(canViewLevel('COLLEGE', 'viewer', { collegeId: undefined }, undefined), false);
+
+  assert.equal(canViewLevel('CONNECTIONS', 'viewer', connection, 'college-1'), true);
+  assert.equal(canViewLevel('CONNECTIONS', 'viewer', classmate, 'college-1'), false);
+
+  assert.equal(canViewLevel('PRIVATE', 'viewer', connection, 'college-1'), false);
+});
+
+const PROFILE = {
+  userId: 'owner',
+  collegeId: 'college-1',
+  bio: 'Hello',
+  skills: ['ts'],
+  skillDetails: [{ skill: 'ts' }],
+  projects: [{ id: 'p1' }],
+  projectCount: 1,
+  badgeCount: 3,
+  github: 'owner-gh',
+  snippet: 'matched <mark>Hello</mark>',
+  visibility: { bio: 'CONNECTIONS', projects: 'COLLEGE', github: 'PUBLIC' }
+};
+
+await test('hidden sections drop every response key they cover', () => {
+  const visible = applyVisibility(PROFILE, 'viewer', { collegeId: 'college-2' });
+
+  assert.deepEqual(Object.keys(visible).sort(), ['badgeCount', 'collegeId', 'github', 'skillDetails', 'skills', 'userId']);
+  assert.equal(visible.github, 'owner-gh');
+});
+
+await test('a snippet survives only while its sources are visible', () => {
+  const classmate = applyVisibility(PROFILE, 'viewer', { collegeId: 'college-1' });
+  assert.equal('projects' in classmate, true);
+  assert.equal('snippet' in classmate, false);
+
+  const connection = applyVisibility(PROFILE, 'viewer', { collegeId: 'college-1', isConnection: true });
+  assert.equal(connection.bio, 'Hello');
+  assert.equal(connection.snippet, PROFILE.snippet);
+  assert.equal('visibility' in connection, false);
+});
+
+finish();
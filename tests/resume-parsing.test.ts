@@ -0,0 +1,164 @@
+/**
+ * Resume text extraction and section parsing
+ * Run with: npx tsx tests/resume-parsing.test.ts
+ */
+
+import assert from 'node:assert/strict';
+import { deflateSync } from 'node:zlib';
+import { test, finish } from './helpers.js';
+import { ResumeParser } from '../src/utils/ResumeParser.js';
+import { ResumeTextExtractor } from '../src/utils/ResumeTextExtractor.js';
+import { ZipArchive } from '../src/utils/ZipArchive.js';
+
+console.log('=== Resume Parsing ===\n');
+
+const RESUME_LINES = [
+  'Jane Doe',
+  'jane.doe@example.com | +1 555 123 4567',
+  'linkedin.com/in/janedoe | github.com/janedoe',
+  'Experience',
+  'Software Engineering Intern — Acme Corp',
+  'Jun 2023 - Aug 2023',
+  '• Built a billing dashboard in React',
+  '• Cut API latency by 30%',
+  'Teaching Assistant, State University   Jan 2024 - Present',
+  '- Ran weekly labs for 40 students',
+  'Projects',
+  'Campus Navigator (React Native, Firebase)  https://github.com/janedoe/navigator',
+  '• Indoor maps for the campus',
+  'Skills',
+  'Languages: TypeScript, Python, C++',
+  'Tools: Docker, Git',
+  'Education',
+  'State University',
+  'B.Sc. Computer Science  2021 - 2025'
+];
+
+/**
+ * A one-page PDF whose content stream draws each line with Tj, compressed like word processors do
+ * Bullets and dashes use their WinAnsi codes, as simple-encoded fonts store them
+ */
+function buildPdf(lines: string[]): Buffer {
+  const escape = (line: string) => line
+    .replace(/[\\()]/g, char => `\\${char}`)
+    .replace(/•/g, '\x95')
+    .replace(/—/g, '\x97');
+  const content = ['BT', '/F1 11 Tf', '72 760 Td', ...lines.flatMap(line => [`(${escape(line)}) Tj`, '0 -14 Td']), 'ET'].join('\n');
+  const stream = deflateSync(Buffer.from(content, 'latin1'));
+
+  return Buffer.concat([
+    Buffer.from('%PDF-1.4\n1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj\n', 'latin1'),
+    Buffer.from('2 0 obj\n<< /Type /Pages /Kids [3 0 R] /Count 1 >>\nendobj\n', 'latin1'),
+    Buffer.from('3 0 obj\n<< /Type /Page /Parent 2 0 R /Contents 4 0 R >>\nendobj\n', 'latin1'),
+    Buffer.from(`4 0 obj\n<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+    stream,
+    Buffer.from('\nendstream\nendobj\ntrailer\n<< /Root 1 0 R >>\n%%EOF\n', 'latin1')
+  ]);
+}
+
+/**
+ * A DOCX with one paragraph per line; bullet lines become Word list paragraphs
+ */
+function buildDocx(lines: string[]): Buffer {
+  const escape = (line: string) => line.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const paragraphs = lines.map(line => {
+    const bullet = /^[•-] /.test(line);
+    const properties = bullet ? '<w:pPr><w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr></w:pPr>' : '';
+    return `<w:p>${properties}<w:r><w:t xml:space="preserve">${escape(bullet ? line.slice(2) : line)}</w:t></w:r></w:p>`;
+  });
+  const document = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>' +
+    paragraphs.join('') +
+    '</w:body></w:document>';
+
+  return new ZipArchive()
+    .addFile('[Content_Types].xml', '<?xml version="1.0" encoding="UTF-8"?><Types/>')
+    .addFile('word/document.xml', document)
+    .toBuffer();
+}
+
+function checkSections(text: string): void {
+  const parsed = ResumeParser.parse(text);
+
+  assert.equal(parsed.name, 'Jane Doe');
+
+  assert.equal(parsed.experiences.length, 2);
+  assert.deepEqual(
+    parsed.experiences.map(({ title, company, startDate, endDate, isCurrent }) => ({ title, company, startDate, endDate, isCurrent })),
+    [
+      {
+        title: 'Software Engineering Intern',
+        company: 'Acme Corp',
+        startDate: '2023-06-01T00:00:00.000Z',
+        endDate: '2023-08-01T00:00:00.000Z',
+        isCurrent: false
+      },
+      {
+        title: 'Teaching Assistant',
+        company: 'State University',
+        startDate: '2024-01-01T00:00:00.000Z',
+        endDate: null,
+        isCurrent: true
+      }
+    ]
+  );
+  assert.equal(parsed.experiences[0].type, 'INTERNSHIP');
+  assert.equal(parsed.experiences[0].description, 'Built a billing dashboard in React\nCut API latency by 30%');
+
+  assert.equal(parsed.projects.length, 1);
+  assert.equal(parsed.projects[0].title, 'Campus Navigator');
+  assert.deepEqual(parsed.projects[0].technologies, ['React Native', 'Firebase']);
+  assert.equal(parsed.projects[0].githubUrl, 'https://github.com/janedoe/navigator');
+  assert.equal(parsed.projects[0].description, 'Indoor maps for the campus');
+
+  assert.deepEqual(parsed.skills, ['TypeScript', 'Python', 'C++', 'Docker', 'Git']);
+
+  assert.equal(parsed.education.length, 1);
+  assert.equal(parsed.education[0].institution, 'State University');
+  assert.equal(parsed.education[0].degree, 'B.Sc. Computer Science');
+
+  assert.equal(parsed.links.linkedIn, 'https://linkedin.com/in/janedoe');
+  assert.equal(parsed.links.github, 'https://github.com/janedoe');
+}
+
+await test('plain text splits into experience, projects, skills and education', () => {
+  checkSections(RESUME_LINES.join('\n'));
+});
+
+await test('text uploads drop the byte order mark and Windows line endings', () => {
+  const text = ResumeTextExtractor.extract(Buffer.from(`﻿${RESUME_LINES.join('\r\n')}`, 'utf8'), 'TEXT');
+  assert.ok(!text.includes('\r'));
+  checkSections(text);
+});
+
+await test('headings are recognised in any case and with trailing colons', () => {
+  const text = RESUME_LINES
+    .map(line => line === 'Experience' ? 'WORK EXPERIENCE:' : line === 'Skills' ? 'Technical Skills' : line)
+    .join('\n');
+  checkSections(text);
+});
+
+await test('DOCX paragraphs and list items are extracted', () => {
+  const docx = buildDocx(RESUME_LINES);
+  assert.equal(ResumeTextExtractor.sniff(docx, 'TEXT'), 'DOCX');
+  checkSections(ResumeTextExtractor.extract(docx, 'DOCX'));
+});
+
+await test('PDF text from compressed content streams is extracted', () => {
+  const pdf = buildPdf(RESUME_LINES);
+  assert.equal(ResumeTextExtractor.sniff(pdf, 'TEXT'), 'PDF');
+  checkSections(ResumeTextExtractor.extract(pdf, 'PDF'));
+});
+
+await test('PDF streams that together inflate past the limit are rejected', () => {
+  const stream = deflateSync(Buffer.alloc(4 * 1024 * 1024, 0x20));
+  const objects = Array.from({ length: 6 }, (_, i) => Buffer.concat([
+    Buffer.from(`${i + 1} 0 obj\n<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+    stream,
+    Buffer.from('\nendstream\nendobj\n', 'latin1')
+  ]));
+  const pdf = Buffer.concat([Buffer.from('%PDF-1.4\n', 'latin1'), ...objects]);
+  assert.throws(() => ResumeTextExtractor.extract(pdf, 'PDF'), /decompression limit/);
+});
+
+finish();
@@ -0,0 +1,38 @@
+/**
+ * Skill key normalisation
+ * Run with: npx tsx tests/skill-taxonomy.test.ts
+ */
+
+import assert from 'node:assert/strict';
+import { test, finish } from './helpers.js';
+import { SkillTaxonomyService } from '../src/services/SkillTaxonomyService.js';
+
+console.log('=== Skill Taxonomy ===\n');
+
+await test('ignores case, spaces, dots, dashes and underscores', () => {
+  assert.equal(SkillTaxonomyService.normalizeKey('Node.js'), 'nodejs');
+  assert.equal(SkillTaxonomyService.normalizeKey('  Machine   Learning '), 'machinelearning');
+  assert.equal(SkillTaxonomyService.normalizeKey('Spring-Boot'), 'springboot');
+  assert.equal(SkillTaxonomyService.normalizeKey('data_structures'), 'datastructures');
+});
+
+await test('spelling variants share a key', () => {
+  const keys = ['React.js', 'ReactJS', 'react js', 'REACT-JS'].map(value => SkillTaxonomyService.normalizeKey(value));
+  assert.equal(new Set(keys).size, 1);
+});
+
+await test('keeps symbols that tell skills apart', () => {
+  assert.equal(SkillTaxonomyService.normalizeKey('C++'), 'c++');
+  assert.equal(SkillTaxonomyService.normalizeKey('C#'), 'c#');
+  assert.notEqual(SkillTaxonomyService.normalizeKey('C++'), SkillTaxonomyService.normalizeKey('C'));
+});
+
+await test('folds compatibility characters', () => {
+  assert.equal(SkillTaxonomyService.normalizeKey('ＳＱＬ'), 'sql');
+});
+
+await test('blank input has an empty key', () => {
+  assert.equal(SkillTaxonomyService.normalizeKey(' \t '), '');
+});
+
+finish();
@@ -0,0 +1,60 @@
+/**
+ * ZIP output readable by standard tools
+ * Run with: npx tsx tests/zip-archive.test.ts (needs the unzip command)
+ */
+
+import assert from 'node:assert/strict';
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { test, finish } from './helpers.js';
+import { ZipArchive } from '../src/utils/ZipArchive.js';
+
+console.log('=== ZIP Archive ===\n');
+
+// unzip only decodes UTF-8 names under a UTF-8 locale
+const unzipEnv = { ...process.env, LC_ALL: 'C.UTF-8' };
+const directory = mkdtempSync(path.join(tmpdir(), 'zip-archive-test-'));
+const archivePath = path.join(directory, 'export.zip');
+
+const files: Record<string, Buffer> = {
+  'profile.json': Buffer.from(JSON.stringify({ name: 'Test User', skills: Array(200).fill('TypeScript') }, null, 2)),
+  'notes/résumé.txt': Buffer.from('UTF-8 names are kept\n'),
+  'empty.txt': Buffer.alloc(0),
+  'random.bin': Buffer.from(Array.from({ length: 512 }, (_, i) => (i * 7919) % 251))
+};
+
+try {
+  const archive = new ZipArchive(new Date(Date.UTC(2024, 4, 17, 10, 30)));
+  for (const [name, content] of Object.entries(files)) {
+    archive.addFile(name, content);
+  }
+  writeFileSync(archivePath, archive.toBuffer());
+
+  await test('unzip verifies every entry', () => {
+    const output = execFileSync('unzip', ['-t', archivePath], { encoding: 'utf8', env: unzipEnv });
+    assert.match(output, /No errors detected/);
+  });
+
+  await test('unzip lists every entry by name', () => {
+    const output = execFileSync('unzip', ['-Z1', archivePath], { encoding: 'utf8', env: unzipEnv });
+    assert.deepEqual(output.trim().split('\n').sort(), Object.keys(files).sort());
+  });
+
+  await test('extracted files match the input', () => {
+    const target = path.join(directory, 'out');
+    execFileSync('unzip', ['-q', archivePath, '-d', target], { env: unzipEnv });
+    for (const [name, content] of Object.entries(files)) {
+      assert.ok(readFileSync(path.join(target, name)).equals(content), `${name} differs after extraction`);
+    }
+  });
+
+  await test('crc32 matches the reference value', () => {
+    assert.equal(ZipArchive.crc32(Buffer.from('123456789')), 0xcbf43926);
+  });
+} finally {
+  rmSync(directory, { recursive: true, force: true });
+}
+
+finish();